@@ -8,8 +8,12 @@ import { Command } from 'commander';
 import { MigrationMaker } from '../dist/CLI/MigrationMaker.js';
 import { SeederMaker } from '../dist/CLI/SeederMaker.js';
 import { FactoryMaker } from '../dist/CLI/FactoryMaker.js';
+import { ModelMaker } from '../dist/CLI/ModelMaker.js';
 import { MigrationRunner } from '../dist/CLI/MigrationRunner.js';
 import { SeederRunner } from '../dist/CLI/SeederRunner.js';
+import { ConnectionLoader } from '../dist/CLI/ConnectionLoader.js';
+import { TypeGenerator } from '../dist/CLI/TypeGenerator.js';
+import { DatabaseInspector } from '../dist/CLI/DatabaseInspector.js';
 import * as path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -47,7 +51,7 @@ program
         process.exit(1);
       }
       
-      const runner = new MigrationRunner();
+      const runner = new MigrationRunner({ database: options.database });
       await runner.run(options);
     } catch (error) {
       console.error('Migration failed:', error.message);
@@ -276,23 +280,136 @@ program
     }
   });
 
+// Make model command
+program
+  .command('make:model <name>')
+  .description('Create a new model class')
+  .option('--from-table [table]', 'Generate the model from an existing table')
+  .option('--database <database>', 'The database connection to use with --from-table')
+  .option('--path <path>', 'The directory to write the model to', 'models')
+  .action(async (name, options) => {
+    const loader = new ConnectionLoader();
+
+    try {
+      const maker = new ModelMaker();
+      let result;
+
+      if (options.fromTable) {
+        const table = typeof options.fromTable === 'string' ? options.fromTable : undefined;
+        result = await maker.createFromTable(name, loader.connection(options.database), table);
+        await loader.disconnect();
+      } else {
+        result = maker.create(name);
+      }
+
+      const { fileName, contents, className } = result;
+      const fullPath = maker.write(path.join(process.cwd(), options.path), fileName, contents);
+
+      console.log(`✅ Model created successfully!`);
+      console.log(`📄 ${fullPath}`);
+      console.log(`🏷️  Class: ${className}`);
+    } catch (error) {
+      console.error('❌ Error creating model:', error.message);
+      process.exit(1);
+    }
+  });
+
+// Type generation
+program
+  .command('types:generate')
+  .description('Generate TypeScript types from the database schema')
+  .option('--database <database>', 'The database connection to use')
+  .option('--output <path>', 'The file to write the types to', path.join('database', 'types.ts'))
+  .option('--check', 'Fail if the types file is out of date instead of writing it')
+  .action(async (options) => {
+    const loader = new ConnectionLoader();
+
+    try {
+      const generator = new TypeGenerator(loader.connection(options.database));
+      const outputPath = path.resolve(process.cwd(), options.output);
+
+      if (options.check) {
+        const fresh = await generator.check(outputPath);
+        await loader.disconnect();
+
+        if (!fresh) {
+          console.error(`❌ ${outputPath} is out of date. Run "guruorm types:generate" to update it.`);
+          process.exit(1);
+        }
+
+        console.log(`✅ ${outputPath} is up to date.`);
+        return;
+      }
+
+      await generator.write(outputPath);
+      await loader.disconnect();
+
+      console.log(`✅ Types generated successfully!`);
+      console.log(`📄 ${outputPath}`);
+    } catch (error) {
+      console.error('❌ Error generating types:', error.message);
+      process.exit(1);
+    }
+  });
+
 // Schema commands
 program
   .command('schema:dump')
   .description('Dump the database schema')
   .option('--database <database>', 'The database connection to use')
-  .action((options) => {
-    console.log('Dumping schema...', options);
-    console.log('This feature will be implemented in Phase 8');
+  .option('--prune', 'Delete all existing migration files')
+  .action(async (options) => {
+    try {
+      const runner = new MigrationRunner({ database: options.database });
+      await runner.dumpSchema({ prune: options.prune });
+    } catch (error) {
+      console.error('❌ Error:', error.message);
+      process.exit(1);
+    }
   });
 
 program
   .command('db:show')
   .description('Display information about the database')
   .option('--database <database>', 'The database connection to use')
-  .action((options) => {
-    console.log('Database information:', options);
-    console.log('This feature will be implemented in Phase 8');
+  .option('--json', 'Output the database information as JSON')
+  .action(async (options) => {
+    const loader = new ConnectionLoader();
+
+    try {
+      const inspector = new DatabaseInspector(loader.connection(options.database));
+      const summary = await inspector.show();
+      await loader.disconnect();
+
+      console.log(options.json ? JSON.stringify(summary, null, 2) : inspector.formatShow(summary));
+    } catch (error) {
+      console.error('❌ Error inspecting database:', error.message);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('db:table <table>')
+  .description('Display information about the given database table')
+  .option('--database <database>', 'The database connection to use')
+  .option('--models <path>', 'The directory to look for the model of the table in', 'models')
+  .option('--json', 'Output the table information as JSON')
+  .action(async (table, options) => {
+    const loader = new ConnectionLoader();
+
+    try {
+      const inspector = new DatabaseInspector(
+        loader.connection(options.database),
+        [path.join(process.cwd(), options.models)],
+      );
+      const details = await inspector.table(table);
+      await loader.disconnect();
+
+      console.log(options.json ? JSON.stringify(details, null, 2) : inspector.formatTable(details));
+    } catch (error) {
+      console.error('❌ Error inspecting table:', error.message);
+      process.exit(1);
+    }
   });
 
 // Model commands
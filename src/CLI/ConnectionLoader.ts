@@ -0,0 +1,129 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { Manager as Capsule } from '../Capsule/Manager';
+import { Connection } from '../Connection/Connection';
+import { ConnectionConfig } from '../Connection/ConnectionInterface';
+import { GuruORMError } from '../Errors/GuruORMError';
+import { getRequire } from '../Support/compat.js';
+
+/**
+ * The contents of guruorm.config.js: named connections with the name of the
+ * default one, a single default connection, or the connection settings themselves
+ */
+export interface CliConfig extends Partial<ConnectionConfig> {
+  default?: string | ConnectionConfig;
+  connections?: Record<string, ConnectionConfig>;
+}
+
+/**
+ * Connection Loader - boots the connections of guruorm.config.js for CLI commands
+ */
+export class ConnectionLoader {
+  protected config: CliConfig | null;
+
+  protected capsule: Capsule | null = null;
+
+  constructor(cwd: string = process.cwd()) {
+    this.config = this.loadConfig(cwd);
+  }
+
+  /**
+   * Load guruorm.config.cjs or guruorm.config.js if either exists
+   */
+  protected loadConfig(cwd: string): CliConfig | null {
+    const cjsConfigPath = path.join(cwd, 'guruorm.config.cjs');
+    const jsConfigPath = path.join(cwd, 'guruorm.config.js');
+    const configPath = fs.existsSync(cjsConfigPath) ? cjsConfigPath : jsConfigPath;
+
+    if (fs.existsSync(configPath)) {
+      return getRequire()(configPath);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the loaded config, or null when the connection comes from environment variables
+   */
+  getConfig(): CliConfig | null {
+    return this.config;
+  }
+
+  /**
+   * Get the capsule with every configured connection registered
+   */
+  getCapsule(): Capsule {
+    if (!this.capsule) {
+      const capsule = new Capsule();
+
+      Object.entries(this.connectionConfigs()).forEach(([name, config]) => {
+        capsule.addConnection(config, name);
+      });
+
+      capsule.bootEloquent();
+      capsule.setAsGlobal();
+      this.capsule = capsule;
+    }
+
+    return this.capsule;
+  }
+
+  /**
+   * Get a connection by name, or the default connection
+   */
+  connection(name?: string): Connection {
+    const configs = this.connectionConfigs();
+
+    if (name && !configs[name]) {
+      throw new GuruORMError(`Connection [${name}] not found in config.`);
+    }
+
+    return this.getCapsule().getConnection(name) as Connection;
+  }
+
+  /**
+   * Close every connection opened by the loader
+   */
+  async disconnect(): Promise<void> {
+    if (this.capsule) {
+      await this.capsule.disconnect();
+    }
+  }
+
+  /**
+   * Get the connection configs keyed by name. The default connection is
+   * registered as "default" as well, so commands can omit the name.
+   */
+  protected connectionConfigs(): Record<string, ConnectionConfig> {
+    const { config } = this;
+
+    if (!config) {
+      return {
+        default: {
+          driver: (process.env.DB_DRIVER || 'mysql') as ConnectionConfig['driver'],
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '3306', 10),
+          database: process.env.DB_DATABASE || 'database',
+          username: process.env.DB_USERNAME || 'root',
+          password: process.env.DB_PASSWORD || '',
+        },
+      };
+    }
+
+    if (config.connections && typeof config.default === 'string') {
+      const connection = config.connections[config.default];
+
+      if (!connection) {
+        throw new GuruORMError(`Connection [${config.default}] not found in config.`);
+      }
+
+      return { ...config.connections, default: connection };
+    }
+
+    if (config.connections) {
+      return { default: Object.values(config.connections)[0], ...config.connections };
+    }
+
+    return { default: (config.default || config) as ConnectionConfig };
+  }
+}
@@ -0,0 +1,343 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '../Connection/Connection';
+import { GuruORMError } from '../Errors/GuruORMError';
+import {
+  ColumnSchema, ForeignKeySchema, IndexSchema, TableSchema,
+} from '../Schema/Builder';
+import { snakeCase } from '../Support/helpers';
+
+/**
+ * A table in the database overview
+ */
+export interface TableSummary {
+  name: string;
+  schema: string | null;
+  size: number | null;
+  rows: number;
+  comment: string | null;
+}
+
+/**
+ * The database overview shown by "db:show"
+ */
+export interface DatabaseSummary {
+  connection: string | null;
+  driver: string;
+  version: string | null;
+  database: string;
+  host: string | null;
+  port: number | null;
+  username: string | null;
+  openConnections: number | null;
+  size: number | null;
+  tables: TableSummary[];
+}
+
+/**
+ * The table details shown by "db:table"
+ */
+export interface TableDetails extends TableSummary {
+  columns: ColumnSchema[];
+  indexes: IndexSchema[];
+  foreignKeys: ForeignKeySchema[];
+  model: string | null;
+}
+
+const DRIVER_NAMES: Record<string, string> = {
+  mysql: 'MySQL',
+  pgsql: 'PostgreSQL',
+  sqlite: 'SQLite',
+  sqlserver: 'SQL Server',
+};
+
+/**
+ * Database Inspector - describes a live database for the "db:show" and "db:table" commands
+ */
+export class DatabaseInspector {
+  protected connection: Connection;
+
+  protected modelPaths: string[];
+
+  constructor(connection: Connection, modelPaths: string[] = []) {
+    this.connection = connection;
+    this.modelPaths = modelPaths;
+  }
+
+  /**
+   * Describe the database and its tables
+   */
+  async show(): Promise<DatabaseSummary> {
+    const tables = await Promise.all((await this.getTables()).map((table) => this.summarize(table)));
+
+    return {
+      connection: this.connection.getName(),
+      driver: this.connection.getDriverName(),
+      version: await this.getVersion(),
+      database: this.connection.getDatabaseName(),
+      host: this.connection.getConfig('host') || null,
+      port: this.connection.getConfig('port') ? Number(this.connection.getConfig('port')) : null,
+      username: this.connection.getConfig('username') || null,
+      openConnections: await this.getOpenConnections(),
+      size: this.getDatabaseSize(tables),
+      tables,
+    };
+  }
+
+  /**
+   * Describe a single table, including the model class mapped to it
+   */
+  async table(name: string): Promise<TableDetails> {
+    const table = (await this.getTables()).find((candidate) => candidate.name === name);
+
+    if (!table) {
+      throw new GuruORMError(`Table [${name}] does not exist.`);
+    }
+
+    const schema = this.connection.getSchemaBuilder();
+
+    return {
+      ...await this.summarize(table),
+      columns: await schema.getColumns(name),
+      indexes: await schema.getIndexes(name),
+      foreignKeys: await schema.getForeignKeys(name),
+      model: this.findModel(name),
+    };
+  }
+
+  /**
+   * Get the tables of the connection, without the table prefix
+   */
+  protected async getTables(): Promise<TableSchema[]> {
+    const prefix = this.connection.getTablePrefix();
+
+    return (await this.connection.getSchemaBuilder().getTables())
+      .filter((table) => table.name.startsWith(prefix))
+      .map((table) => ({ ...table, name: table.name.slice(prefix.length) }));
+  }
+
+  /**
+   * Summarize a table with its row count
+   */
+  protected async summarize(table: TableSchema): Promise<TableSummary> {
+    return {
+      name: table.name,
+      schema: table.schema,
+      size: table.size,
+      rows: await this.connection.table(table.name).count(),
+      comment: table.comment,
+    };
+  }
+
+  /**
+   * Get the version of the database server
+   */
+  protected async getVersion(): Promise<string | null> {
+    const queries: Record<string, string> = {
+      mysql: 'select version() as version',
+      pgsql: "select current_setting('server_version') as version",
+      sqlite: 'select sqlite_version() as version',
+      sqlserver: "select cast(serverproperty('ProductVersion') as varchar(128)) as version",
+    };
+
+    return this.selectValue(queries[this.connection.getDriverName()], 'version');
+  }
+
+  /**
+   * Get the number of connections open on the database server, if the driver can tell
+   */
+  protected async getOpenConnections(): Promise<number | null> {
+    const queries: Record<string, string> = {
+      mysql: "select variable_value as connections from performance_schema.global_status where variable_name = 'Threads_connected'",
+      pgsql: 'select count(*) as connections from pg_stat_activity',
+      sqlserver: 'select count(*) as connections from sys.dm_exec_sessions where is_user_process = 1',
+    };
+
+    const value = await this.selectValue(queries[this.connection.getDriverName()], 'connections');
+
+    return value === null ? null : Number(value);
+  }
+
+  /**
+   * Get the size of the database in bytes: the sum of its table sizes,
+   * or the size of the file for SQLite
+   */
+  protected getDatabaseSize(tables: TableSummary[]): number | null {
+    if (this.connection.getDriverName() === 'sqlite') {
+      const database = this.connection.getDatabaseName();
+
+      return database && database !== ':memory:' && fs.existsSync(database) ? fs.statSync(database).size : null;
+    }
+
+    return tables.reduce((total, table) => total + (table.size || 0), 0);
+  }
+
+  /**
+   * Select a single value, or null when the driver has no query for it or the query fails
+   */
+  protected async selectValue(query: string | undefined, column: string): Promise<string | null> {
+    if (!query) {
+      return null;
+    }
+
+    try {
+      const [row] = await this.connection.select(query);
+      return row && row[column] !== null && row[column] !== undefined ? String(row[column]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Find the model class mapped to a table by reading the model files. A model maps to its
+   * "table" property, or by convention to the snake cased, pluralized class name.
+   */
+  protected findModel(table: string): string | null {
+    const model = this.modelPaths
+      .flatMap((modelPath) => this.getModelFiles(modelPath))
+      .map((file) => this.readModel(file))
+      .find((candidate) => candidate !== null && candidate.table === table);
+
+    return model ? model.name : null;
+  }
+
+  /**
+   * Read the class name and table of a model file, or null when it declares no class
+   */
+  protected readModel(file: string): { name: string; table: string } | null {
+    const contents = fs.readFileSync(file, 'utf8');
+    const classMatch = contents.match(/class\s+(\w+)\s+extends\s+\w+/);
+
+    if (!classMatch) {
+      return null;
+    }
+
+    const tableMatch = contents.match(/\btable\s*(?::\s*string\s*)?=\s*['"`]([^'"`]+)['"`]/);
+    return { name: classMatch[1], table: tableMatch ? tableMatch[1] : `${snakeCase(classMatch[1])}s` };
+  }
+
+  /**
+   * Get the model files within a directory, recursively
+   */
+  protected getModelFiles(directory: string): string[] {
+    if (!fs.existsSync(directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(directory, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .flatMap((entry) => {
+        const fullPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+          return this.getModelFiles(fullPath);
+        }
+
+        return /\.(ts|js|mjs|cjs)$/.test(entry.name) && !entry.name.endsWith('.d.ts') ? [fullPath] : [];
+      });
+  }
+
+  /**
+   * Format the database overview for the terminal
+   */
+  formatShow(summary: DatabaseSummary): string {
+    const lines = [
+      this.line(`${DRIVER_NAMES[summary.driver] || summary.driver} ${summary.version || ''}`.trim(), ''),
+      this.line('Connection', summary.connection || '-'),
+      this.line('Database', summary.database),
+    ];
+
+    if (summary.host) {
+      lines.push(this.line('Host', summary.host));
+    }
+
+    if (summary.port) {
+      lines.push(this.line('Port', String(summary.port)));
+    }
+
+    if (summary.username) {
+      lines.push(this.line('Username', summary.username));
+    }
+
+    lines.push(
+      this.line('Open Connections', summary.openConnections === null ? '-' : String(summary.openConnections)),
+      this.line('Tables', String(summary.tables.length)),
+      this.line('Total Size', this.formatBytes(summary.size)),
+      '',
+      this.line('Table', 'Rows / Size'),
+      ...summary.tables.map((table) => this.line(
+        table.schema && this.connection.getDriverName() === 'pgsql' ? `${table.schema}.${table.name}` : table.name,
+        `${table.rows} / ${this.formatBytes(table.size)}`,
+      )),
+    );
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Format the table details for the terminal
+   */
+  formatTable(details: TableDetails): string {
+    const lines = [
+      this.line(details.name, ''),
+      this.line('Rows', String(details.rows)),
+      this.line('Size', this.formatBytes(details.size)),
+      this.line('Model', details.model || '-'),
+      '',
+      this.line('Column', 'Type'),
+      ...details.columns.map((column) => this.line(
+        [column.name, column.autoIncrement ? 'autoincrement' : null, column.nullable ? 'nullable' : null]
+          .filter(Boolean).join(', '),
+        column.default === null ? column.type : `${column.type} default ${column.default}`,
+      )),
+      '',
+      this.line('Index', 'Type'),
+      ...details.indexes.map((index) => this.line(
+        `${index.name} ${index.columns.join(', ')}`,
+        [index.type, index.unique ? 'unique' : null, index.primary ? 'primary' : null].filter(Boolean).join(', '),
+      )),
+    ];
+
+    if (details.foreignKeys.length > 0) {
+      lines.push(
+        '',
+        this.line('Foreign Key', 'On Update / On Delete'),
+        ...details.foreignKeys.map((foreignKey) => this.line(
+          [foreignKey.name, foreignKey.columns.join(', '), 'references', foreignKey.foreignColumns.join(', '), 'on', foreignKey.foreignTable]
+            .filter(Boolean).join(' '),
+          `${foreignKey.onUpdate} / ${foreignKey.onDelete}`,
+        )),
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Format a label and a value as a dotted line
+   */
+  protected line(label: string, value: string): string {
+    const dots = Math.max(2, 72 - label.length - value.length - 2);
+    return value === '' ? label : `${label} ${'.'.repeat(dots)} ${value}`;
+  }
+
+  /**
+   * Format a number of bytes for humans
+   */
+  protected formatBytes(bytes: number | null): string {
+    if (bytes === null) {
+      return '-';
+    }
+
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unit = 0;
+
+    while (size >= 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit += 1;
+    }
+
+    return `${unit === 0 ? size : size.toFixed(2)} ${units[unit]}`;
+  }
+}
@@ -1,4 +1,7 @@
 import { Migrator } from '../Migrations/Migrator';
+import { dispatchSchemaDumped } from '../Migrations/MigrationEvents';
+import { SchemaDumper } from '../Schema/SchemaDumper';
+import { Connection } from '../Connection/Connection';
 import { Manager as Capsule } from '../Capsule/Manager';
 import * as path from 'path';
 import * as fs from 'fs';
@@ -12,13 +15,16 @@ export class MigrationRunner {
   protected migrator: Migrator;
   protected migrationsPath: string;
   protected config: any;
+  protected database?: string;
 
-  constructor() {
+  constructor(options: { database?: string } = {}) {
+    this.database = options.database;
     this.config = this.loadConfig();
     this.migrationsPath = this.getMigrationsPath();
     this.capsule = this.loadConnection();
     this.migrator = new Migrator(this.capsule.connection() as any);
     this.migrator.addPath(this.migrationsPath);
+    this.migrator.setSchemaPath(this.getSchemaPath());
   }
 
   /**
@@ -45,6 +51,24 @@ export class MigrationRunner {
     return path.join(process.cwd(), 'database', 'migrations');
   }
 
+  /**
+   * Get the name of the connection being migrated
+   */
+  protected getConnectionName(): string {
+    if (this.database) {
+      return this.database;
+    }
+
+    return this.config && typeof this.config.default === 'string' ? this.config.default : 'default';
+  }
+
+  /**
+   * Get the schema dump file of the connection, database/schema/<connection>-schema.sql
+   */
+  protected getSchemaPath(): string {
+    return path.join(process.cwd(), 'database', 'schema', `${this.getConnectionName()}-schema.sql`);
+  }
+
   /**
    * Load database connection from config
    */
@@ -53,8 +77,8 @@ export class MigrationRunner {
     
     if (this.config) {
       const config = this.config;
-      if (config.connections && config.default) {
-        const connectionName = config.default;
+      if (config.connections && (this.database || config.default)) {
+        const connectionName = this.getConnectionName();
         const connectionConfig = config.connections[connectionName];
         if (connectionConfig) {
           capsule.addConnection(connectionConfig);
@@ -278,6 +302,35 @@ export class MigrationRunner {
     }
   }
 
+  /**
+   * Dump the database schema, optionally deleting the migration files it replaces
+   */
+  async dumpSchema(options: { prune?: boolean } = {}): Promise<void> {
+    try {
+      console.log('🔄 Dumping schema...\n');
+
+      const schemaPath = await new SchemaDumper(this.capsule.connection() as Connection).dump(this.getSchemaPath());
+      await dispatchSchemaDumped(schemaPath);
+
+      console.log(`✅ Schema dumped: ${schemaPath}`);
+
+      if (options.prune) {
+        const pruned = await this.migrator.pruneMigrations();
+
+        for (const name of pruned) {
+          console.log(`🗑️  Pruned: ${name}`);
+        }
+      }
+
+      console.log('');
+    } catch (error: any) {
+      console.error('❌ Schema dump failed:', error.message);
+      throw error;
+    } finally {
+      await this.capsule.disconnect();
+    }
+  }
+
   /**
    * Show migration status
    */
@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '../Connection/Connection';
+import { GuruORMError } from '../Errors/GuruORMError';
+import { ColumnSchema, ForeignKeySchema } from '../Schema/Builder';
+import {
+  camelCase, singular, snakeCase, studlyCase,
+} from '../Support/helpers';
+
+/**
+ * A relation method of a generated model
+ */
+interface RelationDefinition {
+  method: string;
+  type: 'belongsTo' | 'hasMany';
+  related: string;
+  args: string[];
+  comment: string;
+}
+
+/**
+ * Everything needed to render a model class
+ */
+interface ModelDefinition {
+  className: string;
+  table?: string;
+  primaryKey?: string;
+  keyType?: string;
+  incrementing?: boolean;
+  timestamps?: boolean;
+  softDeletes?: boolean;
+  fillable: string[];
+  casts: Record<string, string>;
+  relations: RelationDefinition[];
+}
+
+const TIMESTAMP_COLUMNS = ['created_at', 'updated_at', 'deleted_at'];
+
+/**
+ * Model file generator
+ */
+export class ModelMaker {
+  /**
+   * Create a new, empty model file
+   */
+  create(name: string): { fileName: string; contents: string; className: string } {
+    const className = this.getClassName(name);
+
+    return {
+      fileName: `${className}.ts`,
+      contents: this.render({
+        className, fillable: [], casts: {}, relations: [],
+      }),
+      className,
+    };
+  }
+
+  /**
+   * Create a model file by reading the columns, keys and foreign keys of an existing table.
+   * The table defaults to the model's conventional table name.
+   */
+  async createFromTable(
+    name: string,
+    connection: Connection,
+    table?: string,
+  ): Promise<{ fileName: string; contents: string; className: string }> {
+    const className = this.getClassName(name);
+    const tableName = table || `${snakeCase(className)}s`;
+    const schema = connection.getSchemaBuilder();
+
+    const columns = await schema.getColumns(tableName);
+
+    if (columns.length === 0) {
+      throw new GuruORMError(`Table [${tableName}] does not exist.`);
+    }
+
+    const primary = (await schema.getIndexes(tableName)).find((index) => index.primary);
+    const primaryColumns = primary ? primary.columns : [];
+    const keyColumn = primaryColumns.length === 1
+      ? columns.find((column) => column.name === primaryColumns[0])
+      : undefined;
+
+    const names = columns.map((column) => column.name);
+
+    const definition: ModelDefinition = {
+      className,
+      table: tableName,
+      softDeletes: names.includes('deleted_at'),
+      fillable: columns
+        .filter((column) => !(column === keyColumn && column.autoIncrement))
+        .filter((column) => !TIMESTAMP_COLUMNS.includes(column.name))
+        .map((column) => column.name),
+      casts: this.guessCasts(columns),
+      relations: await this.guessRelations(connection, tableName, className),
+    };
+
+    if (keyColumn && keyColumn.name !== 'id') {
+      definition.primaryKey = keyColumn.name;
+    }
+
+    if (keyColumn && !this.isIntegerType(keyColumn)) {
+      definition.keyType = 'string';
+    }
+
+    if (!keyColumn || !keyColumn.autoIncrement) {
+      definition.incrementing = false;
+    }
+
+    if (!names.includes('created_at') || !names.includes('updated_at')) {
+      definition.timestamps = false;
+    }
+
+    return { fileName: `${className}.ts`, contents: this.render(definition), className };
+  }
+
+  /**
+   * Get the class name for the model
+   */
+  protected getClassName(name: string): string {
+    return name
+      .split(/[_\-\s]+/)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
+  }
+
+  /**
+   * Guess attribute casts from the column types. Timestamp columns are left
+   * to the model, which handles them itself.
+   */
+  protected guessCasts(columns: ColumnSchema[]): Record<string, string> {
+    const casts: Record<string, string> = {};
+
+    columns
+      .filter(({ name }) => !TIMESTAMP_COLUMNS.includes(name))
+      .forEach((column) => {
+        const cast = this.guessCast(column);
+
+        if (cast) {
+          casts[column.name] = cast;
+        }
+      });
+
+    return casts;
+  }
+
+  /**
+   * Guess the cast of a single column, or null when the driver value needs none
+   */
+  protected guessCast(column: ColumnSchema): string | null {
+    if (['bool', 'boolean', 'bit'].includes(column.typeName) || column.type === 'tinyint(1)') {
+      return 'boolean';
+    }
+
+    if (['json', 'jsonb'].includes(column.typeName)) {
+      return 'json';
+    }
+
+    if (column.typeName === 'date') {
+      return 'date';
+    }
+
+    if (/^(datetime|datetime2|smalldatetime|datetimeoffset|timestamp|timestamptz)$/.test(column.typeName)) {
+      return 'datetime';
+    }
+
+    return null;
+  }
+
+  /**
+   * Determine if a column holds integers
+   */
+  protected isIntegerType(column: ColumnSchema): boolean {
+    return /^((tiny|small|medium|big)?int(eger)?|int[248])$/.test(column.typeName);
+  }
+
+  /**
+   * Guess belongsTo relations from the table's foreign keys and hasMany relations
+   * from the foreign keys of other tables pointing at it. Composite keys are skipped.
+   */
+  protected async guessRelations(connection: Connection, table: string, className: string): Promise<RelationDefinition[]> {
+    const schema = connection.getSchemaBuilder();
+    const prefix = connection.getTablePrefix();
+    const owner = snakeCase(className).replace(/_/g, ' ');
+    const relations: RelationDefinition[] = [];
+    const methods = new Set<string>();
+
+    const uniqueMethod = (method: string, column: string) => {
+      const name = methods.has(method) ? `${method}By${studlyCase(column.replace(/_id$/, ''))}` : method;
+      methods.add(name);
+      return name;
+    };
+
+    const singleColumn = (foreignKey: ForeignKeySchema) => (
+      foreignKey.columns.length === 1 && foreignKey.foreignColumns.length <= 1
+    );
+
+    (await schema.getForeignKeys(table)).filter(singleColumn).forEach((foreignKey) => {
+      const relatedTable = foreignKey.foreignTable.slice(prefix.length);
+      const [column] = foreignKey.columns;
+      const ownerKey = foreignKey.foreignColumns[0] || 'id';
+      const related = studlyCase(singular(relatedTable));
+      const method = column.endsWith('_id') ? camelCase(column.slice(0, -3)) : camelCase(singular(relatedTable));
+
+      relations.push({
+        method: uniqueMethod(method, column),
+        type: 'belongsTo',
+        related,
+        args: ownerKey === 'id' ? [column] : [column, ownerKey],
+        comment: `Get the ${snakeCase(related).replace(/_/g, ' ')} that owns the ${owner}.`,
+      });
+    });
+
+    const tables = (await schema.getAllTables())
+      .filter((name) => name.startsWith(prefix))
+      .map((name) => name.slice(prefix.length))
+      .sort();
+
+    const foreignKeysByTable = await Promise.all(tables.map((childTable) => schema.getForeignKeys(childTable)));
+
+    tables.forEach((childTable, index) => {
+      foreignKeysByTable[index]
+        .filter(singleColumn)
+        .filter((foreignKey) => foreignKey.foreignTable === prefix + table)
+        .forEach((foreignKey) => {
+          const [column] = foreignKey.columns;
+          const localKey = foreignKey.foreignColumns[0] || 'id';
+
+          relations.push({
+            method: uniqueMethod(camelCase(childTable), column),
+            type: 'hasMany',
+            related: studlyCase(singular(childTable)),
+            args: localKey === 'id' ? [column] : [column, localKey],
+            comment: `Get the ${childTable.replace(/_/g, ' ')} of the ${owner}.`,
+          });
+        });
+    });
+
+    return relations;
+  }
+
+  /**
+   * Render the model class
+   */
+  protected render(definition: ModelDefinition): string {
+    const base = definition.softDeletes ? 'SoftDeleteModel' : 'Model';
+    const related = [...new Set(definition.relations.map((relation) => relation.related))]
+      .filter((name) => name !== definition.className)
+      .sort();
+
+    const imports = [
+      `import { ${base} } from 'guruorm';`,
+      ...related.map((name) => `import ${name} from './${name}';`),
+    ];
+
+    const properties: string[] = [];
+
+    if (definition.table) {
+      properties.push(`  protected table = ${this.quote(definition.table)};`);
+    }
+
+    if (definition.primaryKey) {
+      properties.push(`  protected primaryKey = ${this.quote(definition.primaryKey)};`);
+    }
+
+    if (definition.keyType) {
+      properties.push(`  protected keyType = ${this.quote(definition.keyType)};`);
+    }
+
+    if (definition.incrementing === false) {
+      properties.push('  protected incrementing = false;');
+    }
+
+    if (definition.timestamps === false) {
+      properties.push('  protected timestamps = false;');
+    }
+
+    const sections: string[] = [];
+
+    if (properties.length > 0) {
+      sections.push(properties.join('\n'));
+    }
+
+    sections.push(definition.fillable.length === 0
+      ? '  protected fillable: string[] = [];'
+      : [
+        '  protected fillable = [',
+        ...definition.fillable.map((column) => `    ${this.quote(column)},`),
+        '  ];',
+      ].join('\n'));
+
+    const casts = Object.entries(definition.casts);
+
+    if (casts.length > 0) {
+      sections.push([
+        '  protected casts = {',
+        ...casts.map(([column, cast]) => `    ${this.property(column)}: ${this.quote(cast)},`),
+        '  };',
+      ].join('\n'));
+    }
+
+    definition.relations.forEach((relation) => {
+      const args = [relation.related, ...relation.args.map((arg) => this.quote(arg))].join(', ');
+
+      sections.push([
+        '  /**',
+        `   * ${relation.comment}`,
+        '   */',
+        `  ${relation.method}() {`,
+        `    return this.${relation.type}(${args});`,
+        '  }',
+      ].join('\n'));
+    });
+
+    return [
+      ...imports,
+      '',
+      `class ${definition.className} extends ${base} {`,
+      sections.join('\n\n'),
+      '}',
+      '',
+      `export default ${definition.className};`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Quote a string literal
+   */
+  protected quote(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * Quote an object key unless it is a valid identifier
+   */
+  protected property(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : this.quote(name);
+  }
+
+  /**
+   * Write the model file to disk
+   */
+  write(filePath: string, fileName: string, contents: string): string {
+    const fullPath = path.join(filePath, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(filePath, { recursive: true });
+    }
+
+    fs.writeFileSync(fullPath, contents);
+
+    return fullPath;
+  }
+}
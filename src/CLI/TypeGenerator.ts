@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '../Connection/Connection';
+import { ColumnSchema } from '../Schema/Builder';
+import { singular, studlyCase } from '../Support/helpers';
+
+/**
+ * Column type names mapped to the TypeScript types of the values each driver returns
+ * with its default options: pg returns bigint, numeric and money as strings, mysql2
+ * returns decimal as a string but bigint as a number, tedious returns bigint as a
+ * string but decimal, numeric and money as numbers, and better-sqlite3 returns
+ * every numeric type as a number.
+ */
+const TYPE_MAP: Record<string, Record<string, string>> = {
+  mysql: {
+    tinyint: 'number',
+    smallint: 'number',
+    mediumint: 'number',
+    int: 'number',
+    integer: 'number',
+    bigint: 'number',
+    float: 'number',
+    double: 'number',
+    decimal: 'string',
+    bit: 'number',
+    year: 'number',
+    char: 'string',
+    varchar: 'string',
+    tinytext: 'string',
+    text: 'string',
+    mediumtext: 'string',
+    longtext: 'string',
+    enum: 'string',
+    set: 'string',
+    time: 'string',
+    date: 'Date',
+    datetime: 'Date',
+    timestamp: 'Date',
+    json: 'unknown',
+    binary: 'Buffer',
+    varbinary: 'Buffer',
+    tinyblob: 'Buffer',
+    blob: 'Buffer',
+    mediumblob: 'Buffer',
+    longblob: 'Buffer',
+  },
+  pgsql: {
+    int2: 'number',
+    int4: 'number',
+    smallint: 'number',
+    integer: 'number',
+    int8: 'string',
+    bigint: 'string',
+    float4: 'number',
+    float8: 'number',
+    real: 'number',
+    'double precision': 'number',
+    numeric: 'string',
+    money: 'string',
+    bool: 'boolean',
+    boolean: 'boolean',
+    char: 'string',
+    bpchar: 'string',
+    character: 'string',
+    varchar: 'string',
+    'character varying': 'string',
+    text: 'string',
+    citext: 'string',
+    uuid: 'string',
+    inet: 'string',
+    cidr: 'string',
+    macaddr: 'string',
+    interval: 'string',
+    time: 'string',
+    'time without time zone': 'string',
+    'time with time zone': 'string',
+    date: 'Date',
+    timestamp: 'Date',
+    timestamptz: 'Date',
+    'timestamp without time zone': 'Date',
+    'timestamp with time zone': 'Date',
+    json: 'unknown',
+    jsonb: 'unknown',
+    bytea: 'Buffer',
+  },
+  sqlite: {
+    integer: 'number',
+    int: 'number',
+    tinyint: 'number',
+    smallint: 'number',
+    bigint: 'number',
+    real: 'number',
+    float: 'number',
+    double: 'number',
+    numeric: 'number',
+    decimal: 'number',
+    boolean: 'number',
+    text: 'string',
+    varchar: 'string',
+    char: 'string',
+    clob: 'string',
+    date: 'string',
+    datetime: 'string',
+    time: 'string',
+    json: 'string',
+    blob: 'Buffer',
+  },
+  sqlserver: {
+    tinyint: 'number',
+    smallint: 'number',
+    int: 'number',
+    bigint: 'string',
+    float: 'number',
+    real: 'number',
+    decimal: 'number',
+    numeric: 'number',
+    money: 'number',
+    smallmoney: 'number',
+    bit: 'boolean',
+    char: 'string',
+    varchar: 'string',
+    nchar: 'string',
+    nvarchar: 'string',
+    text: 'string',
+    ntext: 'string',
+    uniqueidentifier: 'string',
+    time: 'string',
+    date: 'Date',
+    datetime: 'Date',
+    datetime2: 'Date',
+    smalldatetime: 'Date',
+    datetimeoffset: 'Date',
+    binary: 'Buffer',
+    varbinary: 'Buffer',
+    image: 'Buffer',
+  },
+};
+
+/**
+ * Type Generator - writes TypeScript interfaces for the tables of a live database
+ */
+export class TypeGenerator {
+  protected connection: Connection;
+
+  protected exclude: string[];
+
+  constructor(connection: Connection, exclude: string[] = ['migrations']) {
+    this.connection = connection;
+    this.exclude = exclude;
+  }
+
+  /**
+   * Generate the contents of the types file
+   */
+  async generate(): Promise<string> {
+    const schema = this.connection.getSchemaBuilder();
+    const prefix = this.connection.getTablePrefix();
+
+    const tables = (await schema.getAllTables())
+      .filter((table) => table.startsWith(prefix))
+      .map((table) => table.slice(prefix.length))
+      .filter((table) => !this.exclude.includes(table))
+      .sort();
+
+    const blocks = await Promise.all(
+      tables.map(async (table) => this.compileTable(table, await schema.getColumns(table))),
+    );
+
+    return [
+      '/**',
+      ' * This file is generated by "guruorm types:generate". Do not edit it by hand.',
+      ' */',
+      '',
+      blocks.join('\n'),
+    ].join('\n');
+  }
+
+  /**
+   * Generate the types and write them to the given file
+   */
+  async write(filePath: string): Promise<string> {
+    const contents = await this.generate();
+    const directory = path.dirname(filePath);
+
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    fs.writeFileSync(filePath, contents);
+
+    return filePath;
+  }
+
+  /**
+   * Determine if the given file matches the current database schema
+   */
+  async check(filePath: string): Promise<boolean> {
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+
+    return fs.readFileSync(filePath, 'utf8') === await this.generate();
+  }
+
+  /**
+   * Compile the row interface and the model attributes interface of a table.
+   * Attributes are optional when the database can fill them in on insert.
+   */
+  protected compileTable(table: string, columns: ColumnSchema[]): string {
+    const rows = columns.map((column) => (
+      `  ${this.property(column.name)}: ${this.columnType(column)};`
+    ));
+
+    const attributes = columns.map((column) => {
+      const optional = column.nullable || column.default !== null || column.autoIncrement;
+      return `  ${this.property(column.name)}${optional ? '?' : ''}: ${this.columnType(column)};`;
+    });
+
+    return [
+      `export interface ${studlyCase(table)}Table {`,
+      ...rows,
+      '}',
+      '',
+      `export interface ${studlyCase(singular(table))}Attributes {`,
+      ...attributes,
+      '}',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Get the TypeScript type of a column, including "| null" for nullable columns
+   */
+  protected columnType(column: ColumnSchema): string {
+    let type: string;
+
+    if (column.enumValues && column.enumValues.length > 0) {
+      type = column.enumValues.map((value) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(' | ');
+    } else if (column.typeName.startsWith('_') || column.type.endsWith('[]')) {
+      type = `${this.mapType(column.typeName.replace(/^_|\[\]$/g, ''))}[]`;
+    } else {
+      type = this.mapType(column.typeName);
+    }
+
+    return column.nullable ? `${type} | null` : type;
+  }
+
+  /**
+   * Map a column type name to a TypeScript type for the connection's driver
+   */
+  protected mapType(typeName: string): string {
+    const map = TYPE_MAP[this.connection.getDriverName()] || {};
+    return map[typeName] || 'unknown';
+  }
+
+  /**
+   * Quote a property name unless it is a valid identifier
+   */
+  protected property(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : `'${name.replace(/'/g, "\\'")}'`;
+  }
+}
@@ -1,6 +1,7 @@
 import { ConnectionManager } from '../Connection/ConnectionManager';
 import { ConnectionConfig } from '../Connection/ConnectionInterface';
-import { ConnectionInterface } from '../Connection/ConnectionInterface';
+import { ConnectionInterface, TransactionOptions } from '../Connection/ConnectionInterface';
+import { Builder as QueryBuilder } from '../Query/Builder';
 
 /**
  * Capsule Manager - inspired by Laravel and Illuminate
@@ -119,7 +120,7 @@ export class Manager {
    * Begin a fluent query against a database table (instance method).
    * Hot path — uses cached connection for default.
    */
-  table(table: string, as?: string, connection?: string): any {
+  table<TRow extends Record<string, any> = any>(table: string, as?: string, connection?: string): QueryBuilder<TRow> {
     const conn = (!connection || connection === 'default') && this._defaultConn
       ? this._defaultConn
       : this.getConnection(connection);
@@ -175,11 +176,15 @@ export class Manager {
   /**
    * Begin a transaction (instance method)
    */
-  async transaction<T>(callback: (trx: any) => Promise<T>, connection?: string): Promise<T> {
+  async transaction<T>(
+    callback: (trx: any) => Promise<T>,
+    connection?: string,
+    options?: number | TransactionOptions,
+  ): Promise<T> {
     const conn = this.getConnection(connection);
     return conn.transaction(async () => {
       return callback(conn);
-    });
+    }, options);
   }
 
   /**
@@ -217,6 +222,20 @@ export class Manager {
     return this.getConnection(connection).rollback();
   }
 
+  /**
+   * Run the callback once the active transaction commits
+   */
+  async afterCommit(callback: () => unknown, connection?: string): Promise<void> {
+    return this.getConnection(connection).afterCommit(callback);
+  }
+
+  /**
+   * Run the callback if the active transaction rolls back
+   */
+  async afterRollback(callback: () => unknown, connection?: string): Promise<void> {
+    return this.getConnection(connection).afterRollback(callback);
+  }
+
   /**
    * Register a query event listener
    */
@@ -228,7 +247,7 @@ export class Manager {
   /**
    * Begin a fluent query against a database table (static method)
    */
-  static table(table: string, as?: string, connection?: string): any {
+  static table<TRow extends Record<string, any> = any>(table: string, as?: string, connection?: string): QueryBuilder<TRow> {
     return Manager.getInstance()
       .getConnection(connection)
       .table(table, as);
@@ -291,8 +310,12 @@ export class Manager {
   /**
    * Begin a transaction (static method)
    */
-  static async transaction<T>(callback: (trx: any) => Promise<T>, connection?: string): Promise<T> {
-    return Manager.getInstance().transaction(callback, connection);
+  static async transaction<T>(
+    callback: (trx: any) => Promise<T>,
+    connection?: string,
+    options?: number | TransactionOptions,
+  ): Promise<T> {
+    return Manager.getInstance().transaction(callback, connection, options);
   }
 
   /**
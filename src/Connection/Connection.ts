@@ -1,8 +1,14 @@
-import { ConnectionInterface, ConnectionConfig, LogConfig } from './ConnectionInterface';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  ConnectionInterface, ConnectionConfig, LogConfig, TransactionState, TransactionCallback, TransactionCallbacks,
+  TransactionOptions, IsolationLevel, ReadWriteConfig, BulkLoadRows, BulkLoadOptions,
+} from './ConnectionInterface';
 import { Expression } from '../Query/Expression';
 import { Builder as QueryBuilder } from '../Query/Builder';
 import { Builder as SchemaBuilder } from '../Schema/Builder';
-import { QueryException } from '../Errors/GuruORMError';
+import { GuruORMError, QueryException } from '../Errors/GuruORMError';
+
+const ISOLATION_LEVELS: IsolationLevel[] = ['read uncommitted', 'read committed', 'repeatable read', 'serializable'];
 
 /**
  * Base connection class - inspired by Laravel and Illuminate
@@ -13,11 +19,22 @@ export abstract class Connection implements ConnectionInterface {
   protected name: string | null = null;
   protected client: any = null;
   protected readClient: any = null;
+  /** Pools of the configured read replicas */
+  protected readClients: any[] = [];
+  /** Next replica to use with the round-robin read strategy */
+  protected readIndex = 0;
+  /** Carries the record modification state of the current request scope */
+  protected requestStorage = new AsyncLocalStorage<{ recordsModified: boolean }>();
   protected queryGrammar: any = null;
   protected schemaGrammar: any = null;
   protected postProcessor: any = null;
   protected tablePrefix = '';
-  protected transactions = 0;
+  /** Transaction state used outside of any transaction() callback */
+  protected transactionState: TransactionState = { level: 0, client: null, callbacks: [] };
+  /** Carries the state of the transaction() callback being executed */
+  protected transactionStorage = new AsyncLocalStorage<TransactionState>();
+  /** Whether transaction() callbacks get their own state (pooled drivers) */
+  protected scopesTransactions = false;
   protected queryLog: Array<{ query: string; bindings: any[]; time: number }> = [];
   protected loggingQueries = false;
   protected pretend = false;
@@ -30,6 +47,37 @@ export abstract class Connection implements ConnectionInterface {
     this.logger = new ConnectionLogger(config.log);
   }
 
+  /**
+   * Get the transaction nesting level of the current async context
+   */
+  protected get transactions(): number {
+    return this.currentTransaction().level;
+  }
+
+  /**
+   * Set the transaction nesting level of the current async context
+   */
+  protected set transactions(level: number) {
+    this.currentTransaction().level = level;
+  }
+
+  /**
+   * Get the transaction state of the current async context
+   */
+  protected currentTransaction(): TransactionState {
+    return this.transactionStorage.getStore() || this.transactionState;
+  }
+
+  /**
+   * Detach and return the dedicated client of the current transaction
+   */
+  protected releaseTransactionClient(): any {
+    const state = this.currentTransaction();
+    const { client } = state;
+    state.client = null;
+    return client;
+  }
+
   /**
    * Get the connection name
    */
@@ -47,7 +95,7 @@ export abstract class Connection implements ConnectionInterface {
   /**
    * Begin a fluent query against a database table
    */
-  table(table: string, as?: string): QueryBuilder {
+  table<TRow extends Record<string, any> = any>(table: string, as?: string): QueryBuilder<TRow> {
     return this.query().from(table, as);
   }
 
@@ -78,6 +126,11 @@ export abstract class Connection implements ConnectionInterface {
    */
   abstract select(query: string, bindings?: any[], useReadPdo?: boolean): Promise<any[]>;
 
+  /**
+   * Run a select statement and stream the rows one at a time
+   */
+  abstract cursor(query: string, bindings?: any[], useReadPdo?: boolean): AsyncGenerator<any>;
+
   /**
    * Run a select statement and return the first column
    */
@@ -119,27 +172,190 @@ export abstract class Connection implements ConnectionInterface {
    */
   abstract unprepared(query: string): Promise<boolean>;
 
+  /**
+   * Load a large number of rows into the table and resolve with the number loaded.
+   * Drivers without a native bulk path insert chunked batches in one transaction.
+   */
+  async bulkLoad(table: string, rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    return this.transaction(async () => {
+      let count = 0;
+
+      for await (const batch of this.bulkLoadBatches(rows, options)) {
+        await this.table(table).insert(batch);
+        count += batch.length;
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Split the rows into batches, each row holding exactly the loaded columns in order
+   */
+  protected async *bulkLoadBatches(rows: BulkLoadRows, options: BulkLoadOptions): AsyncGenerator<Record<string, unknown>[]> {
+    const batchSize = options.batchSize || 1000;
+    let columns = options.columns || null;
+    let batch: Record<string, unknown>[] = [];
+
+    for await (const row of rows) {
+      if (!columns) {
+        columns = Object.keys(row);
+      }
+
+      const normalized: Record<string, unknown> = {};
+
+      for (const column of columns) {
+        const value = (row as Record<string, unknown>)[column];
+        normalized[column] = value === undefined ? null : value;
+      }
+
+      batch.push(normalized);
+
+      if (batch.length >= batchSize) {
+        yield batch;
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+
+  /**
+   * Read the first batch to learn the loaded columns; null when there are no rows
+   */
+  protected async openBulkLoad(
+    rows: BulkLoadRows,
+    options: BulkLoadOptions,
+  ): Promise<{ columns: string[]; batches: AsyncGenerator<Record<string, unknown>[]> } | null> {
+    const source = this.bulkLoadBatches(rows, options);
+    const first = await source.next();
+
+    if (first.done) {
+      return null;
+    }
+
+    async function* batches(): AsyncGenerator<Record<string, unknown>[]> {
+      yield first.value;
+      yield* source;
+    }
+
+    return { columns: Object.keys(first.value[0]), batches: batches() };
+  }
+
+  /**
+   * Encode the batches in the bulk load text format, one chunk per batch
+   */
+  protected async *bulkLoadText(batches: AsyncIterable<Record<string, unknown>[]>): AsyncGenerator<string> {
+    for await (const batch of batches) {
+      yield batch.map((row) => this.bulkLoadLine(row)).join('');
+    }
+  }
+
+  /**
+   * Encode a row as a line of the tab-separated text format read by
+   * PostgreSQL's COPY and MySQL's LOAD DATA
+   */
+  protected bulkLoadLine(row: Record<string, unknown>): string {
+    const fields = Object.values(row).map((value) => {
+      if (value === null) {
+        return '\\N';
+      }
+
+      return this.formatBulkLoadValue(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/\t/g, '\\t')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r');
+    });
+
+    return `${fields.join('\t')}\n`;
+  }
+
+  /**
+   * Format a non-null value for the bulk load text format
+   */
+  protected formatBulkLoadValue(value: unknown): string {
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0';
+    }
+
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+
+    return String(value);
+  }
+
   /**
    * Start a new database transaction
    */
-  async beginTransaction(): Promise<void> {
-    await this.createTransaction();
+  async beginTransaction(options: TransactionOptions = {}): Promise<void> {
+    await this.createTransaction(options);
     this.transactions += 1;
   }
 
   /**
-   * Create a transaction within the database
+   * Create a transaction within the database.
+   * Isolation level and read-only options only apply to the outermost transaction.
    */
-  protected abstract createTransaction(): Promise<void>;
+  protected abstract createTransaction(options?: TransactionOptions): Promise<void>;
+
+  /**
+   * Get the SQL keywords for an isolation level, rejecting unknown levels
+   * since they are compiled verbatim
+   */
+  protected compileIsolationLevel(level: IsolationLevel): string {
+    const normalized = String(level).trim().toLowerCase().replace(/\s+/g, ' ') as IsolationLevel;
+
+    if (!ISOLATION_LEVELS.includes(normalized)) {
+      throw new GuruORMError(`Invalid transaction isolation level [${level}].`);
+    }
+
+    return normalized.toUpperCase();
+  }
 
   /**
    * Commit the active database transaction
    */
   async commit(): Promise<void> {
-    if (this.transactions === 1) {
+    const level = this.transactions;
+
+    if (level === 1) {
       await this.performCommit();
     }
-    this.transactions = Math.max(0, this.transactions - 1);
+    this.transactions = Math.max(0, level - 1);
+
+    if (level > 0) {
+      await this.commitTransactionCallbacks(level);
+    }
+  }
+
+  /**
+   * Hand the callbacks of a committed level to its parent level, or run the
+   * commit callbacks once the outermost transaction has committed
+   */
+  protected async commitTransactionCallbacks(level: number): Promise<void> {
+    const { callbacks } = this.currentTransaction();
+    const committed = callbacks.splice(level - 1).filter(Boolean);
+
+    if (level > 1) {
+      const parent = this.transactionCallbacks(level - 1);
+      committed.forEach((frame) => {
+        parent.commit.push(...frame.commit);
+        parent.rollback.push(...frame.rollback);
+      });
+      return;
+    }
+
+    for (const callback of committed.flatMap((frame) => frame.commit)) {
+      await callback();
+    }
   }
 
   /**
@@ -156,8 +372,20 @@ export abstract class Connection implements ConnectionInterface {
       return;
     }
 
-    await this.performRollBack(level);
-    this.transactions = level;
+    let discarded: TransactionCallbacks[];
+
+    try {
+      await this.performRollBack(level);
+    } finally {
+      // Work deferred by the rolled back levels will never be committed,
+      // even when the database could not be told to roll back
+      this.transactions = level;
+      discarded = this.currentTransaction().callbacks.splice(level).filter(Boolean);
+    }
+
+    for (const callback of discarded.flatMap((frame) => frame.rollback)) {
+      await callback();
+    }
   }
 
   /**
@@ -173,28 +401,130 @@ export abstract class Connection implements ConnectionInterface {
   }
 
   /**
-   * Execute a Closure within a transaction
+   * Run the callback once the outermost transaction commits.
+   * Runs immediately when no transaction is open; discarded when the
+   * transaction level it was registered in rolls back.
+   */
+  async afterCommit(callback: TransactionCallback): Promise<void> {
+    if (this.transactions === 0) {
+      await callback();
+      return;
+    }
+
+    this.transactionCallbacks(this.transactions).commit.push(callback);
+  }
+
+  /**
+   * Run the callback if the current transaction level rolls back.
+   * Runs immediately when no transaction is open.
+   */
+  async afterRollback(callback: TransactionCallback): Promise<void> {
+    if (this.transactions === 0) {
+      await callback();
+      return;
+    }
+
+    this.transactionCallbacks(this.transactions).rollback.push(callback);
+  }
+
+  /**
+   * Get the callbacks registered for the given transaction level
+   */
+  protected transactionCallbacks(level: number): TransactionCallbacks {
+    const { callbacks } = this.currentTransaction();
+
+    if (!callbacks[level - 1]) {
+      callbacks[level - 1] = { commit: [], rollback: [] };
+    }
+
+    return callbacks[level - 1];
+  }
+
+  /**
+   * Execute a Closure within a transaction.
+   * On pooled drivers the outermost transaction runs in its own async context,
+   * so every query issued by the callback uses the client checked out for it
+   * while concurrent requests keep using the pool.
+   */
+  async transaction<T>(callback: () => Promise<T>, options: number | TransactionOptions = 1): Promise<T> {
+    const resolved = typeof options === 'number' ? { attempts: options } : options;
+
+    if (this.scopesTransactions && this.transactions === 0) {
+      return this.transactionStorage.run(
+        { level: 0, client: null, callbacks: [] },
+        () => this.runTransaction(callback, resolved),
+      );
+    }
+
+    return this.runTransaction(callback, resolved);
+  }
+
+  /**
+   * Run the callback within a transaction. Deadlocks and serialization
+   * failures of the outermost transaction are retried up to the given attempts.
    */
-  async transaction<T>(callback: () => Promise<T>, attempts = 1): Promise<T> {
+  protected async runTransaction<T>(callback: () => Promise<T>, options: TransactionOptions): Promise<T> {
+    const attempts = Math.max(1, options.attempts ?? 1);
+
     for (let currentAttempt = 1; currentAttempt <= attempts; currentAttempt += 1) {
-      await this.beginTransaction();
+      await this.beginTransaction(options);
+      const level = this.transactions;
 
       try {
         const result = await callback();
         await this.commit();
         return result;
       } catch (error) {
-        await this.rollback();
+        // A failing after-commit callback must not roll back or retry committed work
+        if (this.transactions < level) {
+          throw error;
+        }
 
-        if (currentAttempt === attempts) {
+        try {
+          await this.rollback();
+        } catch {
+          // The error that aborted the transaction is the one worth reporting
           throw error;
         }
+
+        // A nested transaction cannot be retried on its own: the database
+        // has already aborted the enclosing transaction
+        if (currentAttempt === attempts || level > 1 || !this.causedByConcurrencyError(error)) {
+          throw error;
+        }
+
+        await options.onRetry?.(error as Error, currentAttempt);
+        await this.sleep(this.transactionBackoff(options, currentAttempt));
       }
     }
 
     throw new Error('Transaction failed after maximum attempts');
   }
 
+  /**
+   * Determine if the error is a deadlock or serialization failure worth retrying
+   */
+  protected causedByConcurrencyError(error: unknown): boolean {
+    return error instanceof QueryException && error.causedByConcurrencyError();
+  }
+
+  /**
+   * Get the delay in milliseconds before retrying the given failed attempt
+   */
+  protected transactionBackoff(options: TransactionOptions, attempt: number): number {
+    const { backoff } = options;
+    return typeof backoff === 'function' ? backoff(attempt) : (backoff ?? 0);
+  }
+
+  /**
+   * Wait for the given number of milliseconds
+   */
+  protected async sleep(milliseconds: number): Promise<void> {
+    if (milliseconds > 0) {
+      await new Promise((resolve) => { setTimeout(resolve, milliseconds); });
+    }
+  }
+
   /**
    * Get the database connection configuration
    */
@@ -409,17 +739,127 @@ export abstract class Connection implements ConnectionInterface {
   abstract getDriverName(): string;
 
   /**
-   * Get the underlying client connection
+   * Get the underlying client connection (the transaction's client when one is open)
    */
   getClient(): any {
-    return this.client;
+    return this.currentTransaction().client || this.client;
   }
 
   /**
    * Get the underlying read client connection
    */
   getReadClient(): any {
-    return this.readClient || this.client;
+    const { client, level } = this.currentTransaction();
+
+    if (client) {
+      return client;
+    }
+
+    // Reads inside a transaction, or after a sticky write, must see the primary
+    if (level > 0 || (this.config.sticky && this.hasModifiedRecords())) {
+      return this.client;
+    }
+
+    return this.nextReadClient() || this.readClient || this.client;
+  }
+
+  /**
+   * Pick the read replica for the next select
+   */
+  protected nextReadClient(): any {
+    const count = this.readClients.length;
+
+    if (count === 0) {
+      return null;
+    }
+
+    if (this.config.readStrategy === 'round-robin') {
+      const client = this.readClients[this.readIndex % count];
+      this.readIndex = (this.readIndex + 1) % count;
+      return client;
+    }
+
+    return this.readClients[Math.floor(Math.random() * count)];
+  }
+
+  /**
+   * Get the configuration of the primary: the "write" section merged over the
+   * base config, with one host picked at random when several are listed
+   */
+  protected getWriteConfig(): ConnectionConfig {
+    const configs = this.expandHosts(this.config.write || {});
+    return configs[Math.floor(Math.random() * configs.length)];
+  }
+
+  /**
+   * Get the configuration of every read replica, one per listed host
+   */
+  protected getReadConfigs(): ConnectionConfig[] {
+    if (!this.config.read) {
+      return [];
+    }
+
+    const sections = Array.isArray(this.config.read) ? this.config.read : [this.config.read];
+    return sections.flatMap((section) => this.expandHosts(section));
+  }
+
+  /**
+   * Merge a read/write section over the base config, once per listed host
+   */
+  protected expandHosts(section: ReadWriteConfig): ConnectionConfig[] {
+    const base = { ...this.config };
+    delete base.read;
+    delete base.write;
+
+    const hosts = Array.isArray(section.host) ? section.host : [section.host ?? base.host];
+
+    return hosts.map((host) => ({ ...base, ...section, host }) as ConnectionConfig);
+  }
+
+  /**
+   * Indicate whether records have been modified in the current request scope.
+   * Writes made outside of a request scope are not tracked, so that they never
+   * make the reads of unrelated requests sticky.
+   */
+  recordsHaveBeenModified(value = true): void {
+    const scope = this.requestStorage.getStore();
+
+    if (scope) {
+      scope.recordsModified = scope.recordsModified || value;
+    }
+  }
+
+  /**
+   * Determine if records have been modified in the current request scope
+   */
+  hasModifiedRecords(): boolean {
+    return this.requestStorage.getStore()?.recordsModified ?? false;
+  }
+
+  /**
+   * Reset the record modification state of the current request scope
+   */
+  forgetRecordModificationState(): void {
+    const scope = this.requestStorage.getStore();
+
+    if (scope) {
+      scope.recordsModified = false;
+    }
+  }
+
+  /**
+   * Run the callback in its own request scope, so that sticky reads only
+   * follow the writes made by the same request (e.g. from HTTP middleware)
+   */
+  runInRequestScope<T>(callback: () => T): T {
+    return this.requestStorage.run({ recordsModified: false }, callback);
+  }
+
+  /**
+   * Get the number of rows buffered per round trip by cursor()
+   */
+  protected cursorBatchSize(): number {
+    return this.config.cursorBatchSize || 1000;
   }
 
   /**
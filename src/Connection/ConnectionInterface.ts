@@ -10,6 +10,78 @@ export interface LogConfig {
   enableColors?: boolean;
 }
 
+/**
+ * Callback deferred until a transaction commits or rolls back
+ */
+export type TransactionCallback = () => unknown;
+
+/**
+ * Callbacks registered while a transaction level was active
+ */
+export interface TransactionCallbacks {
+  commit: TransactionCallback[];
+  rollback: TransactionCallback[];
+}
+
+/**
+ * Standard SQL transaction isolation levels
+ */
+export type IsolationLevel = 'read uncommitted' | 'read committed' | 'repeatable read' | 'serializable';
+
+/**
+ * Options for Connection.transaction()
+ */
+export interface TransactionOptions {
+  /** Total attempts; only deadlocks and serialization failures are retried (default 1) */
+  attempts?: number;
+  /** Isolation level of the outermost transaction */
+  isolationLevel?: IsolationLevel;
+  /** Start the outermost transaction read-only (MySQL / PostgreSQL) */
+  readOnly?: boolean;
+  /** Delay in milliseconds before a retry, or a function of the failed attempt number */
+  backoff?: number | ((attempt: number) => number);
+  /** Called before each retry, e.g. to record metrics */
+  onRetry?: (error: Error, attempt: number) => unknown;
+}
+
+/**
+ * Rows accepted by Connection.bulkLoad()
+ */
+export type BulkLoadRows = Iterable<object> | AsyncIterable<object>;
+
+/**
+ * Options for Connection.bulkLoad()
+ */
+export interface BulkLoadOptions {
+  /** Columns to load, in order. Defaults to the keys of the first row; missing values load as NULL */
+  columns?: string[];
+  /** Rows sent per round trip by drivers that load in batches (default 1000) */
+  batchSize?: number;
+}
+
+/**
+ * Transaction state of one async context: the nesting level, the callbacks
+ * registered per level and, for pooled drivers, the dedicated client checked
+ * out for the outermost transaction
+ */
+export interface TransactionState {
+  level: number;
+  client: any;
+  callbacks: TransactionCallbacks[];
+}
+
+/**
+ * Connection settings of the read or write side of a connection.
+ * Every host listed gets its own pool; unset keys fall back to the base config.
+ */
+export interface ReadWriteConfig {
+  host?: string | string[];
+  port?: number;
+  database?: string;
+  username?: string;
+  password?: string;
+}
+
 /**
  * Database connection configuration interface
  */
@@ -79,6 +151,42 @@ export interface ConnectionConfig {
    * Defaults to 60000 (60 seconds).
    */
   acquireConnectionTimeout?: number;
+
+  /**
+   * Read replicas. Selects are spread across every listed host
+   * (MySQL, PostgreSQL and SQL Server).
+   *
+   * @example
+   * read: { host: ['10.0.0.2', '10.0.0.3'] }
+   */
+  read?: ReadWriteConfig | ReadWriteConfig[];
+
+  /**
+   * Primary (write) connection. When several hosts are listed one is picked at random.
+   */
+  write?: ReadWriteConfig;
+
+  /**
+   * When true, reads issued after a write in the same request scope go to the
+   * primary, so the request always sees its own writes.
+   */
+  sticky?: boolean;
+
+  /**
+   * How selects are spread across read replicas. Defaults to 'random'.
+   */
+  readStrategy?: 'random' | 'round-robin';
+
+  /**
+   * Rows buffered per round trip while streaming with cursor(). Defaults to 1000.
+   */
+  cursorBatchSize?: number;
+
+  /**
+   * MySQL only: let bulkLoad() use LOAD DATA LOCAL INFILE. The server must
+   * allow it with local_infile=ON; otherwise rows are loaded with chunked inserts.
+   */
+  localInfile?: boolean;
 }
 
 /**
@@ -115,6 +223,11 @@ export interface ConnectionInterface {
    */
   select(query: string, bindings?: any[], useReadPdo?: boolean): Promise<any[]>;
 
+  /**
+   * Run a select statement and stream the rows one at a time
+   */
+  cursor(query: string, bindings?: any[], useReadPdo?: boolean): AsyncGenerator<any>;
+
   /**
    * Run a select statement and return the first column
    */
@@ -150,10 +263,15 @@ export interface ConnectionInterface {
    */
   unprepared(query: string): Promise<boolean>;
 
+  /**
+   * Load a large number of rows into the table with the driver's fastest bulk path
+   */
+  bulkLoad(table: string, rows: BulkLoadRows, options?: BulkLoadOptions): Promise<number>;
+
   /**
    * Start a new database transaction
    */
-  beginTransaction(): Promise<void>;
+  beginTransaction(options?: TransactionOptions): Promise<void>;
 
   /**
    * Commit the active database transaction
@@ -173,7 +291,28 @@ export interface ConnectionInterface {
   /**
    * Execute a Closure within a transaction
    */
-  transaction<T>(callback: () => Promise<T>, attempts?: number): Promise<T>;
+  transaction<T>(callback: () => Promise<T>, options?: number | TransactionOptions): Promise<T>;
+
+  /**
+   * Indicate whether records have been modified in the current request scope
+   */
+  recordsHaveBeenModified(value?: boolean): void;
+
+  /**
+   * Run the callback in its own request scope for sticky reads.
+   * Sticky reads only apply within a request scope.
+   */
+  runInRequestScope<T>(callback: () => T): T;
+
+  /**
+   * Run the callback once the outermost transaction commits
+   */
+  afterCommit(callback: TransactionCallback): Promise<void>;
+
+  /**
+   * Run the callback if the current transaction level rolls back
+   */
+  afterRollback(callback: TransactionCallback): Promise<void>;
 
   /**
    * Get the database connection configuration
@@ -1,5 +1,6 @@
+import { Readable } from 'stream';
 import { Connection } from './Connection';
-import { ConnectionConfig } from './ConnectionInterface';
+import { BulkLoadOptions, BulkLoadRows, ConnectionConfig, TransactionOptions } from './ConnectionInterface';
 import { Grammar as QueryGrammar } from '../Query/Grammars/MySqlGrammar';
 import { Grammar as SchemaGrammar } from '../Schema/Grammars/MySqlGrammar';
 import { Processor } from '../Query/Processors/Processor';
@@ -18,6 +19,7 @@ export class MySqlConnection extends Connection {
     this.useDefaultSchemaGrammar();
     this.useDefaultPostProcessor();
     
+    this.scopesTransactions = true;
     this.createConnection();
   }
 
@@ -37,19 +39,21 @@ export class MySqlConnection extends Connection {
       );
     }
 
-    this.pool = mysql.createPool({
-      host: this.config.host || 'localhost',
-      port: this.config.port || 3306,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
-      charset: this.config.charset || 'utf8mb4',
-      timezone: this.config.timezone || 'Z',
+    const createPool = (config: ConnectionConfig) => mysql.createPool({
+      host: config.host || 'localhost',
+      port: config.port || 3306,
+      user: config.username,
+      password: config.password,
+      database: config.database,
+      charset: config.charset || 'utf8mb4',
+      timezone: config.timezone || 'Z',
       waitForConnections: true,
-      connectionLimit: this.config.pool?.max || 10,
+      connectionLimit: config.pool?.max || 10,
       queueLimit: 0,
     });
 
+    this.pool = createPool(this.getWriteConfig());
+    this.readClients = this.getReadConfigs().map(createPool);
     this.client = this.pool;
   }
 
@@ -72,6 +76,47 @@ export class MySqlConnection extends Connection {
     }
   }
 
+  /**
+   * Stream the rows of a select statement through mysql2's query stream.
+   * The socket is paused whenever the consumer falls behind; a connection left
+   * mid-result by an early break is destroyed rather than returned to the pool.
+   */
+  async *cursor(query: string, bindings: any[] = [], useReadPdo = true): AsyncGenerator<any> {
+    const transaction = this.currentTransaction().client;
+    const connection = transaction || await (useReadPdo ? this.getReadClient() : this.getClient()).getConnection();
+    const command = connection.connection.query(query, bindings);
+    const stream = command.stream({ highWaterMark: this.cursorBatchSize() });
+    let finished = false;
+
+    command.once('end', () => {
+      finished = true;
+    });
+
+    try {
+      this.logQuery(query, bindings, 0);
+
+      for await (const row of stream) {
+        yield this.postProcessResponse([row])[0];
+      }
+    } catch (error) {
+      throw this.handleQueryException(error as Error, query, bindings);
+    } finally {
+      if (!transaction) {
+        if (finished) {
+          connection.release();
+        } else {
+          connection.destroy();
+        }
+      } else if (!finished) {
+        // Drain the rest of the result so the transaction connection stays usable
+        await new Promise((resolve) => {
+          command.once('end', resolve);
+          connection.connection.resume();
+        });
+      }
+    }
+  }
+
   /**
    * Run an insert statement against the database
    */
@@ -87,6 +132,7 @@ export class MySqlConnection extends Connection {
     
     try {
       const [result] = await this.getClient().execute(query, bindings);
+      this.recordsHaveBeenModified();
       
       const time = Date.now() - startTime;
       this.logQuery(query, bindings, time);
@@ -121,6 +167,7 @@ export class MySqlConnection extends Connection {
     
     try {
       await this.getClient().execute(query, bindings);
+      this.recordsHaveBeenModified();
       
       const time = Date.now() - startTime;
       this.logQuery(query, bindings, time);
@@ -139,11 +186,13 @@ export class MySqlConnection extends Connection {
     
     try {
       const [result] = await this.getClient().execute(query, bindings);
+      const affected = (result as any).affectedRows || 0;
+      this.recordsHaveBeenModified(affected > 0);
       
       const time = Date.now() - startTime;
       this.logQuery(query, bindings, time);
       
-      return (result as any).affectedRows || 0;
+      return affected;
     } catch (error) {
       throw this.handleQueryException(error as Error, query, bindings);
     }
@@ -168,25 +217,103 @@ export class MySqlConnection extends Connection {
   }
 
   /**
-   * Create a transaction within the database
+   * Load rows with LOAD DATA LOCAL INFILE when the `localInfile` option is on,
+   * streaming them to the server as they are read; chunked inserts otherwise
+   */
+  async bulkLoad(table: string, rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    if (!this.config.localInfile) {
+      return super.bulkLoad(table, rows, options);
+    }
+
+    const load = await this.openBulkLoad(rows, options);
+
+    if (!load) {
+      return 0;
+    }
+
+    const grammar = this.getQueryGrammar();
+    const query = `load data local infile 'guruorm' into table ${grammar.wrapTable(table)} `
+      + `character set ${this.config.charset || 'utf8mb4'} `
+      + "fields terminated by '\\t' escaped by '\\\\' lines terminated by '\\n' "
+      + `(${grammar.columnize(load.columns)})`;
+    const transaction = this.currentTransaction().client;
+    const connection = transaction || await this.pool!.getConnection();
+
+    try {
+      const [result] = await connection.query({
+        sql: query,
+        infileStreamFactory: () => Readable.from(this.bulkLoadText(load.batches)),
+      });
+      this.recordsHaveBeenModified();
+      this.logQuery(query, [], 0);
+
+      return result.affectedRows;
+    } catch (error) {
+      throw this.handleQueryException(error as Error, query, []);
+    } finally {
+      if (!transaction) {
+        connection.release();
+      }
+    }
+  }
+
+  /**
+   * Format a non-null value for LOAD DATA; dates use MySQL's datetime literal format
    */
-  protected async createTransaction(): Promise<void> {
-    await this.unprepared('START TRANSACTION');
+  protected formatBulkLoadValue(value: unknown): string {
+    if (value instanceof Date) {
+      return value.toISOString().replace('T', ' ').replace('Z', '');
+    }
+
+    return super.formatBulkLoadValue(value);
+  }
+
+  /**
+   * Create a transaction — checks out a dedicated connection from the pool.
+   * All queries inside the transaction use this connection.
+   */
+  protected async createTransaction(options: TransactionOptions = {}): Promise<void> {
+    const state = this.currentTransaction();
+
+    if (state.level === 0) {
+      const isolationLevel = options.isolationLevel ? this.compileIsolationLevel(options.isolationLevel) : null;
+      state.client = await this.pool!.getConnection();
+
+      try {
+        // Applies to the next transaction started on this connection only
+        if (isolationLevel) {
+          await this.unprepared(`SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`);
+        }
+
+        await this.unprepared(options.readOnly ? 'START TRANSACTION READ ONLY' : 'START TRANSACTION');
+      } catch (error) {
+        this.releaseTransactionClient().release();
+        throw error;
+      }
+    } else {
+      await this.unprepared(`SAVEPOINT sp${state.level}`);
+    }
   }
 
   /**
-   * Perform a commit on the database
+   * Perform a commit and release the dedicated connection back to the pool.
+   * The connection is kept when COMMIT fails, so the rollback that follows can use it.
    */
   protected async performCommit(): Promise<void> {
     await this.unprepared('COMMIT');
+    this.releaseTransactionClient()?.release();
   }
 
   /**
-   * Perform a rollback on the database
+   * Perform a rollback — release the connection on full rollback.
    */
   protected async performRollBack(toLevel: number): Promise<void> {
     if (toLevel === 0) {
-      await this.unprepared('ROLLBACK');
+      try {
+        await this.unprepared('ROLLBACK');
+      } finally {
+        this.releaseTransactionClient()?.release();
+      }
     } else {
       await this.unprepared(`ROLLBACK TO SAVEPOINT sp${toLevel}`);
     }
@@ -218,9 +345,10 @@ export class MySqlConnection extends Connection {
    */
   async disconnect(): Promise<void> {
     if (this.pool) {
-      await this.pool.end();
+      await Promise.all([this.pool, ...this.readClients].map((pool) => pool.end()));
       this.pool = null;
       this.client = null;
+      this.readClients = [];
     }
   }
 
@@ -1,5 +1,7 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { Connection } from './Connection';
-import { ConnectionConfig } from './ConnectionInterface';
+import { BulkLoadOptions, BulkLoadRows, ConnectionConfig, TransactionOptions } from './ConnectionInterface';
 import { PostgresGrammar } from '../Query/Grammars/PostgresGrammar';
 import { PostgresGrammar as SchemaPostgresGrammar } from '../Schema/Grammars/PostgresGrammar';
 import { Processor } from '../Query/Processors/Processor';
@@ -11,10 +13,8 @@ export class PostgresConnection extends Connection {
   protected pool: any | null = null;
   /** Cached flag: true only when user supplied a postProcessResponse hook */
   private _hasPostProcess: boolean;
-  /** Cached read client — avoids the || fallback on every query */
-  private _readPool: any;
-  /** Dedicated client checked out for the duration of a transaction */
-  private _txClient: any | null = null;
+  /** Counter used to give every server-side cursor a unique name */
+  private static cursorCount = 0;
 
   constructor(config: ConnectionConfig) {
     super(config);
@@ -37,20 +37,23 @@ export class PostgresConnection extends Connection {
       );
     }
 
-    this.pool = new PgPool({
-      host: this.config.host || 'localhost',
-      port: this.config.port || 5432,
-      user: this.config.username,
-      password: this.config.password,
-      database: this.config.database,
-      max: this.config.pool?.max || 10,
+    const createPool = (config: ConnectionConfig) => new PgPool({
+      host: config.host || 'localhost',
+      port: config.port || 5432,
+      user: config.username,
+      password: config.password,
+      database: config.database,
+      max: config.pool?.max || 10,
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 2000,
     });
 
+    this.pool = createPool(this.getWriteConfig());
+    this.readClients = this.getReadConfigs().map(createPool);
+
     this.client = this.pool;
     this._hasPostProcess = typeof this.config.postProcessResponse === 'function';
-    this._readPool = this.readClient || this.pool;
+    this.scopesTransactions = true;
   }
 
   /**
@@ -79,7 +82,7 @@ export class PostgresConnection extends Connection {
     const pgQuery = query.indexOf('?') === -1 ? query : this.convertBindings(query);
     
     try {
-      const connection = this._txClient || (useReadPdo ? this._readPool : this.pool!);
+      const connection = useReadPdo ? this.getReadClient() : this.getClient();
       const result = await connection.query(pgQuery, bindings);
       
       if (this.loggingQueries) {
@@ -94,6 +97,56 @@ export class PostgresConnection extends Connection {
     }
   }
 
+  /**
+   * Stream the rows of a select statement through a server-side cursor.
+   * Rows are fetched in batches, so only one batch is held in memory; the
+   * cursor lives on a dedicated pooled client (or the current transaction's)
+   * and is closed as soon as the consumer stops iterating.
+   */
+  async *cursor(query: string, bindings: any[] = [], useReadPdo = true): AsyncGenerator<any> {
+    const pgQuery = query.indexOf('?') === -1 ? query : this.convertBindings(query);
+    const transaction = this.currentTransaction().client;
+    const client = transaction || await (useReadPdo ? this.getReadClient() : this.getClient()).connect();
+    const name = `guruorm_cursor_${++PostgresConnection.cursorCount}`;
+    const batchSize = this.cursorBatchSize();
+    let failed = false;
+
+    try {
+      if (!transaction) {
+        await client.query('BEGIN');
+      }
+
+      await client.query(`DECLARE ${name} NO SCROLL CURSOR FOR ${pgQuery}`, bindings);
+
+      if (this.loggingQueries) {
+        this.queryLog.push({ query: pgQuery, bindings, time: 0 });
+      }
+
+      while (true) {
+        const { rows } = await client.query(`FETCH ${batchSize} FROM ${name}`);
+        const processed = this._hasPostProcess ? this.config.postProcessResponse!(rows) : rows;
+
+        for (const row of processed) {
+          yield row;
+        }
+
+        if (rows.length < batchSize) {
+          break;
+        }
+      }
+    } catch (error) {
+      failed = true;
+      throw this.handleQueryException(error as Error, pgQuery, bindings);
+    } finally {
+      if (transaction) {
+        await client.query(`CLOSE ${name}`).catch(() => {});
+      } else {
+        await client.query(failed ? 'ROLLBACK' : 'COMMIT').catch(() => {});
+        client.release();
+      }
+    }
+  }
+
   /**
    * Run an insert statement against the database
    */
@@ -122,7 +175,8 @@ export class PostgresConnection extends Connection {
     const pgQuery = query.indexOf('?') === -1 ? query : this.convertBindings(query);
     
     try {
-      await (this._txClient || this.pool!).query(pgQuery, bindings);
+      await this.getClient().query(pgQuery, bindings);
+      this.recordsHaveBeenModified();
       
       if (this.loggingQueries) {
         this.queryLog.push({ query: pgQuery, bindings, time: 0 });
@@ -141,7 +195,8 @@ export class PostgresConnection extends Connection {
     const pgQuery = query.indexOf('?') === -1 ? query : this.convertBindings(query);
     
     try {
-      const result = await (this._txClient || this.pool!).query(pgQuery, bindings);
+      const result = await this.getClient().query(pgQuery, bindings);
+      this.recordsHaveBeenModified((result.rowCount || 0) > 0);
       
       if (this.loggingQueries) {
         this.queryLog.push({ query: pgQuery, bindings, time: 0 });
@@ -159,34 +214,112 @@ export class PostgresConnection extends Connection {
    */
   async unprepared(query: string): Promise<boolean> {
     try {
-      await (this._txClient || this.pool!).query(query);
+      await this.getClient().query(query);
       return true;
     } catch (error) {
       throw this.handleQueryException(error as Error, query, []);
     }
   }
 
+  /**
+   * Load rows with COPY ... FROM STDIN, streaming them to the server as they are read
+   */
+  async bulkLoad(table: string, rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    let copyFrom: any;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      copyFrom = require('pg-copy-streams').from;
+    } catch {
+      throw new Error(
+        'pg-copy-streams package is required for PostgreSQL bulk loads. Install it with: npm install pg-copy-streams'
+      );
+    }
+
+    const load = await this.openBulkLoad(rows, options);
+
+    if (!load) {
+      return 0;
+    }
+
+    const grammar = this.getQueryGrammar();
+    const query = `copy ${grammar.wrapTable(table)} (${grammar.columnize(load.columns)}) from stdin`;
+    const transaction = this.currentTransaction().client;
+    const client = transaction || await this.pool!.connect();
+    let failed = false;
+
+    try {
+      const stream = client.query(copyFrom(query));
+      await pipeline(Readable.from(this.bulkLoadText(load.batches)), stream);
+      this.recordsHaveBeenModified();
+
+      if (this.loggingQueries) {
+        this.queryLog.push({ query, bindings: [], time: 0 });
+      }
+
+      return stream.rowCount;
+    } catch (error) {
+      failed = true;
+      throw this.handleQueryException(error as Error, query, []);
+    } finally {
+      if (!transaction) {
+        // A client whose COPY was aborted midway is discarded rather than reused
+        client.release(failed);
+      }
+    }
+  }
+
   /**
    * Create a transaction — checks out a dedicated client from the pool.
    * All queries inside the transaction use this client.
    */
-  protected async createTransaction(): Promise<void> {
-    if (this.transactions === 0) {
-      this._txClient = await this.pool!.connect();
-      await this._txClient.query('BEGIN');
+  protected async createTransaction(options: TransactionOptions = {}): Promise<void> {
+    const state = this.currentTransaction();
+
+    if (state.level === 0) {
+      const begin = this.compileBegin(options);
+      state.client = await this.pool!.connect();
+
+      try {
+        await state.client.query(begin);
+      } catch (error) {
+        this.releaseTransactionClient().release();
+        throw this.handleQueryException(error as Error, begin, []);
+      }
     } else {
-      await this._txClient!.query(`SAVEPOINT sp${this.transactions + 1}`);
+      await state.client.query(`SAVEPOINT sp${state.level + 1}`);
     }
   }
 
+  /**
+   * Compile the BEGIN statement with the requested transaction modes
+   */
+  protected compileBegin(options: TransactionOptions): string {
+    let sql = 'BEGIN';
+
+    if (options.isolationLevel) {
+      sql += ` ISOLATION LEVEL ${this.compileIsolationLevel(options.isolationLevel)}`;
+    }
+
+    if (options.readOnly) {
+      sql += ' READ ONLY';
+    }
+
+    return sql;
+  }
+
   /**
    * Perform a commit and release the dedicated client back to the pool.
+   * The client is kept when COMMIT fails, so the rollback that follows can use it.
    */
   protected async performCommit(): Promise<void> {
-    const client = this._txClient!;
-    this._txClient = null;
-    await client.query('COMMIT');
-    client.release();
+    try {
+      // Serialization failures of serializable transactions are often raised here
+      await this.currentTransaction().client.query('COMMIT');
+    } catch (error) {
+      throw this.handleQueryException(error as Error, 'COMMIT', []);
+    }
+
+    this.releaseTransactionClient().release();
   }
 
   /**
@@ -194,12 +327,19 @@ export class PostgresConnection extends Connection {
    */
   protected async performRollBack(toLevel: number): Promise<void> {
     if (toLevel === 0) {
-      const client = this._txClient!;
-      this._txClient = null;
-      await client.query('ROLLBACK');
-      client.release();
+      const client = this.releaseTransactionClient();
+
+      if (!client) {
+        return;
+      }
+
+      try {
+        await client.query('ROLLBACK');
+      } finally {
+        client.release();
+      }
     } else {
-      await this._txClient!.query(`ROLLBACK TO SAVEPOINT sp${toLevel + 1}`);
+      await this.currentTransaction().client.query(`ROLLBACK TO SAVEPOINT sp${toLevel + 1}`);
     }
   }
 
@@ -236,9 +376,10 @@ export class PostgresConnection extends Connection {
    */
   async disconnect(): Promise<void> {
     if (this.pool) {
-      await this.pool.end();
+      await Promise.all([this.pool, ...this.readClients].map((pool) => pool.end()));
       this.pool = null;
       this.client = null;
+      this.readClients = [];
     }
   }
 
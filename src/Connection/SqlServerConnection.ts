@@ -1,9 +1,19 @@
 import { Connection } from './Connection';
-import { ConnectionConfig } from './ConnectionInterface';
-import { Grammar as QueryGrammar } from '../Query/Grammars/Grammar';
-import { Grammar as SchemaGrammar } from '../Schema/Grammars/Grammar';
+import { BulkLoadOptions, BulkLoadRows, ConnectionConfig, TransactionOptions } from './ConnectionInterface';
+import { SqlServerGrammar } from '../Query/Grammars/SqlServerGrammar';
+import { SqlServerGrammar as SchemaSqlServerGrammar } from '../Schema/Grammars/SqlServerGrammar';
 import { Processor } from '../Query/Processors/Processor';
 
+/**
+ * Isolation level constants expected by mssql's Transaction.begin()
+ */
+const ISOLATION_LEVEL_CODES: Record<string, number> = {
+  'READ UNCOMMITTED': 1,
+  'READ COMMITTED': 2,
+  'REPEATABLE READ': 3,
+  SERIALIZABLE: 4,
+};
+
 /**
  * SQL Server Connection - inspired by Laravel and Illuminate
  */
@@ -19,6 +29,8 @@ export class SqlServerConnection extends Connection {
     this.useDefaultSchemaGrammar();
     this.useDefaultPostProcessor();
     
+    this.scopesTransactions = true;
+
     // Start connection but don't await in constructor
     this.poolPromise = this.createConnection();
   }
@@ -38,30 +50,31 @@ export class SqlServerConnection extends Connection {
       );
     }
 
-    const poolConfig = {
-      server: this.config.host || 'localhost',
+    const createPool = (config: ConnectionConfig) => new ConnectionPool({
+      server: config.host || 'localhost',
       options: {
-        port: this.config.port || 1433,
-        database: this.config.database,
+        port: config.port || 1433,
+        database: config.database,
         trustServerCertificate: true,
         encrypt: true,
       },
       authentication: {
         type: 'default' as const,
         options: {
-          userName: this.config.username,
-          password: this.config.password,
+          userName: config.username,
+          password: config.password,
         },
       },
       pool: {
-        max: this.config.pool?.max || 10,
-        min: this.config.pool?.min || 0,
+        max: config.pool?.max || 10,
+        min: config.pool?.min || 0,
         idleTimeoutMillis: 30000,
       },
-    };
+    });
 
-    this.pool = new ConnectionPool(poolConfig);
-    await this.pool.connect();
+    this.pool = createPool(this.getWriteConfig());
+    this.readClients = this.getReadConfigs().map(createPool);
+    await Promise.all([this.pool, ...this.readClients].map((pool) => pool.connect()));
     this.client = this.pool;
   }
 
@@ -106,6 +119,46 @@ export class SqlServerConnection extends Connection {
     }
   }
 
+  /**
+   * Stream the rows of a select statement with a streaming mssql request.
+   * The request is paused whenever the consumer falls behind and cancelled
+   * when the consumer stops iterating early.
+   */
+  async *cursor(query: string, bindings: any[] = [], useReadPdo = true): AsyncGenerator<any> {
+    await this.ensureConnected();
+
+    const connection = useReadPdo ? this.getReadClient() : this.getClient();
+    const request = connection.request();
+
+    bindings.forEach((value, index) => {
+      request.input(`p${index}`, value);
+    });
+
+    let paramIndex = 0;
+    const parameterizedQuery = query.replace(/\?/g, () => `@p${paramIndex++}`);
+    const stream = request.toReadableStream({ highWaterMark: this.cursorBatchSize() });
+    let finished = false;
+
+    request.once('done', () => {
+      finished = true;
+    });
+
+    try {
+      request.query(parameterizedQuery);
+      this.logQuery(query, bindings, 0);
+
+      for await (const row of stream) {
+        yield this.postProcessResponse([row])[0];
+      }
+    } catch (error) {
+      throw this.handleQueryException(error as Error, query, bindings);
+    } finally {
+      if (!finished) {
+        request.cancel();
+      }
+    }
+  }
+
   /**
    * Run an insert statement against the database
    */
@@ -145,6 +198,7 @@ export class SqlServerConnection extends Connection {
       const parameterizedQuery = query.replace(/\?/g, () => `@p${paramIndex++}`);
       
       await request.query(parameterizedQuery);
+      this.recordsHaveBeenModified();
       
       const time = Date.now() - startTime;
       this.logQuery(query, bindings, time);
@@ -173,11 +227,13 @@ export class SqlServerConnection extends Connection {
       const parameterizedQuery = query.replace(/\?/g, () => `@p${paramIndex++}`);
       
       const result = await request.query(parameterizedQuery);
+      const affected = result.rowsAffected[0] || 0;
+      this.recordsHaveBeenModified(affected > 0);
       
       const time = Date.now() - startTime;
       this.logQuery(query, bindings, time);
       
-      return result.rowsAffected[0] || 0;
+      return affected;
     } catch (error) {
       throw this.handleQueryException(error as Error, query, bindings);
     }
@@ -203,25 +259,117 @@ export class SqlServerConnection extends Connection {
   }
 
   /**
-   * Create a transaction within the database
+   * Load rows in batches with the TDS bulk insert protocol, all in one transaction.
+   * Column types are inferred from the first non-null value of each batch.
+   */
+  async bulkLoad(table: string, rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    await this.ensureConnected();
+
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const driver = require('tedious');
+    const name = this.getTablePrefix() + table;
+
+    return this.transaction(async () => {
+      let count = 0;
+
+      for await (const batch of this.bulkLoadBatches(rows, options)) {
+        const bulk = new driver.Table(name);
+        bulk.create = false;
+
+        for (const column of Object.keys(batch[0])) {
+          const sample = batch.find((row) => row[column] !== null)?.[column];
+          bulk.columns.add(column, this.bulkLoadColumnType(driver, sample), { nullable: true });
+        }
+
+        for (const row of batch) {
+          bulk.rows.add(...Object.values(row).map((value) => (
+            value !== null && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value)
+              ? JSON.stringify(value)
+              : value
+          )));
+        }
+
+        try {
+          const result = await this.getClient().request().bulk(bulk);
+          count += result.rowsAffected;
+        } catch (error) {
+          throw this.handleQueryException(error as Error, `bulk insert ${name}`, []);
+        }
+      }
+
+      this.recordsHaveBeenModified();
+
+      return count;
+    });
+  }
+
+  /**
+   * Infer the SQL type of a bulk loaded column from a sample value
+   */
+  protected bulkLoadColumnType(driver: any, sample: any): any {
+    if (typeof sample === 'boolean') {
+      return driver.Bit;
+    }
+
+    if (typeof sample === 'number') {
+      return Number.isInteger(sample) ? driver.BigInt : driver.Float;
+    }
+
+    if (sample instanceof Date) {
+      return driver.DateTime2;
+    }
+
+    if (Buffer.isBuffer(sample)) {
+      return driver.VarBinary(driver.MAX);
+    }
+
+    return driver.NVarChar(driver.MAX);
+  }
+
+  /**
+   * Create a transaction — begins a pool transaction, which holds a dedicated
+   * connection. All requests inside the transaction are issued through it.
+   * SQL Server has no read-only transactions, so `readOnly` is ignored.
    */
-  protected async createTransaction(): Promise<void> {
-    await this.unprepared('BEGIN TRANSACTION');
+  protected async createTransaction(options: TransactionOptions = {}): Promise<void> {
+    await this.ensureConnected();
+    const state = this.currentTransaction();
+
+    if (state.level === 0) {
+      const transaction = this.pool!.transaction();
+
+      if (options.isolationLevel) {
+        await transaction.begin(ISOLATION_LEVEL_CODES[this.compileIsolationLevel(options.isolationLevel)]);
+      } else {
+        await transaction.begin();
+      }
+
+      state.client = transaction;
+    } else {
+      await this.unprepared(`SAVE TRANSACTION sp${state.level}`);
+    }
   }
 
   /**
-   * Perform a commit on the database
+   * Perform a commit and return the dedicated connection to the pool.
+   * The transaction is kept when the commit fails, so the rollback that follows can use it.
    */
   protected async performCommit(): Promise<void> {
-    await this.unprepared('COMMIT');
+    try {
+      await this.currentTransaction().client.commit();
+    } catch (error) {
+      throw this.handleQueryException(error as Error, 'COMMIT', []);
+    }
+
+    this.releaseTransactionClient();
   }
 
   /**
-   * Perform a rollback on the database
+   * Perform a rollback — the connection is returned on full rollback.
    */
   protected async performRollBack(toLevel: number): Promise<void> {
     if (toLevel === 0) {
-      await this.unprepared('ROLLBACK');
+      await this.releaseTransactionClient()?.rollback();
     } else {
       await this.unprepared(`ROLLBACK TRANSACTION sp${toLevel}`);
     }
@@ -231,14 +379,14 @@ export class SqlServerConnection extends Connection {
    * Set the query grammar to the default implementation
    */
   protected useDefaultQueryGrammar(): void {
-    this.setQueryGrammar(new QueryGrammar());
+    this.setQueryGrammar(new SqlServerGrammar());
   }
 
   /**
    * Set the schema grammar to the default implementation
    */
   protected useDefaultSchemaGrammar(): void {
-    this.schemaGrammar = new SchemaGrammar();
+    this.schemaGrammar = new SchemaSqlServerGrammar();
   }
 
   /**
@@ -253,9 +401,10 @@ export class SqlServerConnection extends Connection {
    */
   async disconnect(): Promise<void> {
     if (this.pool) {
-      await this.pool.close();
+      await Promise.all([this.pool, ...this.readClients].map((pool) => pool.close()));
       this.pool = null;
       this.client = null;
+      this.readClients = [];
     }
   }
 
@@ -1,7 +1,7 @@
 import { Connection } from './Connection';
-import { ConnectionConfig } from './ConnectionInterface';
-import { Grammar as QueryGrammar } from '../Query/Grammars/Grammar';
-import { Grammar as SchemaGrammar } from '../Schema/Grammars/Grammar';
+import { BulkLoadOptions, BulkLoadRows, ConnectionConfig } from './ConnectionInterface';
+import { SqliteGrammar } from '../Query/Grammars/SqliteGrammar';
+import { SqliteGrammar as SchemaSqliteGrammar } from '../Schema/Grammars/SqliteGrammar';
 import { Processor } from '../Query/Processors/Processor';
 
 /**
@@ -62,6 +62,25 @@ export class SqliteConnection extends Connection {
     }
   }
 
+  /**
+   * Stream the rows of a select statement with better-sqlite3's iterate().
+   * The connection is busy until iteration finishes or the consumer breaks.
+   */
+  async *cursor(query: string, bindings: any[] = [], _useReadPdo = true): AsyncGenerator<any> {
+    await this.createConnection();
+
+    try {
+      const rows = this.getClient().prepare(query).iterate(...bindings);
+      this.logQuery(query, bindings, 0);
+
+      for (const row of rows) {
+        yield this.postProcessResponse([row])[0];
+      }
+    } catch (error) {
+      throw this.handleQueryException(error as Error, query, bindings);
+    }
+  }
+
   /**
    * Run an insert statement against the database
    */
@@ -143,10 +162,74 @@ export class SqliteConnection extends Connection {
   }
 
   /**
-   * Create a transaction within the database
+   * Load rows in batches through a single prepared insert, all in one transaction
+   */
+  async bulkLoad(table: string, rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    await this.createConnection();
+
+    return this.transaction(async () => {
+      const grammar = this.getQueryGrammar();
+      let statement: any = null;
+      let query = '';
+      let count = 0;
+
+      for await (const batch of this.bulkLoadBatches(rows, options)) {
+        try {
+          if (!statement) {
+            const columns = Object.keys(batch[0]);
+            query = `insert into ${grammar.wrapTable(table)} (${grammar.columnize(columns)}) values (${grammar.parameterize(columns)})`;
+            statement = this.getClient().prepare(query);
+          }
+
+          for (const row of batch) {
+            statement.run(...Object.values(row).map((value) => this.formatBulkLoadBinding(value)));
+          }
+        } catch (error) {
+          throw this.handleQueryException(error as Error, query, []);
+        }
+
+        count += batch.length;
+      }
+
+      if (count > 0) {
+        this.logQuery(query, [], 0);
+      }
+
+      return count;
+    });
+  }
+
+  /**
+   * Convert a value to one SQLite can bind: booleans become 1 or 0, dates ISO strings
+   * and other objects JSON, while buffers are bound as blobs
+   */
+  protected formatBulkLoadBinding(value: unknown): unknown {
+    if (value === null || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+
+    if (typeof value === 'object') {
+      return this.formatBulkLoadValue(value);
+    }
+
+    return value;
+  }
+
+  /**
+   * Create a transaction within the database, or a savepoint when one is already open
    */
   protected async createTransaction(): Promise<void> {
-    await this.unprepared('BEGIN TRANSACTION');
+    const level = this.transactionLevel();
+
+    if (level === 0) {
+      await this.unprepared('BEGIN TRANSACTION');
+    } else {
+      await this.unprepared(`SAVEPOINT sp${level}`);
+    }
   }
 
   /**
@@ -171,14 +254,14 @@ export class SqliteConnection extends Connection {
    * Set the query grammar to the default implementation
    */
   protected useDefaultQueryGrammar(): void {
-    this.setQueryGrammar(new QueryGrammar());
+    this.setQueryGrammar(new SqliteGrammar());
   }
 
   /**
    * Set the schema grammar to the default implementation
    */
   protected useDefaultSchemaGrammar(): void {
-    this.schemaGrammar = new SchemaGrammar();
+    this.schemaGrammar = new SchemaSqliteGrammar();
   }
 
   /**
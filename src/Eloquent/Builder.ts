@@ -1,14 +1,27 @@
-import { Builder as QueryBuilder } from '../Query/Builder';
-import { Model } from './Model';
+import { Readable, Writable } from 'stream';
+import { Builder as QueryBuilder, ColumnOf } from '../Query/Builder';
+import { Expression } from '../Query/Expression';
+import { AttributesOf, Model } from './Model';
 import { Collection } from './Collection';
-import { ModelNotFoundException, RelationNotFoundException } from '../Errors/GuruORMError';
+import { GuruORMError, ModelNotFoundException, RelationNotFoundException } from '../Errors/GuruORMError';
 import { snakeCase } from '../Support/helpers';
+import { CsvExportOptions, exportCsv, exportNdjson } from '../Support/Export';
+
+/**
+ * Column names of the model being queried (any string for untyped models)
+ */
+type ModelColumn<TModel> = ColumnOf<AttributesOf<TModel>>;
+
+/**
+ * The model classes or morph map aliases a morph to relationship is queried for
+ */
+type MorphTypes = string | typeof Model | Array<string | typeof Model>;
 
 /**
  * Eloquent Builder - inspired by Laravel and Illuminate
  * Extends the query builder with model-aware functionality
  */
-export class Builder {
+export class Builder<TModel extends Model = any> {
   protected query: QueryBuilder;
   protected model!: Model;
   protected eagerLoad: Record<string, Function> = {};
@@ -50,6 +63,8 @@ export class Builder {
   /**
    * Find a model by its primary key
    */
+  find(id: any[], columns?: string[]): Promise<Collection<TModel>>;
+  find(id: any, columns?: string[]): Promise<TModel | null>;
   async find(id: any, columns: string[] = ['*']): Promise<any> {
     if (Array.isArray(id)) {
       return this.findMany(id, columns);
@@ -61,9 +76,9 @@ export class Builder {
   /**
    * Find multiple models by their primary keys
    */
-  async findMany(ids: any[], columns: string[] = ['*']): Promise<Collection<any>> {
+  async findMany(ids: any[], columns: string[] = ['*']): Promise<Collection<TModel>> {
     if (ids.length === 0) {
-      return new Collection([]);
+      return new Collection<TModel>();
     }
 
     return this.whereKey(ids).get(columns);
@@ -72,8 +87,10 @@ export class Builder {
   /**
    * Find a model by its primary key or throw an exception
    */
+  findOrFail(id: any[], columns?: string[]): Promise<Collection<TModel>>;
+  findOrFail(id: any, columns?: string[]): Promise<TModel>;
   async findOrFail(id: any, columns: string[] = ['*']): Promise<any> {
-    const result = await this.find(id, columns);
+    const result: any = await this.find(id, columns);
 
     if (Array.isArray(id)) {
       if (result.count() !== id.length) {
@@ -92,7 +109,7 @@ export class Builder {
   /**
    * Execute the query and get the first result
    */
-  async first(columns: string[] = ['*']): Promise<any> {
+  async first(columns: string[] = ['*']): Promise<TModel | null> {
     const results = await this.take(1).get(columns);
     return results.first() || null;
   }
@@ -100,7 +117,7 @@ export class Builder {
   /**
    * Execute the query and get the first result or throw an exception
    */
-  async firstOrFail(columns: string[] = ['*']): Promise<any> {
+  async firstOrFail(columns: string[] = ['*']): Promise<TModel> {
     const model = await this.first(columns);
 
     if (!model) {
@@ -130,7 +147,7 @@ export class Builder {
   /**
    * Get the first record matching the attributes or create it
    */
-  async firstOrCreate(attributes: Record<string, any>, values: Record<string, any> = {}): Promise<any> {
+  async firstOrCreate(attributes: Partial<AttributesOf<TModel>>, values: Partial<AttributesOf<TModel>> = {}): Promise<TModel> {
     const instance = await this.where(attributes).first();
 
     if (instance) {
@@ -143,7 +160,7 @@ export class Builder {
   /**
    * Get the first record matching the attributes or instantiate it
    */
-  async firstOrNew(attributes: Record<string, any>, values: Record<string, any> = {}): Promise<any> {
+  async firstOrNew(attributes: Partial<AttributesOf<TModel>>, values: Partial<AttributesOf<TModel>> = {}): Promise<TModel> {
     const instance = await this.where(attributes).first();
 
     if (instance) {
@@ -156,7 +173,7 @@ export class Builder {
   /**
    * Create or update a record matching the attributes, and fill it with values
    */
-  async updateOrCreate(attributes: Record<string, any>, values: Record<string, any> = {}): Promise<any> {
+  async updateOrCreate(attributes: Partial<AttributesOf<TModel>>, values: Partial<AttributesOf<TModel>> = {}): Promise<TModel> {
     const instance = await this.firstOrNew(attributes);
 
     instance.fill(values);
@@ -168,7 +185,7 @@ export class Builder {
   /**
    * Execute the query as a "select" statement
    */
-  async get(columns: string[] = ['*']): Promise<Collection<any>> {
+  async get(columns: string[] = ['*']): Promise<Collection<TModel>> {
     const builder = this.applyScopes();
     
     const models = await builder.getModels(columns);
@@ -176,7 +193,7 @@ export class Builder {
     // If we have eager loads, load them now
     if (Object.keys(this.eagerLoad).length > 0) {
       const eagerModels = await builder.eagerLoadRelations(models as any[]);
-      return Collection.from(eagerModels) as Collection<any>;
+      return Collection.from(eagerModels) as Collection<TModel>;
     }
 
     return models;
@@ -185,7 +202,7 @@ export class Builder {
   /**
    * Get the hydrated models without eager loading
    */
-  async getModels(columns: string[] = ['*']): Promise<Collection<any>> {
+  async getModels(columns: string[] = ['*']): Promise<Collection<TModel>> {
     const results = await this.query.get(columns);
     return this.hydrate(results);
   }
@@ -193,10 +210,10 @@ export class Builder {
   /**
    * Create a collection of models from plain arrays
    */
-  hydrate(items: any[]): Collection<any> {
+  hydrate(items: any[]): Collection<TModel> {
     const models = items.map(item => this.newModelInstance(item, true));
     // Collection.from avoids spread-based stack overflow with large result sets
-    const col = Collection.from(models) as Collection<any>;
+    const col = Collection.from(models) as Collection<TModel>;
     // Fire 'retrieved' event for each hydrated model (non-blocking microtask)
     for (const model of models) {
       model.fireModelEvent('retrieved', false).catch(() => {});
@@ -207,7 +224,7 @@ export class Builder {
   /**
    * Get an array of a single column's values
    */
-  async pluck(column: string): Promise<any[]> {
+  async pluck<K extends ModelColumn<TModel>>(column: K): Promise<AttributesOf<TModel>[K][]> {
     const results = await this.query.pluck(column);
     return results;
   }
@@ -518,6 +535,25 @@ export class Builder {
           .whereRaw(`"${relatedTable}"."${foreignKey}" = "${parentTable}"."${localKey}"`)
           .whereRaw(`"${relatedTable}"."${morphType}" = '${morphClass}'`);  // Use raw SQL to avoid binding issues
 
+      } else if (relationInstance.constructor.name === 'BelongsToMany' || relationInstance.constructor.name === 'MorphToMany') {
+        // Many-to-many relations, through the pivot table
+        const pivotTable = relationInstance.getTable();
+        const foreignPivotKey = relationInstance.getForeignPivotKeyName();
+        const relatedPivotKey = relationInstance.getRelatedPivotKeyName();
+        const parentKey = relationInstance.getParentKeyName();
+        const relatedKey = relationInstance.getRelatedKeyName();
+
+        subquery = this.query.newQuery()
+          .from(relatedTable)
+          .selectRaw(`${aggregateFunction.toUpperCase()}(${column === '*' ? '*' : `"${relatedTable}"."${column}"`})`)
+          .join(pivotTable, `${pivotTable}.${relatedPivotKey}`, '=', `${relatedTable}.${relatedKey}`)
+          .whereRaw(`"${pivotTable}"."${foreignPivotKey}" = "${parentTable}"."${parentKey}"`);
+
+        if (relationInstance.constructor.name === 'MorphToMany') {
+          const morphClass = relationInstance.getMorphClass().replace(/'/g, "''");
+          subquery.whereRaw(`"${pivotTable}"."${relationInstance.getMorphType()}" = '${morphClass}'`);
+        }
+
       } else if (relationInstance.constructor.name === 'HasMany' || relationInstance.constructor.name === 'HasOne') {
         // HasMany / HasOne relations
         const foreignKey = (relationInstance as any).foreignKey;
@@ -528,6 +564,19 @@ export class Builder {
           .selectRaw(`${aggregateFunction.toUpperCase()}(${column === '*' ? '*' : `"${column}"`})`)
           .whereRaw(`"${relatedTable}"."${foreignKey}" = "${parentTable}"."${localKey}"`);
 
+        // One-of-many relations only aggregate the single chosen row
+        if (relationInstance.constructor.name === 'HasOne' && relationInstance.isOneOfMany()) {
+          relationInstance.joinOneOfMany(subquery);
+        }
+
+      } else if (relationInstance.constructor.name === 'HasManyDeep') {
+        // Deep relations, joining every intermediate table
+        subquery = relationInstance.fromRelatedTable(this.query.newQuery())
+          .selectRaw(`${aggregateFunction.toUpperCase()}(${column === '*' ? '*' : `"${relationInstance.getRelatedTableName()}"."${column}"`})`);
+
+        relationInstance.addThroughConstraints(subquery);
+        subquery.whereColumn(relationInstance.getQualifiedFirstKeyName(), '=', `${parentTable}.${relationInstance.getLocalKeyName()}`);
+
       } else if (relationInstance.constructor.name === 'BelongsTo') {
         // BelongsTo relations
         const foreignKey = (relationInstance as any).foreignKey;
@@ -596,6 +645,94 @@ export class Builder {
     return this.doesntHave_internal(relation, 'or', callback);
   }
 
+  /**
+   * Add a where clause based on the existence of a morph to relationship,
+   * checking the related table of each of the given morph types
+   */
+  whereHasMorph(relation: string, types: MorphTypes, callback?: Function): this {
+    return this.hasMorph_internal(relation, types, true, 'and', callback);
+  }
+
+  /**
+   * Add an "or where" clause based on the existence of a morph to relationship
+   */
+  orWhereHasMorph(relation: string, types: MorphTypes, callback?: Function): this {
+    return this.hasMorph_internal(relation, types, true, 'or', callback);
+  }
+
+  /**
+   * Add a where clause that requires a morph to relationship of the given types to NOT exist
+   */
+  whereDoesntHaveMorph(relation: string, types: MorphTypes, callback?: Function): this {
+    return this.hasMorph_internal(relation, types, false, 'and', callback);
+  }
+
+  /**
+   * Add an "or where" clause that requires a morph to relationship of the given types to NOT exist
+   */
+  orWhereDoesntHaveMorph(relation: string, types: MorphTypes, callback?: Function): this {
+    return this.hasMorph_internal(relation, types, false, 'or', callback);
+  }
+
+  /**
+   * Internal method to handle morph to existence queries. A morph to relation has no
+   * single related table, so each type gets its own "type = ? and exists (...)" group
+   * and the groups are OR'd together. The callback receives the query and the model class.
+   */
+  protected hasMorph_internal(relation: string, types: MorphTypes, exists: boolean, boolean: 'and' | 'or', callback?: Function): this {
+    const relationInstance = this.getRelation(relation);
+
+    if (relationInstance.constructor.name !== 'MorphTo') {
+      throw new GuruORMError(`Relation [${relation}] on model [${this.model.constructor.name}] is not a morph to relationship.`);
+    }
+
+    const parentTable = this.model.getTable();
+    const modelClasses = (Array.isArray(types) ? types : [types]).map((type) => this.getMorphedModel(type));
+
+    this.query.whereNested((query: QueryBuilder) => {
+      for (const modelClass of modelClasses) {
+        const related = new modelClass();
+        const relatedQuery = related.newQuery();
+
+        if (callback) {
+          callback(relatedQuery, modelClass);
+        }
+
+        const existsQuery = relatedQuery.getQuery()
+          .whereColumn(`${related.getTable()}.${related.getKeyName()}`, '=', `${parentTable}.${relationInstance.getForeignKeyName()}`);
+
+        query.orWhere((group: QueryBuilder) => {
+          group.where(`${parentTable}.${relationInstance.getMorphType()}`, '=', modelClass.getMorphClass());
+
+          if (exists) {
+            group.whereExists(existsQuery);
+          } else {
+            group.whereNotExists(existsQuery);
+          }
+        });
+      }
+    }, boolean);
+
+    return this;
+  }
+
+  /**
+   * Resolve a morph type given as a model class or a morph map alias
+   */
+  protected getMorphedModel(type: string | typeof Model): typeof Model {
+    if (typeof type !== 'string') {
+      return type;
+    }
+
+    const modelClass = (this.model.constructor as typeof Model).getMorphedModel(type);
+
+    if (!modelClass) {
+      throw new GuruORMError(`No model is registered for morph type [${type}].`);
+    }
+
+    return modelClass;
+  }
+
   /**
    * Internal method to handle relationship existence queries
    * Implements Laravel-style whereHas/has functionality
@@ -612,8 +749,8 @@ export class Builder {
     const relationInstance = this.getRelation(relation);
     const parentTable = this.model.getTable();
 
-    // BelongsToMany — use pivot table EXISTS
-    if (relationInstance.constructor.name === 'BelongsToMany') {
+    // BelongsToMany / MorphToMany — use pivot table EXISTS
+    if (['BelongsToMany', 'MorphToMany'].includes(relationInstance.constructor.name)) {
       const pivotTable = (relationInstance as any).table;
       const foreignPivotKey = (relationInstance as any).foreignPivotKey;
       const relatedPivotKey = (relationInstance as any).relatedPivotKey;
@@ -625,6 +762,10 @@ export class Builder {
         .from(pivotTable)
         .whereRaw(`"${pivotTable}"."${foreignPivotKey}" = "${parentTable}"."${parentKey}"`);
 
+      if (relationInstance.constructor.name === 'MorphToMany') {
+        pivotQuery.where(`${pivotTable}.${relationInstance.getMorphType()}`, relationInstance.getMorphClass());
+      }
+
       if (callback) {
         // Join related table so callback can filter on it
         pivotQuery.join(relatedTable, `${relatedTable}.${relatedKey}`, '=', `${pivotTable}.${relatedPivotKey}`);
@@ -635,6 +776,21 @@ export class Builder {
       return this;
     }
 
+    // HasManyDeep — correlate the first intermediate table with the parent
+    if (relationInstance.constructor.name === 'HasManyDeep') {
+      const relationQuery = relationInstance.getQuery();
+
+      if (callback) {
+        callback(relationQuery);
+      }
+
+      const existsQuery = relationQuery.getQuery()
+        .whereColumn(relationInstance.getQualifiedFirstKeyName(), '=', `${parentTable}.${relationInstance.getLocalKeyName()}`);
+
+      this.query.whereExists(existsQuery, boolean);
+      return this;
+    }
+
     // Get the related query builder
     const relationQuery = relationInstance.getQuery();
     
@@ -654,6 +810,8 @@ export class Builder {
       foreignKey = (relationInstance as any).ownerKey;
       localKey = (relationInstance as any).foreignKey;
       relatedTable = relationQuery.getQuery().fromTable || relationInstance.getRelated().getTable();
+    } else if (relationInstance.constructor.name === 'MorphTo') {
+      throw new GuruORMError(`Relation [${relation}] is a morph to relationship; use whereHasMorph with the types to check.`);
     } else {
       throw new Error(`Unsupported relation type for whereHas: ${relation}`);
     }
@@ -684,8 +842,8 @@ export class Builder {
     const relationInstance = this.getRelation(relation);
     const parentTable = this.model.getTable();
 
-    // BelongsToMany — use pivot table NOT EXISTS
-    if (relationInstance.constructor.name === 'BelongsToMany') {
+    // BelongsToMany / MorphToMany — use pivot table NOT EXISTS
+    if (['BelongsToMany', 'MorphToMany'].includes(relationInstance.constructor.name)) {
       const pivotTable = (relationInstance as any).table;
       const foreignPivotKey = (relationInstance as any).foreignPivotKey;
       const relatedPivotKey = (relationInstance as any).relatedPivotKey;
@@ -697,6 +855,10 @@ export class Builder {
         .from(pivotTable)
         .whereRaw(`"${pivotTable}"."${foreignPivotKey}" = "${parentTable}"."${parentKey}"`);
 
+      if (relationInstance.constructor.name === 'MorphToMany') {
+        pivotQuery.where(`${pivotTable}.${relationInstance.getMorphType()}`, relationInstance.getMorphClass());
+      }
+
       if (callback) {
         pivotQuery.join(relatedTable, `${relatedTable}.${relatedKey}`, '=', `${pivotTable}.${relatedPivotKey}`);
         callback(pivotQuery);
@@ -706,6 +868,21 @@ export class Builder {
       return this;
     }
 
+    // HasManyDeep — correlate the first intermediate table with the parent
+    if (relationInstance.constructor.name === 'HasManyDeep') {
+      const relationQuery = relationInstance.getQuery();
+
+      if (callback) {
+        callback(relationQuery);
+      }
+
+      const existsQuery = relationQuery.getQuery()
+        .whereColumn(relationInstance.getQualifiedFirstKeyName(), '=', `${parentTable}.${relationInstance.getLocalKeyName()}`);
+
+      this.query.whereNotExists(existsQuery, boolean);
+      return this;
+    }
+
     // Get the related query builder
     const relationQuery = relationInstance.getQuery();
     
@@ -725,6 +902,8 @@ export class Builder {
       foreignKey = (relationInstance as any).ownerKey;
       localKey = (relationInstance as any).foreignKey;
       relatedTable = relationQuery.getQuery().fromTable || relationInstance.getRelated().getTable();
+    } else if (relationInstance.constructor.name === 'MorphTo') {
+      throw new GuruORMError(`Relation [${relation}] is a morph to relationship; use whereDoesntHaveMorph with the types to check.`);
     } else {
       throw new Error(`Unsupported relation type for whereDoesntHave: ${relation}`);
     }
@@ -749,7 +928,7 @@ export class Builder {
   /**
    * Save a new model and return the instance
    */
-  async create(attributes: Record<string, any> = {}): Promise<any> {
+  async create(attributes: Partial<AttributesOf<TModel>> = {}): Promise<TModel> {
     const instance = this.newModelInstance(attributes);
     await instance.save();
     return instance;
@@ -758,14 +937,14 @@ export class Builder {
   /**
    * Create a collection of models
    */
-  async createMany(records: Record<string, any>[]): Promise<Collection<any>> {
+  async createMany(records: Partial<AttributesOf<TModel>>[]): Promise<Collection<TModel>> {
     const instances = [];
 
     for (const record of records) {
       instances.push(await this.create(record));
     }
 
-    return Collection.from(instances) as Collection<any>;
+    return Collection.from(instances) as Collection<TModel>;
   }
 
   /**
@@ -794,6 +973,35 @@ export class Builder {
     return this;
   }
 
+  /**
+   * Keep only the latest N models of each group, e.g. the newest post per user.
+   * Ordered by the model's created-at column unless another column is given.
+   */
+  latestPerGroup(groupColumn: string, limit: number = 1, column?: string): this {
+    return this.topPerGroup(groupColumn, limit, column, 'desc');
+  }
+
+  /**
+   * Keep only the oldest N models of each group
+   */
+  oldestPerGroup(groupColumn: string, limit: number = 1, column?: string): this {
+    return this.topPerGroup(groupColumn, limit, column, 'asc');
+  }
+
+  /**
+   * Keep the first N models of each group in the given order (row_number() based)
+   */
+  protected topPerGroup(groupColumn: string, limit: number, column: string | undefined, direction: 'asc' | 'desc'): this {
+    const orderColumn = column || (this.model.constructor as typeof Model).CREATED_AT || this.model.getKeyName();
+
+    this.query
+      .orderBy(orderColumn, direction)
+      .orderBy(this.model.getKeyName(), direction)
+      .groupLimit(limit, groupColumn);
+
+    return this;
+  }
+
   /**
    * Apply the scopes to the Eloquent builder instance and return it.
    * Reads global scopes from the model and applies each one unless it was removed.
@@ -844,14 +1052,14 @@ export class Builder {
   /**
    * Get all models
    */
-  async all(columns: string[] = ['*']): Promise<Collection<any>> {
+  async all(columns: string[] = ['*']): Promise<Collection<TModel>> {
     return this.get(columns);
   }
 
   /**
    * Get a single column's value from the first result of a query
    */
-  async value(column: string): Promise<any> {
+  async value<K extends ModelColumn<TModel>>(column: K): Promise<AttributesOf<TModel>[K] | null> {
     const result = await this.first([column]);
     return result ? result.getAttribute(column) : null;
   }
@@ -859,7 +1067,7 @@ export class Builder {
   /**
    * Chunk the results of the query
    */
-  async chunk(count: number, callback: (results: Collection<any>, page: number) => boolean | void | Promise<boolean | void>): Promise<boolean> {
+  async chunk(count: number, callback: (results: Collection<TModel>, page: number) => boolean | void | Promise<boolean | void>): Promise<boolean> {
     return this.query.chunk(count, async (results: any[], page: number) => {
       const models = this.hydrate(results);
       return callback(models, page);
@@ -869,7 +1077,7 @@ export class Builder {
   /**
    * Chunk the results of a query by comparing IDs
    */
-  async chunkById(count: number, callback: (results: Collection<any>, lastId?: any) => boolean | void | Promise<boolean | void>, column?: string): Promise<boolean> {
+  async chunkById(count: number, callback: (results: Collection<TModel>, lastId?: any) => boolean | void | Promise<boolean | void>, column?: string): Promise<boolean> {
     column = column || this.model.getKeyName();
     
     return this.query.chunkById(count, (results: any[], lastId?: any) => {
@@ -881,10 +1089,10 @@ export class Builder {
   /**
    * Execute a callback over each item while chunking
    */
-  async each(callback: (model: any, index: number) => boolean | void, count: number = 1000): Promise<boolean> {
+  async each(callback: (model: TModel, index: number) => boolean | void, count: number = 1000): Promise<boolean> {
     let index = 0;
 
-    return this.chunk(count, (results: Collection<any>) => {
+    return this.chunk(count, (results: Collection<TModel>) => {
       for (const model of results) {
         if (callback(model, index) === false) {
           return false;
@@ -895,10 +1103,53 @@ export class Builder {
     });
   }
 
+  /**
+   * Stream the query results, hydrating one model at a time
+   */
+  async *cursor(): AsyncGenerator<TModel> {
+    const builder = this.applyScopes();
+
+    for await (const attributes of builder.query.cursor()) {
+      const model = this.newModelInstance(attributes, true);
+      model.fireModelEvent('retrieved', false).catch(() => {});
+      yield model;
+    }
+  }
+
+  /**
+   * Stream the hydrated models as an object-mode Readable
+   */
+  toStream(): Readable {
+    return Readable.from(this.cursor());
+  }
+
+  /**
+   * Stream the models into the writable as CSV, serialized with their casts and hidden attributes
+   */
+  exportCsv(writable: Writable, options: CsvExportOptions = {}): Promise<number> {
+    return exportCsv(this.serializedCursor(), writable, options);
+  }
+
+  /**
+   * Stream the models into the writable as newline-delimited JSON, serialized with their casts and hidden attributes
+   */
+  exportNdjson(writable: Writable): Promise<number> {
+    return exportNdjson(this.serializedCursor(), writable);
+  }
+
+  /**
+   * Stream the query results as serialized model arrays
+   */
+  protected async *serializedCursor(): AsyncGenerator<Record<string, unknown>> {
+    for await (const model of this.cursor()) {
+      yield model.toArray();
+    }
+  }
+
   /**
    * Get a lazy collection for the given query
    */
-  async *lazy(chunkSize: number = 1000): AsyncGenerator<any> {
+  async *lazy(chunkSize: number = 1000): AsyncGenerator<TModel> {
     const generator = this.query.lazy(chunkSize);
 
     for await (const item of generator) {
@@ -909,7 +1160,7 @@ export class Builder {
   /**
    * Get a lazy collection for the given query by ID
    */
-  async *lazyById(chunkSize: number = 1000, column?: string): AsyncGenerator<any> {
+  async *lazyById(chunkSize: number = 1000, column?: string): AsyncGenerator<TModel> {
     column = column || this.model.getKeyName();
     const generator = this.query.lazyById(chunkSize, column);
 
@@ -933,22 +1184,22 @@ export class Builder {
   }
 
   // Proxy methods to query builder
-  where(...args: any[]): this { return this.proxyToQueryBuilder('where', args); }
-  orWhere(...args: any[]): this { return this.proxyToQueryBuilder('orWhere', args); }
-  whereNot(...args: any[]): this { return this.proxyToQueryBuilder('whereNot', args); }
-  orWhereNot(...args: any[]): this { return this.proxyToQueryBuilder('orWhereNot', args); }
-  whereIn(...args: any[]): this { return this.proxyToQueryBuilder('whereIn', args); }
-  whereNotIn(...args: any[]): this { return this.proxyToQueryBuilder('whereNotIn', args); }
-  orWhereIn(...args: any[]): this { return this.proxyToQueryBuilder('orWhereIn', args); }
-  orWhereNotIn(...args: any[]): this { return this.proxyToQueryBuilder('orWhereNotIn', args); }
-  whereBetween(...args: any[]): this { return this.proxyToQueryBuilder('whereBetween', args); }
-  whereNotBetween(...args: any[]): this { return this.proxyToQueryBuilder('whereNotBetween', args); }
-  orWhereBetween(...args: any[]): this { return this.proxyToQueryBuilder('orWhereBetween', args); }
-  orWhereNotBetween(...args: any[]): this { return this.proxyToQueryBuilder('orWhereNotBetween', args); }
-  whereNull(...args: any[]): this { return this.proxyToQueryBuilder('whereNull', args); }
-  whereNotNull(...args: any[]): this { return this.proxyToQueryBuilder('whereNotNull', args); }
-  orWhereNull(...args: any[]): this { return this.proxyToQueryBuilder('orWhereNull', args); }
-  orWhereNotNull(...args: any[]): this { return this.proxyToQueryBuilder('orWhereNotNull', args); }
+  where(...args: [column: ModelColumn<TModel> | Expression | Function | Partial<Record<ModelColumn<TModel>, any>>, operator?: any, value?: any, boolean?: 'and' | 'or']): this { return this.proxyToQueryBuilder('where', args); }
+  orWhere(...args: [column: ModelColumn<TModel> | Expression | Function | Partial<Record<ModelColumn<TModel>, any>>, operator?: any, value?: any]): this { return this.proxyToQueryBuilder('orWhere', args); }
+  whereNot(...args: [column: ModelColumn<TModel> | Function, operator?: any, value?: any]): this { return this.proxyToQueryBuilder('whereNot', args); }
+  orWhereNot(...args: [column: ModelColumn<TModel> | Function, operator?: any, value?: any]): this { return this.proxyToQueryBuilder('orWhereNot', args); }
+  whereIn(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereIn', args); }
+  whereNotIn(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereNotIn', args); }
+  orWhereIn(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereIn', args); }
+  orWhereNotIn(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereNotIn', args); }
+  whereBetween(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereBetween', args); }
+  whereNotBetween(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereNotBetween', args); }
+  orWhereBetween(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereBetween', args); }
+  orWhereNotBetween(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereNotBetween', args); }
+  whereNull(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereNull', args); }
+  whereNotNull(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('whereNotNull', args); }
+  orWhereNull(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereNull', args); }
+  orWhereNotNull(...args: [column: ModelColumn<TModel>, ...rest: any[]]): this { return this.proxyToQueryBuilder('orWhereNotNull', args); }
   whereColumn(...args: any[]): this { return this.proxyToQueryBuilder('whereColumn', args); }
   orWhereColumn(...args: any[]): this { return this.proxyToQueryBuilder('orWhereColumn', args); }
   whereRaw(...args: any[]): this { return this.proxyToQueryBuilder('whereRaw', args); }
@@ -976,8 +1227,10 @@ export class Builder {
   leftJoin(...args: any[]): this { return this.proxyToQueryBuilder('leftJoin', args); }
   rightJoin(...args: any[]): this { return this.proxyToQueryBuilder('rightJoin', args); }
   crossJoin(...args: any[]): this { return this.proxyToQueryBuilder('crossJoin', args); }
-  orderBy(...args: any[]): this { return this.proxyToQueryBuilder('orderBy', args); }
-  orderByDesc(...args: any[]): this { return this.proxyToQueryBuilder('orderByDesc', args); }
+  joinLateral(...args: any[]): this { return this.proxyToQueryBuilder('joinLateral', args); }
+  leftJoinLateral(...args: any[]): this { return this.proxyToQueryBuilder('leftJoinLateral', args); }
+  orderBy(...args: [column: ModelColumn<TModel> | Expression, direction?: 'asc' | 'desc']): this { return this.proxyToQueryBuilder('orderBy', args); }
+  orderByDesc(...args: [column: ModelColumn<TModel> | Expression]): this { return this.proxyToQueryBuilder('orderByDesc', args); }
   orderByRaw(...args: any[]): this { return this.proxyToQueryBuilder('orderByRaw', args); }
   latest(...args: any[]): this { return this.proxyToQueryBuilder('latest', args); }
   oldest(...args: any[]): this { return this.proxyToQueryBuilder('oldest', args); }
@@ -997,6 +1250,15 @@ export class Builder {
   forPage(...args: any[]): this { return this.proxyToQueryBuilder('forPage', args); }
   when(...args: any[]): this { return this.proxyToQueryBuilder('when', args); }
   unless(...args: any[]): this { return this.proxyToQueryBuilder('unless', args); }
+  selectWindow(...args: any[]): this { return this.proxyToQueryBuilder('selectWindow', args); }
+  selectRowNumber(...args: any[]): this { return this.proxyToQueryBuilder('selectRowNumber', args); }
+  selectRank(...args: any[]): this { return this.proxyToQueryBuilder('selectRank', args); }
+  selectDenseRank(...args: any[]): this { return this.proxyToQueryBuilder('selectDenseRank', args); }
+  selectLag(...args: any[]): this { return this.proxyToQueryBuilder('selectLag', args); }
+  selectLead(...args: any[]): this { return this.proxyToQueryBuilder('selectLead', args); }
+  window(...args: any[]): this { return this.proxyToQueryBuilder('window', args); }
+  groupLimit(...args: any[]): this { return this.proxyToQueryBuilder('groupLimit', args); }
+  useWritePdo(...args: any[]): this { return this.proxyToQueryBuilder('useWritePdo', args); }
 
   // Passthrough methods that return their results directly
   async insert(values: any): Promise<boolean | any[]> { return this.query.insert(values); }
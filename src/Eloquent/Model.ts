@@ -1,8 +1,11 @@
-import { Builder as QueryBuilder } from '../Query/Builder';
+import { Builder as QueryBuilder, ColumnOf } from '../Query/Builder';
 import { Connection } from '../Connection/Connection';
 import { Builder as EloquentBuilder } from './Builder';
 import { Events, EventHandler } from './Events';
 import { ObserverRegistry } from './Observer';
+import type { Relation } from './Relations/Relation';
+import type { HasManyDeep } from './Relations/HasManyDeep';
+import type { MorphToMany } from './Relations/MorphToMany';
 
 /**
  * Pre-computed Set for O(1) property lookup in Proxy traps.
@@ -12,7 +15,7 @@ const MODEL_PROPERTIES = new Set([
   'table', 'primaryKey', 'keyType', 'incrementing', 'timestamps', 'dateFormat', 'connection',
   'fillable', 'guarded', 'hidden', 'visible', 'appends', 'casts', 'dispatchesEvents',
   'attributes', 'original', 'relations', 'exists', 'wasRecentlyCreated', 'touches', 'changes',
-  'forceDeleting'
+  'forceDeleting', 'pivotParent', 'pivotForeignKey', 'pivotRelatedKey', 'pivotMorphType', 'pivotMorphClass'
 ]);
 
 /**
@@ -78,9 +81,18 @@ function modelProxyHandler(actualConstructor: Function): ProxyHandler<any> {
 }
 
 /**
- * Model base class - inspired by Laravel and Illuminate
+ * Attribute types of a model (a loose record for untyped models)
  */
-export class Model {
+export type AttributesOf<M> = 0 extends (1 & M)
+  ? Record<string, any>
+  : M extends Model<infer TAttributes> ? TAttributes : Record<string, any>;
+
+/**
+ * Model base class - inspired by Laravel and Illuminate.
+ * Pass an attributes type (class User extends Model<UserAttributes>) to check
+ * column names in queries at compile time.
+ */
+export class Model<TAttributes extends Record<string, any> = Record<string, any>> {
   // Cached prototype model instances for static methods (avoids re-creating per call)
   protected static _cachedQueryModel: any = null;
 
@@ -206,7 +218,7 @@ export class Model {
   // Booted models
   protected static booted: Map<any, boolean> = new Map();
 
-  constructor(attributes: Record<string, any> = {}) {
+  constructor(attributes: Partial<TAttributes> = {}) {
     this.syncOriginal();
     this.fill(attributes);
     this.bootIfNotBooted();
@@ -325,7 +337,7 @@ export class Model {
   /**
    * Fill the model with an array of attributes
    */
-  fill(attributes: Record<string, any>): this {
+  fill(attributes: Partial<TAttributes>): this {
     for (const [key, value] of Object.entries(attributes)) {
       if (this.isFillable(key)) {
         this.setAttribute(key, value);
@@ -337,7 +349,7 @@ export class Model {
   /**
    * Force fill the model with an array of attributes
    */
-  forceFill(attributes: Record<string, any>): this {
+  forceFill(attributes: Partial<TAttributes>): this {
     for (const [key, value] of Object.entries(attributes)) {
       this.setAttribute(key, value);
     }
@@ -652,6 +664,26 @@ export class Model {
     return this;
   }
 
+  /**
+   * Get a copy of the raw attributes, without casts or accessors
+   */
+  getAttributes(): Record<string, unknown> {
+    return { ...this.attributes };
+  }
+
+  /**
+   * Replace the raw attributes, optionally syncing the original attributes too
+   */
+  setRawAttributes(attributes: Record<string, unknown>, sync = false): this {
+    this.attributes = { ...attributes };
+
+    if (sync) {
+      this.original = { ...attributes };
+    }
+
+    return this;
+  }
+
   /**
    * Get the attributes that have been changed since last sync
    */
@@ -755,7 +787,7 @@ export class Model {
   /**
    * Update the model with the given attributes
    */
-  async update(attributes: Record<string, any> = {}): Promise<boolean> {
+  async update(attributes: Partial<TAttributes> = {}): Promise<boolean> {
     if (!this.exists) {
       return false;
     }
@@ -976,7 +1008,7 @@ export class Model {
       this.updateTimestamps();
     }
 
-    const updated = await query.where(this.primaryKey, this.getKey()).update(dirty);
+    const updated = await this.setKeysForSaveQuery(query).update(dirty);
 
     if (updated > 0) {
       // Sync original to reflect current state
@@ -995,6 +1027,13 @@ export class Model {
     return updated > 0;
   }
 
+  /**
+   * Set the keys for a save update or delete query
+   */
+  protected setKeysForSaveQuery(query: EloquentBuilder): EloquentBuilder {
+    return query.where(this.primaryKey, this.getKey());
+  }
+
   /**
    * Get a fresh timestamp for the model
    */
@@ -1023,7 +1062,7 @@ export class Model {
    * Can be overridden by traits like SoftDeletes
    */
   protected async performDeleteOnModel(): Promise<boolean> {
-    const query = this.newQuery().where(this.primaryKey, this.getKey());
+    const query = this.setKeysForSaveQuery(this.newQuery());
     await query.delete();
 
     this.exists = false;
@@ -1400,14 +1439,14 @@ export class Model {
   /**
    * Begin querying the model
    */
-  static query<T extends Model>(this: new (attributes?: Record<string, any>) => T): EloquentBuilder {
+  static query<T extends Model>(this: new (attributes?: Record<string, any>) => T): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery();
   }
 
   /**
    * Begin querying the model with an eager load
    */
-  static with<T extends Model>(this: new (attributes?: Record<string, any>) => T, relations: string | string[] | Record<string, Function>): EloquentBuilder {
+  static with<T extends Model>(this: new (attributes?: Record<string, any>) => T, relations: string | string[] | Record<string, Function>): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().with(relations);
   }
 
@@ -1416,11 +1455,11 @@ export class Model {
    */
   static where<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string | Function | Record<string, any>,
+    column: ColumnOf<AttributesOf<T>> | Function | Partial<Record<ColumnOf<AttributesOf<T>>, any>>,
     operator?: any,
     value?: any,
     boolean: 'and' | 'or' = 'and'
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().where(column, operator, value, boolean);
   }
 
@@ -1429,10 +1468,10 @@ export class Model {
    */
   static orWhere<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string | Function | Record<string, any>,
+    column: ColumnOf<AttributesOf<T>> | Function | Partial<Record<ColumnOf<AttributesOf<T>>, any>>,
     operator?: any,
     value?: any
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().orWhere(column, operator, value);
   }
 
@@ -1441,9 +1480,9 @@ export class Model {
    */
   static whereIn<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string,
+    column: ColumnOf<AttributesOf<T>>,
     values: any[]
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereIn(column, values);
   }
 
@@ -1452,9 +1491,9 @@ export class Model {
    */
   static whereNotIn<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string,
+    column: ColumnOf<AttributesOf<T>>,
     values: any[]
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereNotIn(column, values);
   }
 
@@ -1463,8 +1502,8 @@ export class Model {
    */
   static whereNull<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string
-  ): EloquentBuilder {
+    column: ColumnOf<AttributesOf<T>>
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereNull(column);
   }
 
@@ -1473,8 +1512,8 @@ export class Model {
    */
   static whereNotNull<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string
-  ): EloquentBuilder {
+    column: ColumnOf<AttributesOf<T>>
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereNotNull(column);
   }
 
@@ -1483,9 +1522,9 @@ export class Model {
    */
   static whereBetween<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string,
+    column: ColumnOf<AttributesOf<T>>,
     values: [any, any]
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereBetween(column, values);
   }
 
@@ -1494,9 +1533,9 @@ export class Model {
    */
   static orderBy<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    column: string,
+    column: ColumnOf<AttributesOf<T>>,
     direction: 'asc' | 'desc' = 'asc'
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().orderBy(column, direction);
   }
 
@@ -1506,7 +1545,7 @@ export class Model {
   static limit<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     value: number
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().limit(value);
   }
 
@@ -1516,7 +1555,7 @@ export class Model {
   static offset<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     value: number
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().offset(value);
   }
 
@@ -1525,8 +1564,8 @@ export class Model {
    */
   static select<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
-    ...columns: string[]
-  ): EloquentBuilder {
+    ...columns: ColumnOf<AttributesOf<T>>[]
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().select(...columns);
   }
 
@@ -1541,7 +1580,7 @@ export class Model {
     second?: string,
     type: string = 'inner',
     where: boolean = false
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().join(table, first, operator, second, type, where);
   }
 
@@ -1554,7 +1593,7 @@ export class Model {
     first: string | Function,
     operator?: string,
     second?: string
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().leftJoin(table, first, operator, second);
   }
 
@@ -1567,7 +1606,7 @@ export class Model {
     first: string | Function,
     operator?: string,
     second?: string
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().rightJoin(table, first, operator, second);
   }
 
@@ -1576,7 +1615,7 @@ export class Model {
    */
   static distinct<T extends Model>(
     this: new (attributes?: Record<string, any>) => T
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().distinct();
   }
 
@@ -1586,7 +1625,7 @@ export class Model {
   static groupBy<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     ...groups: string[]
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().groupBy(...groups);
   }
 
@@ -1596,7 +1635,7 @@ export class Model {
   static withCount<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     relations: string | string[] | Record<string, Function>
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().withCount(relations);
   }
 
@@ -1608,7 +1647,7 @@ export class Model {
     relation: string,
     operator: string = '>=',
     count: number = 1
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().has(relation, operator, count);
   }
 
@@ -1618,7 +1657,7 @@ export class Model {
   static doesntHave<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     relation: string
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().doesntHave(relation);
   }
 
@@ -1631,7 +1670,7 @@ export class Model {
     callback?: Function,
     operator: string = '>=',
     count: number = 1
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereHas(relation, callback, operator, count);
   }
 
@@ -1639,7 +1678,7 @@ export class Model {
     this: new (attributes?: Record<string, any>) => T,
     relation: string,
     callback?: Function
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().whereDoesntHave(relation, callback);
   }
 
@@ -1649,7 +1688,7 @@ export class Model {
   static withoutGlobalScope<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     scope: string
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().withoutGlobalScope(scope);
   }
 
@@ -1659,7 +1698,7 @@ export class Model {
   static withoutGlobalScopes<T extends Model>(
     this: new (attributes?: Record<string, any>) => T,
     scopes?: string[]
-  ): EloquentBuilder {
+  ): EloquentBuilder<T> {
     return (this as any)._getQueryModel().newQuery().withoutGlobalScopes(scopes);
   }
 
@@ -1996,6 +2035,18 @@ export class Model {
     );
   }
 
+  /**
+   * Define a has-many-deep relationship through a chain of relations, each
+   * starting at the model the previous one ends at:
+   * this.hasManyDeep(this.users(), new User().posts(), new Post().comments())
+   */
+  hasManyDeep(...relations: Relation[]): HasManyDeep {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, global-require
+    const { HasManyDeep: HasManyDeepRelation } = require('./Relations/HasManyDeep');
+
+    return HasManyDeepRelation.fromRelations(this, relations);
+  }
+
   /**
    * Define a polymorphic one-to-one relationship
    */
@@ -2070,6 +2121,61 @@ export class Model {
     );
   }
 
+  /**
+   * Define a polymorphic many-to-many relationship
+   */
+  morphToMany(
+    related: typeof Model | string,
+    name: string,
+    table?: string,
+    foreignPivotKey?: string,
+    relatedPivotKey?: string,
+    parentKey?: string,
+    relatedKey?: string,
+    inverse: boolean = false
+  ): MorphToMany {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, global-require
+    const { MorphToMany: MorphToManyRelation } = require('./Relations/MorphToMany');
+    const RelatedClass = this.resolveModel(related);
+    const instance = new RelatedClass();
+
+    return new MorphToManyRelation(
+      instance.newQuery(),
+      this,
+      name,
+      table || `${name}s`,
+      foreignPivotKey || `${name}_id`,
+      relatedPivotKey || instance.getForeignKey(),
+      parentKey || this.getKeyName(),
+      relatedKey || instance.getKeyName(),
+      inverse
+    );
+  }
+
+  /**
+   * Define the inverse of a polymorphic many-to-many relationship
+   */
+  morphedByMany(
+    related: typeof Model | string,
+    name: string,
+    table?: string,
+    foreignPivotKey?: string,
+    relatedPivotKey?: string,
+    parentKey?: string,
+    relatedKey?: string
+  ): MorphToMany {
+    return this.morphToMany(
+      related,
+      name,
+      table,
+      foreignPivotKey || this.getForeignKey(),
+      relatedPivotKey || `${name}_id`,
+      parentKey,
+      relatedKey,
+      true
+    );
+  }
+
   /**
    * Get the joining table name for a many-to-many relation
    */
@@ -5,6 +5,12 @@ import { Model } from './Model';
  * Observers can listen to model events without cluttering the model itself
  */
 export interface Observer {
+  /**
+   * Delay the created / updated / saved / deleted / restored / forceDeleted
+   * handlers until the open transaction commits (dropped on rollback)
+   */
+  afterCommit?: boolean;
+
   /**
    * Handle the Model "retrieved" event
    */
@@ -76,6 +82,11 @@ export interface Observer {
   forceDeleted?(model: Model): void | Promise<void>;
 }
 
+/**
+ * Events reporting completed writes, which observers may defer until commit
+ */
+const AFTER_COMMIT_EVENTS = new Set(['created', 'updated', 'saved', 'deleted', 'restored', 'forceDeleted']);
+
 /**
  * Observer registry for models
  */
@@ -120,13 +131,32 @@ export class ObserverRegistry {
       const method = (observer as any)[event];
       
       if (typeof method === 'function') {
-        const result = await method.call(observer, model);
-        
-        // If the method returns false, halt the event chain
-        if (result === false) {
-          return false;
+        if (observer.afterCommit && AFTER_COMMIT_EVENTS.has(event)) {
+          await this.callAfterCommit(model, () => method.call(observer, model));
+        } else {
+          const result = await method.call(observer, model);
+
+          // If the method returns false, halt the event chain
+          if (result === false) {
+            return false;
+          }
         }
       }
     }
   }
+
+  /**
+   * Defer the handler until the model's connection commits, or run it now
+   * when the model has no connection to defer on
+   */
+  protected static async callAfterCommit(model: Model, handler: () => unknown): Promise<void> {
+    const connection = typeof model.getConnection === 'function' ? model.getConnection() : null;
+
+    if (connection && typeof connection.afterCommit === 'function') {
+      await connection.afterCommit(handler);
+      return;
+    }
+
+    await handler();
+  }
 }
@@ -175,4 +175,18 @@ export class BelongsTo extends Relation {
   isNot(model: Model | null): boolean {
     return !this.is(model);
   }
+
+  /**
+   * Get the foreign key on the parent model
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the key of the owning (related) model
+   */
+  getOwnerKeyName(): string {
+    return this.ownerKey;
+  }
 }
@@ -2,6 +2,7 @@ import { Relation } from './Relation';
 import { Model } from '../Model';
 import { Builder } from '../Builder';
 import { Collection } from '../Collection';
+import { Pivot } from './Pivot';
 
 /**
  * BelongsToMany Relation - inspired by Laravel and Illuminate
@@ -19,6 +20,8 @@ export class BelongsToMany extends Relation {
   protected withTimestampsFlag = false;
   protected pivotAccessor = 'pivot';
 
+  protected usingClass: typeof Pivot | null = null;
+
   constructor(
     query: Builder,
     parent: Model,
@@ -71,14 +74,27 @@ export class BelongsToMany extends Relation {
     );
     
     // Select the related model's columns plus pivot keys and extra columns
-    const extraPivot = (this.pivotColumns || []);
-    const selectColumns = [
-      `${baseTable}.*`,
-      `${this.table}.${this.foreignPivotKey}`,
-      `${this.table}.${this.relatedPivotKey}`,
-      ...extraPivot.map(col => `${this.table}.${col}`)
+    this.query.select(...this.getSelectColumns());
+  }
+
+  /**
+   * Get the columns to select: the related model's columns plus the pivot
+   * columns, aliased with a "pivot_" prefix so they can be moved to the pivot model
+   */
+  protected getSelectColumns(): string[] {
+    return [
+      `${this.related.getTable()}.*`,
+      ...this.getAliasedPivotColumns(),
     ];
-    this.query.select(...selectColumns);
+  }
+
+  /**
+   * Get the pivot keys and extra pivot columns, aliased with a "pivot_" prefix
+   */
+  protected getAliasedPivotColumns(): string[] {
+    const columns = [this.foreignPivotKey, this.relatedPivotKey, ...(this.pivotColumns || [])];
+
+    return [...new Set(columns)].map(col => `${this.table}.${col} as pivot_${col}`);
   }
 
   /**
@@ -114,14 +130,7 @@ export class BelongsToMany extends Relation {
     this.performJoin();
 
     // Select related model columns and pivot columns
-    const extraPivotCols = (this.pivotColumns || []);
-    const selectColumns = [
-      `${this.related.getTable()}.*`,
-      `${this.table}.${this.foreignPivotKey}`,
-      `${this.table}.${this.relatedPivotKey}`,
-      ...extraPivotCols.map(col => `${this.table}.${col}`)
-    ];
-    this.query.select(...selectColumns);
+    this.query.select(...this.getSelectColumns());
 
     // Filter by parent keys
     this.query.whereIn(`${this.table}.${this.foreignPivotKey}`, keys);
@@ -146,9 +155,11 @@ export class BelongsToMany extends Relation {
   match(models: Model[], results: any, relation: string): Model[] {
     const dictionary: { [key: string]: any[] } = {};
 
+    this.hydratePivotRelation(results.items || results);
+
     // Build dictionary of results keyed by foreign pivot key
     for (const result of results.items || results) {
-      const key = result.getAttribute(this.foreignPivotKey);
+      const key = result.getRelations()[this.pivotAccessor].getAttribute(this.foreignPivotKey);
       if (!dictionary[key]) {
         dictionary[key] = [];
       }
@@ -170,22 +181,61 @@ export class BelongsToMany extends Relation {
    * Get the results of the relationship
    */
   async getResults(): Promise<Collection<any>> {
-    return this.query.get();
+    return this.get();
+  }
+
+  /**
+   * Execute the query, moving the pivot columns of each related model to its pivot model
+   */
+  async get(columns: string[] = ['*']): Promise<Collection<Model>> {
+    const models = await this.query.get(columns);
+
+    this.hydratePivotRelation(models);
+
+    return models;
+  }
+
+  /**
+   * Execute the query and get the first result
+   */
+  async first(columns: string[] = ['*']): Promise<Model | null> {
+    this.query.take(1);
+
+    return (await this.get(columns)).first() || null;
   }
 
   /**
    * Attach a model to the parent
    */
   async attach(id: any, attributes: Record<string, any> = {}): Promise<void> {
-    const records = this.formatAttachRecords([id], attributes);
-    
-    await this.newPivotQuery().insert(records);
+    const records = this.formatAttachRecords(Array.isArray(id) ? id : [id], attributes);
+
+    await this.insertPivotRecords(records);
+  }
+
+  /**
+   * Insert records into the pivot table. With a custom pivot model each
+   * record is saved through the model, firing its events and applying its casts.
+   */
+  protected async insertPivotRecords(records: Record<string, unknown>[]): Promise<void> {
+    if (!this.usingClass) {
+      await this.newPivotQuery().insert(records);
+      return;
+    }
+
+    for (const record of records) {
+      await this.newPivot().forceFill(record).save();
+    }
   }
 
   /**
    * Detach models from the relationship
    */
   async detach(ids?: any[]): Promise<number> {
+    if (this.usingClass && ids) {
+      return this.detachUsingCustomClass(ids);
+    }
+
     const query = this.newPivotQuery()
       .where(this.foreignPivotKey, this.parent.getAttribute(this.parentKey));
 
@@ -196,6 +246,26 @@ export class BelongsToMany extends Relation {
     return query.delete();
   }
 
+  /**
+   * Detach models by deleting each pivot model, firing its events
+   */
+  protected async detachUsingCustomClass(ids: unknown[]): Promise<number> {
+    let deleted = 0;
+
+    for (const id of ids) {
+      const pivot = this.newPivot({
+        [this.foreignPivotKey]: this.parent.getAttribute(this.parentKey),
+        [this.relatedPivotKey]: id,
+      }, true);
+
+      if (await pivot.delete()) {
+        deleted += 1;
+      }
+    }
+
+    return deleted;
+  }
+
   /**
    * Sync the intermediate tables with a list of IDs
    */
@@ -277,8 +347,8 @@ export class BelongsToMany extends Relation {
    */
   protected async attachNew(ids: any[]): Promise<void> {
     const records = this.formatAttachRecords(ids, {});
-    
-    await this.newPivotQuery().insert(records);
+
+    await this.insertPivotRecords(records);
   }
 
   /**
@@ -310,6 +380,12 @@ export class BelongsToMany extends Relation {
   withPivot(...columns: string[]): this {
     // Flatten in case arrays are passed
     this.pivotColumns.push(...columns.flat());
+
+    // The join already selected the pivot columns, so select them again
+    if (this.joinApplied) {
+      this.query.select(...this.getSelectColumns());
+    }
+
     return this;
   }
 
@@ -319,8 +395,7 @@ export class BelongsToMany extends Relation {
   withTimestamps(): this {
     this.withTimestampsFlag = true;
     // Also select the timestamp columns
-    this.pivotColumns.push('created_at', 'updated_at');
-    return this;
+    return this.withPivot('created_at', 'updated_at');
   }
 
   /**
@@ -331,6 +406,14 @@ export class BelongsToMany extends Relation {
     return this;
   }
 
+  /**
+   * Specify the custom pivot model to use for the intermediate table.
+   */
+  using(pivotClass: typeof Pivot): this {
+    this.usingClass = pivotClass;
+    return this;
+  }
+
   /**
    * Add a where clause on a pivot table column.
    */
@@ -366,12 +449,37 @@ export class BelongsToMany extends Relation {
       attributes['updated_at'] = new Date();
     }
 
+    if (this.usingClass) {
+      return this.updateExistingPivotUsingCustomClass(id, attributes);
+    }
+
     return this.newPivotQuery()
       .where(this.foreignPivotKey, this.parent.getAttribute(this.parentKey))
       .where(this.relatedPivotKey, id)
       .update(attributes);
   }
 
+  /**
+   * Update an existing pivot record through the pivot model, firing its events
+   */
+  protected async updateExistingPivotUsingCustomClass(id: unknown, attributes: Record<string, unknown>): Promise<number> {
+    const record = await this.newPivotQuery()
+      .where(this.foreignPivotKey, this.parent.getAttribute(this.parentKey))
+      .where(this.relatedPivotKey, id)
+      .first();
+
+    if (!record) {
+      return 0;
+    }
+
+    const pivot = this.newPivot(record, true).forceFill(attributes);
+    const dirty = pivot.isDirty();
+
+    await pivot.save();
+
+    return dirty ? 1 : 0;
+  }
+
   /**
    * Create a fresh query builder against the pivot table only (no joins).
    */
@@ -379,6 +487,41 @@ export class BelongsToMany extends Relation {
     return this.query.getQuery().newQuery().from(this.table);
   }
 
+  /**
+   * Get the intermediate (pivot) table of the relationship
+   */
+  getTable(): string {
+    return this.table;
+  }
+
+  /**
+   * Get the pivot column referencing the parent model
+   */
+  getForeignPivotKeyName(): string {
+    return this.foreignPivotKey;
+  }
+
+  /**
+   * Get the pivot column referencing the related model
+   */
+  getRelatedPivotKeyName(): string {
+    return this.relatedPivotKey;
+  }
+
+  /**
+   * Get the parent column referenced by the pivot table
+   */
+  getParentKeyName(): string {
+    return this.parentKey;
+  }
+
+  /**
+   * Get the related column referenced by the pivot table
+   */
+  getRelatedKeyName(): string {
+    return this.relatedKey;
+  }
+
   /**
    * Get the pivot accessor name
    */
@@ -394,19 +537,40 @@ export class BelongsToMany extends Relation {
   }
 
   /**
-   * Hydrate pivot data on a related model instance.
-   * Extracts pivot columns from the model's attributes and attaches
-   * them as a sub-object under the pivot accessor name.
+   * Get the custom pivot model class, if any
    */
-  protected hydratePivotRelation(model: any): void {
-    const pivotData: Record<string, any> = {};
-    pivotData[this.foreignPivotKey] = model.getAttribute?.(this.foreignPivotKey) ?? model[this.foreignPivotKey];
-    pivotData[this.relatedPivotKey] = model.getAttribute?.(this.relatedPivotKey) ?? model[this.relatedPivotKey];
+  getPivotClass(): typeof Pivot {
+    return this.usingClass || Pivot;
+  }
 
-    for (const column of this.pivotColumns) {
-      pivotData[column] = model.getAttribute?.(column) ?? model[column];
-    }
+  /**
+   * Create a new pivot model instance from raw pivot table values
+   */
+  newPivot(attributes: Record<string, unknown> = {}, exists = false): Pivot {
+    return this.getPivotClass()
+      .fromRawAttributes(this.parent, attributes, this.table, exists)
+      .setPivotKeys(this.foreignPivotKey, this.relatedPivotKey);
+  }
 
-    model[this.pivotAccessor] = pivotData;
+  /**
+   * Hydrate the pivot model of each related model. The "pivot_" prefixed
+   * columns are moved off the related model into a pivot model, which is
+   * set as a relation under the pivot accessor name.
+   */
+  protected hydratePivotRelation(models: Model[]): void {
+    models.forEach((model) => {
+      const attributes = model.getAttributes();
+      const values: Record<string, unknown> = {};
+
+      Object.keys(attributes)
+        .filter((key) => key.startsWith('pivot_'))
+        .forEach((key) => {
+          values[key.slice('pivot_'.length)] = attributes[key];
+          delete attributes[key];
+        });
+
+      model.setRawAttributes(attributes, true);
+      model.setRelation(this.pivotAccessor, this.newPivot(values, true));
+    });
   }
 }
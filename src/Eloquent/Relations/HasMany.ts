@@ -151,4 +151,18 @@ export class HasMany extends Relation {
     instance.forceFill({ ...attributes, ...values });
     return instance;
   }
+
+  /**
+   * Get the foreign key of the relationship
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the local key of the parent model
+   */
+  getLocalKeyName(): string {
+    return this.localKey;
+  }
 }
@@ -0,0 +1,368 @@
+import { Relation } from './Relation';
+import { Model } from '../Model';
+import { Builder } from '../Builder';
+import { Collection } from '../Collection';
+import { Builder as QueryBuilder } from '../../Query/Builder';
+import { JoinClause } from '../../Query/JoinClause';
+import { GuruORMError } from '../../Errors/GuruORMError';
+import { HasOne } from './HasOne';
+import { HasMany } from './HasMany';
+import { BelongsTo } from './BelongsTo';
+import { BelongsToMany } from './BelongsToMany';
+import { MorphToMany } from './MorphToMany';
+import { MorphOne } from './MorphOne';
+import { MorphMany } from './MorphMany';
+import { HasOneThrough } from './HasOneThrough';
+import { HasManyThrough } from './HasManyThrough';
+
+/**
+ * A step of a deep relationship: the table it enters, joined on its foreign key
+ * to the local key of the previous table, with extra constraints such as a morph type
+ */
+export interface DeepRelationHop {
+  table: string;
+  model: Model | null;
+  foreignKey: string;
+  localKey: string;
+  wheres: Array<{ column: string; value: unknown }>;
+}
+
+/**
+ * The static soft delete settings of a model class
+ */
+interface SoftDeletingModelClass {
+  softDeletes?: boolean;
+  deletedAt?: string;
+  DELETED_AT?: string;
+  prototype?: { softDeletes?: boolean };
+}
+
+/**
+ * The column holding the parent key of each eagerly loaded result
+ */
+const THROUGH_KEY = 'deep_through_key';
+
+/**
+ * Has many deep relationship - crosses any number of intermediate tables by chaining
+ * existing relations, e.g. Country -> Users -> Posts -> Comments. The related table is
+ * queried and the intermediate tables are joined back to the parent. A table the query
+ * already references, e.g. the parent's table in Users -> Posts -> Users, is aliased.
+ */
+export class HasManyDeep extends Relation {
+  /**
+   * The steps from the parent table to the related table
+   */
+  protected hops: DeepRelationHop[];
+
+  /**
+   * The alias of each step, or null when the step is referenced by its table name
+   */
+  protected aliases: (string | null)[];
+
+  /**
+   * Create a new has many deep relationship instance
+   */
+  constructor(query: Builder, parent: Model, hops: DeepRelationHop[]) {
+    super(query, parent);
+
+    this.hops = hops;
+    this.aliases = HasManyDeep.aliasesOf(parent.getTable(), hops);
+    this.addConstraints();
+  }
+
+  /**
+   * Create a deep relationship from a chain of relations, each starting
+   * at the model the previous one ends at
+   */
+  static fromRelations(parent: Model, relations: Relation[]): HasManyDeep {
+    if (relations.length === 0) {
+      throw new GuruORMError('A deep relationship needs at least one relation.');
+    }
+
+    relations.slice(1).forEach((relation, index) => {
+      const previous = relations[index].getRelated().getTable();
+
+      if (relation.getParent().getTable() !== previous) {
+        throw new GuruORMError(
+          `The relations of a deep relationship must be chained: [${relation.getParent().getTable()}] does not follow [${previous}].`
+        );
+      }
+    });
+
+    const RelatedClass = relations[relations.length - 1].getRelated().constructor as typeof Model;
+
+    return new HasManyDeep(
+      new RelatedClass().newQuery(),
+      parent,
+      relations.flatMap((relation) => HasManyDeep.hopsOf(relation))
+    );
+  }
+
+  /**
+   * Alias the steps whose table is referenced elsewhere in the query. The related table
+   * keeps its name unless it is the parent's table, which existence queries select from too;
+   * an intermediate table is aliased when the related table or an earlier step uses its name.
+   */
+  protected static aliasesOf(parentTable: string, hops: DeepRelationHop[]): (string | null)[] {
+    const last = hops.length - 1;
+
+    return hops.map(({ table }, index) => {
+      const repeated = table === parentTable || (index < last && hops.some(
+        (hop, other) => hop.table === table && (other === last || other < index)
+      ));
+
+      return repeated ? `deep_hop_${index}` : null;
+    });
+  }
+
+  /**
+   * Get the steps a relation takes from its parent table to its related table
+   */
+  protected static hopsOf(relation: Relation): DeepRelationHop[] {
+    const related = relation.getRelated();
+    const column = (key: string) => key.split('.').pop() as string;
+
+    if (relation instanceof HasManyDeep) {
+      return relation.getHops();
+    }
+
+    if (relation instanceof MorphOne || relation instanceof MorphMany) {
+      return [{
+        table: related.getTable(),
+        model: related,
+        foreignKey: column(relation.getForeignKeyName()),
+        localKey: column(relation.getLocalKeyName()),
+        wheres: [{
+          column: column(relation.getMorphType()),
+          value: (relation.getParent().constructor as typeof Model).getMorphClass(),
+        }],
+      }];
+    }
+
+    if (relation instanceof HasOne || relation instanceof HasMany) {
+      return [{
+        table: related.getTable(),
+        model: related,
+        foreignKey: column(relation.getForeignKeyName()),
+        localKey: column(relation.getLocalKeyName()),
+        wheres: [],
+      }];
+    }
+
+    if (relation instanceof BelongsTo) {
+      return [{
+        table: related.getTable(),
+        model: related,
+        foreignKey: column(relation.getOwnerKeyName()),
+        localKey: column(relation.getForeignKeyName()),
+        wheres: [],
+      }];
+    }
+
+    if (relation instanceof BelongsToMany) {
+      const wheres = relation instanceof MorphToMany
+        ? [{ column: relation.getMorphType(), value: relation.getMorphClass() }]
+        : [];
+
+      return [
+        {
+          table: relation.getTable(),
+          model: null,
+          foreignKey: relation.getForeignPivotKeyName(),
+          localKey: relation.getParentKeyName(),
+          wheres,
+        },
+        {
+          table: related.getTable(),
+          model: related,
+          foreignKey: relation.getRelatedKeyName(),
+          localKey: relation.getRelatedPivotKeyName(),
+          wheres: [],
+        },
+      ];
+    }
+
+    if (relation instanceof HasOneThrough || relation instanceof HasManyThrough) {
+      const ThroughParent = relation.getThroughParent();
+      const through = new ThroughParent();
+
+      return [
+        {
+          table: through.getTable(),
+          model: through,
+          foreignKey: relation.getFirstKeyName(),
+          localKey: relation.getLocalKeyName(),
+          wheres: [],
+        },
+        {
+          table: related.getTable(),
+          model: related,
+          foreignKey: relation.getForeignKeyName(),
+          localKey: relation.getSecondLocalKeyName(),
+          wheres: [],
+        },
+      ];
+    }
+
+    throw new GuruORMError(`Relation [${relation.constructor.name}] cannot be used in a deep relationship.`);
+  }
+
+  /**
+   * Set the base constraints on the relation query
+   */
+  addConstraints(): void {
+    this.fromRelatedTable(this.query.getQuery());
+    this.query.select(`${this.getRelatedTableName()}.*`);
+    this.addThroughConstraints(this.query.getQuery());
+
+    if (this.parent.modelExists()) {
+      this.query.where(this.getQualifiedFirstKeyName(), '=', this.parent.getAttribute(this.getLocalKeyName()));
+    }
+
+    this.applySoftDeleteConstraint(this.getRelatedTableName());
+  }
+
+  /**
+   * Select a query from the related table, under its alias when it has one
+   */
+  fromRelatedTable(query: QueryBuilder): QueryBuilder {
+    const last = this.hops.length - 1;
+
+    return query.from(this.hops[last].table, this.aliases[last] ?? undefined);
+  }
+
+  /**
+   * Join the intermediate tables to a query on the related table, walking back from the
+   * related table to the first intermediate table, and add the constraints of every step
+   */
+  addThroughConstraints(query: QueryBuilder): QueryBuilder {
+    for (let index = this.hops.length - 1; index > 0; index -= 1) {
+      const hop = this.hops[index];
+      const name = this.getHopName(index);
+      const previous = this.getHopName(index - 1);
+      const alias = this.aliases[index - 1];
+      const table = alias ? `${this.hops[index - 1].table} as ${alias}` : previous;
+
+      query.join(table, (join: JoinClause) => {
+        join.on(`${name}.${hop.foreignKey}`, '=', `${previous}.${hop.localKey}`);
+
+        hop.wheres.forEach(({ column, value }) => join.where(`${name}.${column}`, '=', value));
+      });
+    }
+
+    this.hops[0].wheres.forEach(({ column, value }) => query.where(`${this.getHopName(0)}.${column}`, '=', value));
+
+    // Intermediate models using soft deletes hide their trashed rows
+    this.hops.slice(0, -1).forEach(({ model }, index) => {
+      const deletedAt = model ? this.getSoftDeleteColumnOf(model) : null;
+
+      if (deletedAt) {
+        query.whereNull(`${this.getHopName(index)}.${deletedAt}`);
+      }
+    });
+
+    return query;
+  }
+
+  /**
+   * Get the soft delete column of an intermediate model, or null if it does not use soft deletes
+   */
+  protected getSoftDeleteColumnOf(model: Model): string | null {
+    const constructor = model.constructor as SoftDeletingModelClass;
+
+    if (constructor.softDeletes !== true && constructor.prototype?.softDeletes !== true) {
+      return null;
+    }
+
+    return constructor.deletedAt || constructor.DELETED_AT || 'deleted_at';
+  }
+
+  /**
+   * Set the constraints for an eager load of the relation
+   */
+  addEagerConstraints(models: Model[]): void {
+    const keys = models.map(model => model.getAttribute(this.getLocalKeyName())).filter(key => key != null);
+
+    this.query.addSelect(`${this.getQualifiedFirstKeyName()} as ${THROUGH_KEY}`);
+    this.query.whereIn(this.getQualifiedFirstKeyName(), keys);
+  }
+
+  /**
+   * Initialize the relation on a set of models
+   */
+  initRelation(models: Model[], relation: string): Model[] {
+    models.forEach((model) => model.setRelation(relation, new Collection()));
+    return models;
+  }
+
+  /**
+   * Match the eagerly loaded results to their parents
+   */
+  match(models: Model[], results: Model[], relation: string): Model[] {
+    const dictionary: { [key: string]: Model[] } = {};
+
+    results.forEach((result) => {
+      const attributes = result.getAttributes();
+      const key = String(attributes[THROUGH_KEY]);
+
+      delete attributes[THROUGH_KEY];
+      result.setRawAttributes(attributes, true);
+
+      if (!dictionary[key]) {
+        dictionary[key] = [];
+      }
+      dictionary[key].push(result);
+    });
+
+    models.forEach((model) => {
+      const key = model.getAttribute(this.getLocalKeyName());
+      if (dictionary[key]) {
+        model.setRelation(relation, new Collection(...dictionary[key]));
+      }
+    });
+
+    return models;
+  }
+
+  /**
+   * Get the results of the relationship
+   */
+  async getResults(): Promise<Collection<Model>> {
+    return this.query.get();
+  }
+
+  /**
+   * Get the steps from the parent table to the related table
+   */
+  getHops(): DeepRelationHop[] {
+    return this.hops;
+  }
+
+  /**
+   * Get the qualified column of the first intermediate table holding the parent key
+   */
+  getQualifiedFirstKeyName(): string {
+    return `${this.getHopName(0)}.${this.hops[0].foreignKey}`;
+  }
+
+  /**
+   * Get the name the related table is referenced by in the query
+   */
+  getRelatedTableName(): string {
+    return this.getHopName(this.hops.length - 1);
+  }
+
+  /**
+   * Get the name a step is referenced by in the query: its alias or its table
+   */
+  protected getHopName(index: number): string {
+    return this.aliases[index] ?? this.hops[index].table;
+  }
+
+  /**
+   * Get the key of the parent model the first intermediate table refers to
+   */
+  getLocalKeyName(): string {
+    return this.hops[0].localKey;
+  }
+}
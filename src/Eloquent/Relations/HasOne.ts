@@ -1,6 +1,24 @@
 import { Relation } from './Relation';
 import { Model } from '../Model';
 import { Builder } from '../Builder';
+import { Builder as QueryBuilder } from '../../Query/Builder';
+import { JoinClause } from '../../Query/JoinClause';
+import { GuruORMError } from '../../Errors/GuruORMError';
+
+/**
+ * A callback constraining each aggregate subquery of a one-of-many relation
+ */
+type OneOfManyConstraints = (query: QueryBuilder) => void;
+
+/**
+ * The definition of a one-of-many relation: the aggregated columns, in order,
+ * the constraints applied to each aggregate subquery and the join alias
+ */
+interface OneOfManyDefinition {
+  columns: Record<string, string>;
+  constraints: OneOfManyConstraints | null;
+  relation: string;
+}
 
 /**
  * HasOne Relation - inspired by Laravel and Illuminate
@@ -11,6 +29,12 @@ export class HasOne extends Relation {
   protected withDefaultValue: any = null;
   protected withDefaultCallback: Function | null = null;
 
+  protected oneOfMany: OneOfManyDefinition | null = null;
+
+  protected oneOfManyKeys: unknown[] | null = null;
+
+  private oneOfManyJoined = false;
+
   constructor(query: Builder, parent: Model, foreignKey: string, localKey: string) {
     super(query, parent);
     this.foreignKey = foreignKey;
@@ -39,6 +63,7 @@ export class HasOne extends Relation {
     // Only add whereIn if we have keys
     if (keys.length > 0) {
       this.query.whereIn(this.foreignKey, keys);
+      this.oneOfManyKeys = keys;
     }
     
     this.applySoftDeleteConstraint();
@@ -84,7 +109,7 @@ export class HasOne extends Relation {
    * Get the results of the relationship
    */
   async getResults(): Promise<any> {
-    const result = await this.query.first();
+    const result = await this.getQuery().first();
     
     // If no result and withDefault is set, return default model
     if (!result && (this.withDefaultValue !== null || this.withDefaultCallback !== null)) {
@@ -94,6 +119,150 @@ export class HasOne extends Relation {
     return result;
   }
 
+  /**
+   * Get the underlying query for the relation, joined to the one-of-many subquery
+   */
+  getQuery(): Builder {
+    if (this.oneOfMany && !this.oneOfManyJoined) {
+      this.oneOfManyJoined = true;
+
+      const query = this.query.getQuery();
+
+      if (query.getColumns().length === 0) {
+        query.select(`${this.related.getTable()}.*`);
+      }
+
+      this.joinOneOfMany(query, this.oneOfManyKeys);
+    }
+
+    return this.query;
+  }
+
+  /**
+   * Only return the related model with the largest or smallest value of the given
+   * columns. Later columns break ties of earlier ones, and the primary key always
+   * breaks the final tie. Constraints apply to each aggregate subquery.
+   */
+  ofMany(
+    column: string | Record<string, string> = 'id',
+    aggregate: string | OneOfManyConstraints = 'max',
+    constraints: OneOfManyConstraints | null = null,
+    relation = 'ofMany'
+  ): this {
+    const defaultAggregate = typeof aggregate === 'function' ? 'max' : aggregate;
+    const subQueryConstraints = typeof aggregate === 'function' ? aggregate : constraints;
+    const columns = typeof column === 'string' ? { [column]: defaultAggregate } : { ...column };
+    const keyName = this.related.getKeyName();
+
+    if (!(keyName in columns)) {
+      columns[keyName] = defaultAggregate;
+    }
+
+    Object.entries(columns).forEach(([name, value]) => {
+      if (!['min', 'max'].includes(value.toLowerCase())) {
+        throw new GuruORMError(`Invalid aggregate [${value}] used within ofMany relation. Available aggregates: MIN, MAX`);
+      }
+
+      columns[name] = value.toLowerCase();
+    });
+
+    this.oneOfMany = { columns, constraints: subQueryConstraints, relation };
+
+    if (this.parent.modelExists()) {
+      this.oneOfManyKeys = [this.parent.getAttribute(this.localKey)];
+    }
+
+    return this;
+  }
+
+  /**
+   * Only return the related model with the largest value of the given columns
+   */
+  latestOfMany(column: string | string[] = 'id', relation = 'latestOfMany'): this {
+    const columns = Array.isArray(column) ? column : [column];
+
+    return this.ofMany(Object.fromEntries(columns.map((name) => [name, 'max'])), 'max', null, relation);
+  }
+
+  /**
+   * Only return the related model with the smallest value of the given columns
+   */
+  oldestOfMany(column: string | string[] = 'id', relation = 'oldestOfMany'): this {
+    const columns = Array.isArray(column) ? column : [column];
+
+    return this.ofMany(Object.fromEntries(columns.map((name) => [name, 'min'])), 'min', null, relation);
+  }
+
+  /**
+   * Determine if the relation returns one of many related models
+   */
+  isOneOfMany(): boolean {
+    return this.oneOfMany !== null;
+  }
+
+  /**
+   * Join the one-of-many subqueries to a query on the related table. Each subquery
+   * groups the related rows by the foreign key, aggregates one column and joins the
+   * previous subquery, so only the rows holding every aggregate remain. The innermost
+   * subquery is limited to the given parent keys.
+   */
+  joinOneOfMany(query: QueryBuilder, keys: unknown[] | null = null): QueryBuilder {
+    if (!this.oneOfMany) {
+      return query;
+    }
+
+    const table = this.related.getTable();
+    const { columns, constraints, relation } = this.oneOfMany;
+    const grammar = query.getGrammar();
+    const foreignKey = this.foreignKey.split('.').pop() as string;
+    const groupKey = `${foreignKey}_group`;
+    const softDeleteColumn = this.getSoftDeleteColumn(table);
+
+    const previous = Object.entries(columns).reduce<{ subQuery: QueryBuilder; column: string } | null>((last, [column, aggregate]) => {
+      const subQuery = query.newQuery()
+        .from(table)
+        .selectRaw(`${aggregate.toUpperCase()}(${grammar.wrap(`${table}.${column}`)}) as ${grammar.wrap(`${column}_aggregate`)}`)
+        .selectRaw(`${grammar.wrap(`${table}.${foreignKey}`)} as ${grammar.wrap(groupKey)}`)
+        .groupBy(`${table}.${foreignKey}`);
+
+      if (last) {
+        this.joinOneOfManySubQuery(subQuery, last.subQuery, relation, last.column, groupKey);
+      } else if (keys && keys.length > 0) {
+        subQuery.whereIn(`${table}.${foreignKey}`, keys);
+      }
+
+      if (softDeleteColumn && !this._withTrashed && !this._onlyTrashed) {
+        subQuery.whereNull(softDeleteColumn);
+      }
+
+      if (constraints) {
+        constraints(subQuery);
+      }
+
+      return { subQuery, column };
+    }, null);
+
+    return this.joinOneOfManySubQuery(query, previous!.subQuery, relation, previous!.column, groupKey);
+  }
+
+  /**
+   * Join an aggregate subquery on its aggregated column and foreign key
+   */
+  protected joinOneOfManySubQuery(
+    query: QueryBuilder,
+    subQuery: QueryBuilder,
+    alias: string,
+    column: string,
+    groupKey: string
+  ): QueryBuilder {
+    const table = this.related.getTable();
+    const foreignKey = this.foreignKey.split('.').pop() as string;
+
+    return query.joinSub(subQuery, alias, (join: JoinClause) => join
+      .on(`${alias}.${column}_aggregate`, '=', `${table}.${column}`)
+      .on(`${alias}.${groupKey}`, '=', `${table}.${foreignKey}`));
+  }
+
   /**
    * Get the default value for this relation
    */
@@ -180,4 +349,18 @@ export class HasOne extends Relation {
 
     return this.create({ ...attributes, ...values });
   }
+
+  /**
+   * Get the foreign key of the relationship
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the local key of the parent model
+   */
+  getLocalKeyName(): string {
+    return this.localKey;
+  }
 }
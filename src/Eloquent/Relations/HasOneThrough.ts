@@ -148,4 +148,39 @@ export class HasOneThrough extends Relation {
     const results = await this.query.first();
     return results || null;
   }
+
+  /**
+   * Get the key on the intermediate table referring to the parent model
+   */
+  getFirstKeyName(): string {
+    return this.firstKey;
+  }
+
+  /**
+   * Get the key on the related table referring to the intermediate model
+   */
+  getForeignKeyName(): string {
+    return this.secondKey;
+  }
+
+  /**
+   * Get the local key of the parent model
+   */
+  getLocalKeyName(): string {
+    return this.localKey;
+  }
+
+  /**
+   * Get the local key of the intermediate model
+   */
+  getSecondLocalKeyName(): string {
+    return this.secondLocalKey;
+  }
+
+  /**
+   * Get the intermediate model class
+   */
+  getThroughParent(): typeof Model {
+    return this.throughParent;
+  }
 }
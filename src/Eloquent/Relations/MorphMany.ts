@@ -134,4 +134,25 @@ export class MorphMany extends Relation {
     
     return this.query.create(attributes);
   }
+
+  /**
+   * Get the foreign key of the relationship
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the morph type column of the relationship
+   */
+  getMorphType(): string {
+    return this.morphType;
+  }
+
+  /**
+   * Get the local key of the parent model
+   */
+  getLocalKeyName(): string {
+    return this.localKey;
+  }
 }
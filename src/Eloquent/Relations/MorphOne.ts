@@ -116,4 +116,25 @@ export class MorphOne extends Relation {
     const results = await this.query.first();
     return results || null;
   }
+
+  /**
+   * Get the foreign key of the relationship
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the morph type column of the relationship
+   */
+  getMorphType(): string {
+    return this.morphType;
+  }
+
+  /**
+   * Get the local key of the parent model
+   */
+  getLocalKeyName(): string {
+    return this.localKey;
+  }
 }
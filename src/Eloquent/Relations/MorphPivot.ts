@@ -0,0 +1,47 @@
+import { Pivot } from './Pivot';
+import { Builder } from '../Builder';
+
+/**
+ * Morph pivot model - a row of a polymorphic many-to-many intermediate table
+ */
+export class MorphPivot extends Pivot {
+  /**
+   * The type column of the morph on the pivot table
+   */
+  protected pivotMorphType = '';
+
+  /**
+   * The morph type stored in the pivot table for the relation
+   */
+  protected pivotMorphClass = '';
+
+  /**
+   * Set the type column of the morph on the pivot table
+   */
+  setMorphType(morphType: string): this {
+    this.pivotMorphType = morphType;
+    return this;
+  }
+
+  /**
+   * Set the morph type stored in the pivot table for the relation
+   */
+  setMorphClass(morphClass: string): this {
+    this.pivotMorphClass = morphClass;
+    return this;
+  }
+
+  /**
+   * Get the type column of the morph on the pivot table
+   */
+  getMorphType(): string {
+    return this.pivotMorphType;
+  }
+
+  /**
+   * Set the keys for a save update or delete query, limited to the morph type
+   */
+  protected setKeysForSaveQuery(query: Builder): Builder {
+    return super.setKeysForSaveQuery(query).where(this.pivotMorphType, this.pivotMorphClass);
+  }
+}
@@ -167,4 +167,18 @@ export class MorphTo extends Relation {
 
     return this.parent;
   }
+
+  /**
+   * Get the foreign key column holding the related model's key
+   */
+  getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the column holding the related model's morph type
+   */
+  getMorphType(): string {
+    return this.morphType;
+  }
 }
@@ -0,0 +1,125 @@
+import { BelongsToMany } from './BelongsToMany';
+import { Model } from '../Model';
+import { Builder } from '../Builder';
+import { Builder as QueryBuilder } from '../../Query/Builder';
+import { Pivot } from './Pivot';
+import { MorphPivot } from './MorphPivot';
+
+/**
+ * Morph to many (polymorphic many-to-many) relationship.
+ * The pivot table holds a morph type column next to the foreign keys, e.g. taggables
+ * (tag_id, taggable_id, taggable_type) shared by posts and videos.
+ */
+export class MorphToMany extends BelongsToMany {
+  /**
+   * The type column of the morph on the pivot table
+   */
+  protected morphType!: string;
+
+  /**
+   * The morph type stored in the pivot table for this relation
+   */
+  protected morphClass!: string;
+
+  /**
+   * Whether this is the inverse side (morphedByMany)
+   */
+  protected inverse!: boolean;
+
+  /**
+   * Create a new morph to many relationship instance
+   */
+  constructor(
+    query: Builder,
+    parent: Model,
+    name: string,
+    table: string,
+    foreignPivotKey: string,
+    relatedPivotKey: string,
+    parentKey: string,
+    relatedKey: string,
+    inverse = false
+  ) {
+    super(query, parent, table, foreignPivotKey, relatedPivotKey, parentKey, relatedKey);
+
+    this.morphType = `${name}_type`;
+    this.inverse = inverse;
+    this.morphClass = inverse
+      ? (this.related.constructor as typeof Model).getMorphClass()
+      : (parent.constructor as typeof Model).getMorphClass();
+
+    // The parent constructor runs before the morph type is known, so constrain now
+    this.addConstraints();
+  }
+
+  /**
+   * Set the base constraints on the relation query. The morph type applies
+   * to eager loads as well, since they start from these constraints.
+   */
+  addConstraints(): void {
+    if (this.morphType === undefined) {
+      return;
+    }
+
+    super.addConstraints();
+    this.query.where(`${this.table}.${this.morphType}`, '=', this.morphClass);
+  }
+
+  /**
+   * Format the attach records, adding the morph type
+   */
+  protected formatAttachRecords(ids: unknown[], attributes: Record<string, unknown>): Record<string, unknown>[] {
+    return super.formatAttachRecords(ids, attributes).map((record) => ({
+      ...record,
+      [this.morphType]: this.morphClass,
+    }));
+  }
+
+  /**
+   * Create a fresh query builder against the pivot table, limited to this morph type
+   */
+  protected newPivotQuery(): QueryBuilder {
+    return super.newPivotQuery().where(this.morphType, this.morphClass);
+  }
+
+  /**
+   * Get the custom pivot model class, defaulting to a morph pivot
+   */
+  getPivotClass(): typeof Pivot {
+    return this.usingClass || MorphPivot;
+  }
+
+  /**
+   * Create a new pivot model instance, carrying the morph type
+   */
+  newPivot(attributes: Record<string, unknown> = {}, exists = false): Pivot {
+    const pivot = super.newPivot(attributes, exists);
+
+    if (pivot instanceof MorphPivot) {
+      pivot.setMorphType(this.morphType).setMorphClass(this.morphClass);
+    }
+
+    return pivot;
+  }
+
+  /**
+   * Get the type column of the morph on the pivot table
+   */
+  getMorphType(): string {
+    return this.morphType;
+  }
+
+  /**
+   * Get the morph type stored in the pivot table for this relation
+   */
+  getMorphClass(): string {
+    return this.morphClass;
+  }
+
+  /**
+   * Determine if this is the inverse side of the relation
+   */
+  isInverse(): boolean {
+    return this.inverse;
+  }
+}
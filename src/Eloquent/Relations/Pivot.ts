@@ -0,0 +1,131 @@
+import { Model } from '../Model';
+import { Builder } from '../Builder';
+
+/**
+ * Pivot model - a row of a many-to-many intermediate table. Extend it and pass the
+ * class to BelongsToMany.using() to give pivot rows casts, accessors and events.
+ */
+export class Pivot extends Model {
+  protected incrementing = false;
+
+  protected guarded: string[] = [];
+
+  /**
+   * The parent model of the relationship
+   */
+  protected pivotParent: Model | null = null;
+
+  /**
+   * The foreign key of the parent model on the pivot table
+   */
+  protected pivotForeignKey = '';
+
+  /**
+   * The key of the related model on the pivot table
+   */
+  protected pivotRelatedKey = '';
+
+  /**
+   * Create a new pivot model instance, applying mutators and casts to the attributes
+   */
+  static fromAttributes<T extends Pivot>(
+    this: new () => T,
+    parent: Model,
+    attributes: Record<string, unknown>,
+    table: string,
+    exists = false
+  ): T {
+    const pivot = new this();
+
+    pivot.timestamps = pivot.hasTimestampAttributes(attributes);
+    pivot.table = table;
+    pivot.pivotParent = parent;
+
+    const connection = parent.getConnectionName();
+    if (connection) {
+      pivot.setConnection(connection);
+    }
+
+    pivot.forceFill(attributes).syncOriginal();
+    pivot.exists = exists;
+
+    return pivot;
+  }
+
+  /**
+   * Create a new pivot model instance from raw database values
+   */
+  static fromRawAttributes<T extends Pivot>(
+    this: new () => T,
+    parent: Model,
+    attributes: Record<string, unknown>,
+    table: string,
+    exists = false
+  ): T {
+    const pivot = (this as unknown as typeof Pivot).fromAttributes(parent, {}, table, exists) as T;
+
+    pivot.timestamps = pivot.hasTimestampAttributes(attributes);
+    pivot.attributes = { ...attributes };
+    pivot.syncOriginal();
+
+    return pivot;
+  }
+
+  /**
+   * Determine if the pivot attributes include the timestamp columns
+   */
+  hasTimestampAttributes(attributes: Record<string, unknown> = this.attributes): boolean {
+    return (this.constructor as typeof Model).CREATED_AT in attributes;
+  }
+
+  /**
+   * Set the key names of the pivot model
+   */
+  setPivotKeys(foreignKey: string, relatedKey: string): this {
+    this.pivotForeignKey = foreignKey;
+    this.pivotRelatedKey = relatedKey;
+    return this;
+  }
+
+  /**
+   * Get the foreign key of the parent model on the pivot table
+   */
+  getForeignKey(): string {
+    return this.pivotForeignKey;
+  }
+
+  /**
+   * Get the key of the related model on the pivot table
+   */
+  getRelatedKey(): string {
+    return this.pivotRelatedKey;
+  }
+
+  /**
+   * Get the parent model of the relationship
+   */
+  getPivotParent(): Model | null {
+    return this.pivotParent;
+  }
+
+  /**
+   * Set the keys for a save update or delete query. Pivot rows without a
+   * primary key are identified by their foreign and related keys.
+   */
+  protected setKeysForSaveQuery(query: Builder): Builder {
+    if (this.attributes[this.getKeyName()] !== undefined) {
+      return super.setKeysForSaveQuery(query);
+    }
+
+    return query
+      .where(this.pivotForeignKey, this.getOriginalKeyValue(this.pivotForeignKey))
+      .where(this.pivotRelatedKey, this.getOriginalKeyValue(this.pivotRelatedKey));
+  }
+
+  /**
+   * Get the value of a key as it was loaded from the database
+   */
+  protected getOriginalKeyValue(key: string): unknown {
+    return key in this.original ? this.original[key] : this.attributes[key];
+  }
+}
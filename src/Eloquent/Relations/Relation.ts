@@ -65,14 +65,14 @@ export abstract class Relation {
    * Execute the query and get all results
    */
   async get(columns: string[] = ['*']): Promise<any> {
-    return this.query.get(columns);
+    return this.getQuery().get(columns);
   }
 
   /**
    * Execute the query and get the first result
    */
   async first(columns: string[] = ['*']): Promise<any> {
-    return this.query.first(columns);
+    return this.getQuery().first(columns);
   }
 
   /**
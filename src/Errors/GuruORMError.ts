@@ -84,6 +84,28 @@ export class GuruORMError extends Error {
 
 // ─── Query ───────────────────────────────────────────────────────────────
 
+/**
+ * The error code properties the database drivers attach to their errors
+ */
+interface DriverError extends Error {
+  errno?: number;
+  number?: number;
+  code?: string;
+  originalError?: { number?: number };
+}
+
+/**
+ * Driver error codes of deadlocks, lock wait timeouts and serialization
+ * failures — errors that may succeed when the transaction is retried.
+ * SQLite reports a database locked by another connection as busy.
+ */
+const CONCURRENCY_ERROR_CODES: Record<string, (string | number)[]> = {
+  mysql: [1213, 1205],
+  pgsql: ['40001', '40P01'],
+  sqlserver: [1205],
+  sqlite: ['SQLITE_BUSY', 'SQLITE_BUSY_SNAPSHOT'],
+};
+
 /**
  * Thrown when a database query fails.
  * Captures the SQL, bindings, connection name, and driver for debugging.
@@ -93,6 +115,8 @@ export class QueryException extends GuruORMError {
   readonly bindings: any[];
   readonly connectionName: string;
   readonly driver: string;
+  /** Driver error code (MySQL errno, PostgreSQL SQLSTATE, SQL Server error number). */
+  readonly errorCode: string | number | null;
 
   constructor(
     message: string,
@@ -110,6 +134,26 @@ export class QueryException extends GuruORMError {
     this.bindings = bindings;
     this.connectionName = connectionName;
     this.driver = driver;
+    this.errorCode = QueryException.extractErrorCode(originalError);
+  }
+
+  /**
+   * Determine if the query failed on a deadlock or serialization failure.
+   * Error codes are only meaningful for their own driver, so unknown drivers never match.
+   */
+  causedByConcurrencyError(): boolean {
+    if (this.errorCode === null) return false;
+
+    return (CONCURRENCY_ERROR_CODES[this.driver] ?? []).includes(this.errorCode);
+  }
+
+  /**
+   * Read the error code the driver attached to its error:
+   * mysql2 sets `errno`, mssql / tedious set `number`, pg sets a SQLSTATE `code`.
+   */
+  private static extractErrorCode(error?: DriverError): string | number | null {
+    if (!error) return null;
+    return error.errno ?? error.number ?? error.originalError?.number ?? error.code ?? null;
   }
 
   /**
@@ -133,6 +177,7 @@ export class QueryException extends GuruORMError {
       bindings: this.bindings,
       connection: this.connectionName,
       driver: this.driver,
+      ...(this.errorCode !== null ? { code: this.errorCode } : {}),
     };
   }
 
@@ -1,12 +1,14 @@
 import { Connection } from '../Connection/Connection';
 import { Migration } from './Migration';
 import { UniversalLoader } from '../Support/UniversalLoader';
+import { SchemaDumper } from '../Schema/SchemaDumper';
 import { 
   dispatchMigrationsStarted, 
   dispatchMigrationsEnded, 
   dispatchMigrationStarted, 
   dispatchMigrationEnded,
-  dispatchNoPendingMigrations 
+  dispatchNoPendingMigrations,
+  dispatchSchemaLoaded
 } from './MigrationEvents';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -18,6 +20,7 @@ export class Migrator {
   protected connection: Connection;
   protected migrationTable = 'migrations';
   protected paths: string[] = [];
+  protected schemaPath: string | null = null;
 
   constructor(connection: Connection) {
     this.connection = connection;
@@ -39,10 +42,22 @@ export class Migrator {
     return this;
   }
 
+  /**
+   * Set the schema dump loaded before migrating an empty database
+   */
+  setSchemaPath(schemaPath: string | null): this {
+    this.schemaPath = schemaPath;
+    return this;
+  }
+
   /**
    * Run pending migrations
    */
   async run(options: MigrationOptions = {}): Promise<MigrationResult[]> {
+    if (!options.pretend) {
+      await this.loadSchemaDump();
+    }
+
     await this.createMigrationTable();
 
     const files = this.getMigrationFiles();
@@ -134,6 +149,40 @@ export class Migrator {
     return statuses;
   }
 
+  /**
+   * Load the schema dump when the database has never been migrated.
+   * The dump includes the migrations table, so only newer migrations run afterwards.
+   */
+  protected async loadSchemaDump(): Promise<void> {
+    if (!this.schemaPath || !fs.existsSync(this.schemaPath)) {
+      return;
+    }
+
+    if (await this.connection.getSchemaBuilder().hasTable(this.migrationTable)) {
+      return;
+    }
+
+    await new SchemaDumper(this.connection, this.migrationTable).load(this.schemaPath);
+    await dispatchSchemaLoaded(this.schemaPath);
+  }
+
+  /**
+   * Delete the files of migrations that have run, once they are squashed into a schema dump.
+   * Returns the names of the deleted migrations.
+   */
+  async pruneMigrations(): Promise<string[]> {
+    await this.createMigrationTable();
+
+    const ran = await this.getRanMigrations();
+    const pruned = this.getMigrationFiles().filter((file) => ran.includes(file.name));
+
+    for (const file of pruned) {
+      fs.unlinkSync(file.path);
+    }
+
+    return pruned.map((file) => file.name);
+  }
+
   /**
    * Run a single migration
    */
@@ -1,15 +1,74 @@
+import { Readable, Writable } from 'stream';
 import { Connection } from '../Connection/Connection';
+import { BulkLoadOptions, BulkLoadRows } from '../Connection/ConnectionInterface';
 import { Grammar } from './Grammars/Grammar';
 import { Processor } from './Processors/Processor';
 import { Expression } from './Expression';
 import { JoinClause } from './JoinClause';
-import { ModelNotFoundException, MultipleRecordsFoundException } from '../Errors/GuruORMError';
+import { WindowClause } from './WindowClause';
+import { CsvExportOptions, exportCsv, exportNdjson } from '../Support/Export';
+import { GuruORMError, ModelNotFoundException, MultipleRecordsFoundException } from '../Errors/GuruORMError';
+
+/**
+ * Whether T is `any`, which keeps untyped builders as loose as before
+ */
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+
+/**
+ * Column names of a row type (any string when the row is untyped)
+ */
+export type ColumnOf<TRow> = IsAny<TRow> extends true ? string : Extract<keyof TRow, string>;
+
+/**
+ * The row type left after selecting the given columns
+ */
+export type SelectedRow<TRow, K extends string> = IsAny<TRow> extends true ? any : Pick<TRow, Extract<K, keyof TRow>>;
+
+/**
+ * A common table expression in the "with" clause of a query
+ */
+export interface CommonTableExpression {
+  name: string;
+  query: Builder | string;
+  columns: string[] | null;
+  recursive: boolean;
+}
+
+/**
+ * A named window definition ("window <name> as (...)") of a query
+ */
+export interface NamedWindow {
+  name: string;
+  window: WindowClause;
+}
+
+/**
+ * A window function selected by a query
+ */
+export interface WindowFunction {
+  type: 'Window';
+  name: string;
+  columns: (string | Expression)[];
+  over: WindowClause | string;
+  as: string;
+}
+
+/**
+ * A lateral join of a query onto a subquery
+ */
+export interface LateralJoin {
+  type: 'inner' | 'left';
+  lateral: true;
+  query: Builder;
+  as: string;
+}
 
 /**
  * Query Builder - inspired by Laravel and Illuminate
- * Provides a fluent interface for building SQL queries
+ * Provides a fluent interface for building SQL queries.
+ * Pass a row type (DB.table<UserRow>('users')) to check column names at compile time.
  */
-export class Builder {
+export class Builder<TRow extends Record<string, any> = any> {
   protected connection: Connection;
   protected grammar: Grammar;
   protected processor: Processor;
@@ -26,7 +85,11 @@ export class Builder {
   protected limitValue: number | null = null;
   protected offsetValue: number | null = null;
   protected unions: any[] = [];
+  protected expressions: CommonTableExpression[] = []; // Common table expressions (WITH clauses)
+  protected windows: NamedWindow[] = []; // Named WINDOW definitions
+  protected groupLimitValue: { value: number; column: string } | null = null;
   protected lock: boolean | string = false;
+  protected useWritePdoValue = false; // Run selects against the primary instead of a read replica
   protected columnAliases: Map<string, string> = new Map(); // Track column aliases
   protected returningColumns: string[] = []; // For RETURNING clause
   protected distinctFlag: boolean = false; // Track distinct queries
@@ -38,6 +101,7 @@ export class Builder {
 
   // Bindings for prepared statements
   protected bindings: {
+    expressions: unknown[];
     select: any[];
     from: any[];
     join: any[];
@@ -48,6 +112,7 @@ export class Builder {
     union: any[];
     unionOrder: any[];
   } = {
+    expressions: [],
     select: [],
     from: [],
     join: [],
@@ -66,9 +131,11 @@ export class Builder {
   }
 
   /**
-   * Set the columns to be selected
+   * Set the columns to be selected, narrowing the row type of a typed builder
    */
-  select(...columns: any[]): this {
+  select<K extends ColumnOf<TRow>>(...columns: K[]): Builder<SelectedRow<TRow, K>>;
+  select(...columns: IsAny<TRow> extends true ? any[] : Expression[]): this;
+  select(...columns: any[]): any {
     this.columns = columns.length === 0 ? ['*'] : columns;
     return this;
   }
@@ -102,6 +169,121 @@ export class Builder {
     return this;
   }
 
+  /**
+   * Add a window function as a select column, e.g.
+   * selectWindow('sum', 'amount', (over) => over.partitionBy('user_id'), 'running_total')
+   */
+  selectWindow(
+    fn: string,
+    columns: string | Expression | (string | Expression)[] | null,
+    over: string | WindowClause | ((window: WindowClause) => void),
+    as: string,
+  ): this {
+    if (!/^[a-z_][a-z0-9_]*$/i.test(fn)) {
+      throw new GuruORMError(`Invalid window function name [${fn}].`);
+    }
+
+    let columnList: (string | Expression)[];
+    if (columns === null) {
+      columnList = [];
+    } else {
+      columnList = Array.isArray(columns) ? columns : [columns];
+    }
+
+    if (this.columns.length === 0) {
+      this.columns = ['*'];
+    }
+
+    this.columns.push({
+      type: 'Window',
+      name: fn,
+      columns: columnList,
+      over: this.newWindow(over),
+      as,
+    });
+
+    return this;
+  }
+
+  /**
+   * Add a "row_number() over (...)" select column
+   */
+  selectRowNumber(over: string | WindowClause | ((window: WindowClause) => void), as = 'row_number'): this {
+    return this.selectWindow('row_number', null, over, as);
+  }
+
+  /**
+   * Add a "rank() over (...)" select column
+   */
+  selectRank(over: string | WindowClause | ((window: WindowClause) => void), as = 'rank'): this {
+    return this.selectWindow('rank', null, over, as);
+  }
+
+  /**
+   * Add a "dense_rank() over (...)" select column
+   */
+  selectDenseRank(over: string | WindowClause | ((window: WindowClause) => void), as = 'dense_rank'): this {
+    return this.selectWindow('dense_rank', null, over, as);
+  }
+
+  /**
+   * Add a "lag(column, offset) over (...)" select column
+   */
+  selectLag(column: string, over: string | WindowClause | ((window: WindowClause) => void), as: string, offset = 1): this {
+    return this.selectWindow('lag', [column, this.windowOffset(offset)], over, as);
+  }
+
+  /**
+   * Add a "lead(column, offset) over (...)" select column
+   */
+  selectLead(column: string, over: string | WindowClause | ((window: WindowClause) => void), as: string, offset = 1): this {
+    return this.selectWindow('lead', [column, this.windowOffset(offset)], over, as);
+  }
+
+  /**
+   * Add a named window definition ("window <name> as (...)") to the query
+   */
+  window(name: string, window: WindowClause | ((window: WindowClause) => void)): this {
+    this.windows.push({ name, window: this.newWindow(window) as WindowClause });
+    return this;
+  }
+
+  /**
+   * Resolve a window argument into a WindowClause or a named window reference
+   */
+  protected newWindow(over: string | WindowClause | ((window: WindowClause) => void)): WindowClause | string {
+    if (typeof over === 'function') {
+      const window = new WindowClause();
+      over(window);
+      return window;
+    }
+
+    return over;
+  }
+
+  /**
+   * Validate a lag/lead offset, which is compiled as a literal
+   */
+  protected windowOffset(offset: number): Expression {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new GuruORMError(`Window offset must be a non-negative integer, got [${offset}].`);
+    }
+
+    return new Expression(String(offset));
+  }
+
+  /**
+   * Limit the number of rows returned per group of the given column.
+   * The query's orders decide which rows of each group are kept.
+   */
+  groupLimit(value: number, column: string): this {
+    if (value >= 0) {
+      this.groupLimitValue = { value, column };
+    }
+
+    return this;
+  }
+
   /**
    * Set the table which the query is targeting
    */
@@ -182,7 +364,7 @@ export class Builder {
   /**
    * Join a subquery to the query
    */
-  joinSub(query: Builder | Function, as: string, first: string, operator?: string, second?: string, type: 'inner' | 'left' | 'right' = 'inner'): this {
+  joinSub(query: Builder | Function, as: string, first: string | Function, operator?: string, second?: string, type: 'inner' | 'left' | 'right' = 'inner'): this {
     let subQuery: Builder;
 
     if (typeof query === 'function') {
@@ -192,7 +374,7 @@ export class Builder {
       subQuery = query;
     }
 
-    const expression = `(${subQuery.toSql()}) as ${this.grammar.wrap(as)}`;
+    const expression = new Expression(`(${subQuery.toSql()}) as ${this.grammar.wrap(as)}`);
     
     this.addBinding(subQuery.getBindings(), 'join');
     
@@ -202,10 +384,37 @@ export class Builder {
   /**
    * Left join a subquery to the query
    */
-  leftJoinSub(query: Builder | Function, as: string, first: string, operator?: string, second?: string): this {
+  leftJoinSub(query: Builder | Function, as: string, first: string | Function, operator?: string, second?: string): this {
     return this.joinSub(query, as, first, operator, second, 'left');
   }
 
+  /**
+   * Add a lateral join to the query. The subquery may reference columns of
+   * the preceding tables, e.g. the latest comments of each post.
+   */
+  joinLateral(query: Builder | Function, as: string, type: 'inner' | 'left' = 'inner'): this {
+    let subQuery: Builder;
+
+    if (typeof query === 'function') {
+      subQuery = this.newQuery();
+      query(subQuery);
+    } else {
+      subQuery = query;
+    }
+
+    this.joins.push({ type, lateral: true, query: subQuery, as });
+    this.addBinding(subQuery.getBindings(), 'join');
+
+    return this;
+  }
+
+  /**
+   * Add a lateral left join to the query
+   */
+  leftJoinLateral(query: Builder | Function, as: string): this {
+    return this.joinLateral(query, as, 'left');
+  }
+
   /**
    * Add a join with a where clause
    */
@@ -243,10 +452,38 @@ export class Builder {
     return this.union(query, true);
   }
 
+  /**
+   * Add a common table expression ("with" clause) to the query
+   */
+  withExpression(name: string, query: Builder | Function | string, columns: string[] | null = null, recursive = false): this {
+    let expression = query;
+
+    if (typeof expression === 'function') {
+      const callback = expression;
+      expression = this.newQuery();
+      callback(expression);
+    }
+
+    this.expressions.push({ name, query: expression, columns, recursive });
+
+    if (typeof expression !== 'string') {
+      this.addBinding(expression.getBindings(), 'expressions');
+    }
+
+    return this;
+  }
+
+  /**
+   * Add a recursive common table expression ("with recursive" clause) to the query
+   */
+  withRecursiveExpression(name: string, query: Builder | Function | string, columns: string[] | null = null): this {
+    return this.withExpression(name, query, columns, true);
+  }
+
   /**
    * Add a basic where clause to the query
    */
-  where(column: string | Function | Record<string, any>, operator?: any, value?: any, boolean: 'and' | 'or' = 'and'): this {
+  where(column: ColumnOf<TRow> | Expression | Function | Partial<Record<ColumnOf<TRow>, any>>, operator?: any, value?: any, boolean: 'and' | 'or' = 'and'): this {
     // Handle closure for nested where
     if (typeof column === 'function') {
       return this.whereNested(column, boolean);
@@ -255,7 +492,7 @@ export class Builder {
     // Handle plain object {col: val, col2: val2}
     if (typeof column === 'object' && column !== null && !(column instanceof Expression)) {
       for (const [k, v] of Object.entries(column as Record<string, any>)) {
-        this.where(k, '=', v, boolean);
+        this.where(k as ColumnOf<TRow>, '=', v, boolean);
       }
       return this;
     }
@@ -269,9 +506,9 @@ export class Builder {
     // Handle null values - convert to IS NULL or IS NOT NULL
     if (value === null) {
       if (operator === '=' || operator === '==') {
-        return boolean === 'and' ? this.whereNull(column as string) : this.orWhereNull(column as string);
+        return boolean === 'and' ? this.whereNull(column as ColumnOf<TRow>) : this.orWhereNull(column as ColumnOf<TRow>);
       } else if (operator === '!=' || operator === '<>') {
-        return boolean === 'and' ? this.whereNotNull(column as string) : this.orWhereNotNull(column as string);
+        return boolean === 'and' ? this.whereNotNull(column as ColumnOf<TRow>) : this.orWhereNotNull(column as ColumnOf<TRow>);
       }
     }
 
@@ -293,7 +530,7 @@ export class Builder {
   /**
    * Add an "or where" clause to the query
    */
-  orWhere(column: string | Function, operator?: any, value?: any): this {
+  orWhere(column: ColumnOf<TRow> | Expression | Function | Partial<Record<ColumnOf<TRow>, any>>, operator?: any, value?: any): this {
     return this.where(column, operator, value, 'or');
   }
 
@@ -334,7 +571,7 @@ export class Builder {
   /**
    * Add a "where in" clause to the query
    */
-  whereIn(column: string, values: any[] | Function | Builder, boolean: 'and' | 'or' = 'and', not = false): this {
+  whereIn(column: ColumnOf<TRow>, values: any[] | Function | Builder, boolean: 'and' | 'or' = 'and', not = false): this {
     // Handle callback / closure — build a correlated subquery
     if (typeof values === 'function') {
       const sub = this.newQuery();
@@ -375,28 +612,28 @@ export class Builder {
   /**
    * Add an "or where in" clause to the query
    */
-  orWhereIn(column: string, values: any[]): this {
+  orWhereIn(column: ColumnOf<TRow>, values: any[]): this {
     return this.whereIn(column, values, 'or');
   }
 
   /**
    * Add a "where not in" clause to the query
    */
-  whereNotIn(column: string, values: any[]): this {
+  whereNotIn(column: ColumnOf<TRow>, values: any[]): this {
     return this.whereIn(column, values, 'and', true);
   }
 
   /**
    * Add an "or where not in" clause to the query
    */
-  orWhereNotIn(column: string, values: any[]): this {
+  orWhereNotIn(column: ColumnOf<TRow>, values: any[]): this {
     return this.whereIn(column, values, 'or', true);
   }
 
   /**
    * Add a "where null" clause to the query
    */
-  whereNull(column: string, boolean: 'and' | 'or' = 'and', not = false): this {
+  whereNull(column: ColumnOf<TRow>, boolean: 'and' | 'or' = 'and', not = false): this {
     const type = not ? 'NotNull' : 'Null';
 
     this.wheres.push({
@@ -411,21 +648,21 @@ export class Builder {
   /**
    * Add an "or where null" clause to the query
    */
-  orWhereNull(column: string): this {
+  orWhereNull(column: ColumnOf<TRow>): this {
     return this.whereNull(column, 'or');
   }
 
   /**
    * Add a "where not null" clause to the query
    */
-  whereNotNull(column: string, boolean: 'and' | 'or' = 'and'): this {
+  whereNotNull(column: ColumnOf<TRow>, boolean: 'and' | 'or' = 'and'): this {
     return this.whereNull(column, boolean, true);
   }
 
   /**
    * Add an "or where not null" clause to the query
    */
-  orWhereNotNull(column: string): this {
+  orWhereNotNull(column: ColumnOf<TRow>): this {
     return this.whereNotNull(column, 'or');
   }
 
@@ -523,7 +760,7 @@ export class Builder {
   /**
    * Add a where between clause
    */
-  whereBetween(column: string, values: [any, any], boolean: 'and' | 'or' = 'and', not = false): this {
+  whereBetween(column: ColumnOf<TRow>, values: [any, any], boolean: 'and' | 'or' = 'and', not = false): this {
     const type = not ? 'NotBetween' : 'Between';
 
     this.wheres.push({
@@ -540,21 +777,21 @@ export class Builder {
   /**
    * Add a where not between clause
    */
-  whereNotBetween(column: string, values: [any, any], boolean: 'and' | 'or' = 'and'): this {
+  whereNotBetween(column: ColumnOf<TRow>, values: [any, any], boolean: 'and' | 'or' = 'and'): this {
     return this.whereBetween(column, values, boolean, true);
   }
 
   /**
    * Add an "or where between" clause to the query
    */
-  orWhereBetween(column: string, values: [any, any]): this {
+  orWhereBetween(column: ColumnOf<TRow>, values: [any, any]): this {
     return this.whereBetween(column, values, 'or');
   }
 
   /**
    * Add an "or where not between" clause to the query
    */
-  orWhereNotBetween(column: string, values: [any, any]): this {
+  orWhereNotBetween(column: ColumnOf<TRow>, values: [any, any]): this {
     return this.whereBetween(column, values, 'or', true);
   }
 
@@ -846,7 +1083,7 @@ export class Builder {
   /**
    * Add a "where not" clause to the query
    */
-  whereNot(column: string | Function, operator?: any, value?: any): this {
+  whereNot(column: ColumnOf<TRow> | Function, operator?: any, value?: any): this {
     if (typeof column === 'function') {
       return this.whereNested(column, 'and');
     }
@@ -874,7 +1111,7 @@ export class Builder {
   /**
    * Add an "or where not" clause to the query
    */
-  orWhereNot(column: string | Function, operator?: any, value?: any): this {
+  orWhereNot(column: ColumnOf<TRow> | Function, operator?: any, value?: any): this {
     if (typeof column === 'function') {
       return this.whereNested(column, 'or');
     }
@@ -929,7 +1166,7 @@ export class Builder {
   /**
    * Add an "order by" clause to the query
    */
-  orderBy(column: string, direction: 'asc' | 'desc' = 'asc'): this {
+  orderBy(column: ColumnOf<TRow> | Expression, direction: 'asc' | 'desc' = 'asc'): this {
     this.orders.push({
       column,
       direction: direction.toLowerCase(),
@@ -941,7 +1178,7 @@ export class Builder {
   /**
    * Add a descending "order by" clause to the query
    */
-  orderByDesc(column: string): this {
+  orderByDesc(column: ColumnOf<TRow> | Expression): this {
     return this.orderBy(column, 'desc');
   }
 
@@ -949,14 +1186,14 @@ export class Builder {
    * Add an "order by" clause for a timestamp to the query
    */
   latest(column: string = 'created_at'): this {
-    return this.orderBy(column, 'desc');
+    return this.orderBy(column as ColumnOf<TRow>, 'desc');
   }
 
   /**
    * Add an "order by" clause for a timestamp to the query
    */
   oldest(column: string = 'created_at'): this {
-    return this.orderBy(column, 'asc');
+    return this.orderBy(column as ColumnOf<TRow>, 'asc');
   }
 
   /**
@@ -978,7 +1215,7 @@ export class Builder {
     this.orders = [];
 
     if (column) {
-      return this.orderBy(column, direction);
+      return this.orderBy(column as ColumnOf<TRow>, direction);
     }
 
     return this;
@@ -1179,6 +1416,13 @@ export class Builder {
     return this;
   }
 
+  /**
+   * Get the columns selected by the query
+   */
+  getColumns(): unknown[] {
+    return this.columns;
+  }
+
   /**
    * Get the current query value bindings.
    * Optimized: single-pass concat avoids Object.values() + .flat() overhead.
@@ -1186,13 +1430,14 @@ export class Builder {
   getBindings(): any[] {
     const b = this.bindings;
     // Hot path — most queries only use 'where' bindings
-    if (b.select.length === 0 && b.from.length === 0 && b.join.length === 0 &&
-        b.groupBy.length === 0 && b.having.length === 0 && b.order.length === 0 &&
+    if (b.expressions.length === 0 && b.select.length === 0 && b.from.length === 0 &&
+        b.join.length === 0 && b.groupBy.length === 0 && b.having.length === 0 && b.order.length === 0 &&
         b.union.length === 0 && b.unionOrder.length === 0) {
       return b.where;
     }
     // General case — concat only non-empty arrays
     let result: any[] = [];
+    if (b.expressions.length) result = result.concat(b.expressions);
     if (b.select.length)     result = result.concat(b.select);
     if (b.from.length)       result = result.concat(b.from);
     if (b.join.length)       result = result.concat(b.join);
@@ -1215,10 +1460,10 @@ export class Builder {
   /**
    * Execute the query as a "select" statement
    */
-  async get(columns: string[] = ['*']): Promise<any[]> {
+  async get(columns: string[] = ['*']): Promise<TRow[]> {
     const original = this.columns;
 
-    if (original.length === 0 || original[0] === '*') {
+    if (original.length === 0 || (original.length === 1 && original[0] === '*')) {
       this.columns = columns;
     }
 
@@ -1235,13 +1480,19 @@ export class Builder {
   protected async runSelect(): Promise<any[]> {
     const sql = this.toSql();
     const bindings = this.getBindings();
-    return this.connection.select(sql, bindings);
+    const results = await this.connection.select(sql, bindings, !this.useWritePdoValue);
+
+    if (this.groupLimitValue !== null) {
+      return this.processor.processGroupLimit(results);
+    }
+
+    return results;
   }
 
   /**
    * Execute the query and get the first result
    */
-  async first(columns: string[] = ['*']): Promise<any> {
+  async first(columns: string[] = ['*']): Promise<TRow | null> {
     const results = await this.take(1).get(columns);
     return results[0] || null;
   }
@@ -1249,7 +1500,7 @@ export class Builder {
   /**
    * Execute the query and get the first result or throw an exception
    */
-  async firstOrFail(columns: string[] = ['*']): Promise<any> {
+  async firstOrFail(columns: string[] = ['*']): Promise<TRow> {
     const result = await this.first(columns);
     
     if (!result) {
@@ -1263,7 +1514,7 @@ export class Builder {
    * Execute the query and get a single result or throw an exception
    * Throws if no results or more than one result found
    */
-  async sole(columns: string[] = ['*']): Promise<any> {
+  async sole(columns: string[] = ['*']): Promise<TRow> {
     const results = await this.take(2).get(columns);
     
     if (results.length === 0) {
@@ -1280,14 +1531,14 @@ export class Builder {
   /**
    * Find a record by its primary key
    */
-  async find(id: any, columns: string[] = ['*']): Promise<any> {
-    return this.where('id', '=', id).first(columns);
+  async find(id: any, columns: string[] = ['*']): Promise<TRow | null> {
+    return this.where('id' as ColumnOf<TRow>, '=', id).first(columns);
   }
 
   /**
    * Find a record by its primary key or throw an exception
    */
-  async findOrFail(id: any, columns: string[] = ['*']): Promise<any> {
+  async findOrFail(id: any, columns: string[] = ['*']): Promise<TRow> {
     const result = await this.find(id, columns);
     
     if (!result) {
@@ -1300,17 +1551,17 @@ export class Builder {
   /**
    * Get a single column's value from the first result of a query
    */
-  async value(column: string): Promise<any> {
+  async value<K extends ColumnOf<TRow>>(column: K): Promise<TRow[K & keyof TRow] | null> {
     const result = await this.first([column]);
-    return result ? result[column] : null;
+    return result ? result[column as K & keyof TRow] : null;
   }
 
   /**
    * Get an array of a single column's values
    */
-  async pluck(column: string): Promise<any[]> {
+  async pluck<K extends ColumnOf<TRow>>(column: K): Promise<TRow[K & keyof TRow][]> {
     const results = await this.get([column]);
-    return results.map(row => row[column]);
+    return results.map(row => row[column as K & keyof TRow]);
   }
 
   /**
@@ -1339,26 +1590,39 @@ export class Builder {
     // If values is an array and the first element is an object (not an array), treat as multiple records
     // If values is an object, wrap it in an array for single record insert
     const valuesArray = Array.isArray(values) ? values : [values];
+    const mergeValues = this.conflictAction === 'merge' && this.conflictMerge !== null
+      && !Array.isArray(this.conflictMerge) && typeof this.conflictMerge === 'object'
+      ? Object.values(this.conflictMerge)
+      : [];
+
+    const results = await this.runChunked(valuesArray, mergeValues.length, (rows) => this.runInsert(rows, mergeValues));
+
+    if (this.returningColumns.length > 0) {
+      return ([] as any[]).concat(...results);
+    }
+
+    if (this.conflictAction !== null) {
+      return results.reduce((total: number, count: number) => total + count, 0);
+    }
+
+    return results.every(Boolean);
+  }
 
+  /**
+   * Compile and run the insert statement for one chunk of rows
+   */
+  protected async runInsert(valuesArray: Record<string, unknown>[], mergeValues: unknown[]): Promise<any> {
     // If an onConflict clause was chained, delegate to the correct compiler
     if (this.conflictAction !== null) {
       const sql = this.grammar.compileInsertOnConflict(
         this, valuesArray, this.conflictTarget, this.conflictAction, this.conflictMerge
       );
-      let bindings = this.grammar.prepareBindingsForInsert(this.bindings, valuesArray);
-      // If merge has a literal-values object, append those binding values after the INSERT bindings
-      if (
-        this.conflictAction === 'merge' &&
-        this.conflictMerge !== null &&
-        !Array.isArray(this.conflictMerge) &&
-        typeof this.conflictMerge === 'object'
-      ) {
-        bindings = [...bindings, ...Object.values(this.conflictMerge as Record<string, any>)];
-      }
+      // A literal-values merge object binds its values after the INSERT bindings
+      const bindings = [...this.grammar.prepareBindingsForInsert(this.bindings, valuesArray), ...mergeValues];
       if (this.returningColumns.length > 0) {
-        return this.connection.select(sql, bindings);
+        return this.selectFromWriteConnection(sql, bindings);
       }
-      return this.connection.affectingStatement(sql, bindings) as any;
+      return this.connection.affectingStatement(sql, bindings);
     }
 
     const sql = this.grammar.compileInsert(this, valuesArray);
@@ -1366,12 +1630,53 @@ export class Builder {
 
     // If RETURNING clause is specified, use select to get results
     if (this.returningColumns.length > 0) {
-      return this.connection.select(sql, bindings);
+      return this.selectFromWriteConnection(sql, bindings);
     }
 
     return this.connection.insert(sql, bindings);
   }
 
+  /**
+   * Run the callback once per chunk of rows that fits within the grammar's
+   * bindings limit; several chunks run together in one transaction
+   */
+  protected async runChunked<T>(
+    rows: Record<string, unknown>[],
+    reservedBindings: number,
+    callback: (rows: Record<string, unknown>[]) => Promise<T>,
+  ): Promise<T[]> {
+    const perRow = Math.max(Object.keys(rows[0]).length, 1);
+    const maxRows = this.grammar.getMaxInsertRows();
+    let size = Math.max(Math.floor((this.grammar.getMaxBindings() - reservedBindings) / perRow), 1);
+
+    if (maxRows !== null) {
+      size = Math.min(size, maxRows);
+    }
+
+    if (rows.length <= size) {
+      return [await callback(rows)];
+    }
+
+    return this.connection.transaction(async () => {
+      const results: T[] = [];
+
+      for (let offset = 0; offset < rows.length; offset += size) {
+        results.push(await callback(rows.slice(offset, offset + size)));
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Run a writing statement that returns rows (RETURNING / OUTPUT) on the primary
+   */
+  protected async selectFromWriteConnection(sql: string, bindings: any[]): Promise<any[]> {
+    const results = await this.connection.select(sql, bindings, false);
+    this.connection.recordsHaveBeenModified();
+    return results;
+  }
+
   /**
    * Specify the conflict target column(s) for ON CONFLICT handling.
    * Must be chained with .ignore() or .merge() BEFORE calling .insert().
@@ -1418,7 +1723,7 @@ export class Builder {
     }
 
     // For PostgreSQL and others that support RETURNING
-    const results = await this.connection.select(sql, bindings);
+    const results = await this.selectFromWriteConnection(sql, bindings);
     
     if (results && results.length > 0) {
       const id = Object.values(results[0])[0];
@@ -1437,12 +1742,16 @@ export class Builder {
       return 0;
     }
 
-    const valuesArray = Array.isArray(values[0]) ? values : [values];
-    
-    const sql = this.grammar.compileInsertOrIgnore(this, valuesArray);
-    const bindings = this.grammar.prepareBindingsForInsert(this.bindings, valuesArray);
+    const valuesArray = Array.isArray(values) ? values : [values];
 
-    return this.connection.affectingStatement(sql, bindings);
+    const counts = await this.runChunked(valuesArray, 0, (rows) => {
+      const sql = this.grammar.compileInsertOrIgnore(this, rows);
+      const bindings = this.grammar.prepareBindingsForInsert(this.bindings, rows);
+
+      return this.connection.affectingStatement(sql, bindings);
+    });
+
+    return counts.reduce((total, count) => total + count, 0);
   }
 
   /**
@@ -1459,11 +1768,23 @@ export class Builder {
     }
 
     const sql = this.grammar.compileInsertUsing(this, columns, subQuery.toSql());
-    const bindings = [...this.bindings.select, ...subQuery.getBindings()];
+    const bindings = [...this.bindings.expressions, ...this.bindings.select, ...subQuery.getBindings()];
 
     return this.connection.insert(sql, bindings);
   }
 
+  /**
+   * Load a large number of rows into the table with the driver's fastest bulk
+   * path (COPY, LOAD DATA, bulk insert or batched inserts), resolving with the number loaded
+   */
+  bulkLoad(rows: BulkLoadRows, options: BulkLoadOptions = {}): Promise<number> {
+    if (!this.fromTable) {
+      throw new GuruORMError('A table must be set before bulk loading rows.');
+    }
+
+    return this.connection.bulkLoad(this.fromTable, rows, options);
+  }
+
   /**
    * Insert new records or update existing ones
    */
@@ -1474,11 +1795,15 @@ export class Builder {
 
     // Normalise: single object → array, array of objects → use as-is
     const valuesArray: Record<string, any>[] = Array.isArray(values) ? values : [values];
-    
-    const sql = this.grammar.compileUpsert(this, valuesArray, uniqueBy, update);
-    const bindings = this.grammar.prepareBindingsForInsert(this.bindings, valuesArray);
 
-    return this.connection.affectingStatement(sql, bindings);
+    const counts = await this.runChunked(valuesArray, 0, (rows) => {
+      const sql = this.grammar.compileUpsert(this, rows, uniqueBy, update);
+      const bindings = this.grammar.prepareBindingsForInsert(this.bindings, rows);
+
+      return this.connection.affectingStatement(sql, bindings);
+    });
+
+    return counts.reduce((total, count) => total + count, 0);
   }
 
   /**
@@ -1498,7 +1823,7 @@ export class Builder {
     // Build where conditions from attributes on a cloned query
     let query = this;
     for (const [key, val] of Object.entries(attributes)) {
-      query = query.where(key, val);
+      query = query.where(key as ColumnOf<TRow>, val);
     }
 
     // Try to find existing record
@@ -1594,7 +1919,7 @@ export class Builder {
    */
   async delete(id?: any): Promise<number> {
     if (id !== undefined) {
-      this.where('id', '=', id);
+      this.where('id' as ColumnOf<TRow>, '=', id);
     }
 
     const sql = this.grammar.compileDelete(this);
@@ -1691,7 +2016,7 @@ export class Builder {
    */
   sharedLock(): this {
     this.lock = 'shared';
-    return this;
+    return this.useWritePdo();
   }
 
   /**
@@ -1699,6 +2024,15 @@ export class Builder {
    */
   lockForUpdate(): this {
     this.lock = true;
+    return this.useWritePdo();
+  }
+
+  /**
+   * Run the select against the primary (write) connection, e.g. to read
+   * data that may not have reached the read replicas yet
+   */
+  useWritePdo(): this {
+    this.useWritePdoValue = true;
     return this;
   }
 
@@ -1762,7 +2096,7 @@ export class Builder {
   /**
    * Paginate the given query
    */
-  async paginate(perPage: number = 15, page: number = 1): Promise<{ data: any[]; total: number; perPage: number; currentPage: number; lastPage: number }> {
+  async paginate(perPage: number = 15, page: number = 1): Promise<{ data: TRow[]; total: number; perPage: number; currentPage: number; lastPage: number }> {
     const total = await this.cloneWithout(['columns', 'orders']).count();
     const results = await this.forPage(page, perPage).get();
 
@@ -1778,7 +2112,7 @@ export class Builder {
   /**
    * Get a paginator only supporting simple next and previous links
    */
-  async simplePaginate(perPage: number = 15, page: number = 1): Promise<{ data: any[]; perPage: number; currentPage: number; hasMore: boolean }> {
+  async simplePaginate(perPage: number = 15, page: number = 1): Promise<{ data: TRow[]; perPage: number; currentPage: number; hasMore: boolean }> {
     const results = await this.forPage(page, perPage + 1).get();
     const hasMore = results.length > perPage;
 
@@ -1948,7 +2282,7 @@ export class Builder {
   /**
    * Chunk the results of the query
    */
-  async chunk(count: number, callback: (results: any[], page: number) => boolean | void | Promise<boolean | void>): Promise<boolean> {
+  async chunk(count: number, callback: (results: TRow[], page: number) => boolean | void | Promise<boolean | void>): Promise<boolean> {
     let page = 1;
 
     do {
@@ -1971,17 +2305,17 @@ export class Builder {
   /**
    * Chunk the results of a query by comparing IDs
    */
-  async chunkById(count: number, callback: (results: any[], lastId?: any) => boolean | void | Promise<boolean | void>, column: string = 'id'): Promise<boolean> {
+  async chunkById(count: number, callback: (results: TRow[], lastId?: any) => boolean | void | Promise<boolean | void>, column: string = 'id'): Promise<boolean> {
     let lastId: any = null;
 
     do {
       const clone = this.cloneWithout([]);
       
       if (lastId !== null) {
-        clone.where(column, '>', lastId);
+        clone.where(column as ColumnOf<TRow>, '>', lastId);
       }
 
-      const results = await clone.orderBy(column).limit(count).get();
+      const results = await clone.orderBy(column as ColumnOf<TRow>).limit(count).get();
 
       if (results.length === 0) {
         break;
@@ -2000,7 +2334,7 @@ export class Builder {
   /**
    * Execute the query and get all results lazily
    */
-  async *lazy(chunkSize: number = 1000): AsyncGenerator<any> {
+  async *lazy(chunkSize: number = 1000): AsyncGenerator<TRow> {
     let page = 1;
 
     while (true) {
@@ -2025,17 +2359,17 @@ export class Builder {
   /**
    * Execute the query and get all results lazily by ID
    */
-  async *lazyById(chunkSize: number = 1000, column: string = 'id'): AsyncGenerator<any> {
+  async *lazyById(chunkSize: number = 1000, column: string = 'id'): AsyncGenerator<TRow> {
     let lastId: any = null;
 
     while (true) {
       const clone = this.cloneWithout([]);
       
       if (lastId !== null) {
-        clone.where(column, '>', lastId);
+        clone.where(column as ColumnOf<TRow>, '>', lastId);
       }
 
-      const results = await clone.orderBy(column).limit(chunkSize).get();
+      const results = await clone.orderBy(column as ColumnOf<TRow>).limit(chunkSize).get();
 
       if (results.length === 0) {
         break;
@@ -2142,19 +2476,38 @@ export class Builder {
   }
 
   /**
-   * Cursor-based iteration through query results
+   * Stream the query results one row at a time through a driver-level cursor,
+   * so only a small batch of rows is held in memory at once
    */
-  async *cursor(): AsyncGenerator<any> {
-    const sql = this.toSql();
-    const bindings = this.getBindings();
-    
-    const results = await this.connection.select(sql, bindings);
-    
-    for (const result of results) {
-      yield result;
+  async *cursor(): AsyncGenerator<TRow> {
+    const rows = this.connection.cursor(this.toSql(), this.getBindings(), !this.useWritePdoValue);
+
+    for await (const row of rows) {
+      yield this.groupLimitValue !== null ? this.processor.processGroupLimit([row])[0] : row;
     }
   }
 
+  /**
+   * Stream the query results as an object-mode Readable
+   */
+  toStream(): Readable {
+    return Readable.from(this.cursor());
+  }
+
+  /**
+   * Stream the query results into the writable as CSV, resolving with the row count
+   */
+  exportCsv(writable: Writable, options: CsvExportOptions = {}): Promise<number> {
+    return exportCsv(this.cursor(), writable, options);
+  }
+
+  /**
+   * Stream the query results into the writable as newline-delimited JSON, resolving with the row count
+   */
+  exportNdjson(writable: Writable): Promise<number> {
+    return exportNdjson(this.cursor(), writable);
+  }
+
   /**
    * Clone the query builder
    */
@@ -2173,10 +2526,15 @@ export class Builder {
     cloned.limitValue = this.limitValue;
     cloned.offsetValue = this.offsetValue;
     cloned.unions = [...this.unions];
+    cloned.expressions = [...this.expressions];
+    cloned.windows = [...this.windows];
+    cloned.groupLimitValue = this.groupLimitValue;
     cloned.lock = this.lock;
+    cloned.useWritePdoValue = this.useWritePdoValue;
     
     // Copy bindings
     cloned.bindings = {
+      expressions: [...this.bindings.expressions],
       select: [...this.bindings.select],
       from: [...this.bindings.from],
       join: [...this.bindings.join],
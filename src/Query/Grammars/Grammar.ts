@@ -1,5 +1,25 @@
-import { Builder } from '../Builder';
+import {
+  Builder, CommonTableExpression, LateralJoin, NamedWindow, WindowFunction,
+} from '../Builder';
 import { Expression } from '../Expression';
+import { WindowClause } from '../WindowClause';
+
+/**
+ * A where clause comparing a column with a value
+ */
+export interface ValueWhere {
+  column: string;
+  operator: string;
+  value: unknown;
+}
+
+/**
+ * An aggregate function selected by the query
+ */
+export interface Aggregate {
+  function: string;
+  columns: string[];
+}
 
 /**
  * Base Grammar class - inspired by Laravel and Illuminate
@@ -8,6 +28,10 @@ import { Expression } from '../Expression';
 export class Grammar {
   protected tablePrefix = '';
   protected customWrapIdentifier?: (value: string, origImpl: (value: string) => string, queryContext?: any) => string;
+  /** Most placeholders one statement may bind (MySQL's prepared statement limit) */
+  protected maxBindings = 65535;
+  /** Most rows one INSERT ... VALUES may list, or null when only bindings are limited */
+  protected maxInsertRows: number | null = null;
 
   /**
    * The grammar table prefix
@@ -16,6 +40,20 @@ export class Grammar {
     this.tablePrefix = prefix;
   }
 
+  /**
+   * Get the most placeholders a single statement may bind
+   */
+  getMaxBindings(): number {
+    return this.maxBindings;
+  }
+
+  /**
+   * Get the most rows a single insert may list, or null when unlimited
+   */
+  getMaxInsertRows(): number | null {
+    return this.maxInsertRows;
+  }
+
   /**
    * Get the grammar table prefix
    */
@@ -139,6 +177,7 @@ export class Grammar {
     ['compileWheres',   'wheres'],
     ['compileGroups',   'groups'],
     ['compileHavings',  'havings'],
+    ['compileWindows',  'windows'],
     ['compileOrders',   'orders'],
     ['compileLimit',    'limitValue'],
     ['compileOffset',   'offsetValue'],
@@ -149,10 +188,18 @@ export class Grammar {
    * Compile a select query into SQL
    */
   compileSelect(query: Builder): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileSelect(query));
+    }
+
     if (query["columns"].length === 0) {
       query["columns"] = ["*"];
     }
 
+    if (query['groupLimitValue']) {
+      return this.compileGroupLimit(query);
+    }
+
     // If we have unions, we need to wrap the query
     if (query["unions"] && query["unions"].length > 0) {
       return this.compileUnionAggregate(query);
@@ -199,6 +246,65 @@ export class Grammar {
     return sql;
   }
 
+  /**
+   * Determine if the query has common table expressions
+   */
+  protected hasExpressions(query: Builder): boolean {
+    const expressions = query['expressions'];
+    return Array.isArray(expressions) && expressions.length > 0;
+  }
+
+  /**
+   * Compile a statement prefixed with the query's "with" clause.
+   * The expressions are detached while the statement itself is compiled so
+   * nested compilation (unions, subqueries) does not repeat them.
+   */
+  protected compileWithExpressions(query: Builder, compile: () => string): string {
+    const expressions = query['expressions'];
+    query['expressions'] = [];
+
+    const prefix = this.compileExpressions(query, expressions);
+    const sql = compile();
+
+    query['expressions'] = expressions;
+    return `${prefix} ${sql}`;
+  }
+
+  /**
+   * Compile the common table expressions into a "with" clause
+   */
+  compileExpressions(_query: Builder, expressions: CommonTableExpression[]): string {
+    if (expressions.length === 0) {
+      return '';
+    }
+
+    const compiled = expressions
+      .map((expression) => {
+        const columns = expression.columns && expression.columns.length > 0
+          ? ` (${this.columnize(expression.columns)})`
+          : '';
+
+        return `${this.wrapTable(expression.name)}${columns} as (${this.compileExpressionQuery(expression.query)})`;
+      })
+      .join(', ');
+
+    return `with ${this.compileRecursiveKeyword(expressions)}${compiled}`;
+  }
+
+  /**
+   * Compile the "recursive" keyword if any of the expressions is recursive
+   */
+  protected compileRecursiveKeyword(expressions: CommonTableExpression[]): string {
+    return expressions.some((expression) => expression.recursive) ? 'recursive ' : '';
+  }
+
+  /**
+   * Compile the query of a single common table expression
+   */
+  protected compileExpressionQuery(query: Builder | string): string {
+    return typeof query === 'string' ? query : this.compileSubquery(query);
+  }
+
   /**
    * Compile a select query without unions
    */
@@ -222,8 +328,134 @@ export class Grammar {
 
     // Check for distinct flag
     const distinct = query['distinctFlag'] ? 'distinct ' : '';
-    const select = columns.includes('*') ? '*' : this.columnize(columns);
-    return `select ${distinct}${select}`;
+    return `select ${distinct}${this.compileSelectList(query, columns)}`;
+  }
+
+  /**
+   * Compile the selected columns, including any window functions
+   */
+  protected compileSelectList(query: Builder, columns: unknown[]): string {
+    if (!columns.some((column) => this.isWindowFunction(column))) {
+      return columns.includes('*') ? '*' : this.columnize(columns as string[]);
+    }
+
+    return columns
+      .map((column) => (this.isWindowFunction(column)
+        ? this.compileWindowFunction(query, column)
+        : this.wrap(column)))
+      .join(', ');
+  }
+
+  /**
+   * Determine if a select column is a window function
+   */
+  protected isWindowFunction(column: unknown): column is WindowFunction {
+    return typeof column === 'object' && column !== null && (column as WindowFunction).type === 'Window';
+  }
+
+  /**
+   * Compile a window function select column
+   */
+  protected compileWindowFunction(query: Builder, column: WindowFunction): string {
+    const args = column.columns.map((arg) => this.wrap(arg)).join(', ');
+    return `${column.name}(${args}) over ${this.compileOver(query, column.over)} as ${this.wrap(column.as)}`;
+  }
+
+  /**
+   * Compile the "over" part of a window function (a named window or a specification)
+   */
+  protected compileOver(query: Builder, over: WindowClause | string): string {
+    if (typeof over === 'string') {
+      return this.wrap(over);
+    }
+
+    return `(${this.compileWindowSpecification(query, over)})`;
+  }
+
+  /**
+   * Compile the contents of a window specification
+   */
+  protected compileWindowSpecification(query: Builder, window: WindowClause): string {
+    const sql: string[] = [];
+
+    if (window.base) {
+      sql.push(this.wrap(window.base));
+    }
+
+    if (window.partitions.length > 0) {
+      sql.push(`partition by ${window.partitions.map((column) => this.wrap(column)).join(', ')}`);
+    }
+
+    if (window.orders.length > 0) {
+      sql.push(`order by ${window.orders.map((order) => `${this.wrap(order.column)} ${order.direction}`).join(', ')}`);
+    }
+
+    if (window.frame) {
+      const { unit, start, end } = window.frame;
+      sql.push(end === null ? `${unit} ${start}` : `${unit} between ${start} and ${end}`);
+    }
+
+    return sql.join(' ');
+  }
+
+  /**
+   * Compile the named window definitions ("window <name> as (...)")
+   */
+  protected compileWindows(query: Builder, windows: NamedWindow[]): string {
+    if (!windows || windows.length === 0) {
+      return '';
+    }
+
+    const compiled = windows
+      .map((definition) => `${this.wrap(definition.name)} as ${this.compileOver(query, definition.window)}`)
+      .join(', ');
+
+    return `window ${compiled}`;
+  }
+
+  /**
+   * Compile a "group limit" query: the rows are numbered per group inside a
+   * derived table, and only the first rows of each group are selected.
+   */
+  protected compileGroupLimit(query: Builder): string {
+    const { value, column } = query['groupLimitValue']!;
+    const offset = query['offsetValue'] || 0;
+    const original = {
+      columns: query['columns'],
+      orders: query['orders'],
+      limitValue: query['limitValue'],
+      offsetValue: query['offsetValue'],
+      groupLimitValue: query['groupLimitValue'],
+    };
+
+    const window = new WindowClause().partitionBy(column);
+    (original.orders as Array<{ type?: string; column: string | Expression; direction: 'asc' | 'desc' }>)
+      .filter((order) => !order.type)
+      .forEach((order) => window.orderBy(order.column, order.direction));
+
+    const rowNumber: WindowFunction = {
+      type: 'Window', name: 'row_number', columns: [], over: window, as: 'guruorm_row',
+    };
+    query['columns'] = [...original.columns, rowNumber];
+    query['orders'] = [];
+    query['limitValue'] = null;
+    query['offsetValue'] = null;
+    query['groupLimitValue'] = null;
+
+    const sql = this.compileSelect(query);
+
+    query['columns'] = original.columns;
+    query['orders'] = original.orders;
+    query['limitValue'] = original.limitValue;
+    query['offsetValue'] = original.offsetValue;
+    query['groupLimitValue'] = original.groupLimitValue;
+
+    const row = this.wrap('guruorm_row');
+    const constraint = offset > 0
+      ? `${row} > ${offset} and ${row} <= ${offset + value}`
+      : `${row} <= ${value}`;
+
+    return `select * from (${sql}) as ${this.wrap('guruorm_table')} where ${constraint} order by ${row}`;
   }
 
   /**
@@ -262,6 +494,10 @@ export class Grammar {
           return `cross join ${this.wrapTable(join.table)}`;
         }
 
+        if (join.lateral) {
+          return this.compileJoinLateral(query, join);
+        }
+
         const table = this.wrapTable(join.table);
         const clauses = this.compileJoinConstraints(join);
         const type = join.type === 'inner' ? 'inner' : join.type;
@@ -271,6 +507,20 @@ export class Grammar {
       .join(' ');
   }
 
+  /**
+   * Compile a lateral join ("join lateral (...) as <alias> on true")
+   */
+  protected compileJoinLateral(query: Builder, join: LateralJoin): string {
+    return `${join.type} join lateral (${this.compileSubquery(join.query)}) as ${this.wrap(join.as)} on true`;
+  }
+
+  /**
+   * Compile a subquery that is embedded in the statement being compiled
+   */
+  protected compileSubquery(query: Builder): string {
+    return query.toSql();
+  }
+
   /**
    * Compile the "on" clauses for a join
    */
@@ -644,6 +894,10 @@ export class Grammar {
    * Compile an update statement into SQL
    */
   compileUpdate(query: Builder, values: any): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileUpdate(query, values));
+    }
+
     const table = this.wrapTable(query['fromTable'] || '');
     
     const columns = Object.keys(values)
@@ -666,6 +920,10 @@ export class Grammar {
    * Compile a delete statement into SQL
    */
   compileDelete(query: Builder): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileDelete(query));
+    }
+
     const table = this.wrapTable(query['fromTable'] || '');
     const where = this.compileWheres(query, query['wheres']);
 
@@ -695,7 +953,7 @@ export class Grammar {
     // Filter out Expression values from bindings since they're used directly in SQL
     const updateBindings = Object.values(values).filter(v => !(v instanceof Expression));
     const whereBindings = bindings.where || [];
-    return [...updateBindings, ...whereBindings];
+    return [...(bindings.expressions || []), ...updateBindings, ...whereBindings];
   }
 
   /**
@@ -773,6 +1031,10 @@ export class Grammar {
    * Compile an insert using statement into SQL
    */
   compileInsertUsing(query: Builder, columns: string[], subquery: string): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileInsertUsing(query, columns, subquery));
+    }
+
     const table = this.wrapTable(query['fromTable'] || '');
     const columnList = columns.map(col => this.wrap(col)).join(', ');
     
@@ -54,6 +54,20 @@ export class Grammar extends BaseGrammar {
     return `${insert} on duplicate key update ${updateClause}`;
   }
 
+  /**
+   * Compile an insert using statement into SQL.
+   * MySQL only accepts the "with" clause in front of the SELECT part.
+   */
+  compileInsertUsing(query: Builder, columns: string[], subquery: string): string {
+    if (!this.hasExpressions(query)) {
+      return super.compileInsertUsing(query, columns, subquery);
+    }
+
+    const table = this.wrapTable(query['fromTable'] || '');
+
+    return `insert into ${table} (${this.columnize(columns)}) ${this.compileExpressions(query, query['expressions'])} ${subquery}`;
+  }
+
   /**
    * Compile a rename table command
    */
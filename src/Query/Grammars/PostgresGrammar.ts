@@ -5,6 +5,8 @@ import { Builder } from '../Builder';
  * PostgreSQL Query Grammar
  */
 export class PostgresGrammar extends Grammar {
+  protected maxBindings = 65535;
+
   /**
    * Get the appropriate query parameter place-holder for a value
    * PostgreSQL uses $1, $2, $3 instead of ?
@@ -302,6 +304,46 @@ export class PostgresGrammar extends Grammar {
     this.parameterCounter = 0;
     return super.compileSelect(query);
   }
+
+  /**
+   * Compile a statement prefixed with a "with" clause.
+   * The statement is numbered from $1 on its own, so its parameters are
+   * shifted past those of the expressions.
+   */
+  protected compileWithExpressions(query: Builder, compile: () => string): string {
+    this.parameterCounter = 0;
+
+    return super.compileWithExpressions(query, () => {
+      const offset = this.parameterCounter;
+      return this.offsetParameters(compile(), offset);
+    });
+  }
+
+  /**
+   * Compile an embedded subquery, continuing the parameter numbering of the
+   * statement compiled so far
+   */
+  protected compileSubquery(query: Builder): string {
+    const offset = this.parameterCounter;
+    return this.offsetParameters(super.compileSubquery(query), offset);
+  }
+
+  /**
+   * Shift the $n placeholders of separately compiled SQL by the given offset
+   * and move the parameter counter past them
+   */
+  protected offsetParameters(sql: string, offset: number): string {
+    let highest = 0;
+
+    const shifted = sql.replace(/\$(\d+)/g, (match: string, number: string) => {
+      const position = parseInt(number, 10);
+      highest = Math.max(highest, position);
+      return `$${position + offset}`;
+    });
+
+    this.parameterCounter = offset + highest;
+    return shifted;
+  }
   
   compileDelete(query: any): string {
     this.parameterCounter = 0;
@@ -0,0 +1,492 @@
+import { Aggregate, Grammar, ValueWhere } from './Grammar';
+import {
+  Builder, CommonTableExpression, LateralJoin, NamedWindow,
+} from '../Builder';
+import { Expression } from '../Expression';
+import { WindowClause } from '../WindowClause';
+import { GuruORMError } from '../../Errors/GuruORMError';
+
+/**
+ * SQL Server (T-SQL) Query Grammar
+ *
+ * Key T-SQL differences from the base grammar:
+ * - Identifiers are wrapped in [brackets].
+ * - No LIMIT/OFFSET — plain limits use TOP, paged queries use
+ *   OFFSET ... ROWS FETCH NEXT ... ROWS ONLY (which requires an ORDER BY).
+ * - No RETURNING — OUTPUT INSERTED.* is used instead.
+ * - No ON CONFLICT / ON DUPLICATE KEY — upserts compile to MERGE.
+ * - Row locks are table hints placed after the table name.
+ */
+export class SqlServerGrammar extends Grammar {
+  protected maxBindings = 2100;
+
+  /** A VALUES table constructor may list at most 1000 rows */
+  protected maxInsertRows = 1000;
+
+  /**
+   * Alias used for the source rows of a MERGE statement
+   */
+  protected static readonly mergeSourceAlias = 'guruorm_source';
+
+  /**
+   * Wrap a single string in keyword identifiers (SQL Server uses brackets).
+   * Delegates to the custom wrapIdentifier hook when configured.
+   */
+  protected wrapValue(value: string): string {
+    if (value === '*') {
+      return value;
+    }
+
+    const origImpl = (v: string) => `[${v.replace(/]/g, ']]')}]`;
+
+    if (this.customWrapIdentifier) {
+      return this.customWrapIdentifier(value, origImpl);
+    }
+
+    return origImpl(value);
+  }
+
+  /**
+   * Compile the "select *" portion of the query.
+   * A limit without an offset is expressed as TOP.
+   */
+  protected compileColumns(query: Builder, columns: unknown[]): string {
+    const [first] = columns;
+
+    if (typeof first === 'object' && first !== null && 'function' in first) {
+      return this.compileAggregate(query, first as Aggregate);
+    }
+
+    const distinctFlag = query['distinctFlag'];
+    const limitValue = query['limitValue'];
+    const distinct = distinctFlag ? 'distinct ' : '';
+    const top = this.usesTop(query) ? `top ${limitValue} ` : '';
+    return `select ${distinct}${top}${this.compileSelectList(query, columns)}`;
+  }
+
+  /**
+   * Compile the "over" part of a window function.
+   * Named windows are inlined, as the WINDOW clause needs SQL Server 2022.
+   */
+  protected compileOver(query: Builder, over: WindowClause | string): string {
+    if (typeof over === 'string') {
+      return `(${this.compileWindowSpecification(query, this.resolveWindow(query, over))})`;
+    }
+
+    return super.compileOver(query, over);
+  }
+
+  /**
+   * Compile the contents of a window specification, inlining its base window
+   */
+  protected compileWindowSpecification(query: Builder, window: WindowClause): string {
+    if (!window.base) {
+      return super.compileWindowSpecification(query, window);
+    }
+
+    const base = this.resolveWindow(query, window.base);
+    const merged = new WindowClause(base.base);
+    merged.partitions = [...base.partitions, ...window.partitions];
+    merged.orders = [...base.orders, ...window.orders];
+    merged.frame = window.frame || base.frame;
+
+    return this.compileWindowSpecification(query, merged);
+  }
+
+  /**
+   * Compile the named window definitions (inlined into each "over" instead)
+   */
+  protected compileWindows(_query: Builder, _windows: NamedWindow[]): string {
+    return '';
+  }
+
+  /**
+   * Find a named window definition on the query
+   */
+  protected resolveWindow(query: Builder, name: string): WindowClause {
+    const definition = query['windows'].find((window) => window.name === name);
+
+    if (!definition) {
+      throw new GuruORMError(`Window [${name}] is not defined.`);
+    }
+
+    return definition.window;
+  }
+
+  /**
+   * Compile an aggregated select clause
+   */
+  protected compileAggregate(_query: Builder, aggregate: Aggregate): string {
+    const column = this.columnize(aggregate.columns);
+    return `select ${aggregate.function}(${column}) as ${this.wrap('aggregate')}`;
+  }
+
+  /**
+   * Compile the "from" portion of the query, including any lock table hint
+   */
+  protected compileFrom(query: Builder): string {
+    const from = super.compileFrom(query);
+    const lock = query['lock'];
+
+    if (!from || !lock) {
+      return from;
+    }
+
+    const hint = lock === 'shared' ? 'with (rowlock, holdlock)' : 'with (updlock, rowlock)';
+    return `${from} ${hint}`;
+  }
+
+  /**
+   * Compile the lock into SQL (handled as a table hint in compileFrom)
+   */
+  protected compileLock(_query: Builder, _value: boolean | string): string {
+    return '';
+  }
+
+  /**
+   * Compile the "order by" portions of the query.
+   * OFFSET/FETCH requires an ORDER BY, so a neutral one is supplied when missing.
+   */
+  protected compileOrders(query: Builder, orders: unknown[]): string {
+    if (orders.length === 0 && this.usesOffsetFetch(query)) {
+      return 'order by (select 0)';
+    }
+
+    return super.compileOrders(query, orders);
+  }
+
+  /**
+   * Compile the random statement into SQL
+   */
+  protected compileRandom(_seed?: string): string {
+    return 'NEWID()';
+  }
+
+  /**
+   * Compile the "limit" portions of the query (emitted as TOP or FETCH NEXT)
+   */
+  protected compileLimit(_query: Builder, _limit: number | null): string {
+    return '';
+  }
+
+  /**
+   * Compile the "offset" portions of the query as OFFSET ... FETCH NEXT
+   */
+  protected compileOffset(query: Builder, offset: number | null): string {
+    if (!this.usesOffsetFetch(query)) {
+      return '';
+    }
+
+    const limit = query['limitValue'];
+    const fetch = limit !== null ? ` fetch next ${limit} rows only` : '';
+
+    return `offset ${offset} rows${fetch}`;
+  }
+
+  /**
+   * Determine if the query is paged with OFFSET/FETCH
+   */
+  protected usesOffsetFetch(query: Builder): boolean {
+    const offset = query['offsetValue'];
+    return offset !== null && offset > 0;
+  }
+
+  /**
+   * Determine if the query limit is expressed as TOP
+   */
+  protected usesTop(query: Builder): boolean {
+    return query['limitValue'] !== null && !this.usesOffsetFetch(query);
+  }
+
+  /**
+   * Compile a "where date" clause
+   */
+  protected whereDate(_query: Builder, where: ValueWhere): string {
+    return `cast(${this.wrap(where.column)} as date) ${where.operator} ${this.parameter(where.value)}`;
+  }
+
+  /**
+   * Compile a "where time" clause
+   */
+  protected whereTime(_query: Builder, where: ValueWhere): string {
+    return `cast(${this.wrap(where.column)} as time) ${where.operator} ${this.parameter(where.value)}`;
+  }
+
+  /**
+   * Compile a "where JSON contains" clause
+   */
+  protected whereJsonContains(_query: Builder, where: ValueWhere): string {
+    return `${this.parameter(where.value)} in (select [value] from openjson(${this.wrapJsonFieldAndPath(where.column)}))`;
+  }
+
+  /**
+   * Compile a "where JSON doesn't contain" clause
+   */
+  protected whereJsonDoesntContain(query: Builder, where: ValueWhere): string {
+    return `not ${this.whereJsonContains(query, where)}`;
+  }
+
+  /**
+   * Compile a "where JSON length" clause
+   */
+  protected whereJsonLength(_query: Builder, where: ValueWhere): string {
+    return `(select count(*) from openjson(${this.wrapJsonFieldAndPath(where.column)})) ${where.operator} ${this.parameter(where.value)}`;
+  }
+
+  /**
+   * Split a `column->path->to->key` selector into openjson() arguments
+   */
+  protected wrapJsonFieldAndPath(column: string): string {
+    const [field, ...path] = column.split('->');
+
+    if (path.length === 0) {
+      return this.wrap(field);
+    }
+
+    const jsonPath = path
+      .map((segment) => `."${segment.replace(/'/g, "''").replace(/"/g, '\\"')}"`)
+      .join('');
+
+    return `${this.wrap(field)}, '$${jsonPath}'`;
+  }
+
+  /**
+   * Compile a "where full text" clause using CONTAINS
+   */
+  protected whereFullText(_query: Builder, where: { columns: string[]; value: unknown }): string {
+    const columns = where.columns.map((col) => this.wrap(col)).join(', ');
+    return `contains((${columns}), ${this.parameter(where.value)})`;
+  }
+
+  /**
+   * Compile an insert statement into SQL.
+   * returning() columns are emitted as an OUTPUT clause before VALUES.
+   */
+  compileInsert(query: Builder, values: Record<string, unknown>[]): string {
+    if (values.length === 0) {
+      return '';
+    }
+
+    return this.compileInsertWithOutput(query, values, query.getReturning());
+  }
+
+  /**
+   * Compile an insert and get ID statement into SQL
+   */
+  compileInsertGetId(query: Builder, values: Record<string, unknown>, sequence?: string): string {
+    return this.compileInsertWithOutput(query, [values], [sequence || 'id']);
+  }
+
+  /**
+   * Compile an insert with an optional OUTPUT INSERTED clause
+   */
+  protected compileInsertWithOutput(query: Builder, values: Record<string, unknown>[], output: string[]): string {
+    const table = this.wrapTable(query['fromTable'] || '');
+    const keys = Object.keys(values[0]);
+    const columns = this.columnize(keys);
+    const parameters = values.map((record) => `(${this.parameterize(keys.map((k) => record[k]))})`).join(', ');
+    const outputClause = output && output.length > 0 ? ` ${this.compileOutput(output, 'inserted')}` : '';
+
+    return `insert into ${table} (${columns})${outputClause} values ${parameters}`;
+  }
+
+  /**
+   * Compile an OUTPUT clause for the given pseudo table (inserted / deleted)
+   */
+  protected compileOutput(columns: string[], source: 'inserted' | 'deleted'): string {
+    const list = columns
+      .map((column) => (column === '*' ? `${source}.*` : `${source}.${this.wrap(column)}`))
+      .join(', ');
+
+    return `output ${list}`;
+  }
+
+  /**
+   * Compile an "insert or ignore" statement into SQL.
+   * T-SQL has no such statement; use upsert() or onConflict().ignore() with a target.
+   */
+  compileInsertOrIgnore(_query: Builder, _values: Record<string, unknown>[]): string {
+    throw new GuruORMError(
+      'SQL Server does not support "insert or ignore". Use onConflict(columns).ignore().insert(...) instead.'
+    );
+  }
+
+  /**
+   * Compile an upsert statement into a MERGE statement
+   */
+  compileUpsert(query: Builder, values: Record<string, unknown>[], uniqueBy: string[], update?: string[]): string {
+    const columns = update || Object.keys(values[0]).filter((k) => !uniqueBy.includes(k));
+    return this.compileMerge(query, values, uniqueBy, columns);
+  }
+
+  /**
+   * Compile INSERT with ON CONFLICT (fluent onConflict() API) as a MERGE statement.
+   * MERGE needs an explicit match target.
+   */
+  compileInsertOnConflict(
+    query: Builder,
+    values: Record<string, unknown>[],
+    target: string[] | true | null,
+    action: 'ignore' | 'merge',
+    mergeUpdates: string[] | Record<string, unknown> | null,
+  ): string {
+    if (target === true || target === null || target.length === 0) {
+      throw new GuruORMError('SQL Server requires explicit onConflict() columns to build a MERGE statement.');
+    }
+
+    if (action === 'ignore') {
+      return this.compileMerge(query, values, target, []);
+    }
+
+    if (mergeUpdates && !Array.isArray(mergeUpdates) && typeof mergeUpdates === 'object') {
+      return this.compileMerge(query, values, target, mergeUpdates);
+    }
+
+    const columns = Array.isArray(mergeUpdates) && mergeUpdates.length > 0
+      ? mergeUpdates
+      : Object.keys(values[0]);
+
+    return this.compileMerge(query, values, target, columns);
+  }
+
+  /**
+   * Compile a MERGE statement.
+   *
+   * @param updates  string[] → copy these columns from the source row,
+   *                 object   → set literal values (bound after the insert values)
+   */
+  protected compileMerge(
+    query: Builder,
+    values: Record<string, unknown>[],
+    uniqueBy: string[],
+    updates: string[] | Record<string, unknown>,
+  ): string {
+    const table = this.wrapTable(query['fromTable'] || '');
+    const source = this.wrap((this.constructor as typeof SqlServerGrammar).mergeSourceAlias);
+    const keys = Object.keys(values[0]);
+    const columns = this.columnize(keys);
+
+    const rows = values
+      .map((record) => `(${this.parameterize(keys.map((k) => record[k]))})`)
+      .join(', ');
+
+    const on = uniqueBy
+      .map((column) => `${source}.${this.wrap(column)} = ${table}.${this.wrap(column)}`)
+      .join(' and ');
+
+    let sql = `merge ${table} using (values ${rows}) ${source} (${columns}) on ${on}`;
+
+    const setClauses = Array.isArray(updates)
+      ? updates.map((column) => `${this.wrap(column)} = ${source}.${this.wrap(column)}`)
+      : Object.entries(updates).map(([column, value]) => (
+        value instanceof Expression
+          ? `${this.wrap(column)} = ${value.getValue()}`
+          : `${this.wrap(column)} = ${this.parameter(value)}`
+      ));
+
+    if (setClauses.length > 0) {
+      sql += ` when matched then update set ${setClauses.join(', ')}`;
+    }
+
+    const sourceColumns = keys.map((key) => `${source}.${this.wrap(key)}`).join(', ');
+    sql += ` when not matched then insert (${columns}) values (${sourceColumns})`;
+
+    const returning = query.getReturning();
+    if (returning && returning.length > 0) {
+      sql += ` ${this.compileOutput(returning, 'inserted')}`;
+    }
+
+    return `${sql};`;
+  }
+
+  /**
+   * Compile a lateral join as CROSS APPLY / OUTER APPLY
+   */
+  protected compileJoinLateral(query: Builder, join: LateralJoin): string {
+    const apply = join.type === 'left' ? 'outer apply' : 'cross apply';
+    return `${apply} (${this.compileSubquery(join.query)}) as ${this.wrap(join.as)}`;
+  }
+
+  /**
+   * Compile the "recursive" keyword (T-SQL infers recursion, so it has none)
+   */
+  protected compileRecursiveKeyword(_expressions: CommonTableExpression[]): string {
+    return '';
+  }
+
+  /**
+   * Compile an update statement into SQL.
+   * Supports UPDATE TOP (n) and UPDATE ... FROM ... JOIN.
+   */
+  compileUpdate(query: Builder, values: Record<string, unknown>): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileUpdate(query, values));
+    }
+
+    const fromTable = query['fromTable'];
+    const fromAlias = query['fromAlias'];
+    const limitValue = query['limitValue'];
+    const wheres = query['wheres'];
+    const joins = query['joins'];
+    const table = this.wrapTable(fromTable || '');
+    const alias = fromAlias ? this.wrap(fromAlias) : table;
+    const top = limitValue !== null ? `top (${limitValue}) ` : '';
+
+    const columns = Object.keys(values)
+      .map((key) => {
+        const value = values[key];
+        if (value instanceof Expression) {
+          return `${this.wrap(key)} = ${value.getValue()}`;
+        }
+        return `${this.wrap(key)} = ${this.parameter(value)}`;
+      })
+      .join(', ');
+
+    const where = this.compileWheres(query, wheres);
+
+    if (joins.length > 0) {
+      return `update ${top}${alias} set ${columns} ${this.compileFrom(query)} ${this.compileJoins(query, joins)} ${where}`.trim();
+    }
+
+    return `update ${top}${table} set ${columns} ${where}`.trim();
+  }
+
+  /**
+   * Prepare the bindings for an update statement (including join bindings)
+   */
+  prepareBindingsForUpdate(bindings: Record<string, unknown[]>, values: Record<string, unknown>): unknown[] {
+    const updateBindings = Object.values(values).filter((v) => !(v instanceof Expression));
+    return [
+      ...(bindings.expressions || []),
+      ...updateBindings,
+      ...(bindings.join || []),
+      ...(bindings.where || []),
+    ];
+  }
+
+  /**
+   * Compile a delete statement into SQL.
+   * Supports DELETE TOP (n) and DELETE ... FROM ... JOIN.
+   */
+  compileDelete(query: Builder): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileDelete(query));
+    }
+
+    const fromTable = query['fromTable'];
+    const fromAlias = query['fromAlias'];
+    const limitValue = query['limitValue'];
+    const wheres = query['wheres'];
+    const joins = query['joins'];
+    const table = this.wrapTable(fromTable || '');
+    const alias = fromAlias ? this.wrap(fromAlias) : table;
+    const top = limitValue !== null ? `top (${limitValue}) ` : '';
+    const where = this.compileWheres(query, wheres);
+
+    if (joins.length > 0) {
+      return `delete ${top}${alias} ${this.compileFrom(query)} ${this.compileJoins(query, joins)} ${where}`.trim();
+    }
+
+    return `delete ${top}from ${table} ${where}`.trim();
+  }
+}
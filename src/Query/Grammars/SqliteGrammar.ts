@@ -0,0 +1,336 @@
+import { Grammar, ValueWhere } from './Grammar';
+import { Builder } from '../Builder';
+import { Expression } from '../Expression';
+import { GuruORMError } from '../../Errors/GuruORMError';
+
+/**
+ * SQLite Query Grammar
+ *
+ * Key SQLite differences from the base grammar:
+ * - No date/time extraction functions — strftime() is used instead.
+ * - No json_contains() — membership is checked through json_each().
+ * - No row locking — lockForUpdate()/sharedLock() compile to nothing.
+ * - OFFSET requires a LIMIT, and DELETE/UPDATE cannot take LIMIT/ORDER BY/JOIN
+ *   (emulated with a rowid subquery).
+ */
+export class SqliteGrammar extends Grammar {
+  /** SQLITE_MAX_VARIABLE_NUMBER of SQLite 3.32+ */
+  protected maxBindings = 32766;
+
+  /**
+   * Compile the "offset" portions of the query.
+   * SQLite rejects OFFSET without LIMIT, so "limit -1" is injected.
+   */
+  protected compileOffset(query: Builder, offset: number | null): string {
+    if (offset === null || offset === 0) {
+      return '';
+    }
+
+    if (query['limitValue'] === null) {
+      return `limit -1 offset ${offset}`;
+    }
+
+    return `offset ${offset}`;
+  }
+
+  /**
+   * Compile a union aggregate query.
+   * The outer query's order, limit and offset apply to the whole compound select.
+   */
+  protected compileUnionAggregate(query: Builder): string {
+    const orders = query['orders'];
+    const limit = query['limitValue'];
+    const offset = query['offsetValue'];
+
+    query['orders'] = [];
+    query['limitValue'] = null;
+    query['offsetValue'] = null;
+
+    let sql = this.compileSelectWithoutUnions(query);
+
+    query['orders'] = orders;
+    query['limitValue'] = limit;
+    query['offsetValue'] = offset;
+
+    query['unions'].forEach((union) => {
+      const keyword = union.all ? 'union all' : 'union';
+      sql += ` ${keyword} ${this.compileUnionMember(union.query)}`;
+    });
+
+    const tail = [
+      this.compileOrders(query, orders),
+      this.compileLimit(query, limit),
+      this.compileOffset(query, offset),
+    ].filter((part) => part !== '');
+
+    return tail.length > 0 ? `${sql} ${tail.join(' ')}` : sql;
+  }
+
+  /**
+   * Compile a single member of a compound select.
+   * SQLite does not allow ORDER BY / LIMIT inside a compound member, so those
+   * members are wrapped in a derived table.
+   */
+  protected compileUnionMember(query: Builder): string {
+    const sql = this.compileSelectWithoutUnions(query);
+    const orders = query['orders'];
+    const limitValue = query['limitValue'];
+    const offsetValue = query['offsetValue'];
+
+    if (orders.length > 0 || limitValue !== null || offsetValue !== null) {
+      return `select * from (${sql})`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile a "where date" clause
+   */
+  protected whereDate(_query: Builder, where: ValueWhere): string {
+    return this.dateBasedWhere('%Y-%m-%d', where);
+  }
+
+  /**
+   * Compile a "where time" clause
+   */
+  protected whereTime(_query: Builder, where: ValueWhere): string {
+    return this.dateBasedWhere('%H:%M:%S', where);
+  }
+
+  /**
+   * Compile a "where day" clause
+   */
+  protected whereDay(_query: Builder, where: ValueWhere): string {
+    return this.datePartWhere('%d', where);
+  }
+
+  /**
+   * Compile a "where month" clause
+   */
+  protected whereMonth(_query: Builder, where: ValueWhere): string {
+    return this.datePartWhere('%m', where);
+  }
+
+  /**
+   * Compile a "where year" clause
+   */
+  protected whereYear(_query: Builder, where: ValueWhere): string {
+    return this.datePartWhere('%Y', where);
+  }
+
+  /**
+   * Compile a strftime() comparison against a textual date/time value
+   */
+  protected dateBasedWhere(format: string, where: ValueWhere): string {
+    const value = this.parameter(where.value);
+    return `strftime('${format}', ${this.wrap(where.column)}) ${where.operator} cast(${value} as text)`;
+  }
+
+  /**
+   * Compile a strftime() comparison against a numeric date part.
+   * Casting to integer makes `whereMonth('created_at', 5)` and `'05'` equivalent.
+   */
+  protected datePartWhere(format: string, where: ValueWhere): string {
+    const value = this.parameter(where.value);
+    return `cast(strftime('${format}', ${this.wrap(where.column)}) as integer) ${where.operator} cast(${value} as integer)`;
+  }
+
+  /**
+   * Compile a "where JSON contains" clause
+   */
+  protected whereJsonContains(_query: Builder, where: ValueWhere): string {
+    return `exists (select 1 from json_each(${this.wrapJsonFieldAndPath(where.column)}) where ${this.wrap('json_each.value')} is ${this.parameter(where.value)})`;
+  }
+
+  /**
+   * Compile a "where JSON doesn't contain" clause
+   */
+  protected whereJsonDoesntContain(query: Builder, where: ValueWhere): string {
+    return `not ${this.whereJsonContains(query, where)}`;
+  }
+
+  /**
+   * Compile a "where JSON length" clause
+   */
+  protected whereJsonLength(_query: Builder, where: ValueWhere): string {
+    return `json_array_length(${this.wrapJsonFieldAndPath(where.column)}) ${where.operator} ${this.parameter(where.value)}`;
+  }
+
+  /**
+   * Split a `column->path->to->key` selector into json function arguments,
+   * e.g. `"options", '$."languages"'`.
+   */
+  protected wrapJsonFieldAndPath(column: string): string {
+    const [field, ...path] = column.split('->');
+
+    if (path.length === 0) {
+      return this.wrap(field);
+    }
+
+    const jsonPath = path
+      .map((segment) => `."${segment.replace(/'/g, "''").replace(/"/g, '""')}"`)
+      .join('');
+
+    return `${this.wrap(field)}, '$${jsonPath}'`;
+  }
+
+  /**
+   * Compile a "where full text" clause.
+   * SQLite full text search requires FTS virtual tables, which the builder cannot target.
+   */
+  protected whereFullText(_query: Builder, _where: unknown): string {
+    throw new GuruORMError('This database engine does not support fulltext search operations.');
+  }
+
+  /**
+   * Compile a lateral join (not supported by SQLite)
+   */
+  protected compileJoinLateral(_query: Builder, _join: unknown): string {
+    throw new GuruORMError('This database engine does not support lateral joins.');
+  }
+
+  /**
+   * Compile the lock into SQL.
+   * SQLite locks the whole database per transaction, so row locks are a no-op.
+   */
+  protected compileLock(_query: Builder, _value: boolean | string): string {
+    return '';
+  }
+
+  /**
+   * Compile an insert and get ID statement into SQL (SQLite 3.35+ RETURNING)
+   */
+  compileInsertGetId(query: Builder, values: Record<string, unknown>, sequence?: string): string {
+    const insert = this.compileInsertBase(query, [values]);
+    return `${insert} returning ${this.wrap(sequence || 'id')}`;
+  }
+
+  /**
+   * Compile an "insert or ignore" statement into SQL
+   */
+  compileInsertOrIgnore(query: Builder, values: Record<string, unknown>[]): string {
+    return this.compileInsert(query, values).replace(/^insert/, 'insert or ignore');
+  }
+
+  /**
+   * Compile an upsert statement into SQL.
+   * Uses ON CONFLICT (...) DO UPDATE SET col = excluded.col, with RETURNING
+   * placed after the conflict clause.
+   */
+  compileUpsert(query: Builder, values: Record<string, unknown>[], uniqueBy: string[], update?: string[]): string {
+    const insert = this.compileInsertBase(query, values);
+    const columns = update || Object.keys(values[0]).filter((k) => !uniqueBy.includes(k));
+    const uniqueColumns = this.columnize(uniqueBy);
+
+    let sql = columns.length === 0
+      ? `${insert} on conflict (${uniqueColumns}) do nothing`
+      : `${insert} on conflict (${uniqueColumns}) do update set ${columns
+        .map((col) => `${this.wrap(col)} = excluded.${this.wrap(col)}`)
+        .join(', ')}`;
+
+    const returning = query.getReturning();
+    if (returning && returning.length > 0) {
+      sql += ` returning ${this.columnize(returning)}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile an update statement into SQL.
+   * Joins, orders and limits are emulated with a rowid subquery.
+   */
+  compileUpdate(query: Builder, values: Record<string, unknown>): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileUpdate(query, values));
+    }
+
+    if (!this.needsRowidSubquery(query)) {
+      return super.compileUpdate(query, values);
+    }
+
+    const table = this.wrapTable(query['fromTable'] || '');
+    const columns = Object.keys(values)
+      .map((key) => {
+        const value = values[key];
+        const column = this.wrap(key.includes('.') ? key.split('.').pop()! : key);
+        if (value instanceof Expression) {
+          return `${column} = ${value.getValue()}`;
+        }
+        return `${column} = ${this.parameter(value)}`;
+      })
+      .join(', ');
+
+    return `update ${table} set ${columns} where ${this.wrap('rowid')} in (${this.compileRowidSelect(query)})`;
+  }
+
+  /**
+   * Prepare the bindings for an update statement.
+   * The rowid subquery carries join and order bindings as well.
+   */
+  prepareBindingsForUpdate(bindings: Record<string, unknown[]>, values: Record<string, unknown>): unknown[] {
+    const updateBindings = Object.values(values).filter((v) => !(v instanceof Expression));
+
+    return [
+      ...(bindings.expressions || []),
+      ...updateBindings,
+      ...(bindings.join || []),
+      ...(bindings.where || []),
+      ...(bindings.order || []),
+    ];
+  }
+
+  /**
+   * Compile a delete statement into SQL.
+   * Joins, orders and limits are emulated with a rowid subquery.
+   */
+  compileDelete(query: Builder): string {
+    if (this.hasExpressions(query)) {
+      return this.compileWithExpressions(query, () => this.compileDelete(query));
+    }
+
+    if (!this.needsRowidSubquery(query)) {
+      return super.compileDelete(query);
+    }
+
+    const table = this.wrapTable(query['fromTable'] || '');
+    return `delete from ${table} where ${this.wrap('rowid')} in (${this.compileRowidSelect(query)})`;
+  }
+
+  /**
+   * Compile a truncate table statement into SQL (SQLite has no TRUNCATE)
+   */
+  compileTruncate(query: Builder): string {
+    return `delete from ${this.wrapTable(query['fromTable'] || '')}`;
+  }
+
+  /**
+   * Determine if an update/delete needs the rowid subquery emulation
+   */
+  protected needsRowidSubquery(query: Builder): boolean {
+    const joins = query['joins'];
+    const limitValue = query['limitValue'];
+    const orders = query['orders'];
+    return joins.length > 0 || limitValue !== null || orders.length > 0;
+  }
+
+  /**
+   * Compile "select <table>.rowid ..." for the given update/delete query
+   */
+  protected compileRowidSelect(query: Builder): string {
+    const columns = query['columns'];
+    const lock = query['lock'];
+    const table = query['fromAlias'] || query['fromTable'] || '';
+
+    query['columns'] = [`${table}.rowid`];
+    query['lock'] = false;
+
+    const sql = this.compileSelect(query);
+
+    query['columns'] = columns;
+    query['lock'] = lock;
+
+    return sql;
+  }
+}
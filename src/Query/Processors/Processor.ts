@@ -1,4 +1,7 @@
 import { Builder } from '../Builder';
+import {
+  ColumnSchema, ForeignKeySchema, IndexSchema, TableSchema, ViewSchema,
+} from '../../Schema/Builder';
 
 /**
  * Base Processor class - inspired by Laravel and Illuminate
@@ -12,6 +15,17 @@ export class Processor {
     return results;
   }
 
+  /**
+   * Remove the row number column added by a "group limit" query
+   */
+  processGroupLimit<T>(results: T[]): T[] {
+    return results.map((result) => {
+      const row = { ...result } as Record<string, unknown>;
+      delete row.guruorm_row;
+      return row as T;
+    });
+  }
+
   /**
    * Process an "insert get ID" query
    */
@@ -25,4 +39,127 @@ export class Processor {
   processColumnListing(results: any[]): string[] {
     return results.map((result) => Object.values(result)[0] as string);
   }
+
+  /**
+   * Process the results of a tables query. Empty comments are reported as null.
+   */
+  processTables(results: any[]): TableSchema[] {
+    return results.map((result) => ({
+      name: result.name,
+      schema: result.schema ?? null,
+      size: result.size === null || result.size === undefined ? null : Number(result.size),
+      comment: result.comment || null,
+      collation: result.collation || null,
+      engine: result.engine || null,
+    }));
+  }
+
+  /**
+   * Process the results of a views query
+   */
+  processViews(results: any[]): ViewSchema[] {
+    return results.map((result) => ({
+      name: result.name,
+      schema: result.schema ?? null,
+      definition: result.definition,
+    }));
+  }
+
+  /**
+   * Process the results of a columns query into driver-independent column descriptions
+   */
+  processColumns(results: any[]): ColumnSchema[] {
+    return results.map((result) => {
+      const type = String(result.type).toLowerCase();
+
+      return {
+        name: result.name,
+        typeName: String(result.type_name).toLowerCase().replace(/\(.*$/, '').trim(),
+        type,
+        nullable: Boolean(Number(result.nullable)),
+        default: result.default ?? null,
+        autoIncrement: Boolean(Number(result.auto_increment)),
+        enumValues: this.parseEnumValues(result.enum_values, String(result.type)),
+        collation: result.collation || null,
+        comment: result.comment || null,
+      };
+    });
+  }
+
+  /**
+   * Process the results of an indexes query. When a table reports its primary key
+   * both as an index and through its columns (SQLite), the synthetic one is dropped.
+   */
+  processIndexes(results: any[]): IndexSchema[] {
+    const indexes = results.map((result) => ({
+      name: String(result.name).toLowerCase(),
+      columns: this.splitList(result.columns),
+      type: result.type ? String(result.type).toLowerCase() : null,
+      unique: Boolean(Number(result.unique)),
+      primary: Boolean(Number(result.primary)),
+    }));
+
+    if (indexes.filter((index) => index.primary).length > 1) {
+      return indexes.filter((index) => !(index.primary && index.name === 'primary'));
+    }
+
+    return indexes;
+  }
+
+  /**
+   * Process the results of a foreign keys query
+   */
+  processForeignKeys(results: any[]): ForeignKeySchema[] {
+    return results.map((result) => ({
+      name: result.name ?? null,
+      columns: this.splitList(result.columns),
+      foreignSchema: result.foreign_schema ?? null,
+      foreignTable: result.foreign_table,
+      foreignColumns: this.splitList(result.foreign_columns),
+      onUpdate: this.normalizeForeignKeyAction(result.on_update),
+      onDelete: this.normalizeForeignKeyAction(result.on_delete),
+    }));
+  }
+
+  /**
+   * Split a comma-separated list aggregated by the database
+   */
+  protected splitList(value: any): string[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    return value ? String(value).split(',') : [];
+  }
+
+  /**
+   * Normalize a referential action, e.g. "NO_ACTION" or the PostgreSQL code "a", to "no action"
+   */
+  protected normalizeForeignKeyAction(action: any): string {
+    const codes: Record<string, string> = {
+      a: 'no action', r: 'restrict', c: 'cascade', n: 'set null', d: 'set default',
+    };
+    const normalized = String(action ?? 'no action').toLowerCase().replace(/_/g, ' ');
+
+    return codes[normalized] || normalized;
+  }
+
+  /**
+   * Get the allowed values of an enum column, from a JSON list or a MySQL "enum(...)" type
+   */
+  protected parseEnumValues(values: unknown, type: string): string[] | null {
+    if (Array.isArray(values)) {
+      return values;
+    }
+
+    if (typeof values === 'string') {
+      return JSON.parse(values);
+    }
+
+    if (!/^enum\(/i.test(type)) {
+      return null;
+    }
+
+    return [...type.matchAll(/'((?:[^']|'')*)'/g)].map((match) => match[1].replace(/''/g, "'"));
+  }
 }
@@ -0,0 +1,112 @@
+import { Expression } from './Expression';
+import { GuruORMError } from '../Errors/GuruORMError';
+
+export type WindowFrameUnit = 'rows' | 'range' | 'groups';
+
+/**
+ * Window Clause - the fluent "over (...)" specification of a window function
+ * or a named WINDOW definition
+ */
+export class WindowClause {
+  public base: string | null;
+
+  public partitions: (string | Expression)[] = [];
+
+  public orders: { column: string | Expression; direction: 'asc' | 'desc' }[] = [];
+
+  public frame: { unit: WindowFrameUnit; start: string; end: string | null } | null = null;
+
+  constructor(base: string | null = null) {
+    this.base = base;
+  }
+
+  /**
+   * Add "partition by" columns to the window
+   */
+  partitionBy(...columns: (string | Expression)[]): this {
+    this.partitions.push(...columns);
+    return this;
+  }
+
+  /**
+   * Add an "order by" clause to the window
+   */
+  orderBy(column: string | Expression, direction: 'asc' | 'desc' = 'asc'): this {
+    const normalized = direction.toLowerCase();
+
+    if (normalized !== 'asc' && normalized !== 'desc') {
+      throw new GuruORMError('Order direction must be "asc" or "desc".');
+    }
+
+    this.orders.push({ column, direction: normalized });
+    return this;
+  }
+
+  /**
+   * Add a descending "order by" clause to the window
+   */
+  orderByDesc(column: string | Expression): this {
+    return this.orderBy(column, 'desc');
+  }
+
+  /**
+   * Set a "rows" frame, e.g. rows('unbounded preceding', 'current row')
+   */
+  rows(start: string | number, end: string | number | null = null): this {
+    return this.setFrame('rows', start, end);
+  }
+
+  /**
+   * Set a "range" frame
+   */
+  range(start: string | number, end: string | number | null = null): this {
+    return this.setFrame('range', start, end);
+  }
+
+  /**
+   * Set a "groups" frame
+   */
+  groups(start: string | number, end: string | number | null = null): this {
+    return this.setFrame('groups', start, end);
+  }
+
+  /**
+   * Set the frame clause of the window.
+   * Numeric bounds are offsets: negative values precede the current row,
+   * positive values follow it and zero is the current row.
+   */
+  protected setFrame(unit: WindowFrameUnit, start: string | number, end: string | number | null): this {
+    this.frame = {
+      unit,
+      start: this.normalizeFrameBound(start),
+      end: end === null ? null : this.normalizeFrameBound(end),
+    };
+
+    return this;
+  }
+
+  /**
+   * Normalize and validate a frame bound, since bounds are compiled verbatim
+   */
+  protected normalizeFrameBound(bound: string | number): string {
+    if (typeof bound === 'number') {
+      if (!Number.isInteger(bound)) {
+        throw new GuruORMError(`Window frame offset must be an integer, got [${bound}].`);
+      }
+
+      if (bound === 0) {
+        return 'current row';
+      }
+
+      return bound < 0 ? `${-bound} preceding` : `${bound} following`;
+    }
+
+    const normalized = bound.trim().toLowerCase().replace(/\s+/g, ' ');
+
+    if (!/^(unbounded preceding|unbounded following|current row|\d+ preceding|\d+ following)$/.test(normalized)) {
+      throw new GuruORMError(`Invalid window frame bound [${bound}].`);
+    }
+
+    return normalized;
+  }
+}
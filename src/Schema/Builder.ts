@@ -2,6 +2,73 @@ import { Connection } from '../Connection/Connection';
 import { Grammar } from './Grammars/Grammar';
 import { Blueprint } from './Blueprint';
 
+/**
+ * A column as described by the database catalog
+ */
+export interface ColumnSchema {
+  name: string;
+  /** The bare type name, e.g. "varchar" */
+  typeName: string;
+  /** The full type, e.g. "varchar(255)" */
+  type: string;
+  nullable: boolean;
+  /** The default expression, as reported by the database */
+  default: string | null;
+  autoIncrement: boolean;
+  /** The allowed values of a native enum column */
+  enumValues: string[] | null;
+  collation: string | null;
+  comment: string | null;
+}
+
+/**
+ * A table as described by the database catalog
+ */
+export interface TableSchema {
+  name: string;
+  schema: string | null;
+  /** The size of the table and its indexes in bytes, when the database reports it */
+  size: number | null;
+  comment: string | null;
+  collation: string | null;
+  engine: string | null;
+}
+
+/**
+ * A view as described by the database catalog
+ */
+export interface ViewSchema {
+  name: string;
+  schema: string | null;
+  definition: string;
+}
+
+/**
+ * An index as described by the database catalog
+ */
+export interface IndexSchema {
+  name: string;
+  columns: string[];
+  /** The index method, e.g. "btree", or null when the database does not report one */
+  type: string | null;
+  unique: boolean;
+  primary: boolean;
+}
+
+/**
+ * A foreign key as described by the database catalog
+ */
+export interface ForeignKeySchema {
+  /** The constraint name, or null when the database does not name it (SQLite) */
+  name: string | null;
+  columns: string[];
+  foreignSchema: string | null;
+  foreignTable: string;
+  foreignColumns: string[];
+  onUpdate: string;
+  onDelete: string;
+}
+
 /**
  * Schema Builder - inspired by Laravel and Illuminate
  * Provides methods for creating and modifying database schema
@@ -37,6 +104,56 @@ export class Builder {
     return this.connection.getPostProcessor().processColumnListing(results);
   }
 
+  /**
+   * Get the tables of the connection's schema
+   */
+  async getTables(): Promise<TableSchema[]> {
+    const sql = this.grammar.compileTables(this.connection.getSchemaName());
+    const results = await this.connection.select(sql);
+
+    return this.connection.getPostProcessor().processTables(results);
+  }
+
+  /**
+   * Get the views of the connection's schema
+   */
+  async getViews(): Promise<ViewSchema[]> {
+    const sql = this.grammar.compileViews(this.connection.getSchemaName());
+    const results = await this.connection.select(sql);
+
+    return this.connection.getPostProcessor().processViews(results);
+  }
+
+  /**
+   * Get the columns of a table, in their defined order
+   */
+  async getColumns(table: string): Promise<ColumnSchema[]> {
+    const sql = this.grammar.compileColumns(this.connection.getSchemaName(), table);
+    const results = await this.connection.select(sql);
+
+    return this.connection.getPostProcessor().processColumns(results);
+  }
+
+  /**
+   * Get the indexes of a table, including the primary key
+   */
+  async getIndexes(table: string): Promise<IndexSchema[]> {
+    const sql = this.grammar.compileIndexes(this.connection.getSchemaName(), table);
+    const results = await this.connection.select(sql);
+
+    return this.connection.getPostProcessor().processIndexes(results);
+  }
+
+  /**
+   * Get the foreign keys of a table
+   */
+  async getForeignKeys(table: string): Promise<ForeignKeySchema[]> {
+    const sql = this.grammar.compileForeignKeys(this.connection.getSchemaName(), table);
+    const results = await this.connection.select(sql);
+
+    return this.connection.getPostProcessor().processForeignKeys(results);
+  }
+
   /**
    * Create a new table on the schema
    */
@@ -90,22 +207,9 @@ export class Builder {
         break;
         
       case 'foreign':
-        const fkDef = command.definition.getDefinition();
-        const fkCols = fkDef.columns.map((col: string) => this.grammar.wrap(col)).join(', ');
-        const refCols = fkDef.references.map((col: string) => this.grammar.wrap(col)).join(', ');
-        const refTable = this.grammar.wrapTable(fkDef.on);
-        
-        let fkSql = `ALTER TABLE ${tableName} ADD FOREIGN KEY (${fkCols}) REFERENCES ${refTable} (${refCols})`;
-        
-        if (fkDef.onDelete) {
-          fkSql += ` ON DELETE ${fkDef.onDelete.toUpperCase()}`;
-        }
-        
-        if (fkDef.onUpdate) {
-          fkSql += ` ON UPDATE ${fkDef.onUpdate.toUpperCase()}`;
-        }
-        
-        await this.connection.statement(fkSql);
+        await this.connection.statement(
+          this.grammar.compileForeign(table, command.definition.getDefinition())
+        );
         break;
         
       case 'spatialIndex':
@@ -126,6 +230,12 @@ export class Builder {
         );
         break;
 
+      case 'renameIndex':
+        await this.connection.statement(
+          this.grammar.compileRenameIndex(table, command.from, command.to)
+        );
+        break;
+
       case 'modifyColumn':
         const modifyDef = this.grammar.compileColumn(command.column);
         await this.connection.statement(this.grammar.compileModifyColumn(table, modifyDef));
@@ -228,8 +338,7 @@ export class Builder {
     // For each new column, add it to the table
     for (const column of columns) {
       const columnDef = this.grammar.compileColumn(column);
-      const sql = `ALTER TABLE ${this.grammar.wrapTable(table)} ADD COLUMN ${columnDef}`;
-      await this.connection.statement(sql);
+      await this.connection.statement(this.grammar.compileAddColumn(table, columnDef));
     }
     
     // Get commands for other operations (indexes, foreign keys, drop, rename, etc.)
@@ -1,3 +1,18 @@
+import {
+  ColumnSchema, ForeignKeySchema, IndexSchema, TableSchema, ViewSchema,
+} from '../Builder';
+
+/**
+ * A foreign key to compile, as described by a ForeignKeyDefinition
+ */
+export interface ForeignKeyCommand {
+  columns: string[];
+  references: string[];
+  on: string;
+  onDelete?: string;
+  onUpdate?: string;
+}
+
 /**
  * Base Schema Grammar class - inspired by Laravel and Illuminate
  * Compiles schema builder commands into SQL statements
@@ -35,6 +50,13 @@ export class Grammar {
     return value.replace(/\\/g, '\\\\').replace(/'/g, "''");
   }
 
+  /**
+   * Quote a string literal for interpolation into catalog queries
+   */
+  protected quoteString(value: string): string {
+    return `'${this.escapeString(value)}'`;
+  }
+
   /**
    * Wrap a value in keyword identifiers
    */
@@ -117,6 +139,182 @@ export class Grammar {
     return 'select table_name from information_schema.tables where table_schema = database()';
   }
 
+  /**
+   * Compile the query to describe the tables of a schema.
+   * Every dialect selects name, schema, size (in bytes), comment, collation and engine.
+   */
+  compileTables(schema: string): string {
+    return `select table_name as ${this.wrap('name')}, table_schema as ${this.wrap('schema')}, `
+      + `(data_length + index_length) as ${this.wrap('size')}, table_comment as ${this.wrap('comment')}, `
+      + `table_collation as ${this.wrap('collation')}, engine as ${this.wrap('engine')} `
+      + `from information_schema.tables where table_schema = ${this.quoteString(schema)} `
+      + "and table_type in ('BASE TABLE', 'SYSTEM VERSIONED') order by table_name";
+  }
+
+  /**
+   * Compile the query to describe the views of a schema.
+   * Every dialect selects name, schema and definition.
+   */
+  compileViews(schema: string): string {
+    return `select table_name as ${this.wrap('name')}, table_schema as ${this.wrap('schema')}, `
+      + `view_definition as ${this.wrap('definition')} `
+      + `from information_schema.views where table_schema = ${this.quoteString(schema)} order by table_name`;
+  }
+
+  /**
+   * Compile the query to describe the columns of a table.
+   * Every dialect selects name, type_name, type, nullable, default, auto_increment,
+   * enum_values, collation and comment so the processor can normalize them the same way.
+   */
+  compileColumns(schema: string, table: string): string {
+    return `select column_name as ${this.wrap('name')}, data_type as ${this.wrap('type_name')}, `
+      + `column_type as ${this.wrap('type')}, is_nullable = 'YES' as ${this.wrap('nullable')}, `
+      + `column_default as ${this.wrap('default')}, extra like '%auto_increment%' as ${this.wrap('auto_increment')}, `
+      + `null as ${this.wrap('enum_values')}, collation_name as ${this.wrap('collation')}, column_comment as ${this.wrap('comment')} `
+      + `from information_schema.columns where table_schema = ${this.quoteString(schema)} `
+      + `and table_name = ${this.quoteString(this.tablePrefix + table)} order by ordinal_position`;
+  }
+
+  /**
+   * Compile the query to describe the indexes of a table.
+   * Every dialect selects name, comma-separated columns, type, unique and primary.
+   */
+  compileIndexes(schema: string, table: string): string {
+    return `select index_name as ${this.wrap('name')}, group_concat(column_name order by seq_in_index) as ${this.wrap('columns')}, `
+      + `index_type as ${this.wrap('type')}, not non_unique as ${this.wrap('unique')}, `
+      + `index_name = 'PRIMARY' as ${this.wrap('primary')} `
+      + `from information_schema.statistics where table_schema = ${this.quoteString(schema)} `
+      + `and table_name = ${this.quoteString(this.tablePrefix + table)} `
+      + 'group by index_name, index_type, non_unique';
+  }
+
+  /**
+   * Compile the query to describe the foreign keys of a table.
+   * Every dialect selects name, columns, foreign_schema, foreign_table,
+   * foreign_columns, on_update and on_delete.
+   */
+  compileForeignKeys(schema: string, table: string): string {
+    return `select kc.constraint_name as ${this.wrap('name')}, `
+      + `group_concat(kc.column_name order by kc.ordinal_position) as ${this.wrap('columns')}, `
+      + `kc.referenced_table_schema as ${this.wrap('foreign_schema')}, kc.referenced_table_name as ${this.wrap('foreign_table')}, `
+      + `group_concat(kc.referenced_column_name order by kc.ordinal_position) as ${this.wrap('foreign_columns')}, `
+      + `rc.update_rule as ${this.wrap('on_update')}, rc.delete_rule as ${this.wrap('on_delete')} `
+      + 'from information_schema.key_column_usage kc join information_schema.referential_constraints rc '
+      + 'on kc.constraint_schema = rc.constraint_schema and kc.constraint_name = rc.constraint_name '
+      + `where kc.table_schema = ${this.quoteString(schema)} and kc.table_name = ${this.quoteString(this.tablePrefix + table)} `
+      + 'and kc.referenced_table_name is not null '
+      + 'group by kc.constraint_name, kc.referenced_table_schema, kc.referenced_table_name, rc.update_rule, rc.delete_rule';
+  }
+
+  /**
+   * Compile the statements recreating an introspected table: the table itself and its indexes.
+   * The table name is expected without the table prefix.
+   */
+  compileTableDump(table: TableSchema, columns: ColumnSchema[], indexes: IndexSchema[], foreignKeys: ForeignKeySchema[]): string[] {
+    const definitions = [
+      ...columns.map((column) => this.compileDumpedColumn(column)),
+      ...this.compileDumpedConstraints(columns, indexes, foreignKeys),
+    ];
+
+    const statements = [this.compileCreateTable(table.name, definitions, {
+      engine: table.engine, collation: table.collation, comment: table.comment,
+    })];
+
+    for (const index of indexes.filter((candidate) => !candidate.primary)) {
+      statements.push(this.compileDumpedIndex(table.name, index));
+    }
+
+    return statements;
+  }
+
+  /**
+   * Compile the statements adding an introspected table's foreign keys. They are
+   * dumped after every table is created, so tables may reference each other.
+   */
+  compileForeignKeysDump(table: string, foreignKeys: ForeignKeySchema[]): string[] {
+    const prefix = this.tablePrefix;
+
+    return foreignKeys.map((foreignKey) => this.compileForeign(table, {
+      columns: foreignKey.columns,
+      references: foreignKey.foreignColumns,
+      on: foreignKey.foreignTable.startsWith(prefix) ? foreignKey.foreignTable.slice(prefix.length) : foreignKey.foreignTable,
+      onDelete: foreignKey.onDelete,
+      onUpdate: foreignKey.onUpdate,
+    }));
+  }
+
+  /**
+   * Compile the statement recreating an introspected view
+   */
+  compileViewDump(view: ViewSchema): string {
+    return `create view ${this.wrap(view.name)} as ${view.definition.trim().replace(/;$/, '')}`;
+  }
+
+  /**
+   * Compile the statement creating the type of an introspected column, if it has its own
+   */
+  compileTypeDump(_column: ColumnSchema): string | null {
+    return null;
+  }
+
+  /**
+   * Compile an insert statement for a dumped row
+   */
+  compileInsertDump(table: string, row: Record<string, unknown>): string {
+    const columns = Object.keys(row).map((column) => this.wrap(column)).join(', ');
+    const values = Object.values(row).map((value) => {
+      if (value === null || value === undefined) {
+        return 'null';
+      }
+
+      return typeof value === 'number' ? String(value) : this.quoteString(String(value));
+    });
+
+    return `insert into ${this.wrapTable(table)} (${columns}) values (${values.join(', ')})`;
+  }
+
+  /**
+   * Compile the definition of an introspected column
+   */
+  protected compileDumpedColumn(column: ColumnSchema): string {
+    let sql = `${this.wrap(column.name)} ${column.type}`;
+
+    if (column.collation) {
+      sql += ` collate ${this.wrap(column.collation)}`;
+    }
+
+    sql += column.nullable ? ' null' : ' not null';
+
+    if (column.default !== null) {
+      sql += ` default ${column.default}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile the table constraints of an introspected table
+   */
+  protected compileDumpedConstraints(columns: ColumnSchema[], indexes: IndexSchema[], _foreignKeys: ForeignKeySchema[]): string[] {
+    const primary = indexes.find((index) => index.primary);
+
+    return primary ? [`primary key (${this.columnize(primary.columns)})`] : [];
+  }
+
+  /**
+   * Compile the statement recreating an introspected index
+   */
+  protected compileDumpedIndex(table: string, index: IndexSchema): string {
+    return `create ${index.unique ? 'unique ' : ''}index ${this.wrap(index.name)} on ${this.wrapTable(table)} (${this.columnize(index.columns)})`;
+  }
+
+  /**
+   * Wrap and join a list of columns
+   */
+  protected columnize(columns: string[]): string {
+    return columns.map((column) => this.wrap(column)).join(', ');
+  }
+
   /**
    * Compile a create table command
    */
@@ -147,6 +345,33 @@ export class Grammar {
     return `alter table ${this.wrapTable(table)} rename column ${this.wrap(from)} to ${this.wrap(to)}`;
   }
 
+  /**
+   * Compile a rename index command
+   */
+  compileRenameIndex(table: string, from: string, to: string): string {
+    return `alter table ${this.wrapTable(table)} rename index ${this.wrap(from)} to ${this.wrap(to)}`;
+  }
+
+  /**
+   * Compile a foreign key command from a ForeignKeyDefinition's definition
+   */
+  compileForeign(table: string, definition: ForeignKeyCommand): string {
+    const columns = definition.columns.map((col) => this.wrap(col)).join(', ');
+    const references = definition.references.map((col) => this.wrap(col)).join(', ');
+
+    let sql = `ALTER TABLE ${this.wrapTable(table)} ADD FOREIGN KEY (${columns}) REFERENCES ${this.wrapTable(definition.on)} (${references})`;
+
+    if (definition.onDelete) {
+      sql += ` ON DELETE ${definition.onDelete.toUpperCase()}`;
+    }
+
+    if (definition.onUpdate) {
+      sql += ` ON UPDATE ${definition.onUpdate.toUpperCase()}`;
+    }
+
+    return sql;
+  }
+
   /**
    * Compile a modify column command
    */
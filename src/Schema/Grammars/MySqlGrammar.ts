@@ -1,4 +1,5 @@
 import { Grammar as BaseGrammar } from './Grammar';
+import { ColumnSchema, IndexSchema } from '../Builder';
 
 /**
  * MySQL Schema Grammar class - extends base schema grammar for MySQL specific syntax
@@ -60,4 +61,52 @@ export class Grammar extends BaseGrammar {
 
     return sql;
   }
+
+  /**
+   * Compile the definition of an introspected column
+   */
+  protected compileDumpedColumn(column: ColumnSchema): string {
+    let sql = `${this.wrap(column.name)} ${column.type}`;
+
+    if (column.collation) {
+      sql += ` collate ${column.collation}`;
+    }
+
+    sql += column.nullable ? ' null' : ' not null';
+
+    if (column.default !== null) {
+      sql += ` default ${this.compileDumpedDefault(column.default)}`;
+    }
+
+    if (column.autoIncrement) {
+      sql += ' auto_increment';
+    }
+
+    if (column.comment) {
+      sql += ` comment ${this.quoteString(column.comment)}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile an introspected default. MySQL reports string defaults unquoted,
+   * so anything that is not a number, a quoted literal or a timestamp expression is quoted.
+   */
+  protected compileDumpedDefault(value: string): string {
+    if (/^-?\d+(\.\d+)?$/.test(value) || /^'.*'$/s.test(value) || /^(current_timestamp|now)(\(\d*\))?$/i.test(value)) {
+      return value;
+    }
+
+    return this.quoteString(value);
+  }
+
+  /**
+   * Compile the statement recreating an introspected index, keeping fulltext and spatial indexes
+   */
+  protected compileDumpedIndex(table: string, index: IndexSchema): string {
+    const kind = index.type === 'fulltext' || index.type === 'spatial' ? `${index.type} ` : '';
+
+    return `create ${index.unique ? 'unique ' : kind}index ${this.wrap(index.name)} on ${this.wrapTable(table)} (${this.columnize(index.columns)})`;
+  }
 }
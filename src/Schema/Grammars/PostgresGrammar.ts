@@ -1,4 +1,7 @@
 import { Grammar } from './Grammar';
+import {
+  ColumnSchema, ForeignKeySchema, IndexSchema, TableSchema,
+} from '../Builder';
 
 /**
  * PostgreSQL Schema Grammar - extends base Schema Grammar
@@ -47,6 +50,136 @@ export class PostgresGrammar extends Grammar {
     return "select tablename from pg_catalog.pg_tables where schemaname not in ('pg_catalog', 'information_schema')";
   }
 
+  /**
+   * Compile the query to describe the tables of a schema, including partitioned tables
+   */
+  compileTables(schema: string): string {
+    return 'select c.relname as name, n.nspname as schema, pg_total_relation_size(c.oid) as size, '
+      + "obj_description(c.oid, 'pg_class') as comment, null as collation, null as engine "
+      + 'from pg_class c join pg_namespace n on n.oid = c.relnamespace '
+      + `where c.relkind in ('r', 'p') and n.nspname = ${this.quoteString(schema)} order by c.relname`;
+  }
+
+  /**
+   * Compile the query to describe the views of a schema
+   */
+  compileViews(schema: string): string {
+    return 'select viewname as name, schemaname as schema, definition from pg_views '
+      + `where schemaname = ${this.quoteString(schema)} order by viewname`;
+  }
+
+  /**
+   * Compile the query to describe the columns of a table.
+   * Enum labels are read from pg_enum, since PostgreSQL enums are their own types.
+   */
+  compileColumns(schema: string, table: string): string {
+    return 'select a.attname as name, t.typname as type_name, format_type(a.atttypid, a.atttypmod) as type, '
+      + 'not a.attnotnull as nullable, pg_get_expr(d.adbin, d.adrelid) as "default", '
+      + "(a.attidentity <> '' or coalesce(pg_get_expr(d.adbin, d.adrelid), '') like 'nextval(%') as auto_increment, "
+      + '(select json_agg(e.enumlabel order by e.enumsortorder) from pg_enum e where e.enumtypid = t.oid) as enum_values, '
+      + '(select co.collname from pg_collation co where co.oid = a.attcollation and a.attcollation <> t.typcollation) as collation, '
+      + 'col_description(c.oid, a.attnum) as comment '
+      + 'from pg_attribute a '
+      + 'join pg_class c on c.oid = a.attrelid '
+      + 'join pg_namespace n on n.oid = c.relnamespace '
+      + 'join pg_type t on t.oid = a.atttypid '
+      + 'left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum '
+      + `where c.relname = ${this.quoteString(this.tablePrefix + table)} and n.nspname = ${this.quoteString(schema)} `
+      + 'and a.attnum > 0 and not a.attisdropped order by a.attnum';
+  }
+
+  /**
+   * Compile the query to describe the indexes of a table
+   */
+  compileIndexes(schema: string, table: string): string {
+    return "select ic.relname as name, string_agg(a.attname, ',' order by indseq.ord) as columns, "
+      + 'am.amname as "type", i.indisunique as "unique", i.indisprimary as "primary" '
+      + 'from pg_index i '
+      + 'join pg_class tc on tc.oid = i.indrelid '
+      + 'join pg_namespace tn on tn.oid = tc.relnamespace '
+      + 'join pg_class ic on ic.oid = i.indexrelid '
+      + 'join pg_am am on am.oid = ic.relam '
+      + 'join lateral unnest(i.indkey) with ordinality as indseq(num, ord) on true '
+      + 'left join pg_attribute a on a.attrelid = i.indrelid and a.attnum = indseq.num '
+      + `where tc.relname = ${this.quoteString(this.tablePrefix + table)} and tn.nspname = ${this.quoteString(schema)} `
+      + 'group by ic.relname, am.amname, i.indisunique, i.indisprimary';
+  }
+
+  /**
+   * Compile the query to describe the foreign keys of a table.
+   * Actions are reported as pg_constraint codes, e.g. "c" for cascade.
+   */
+  compileForeignKeys(schema: string, table: string): string {
+    return "select c.conname as name, string_agg(la.attname, ',' order by conseq.ord) as columns, "
+      + 'fn.nspname as foreign_schema, fc.relname as foreign_table, '
+      + "string_agg(fa.attname, ',' order by conseq.ord) as foreign_columns, "
+      + 'c.confupdtype as on_update, c.confdeltype as on_delete '
+      + 'from pg_constraint c '
+      + 'join pg_class tc on c.conrelid = tc.oid '
+      + 'join pg_namespace tn on tn.oid = tc.relnamespace '
+      + 'join pg_class fc on c.confrelid = fc.oid '
+      + 'join pg_namespace fn on fn.oid = fc.relnamespace '
+      + 'join lateral unnest(c.conkey) with ordinality as conseq(num, ord) on true '
+      + 'join pg_attribute la on la.attrelid = c.conrelid and la.attnum = conseq.num '
+      + 'join pg_attribute fa on fa.attrelid = c.confrelid and fa.attnum = c.confkey[conseq.ord] '
+      + `where c.contype = 'f' and tc.relname = ${this.quoteString(this.tablePrefix + table)} `
+      + `and tn.nspname = ${this.quoteString(schema)} `
+      + 'group by c.conname, fn.nspname, fc.relname, c.confupdtype, c.confdeltype';
+  }
+
+  /**
+   * Compile the statements recreating an introspected table, including its comments
+   */
+  compileTableDump(table: TableSchema, columns: ColumnSchema[], indexes: IndexSchema[], foreignKeys: ForeignKeySchema[]): string[] {
+    const statements = super.compileTableDump(table, columns, indexes, foreignKeys);
+
+    if (table.comment) {
+      statements.push(`comment on table ${this.wrapTable(table.name)} is ${this.quoteString(table.comment)}`);
+    }
+
+    for (const column of columns) {
+      if (column.comment) {
+        statements.push(`comment on column ${this.wrapTable(table.name)}.${this.wrap(column.name)} is ${this.quoteString(column.comment)}`);
+      }
+    }
+
+    return statements;
+  }
+
+  /**
+   * Compile the statement creating the enum type of an introspected column
+   */
+  compileTypeDump(column: ColumnSchema): string | null {
+    if (!column.enumValues) {
+      return null;
+    }
+
+    const labels = column.enumValues.map((value) => this.quoteString(value)).join(', ');
+
+    return `create type ${this.wrap(column.typeName)} as enum (${labels})`;
+  }
+
+  /**
+   * Compile the definition of an introspected column.
+   * Serial and identity columns become identity columns, since their sequences are not dumped.
+   */
+  protected compileDumpedColumn(column: ColumnSchema): string {
+    if (column.autoIncrement) {
+      return `${this.wrap(column.name)} ${column.type} generated by default as identity not null`;
+    }
+
+    return super.compileDumpedColumn(column);
+  }
+
+  /**
+   * Compile the statement recreating an introspected index, keeping its access method
+   */
+  protected compileDumpedIndex(table: string, index: IndexSchema): string {
+    const using = index.type && index.type !== 'btree' ? ` using ${index.type}` : '';
+
+    return `create ${index.unique ? 'unique ' : ''}index ${this.wrap(index.name)} on ${this.wrapTable(table)}${using} (${this.columnize(index.columns)})`;
+  }
+
   /**
    * Compile a rename table command (ANSI SQL - works for Postgres)
    */
@@ -54,6 +187,13 @@ export class PostgresGrammar extends Grammar {
     return `alter table ${this.wrapTable(from)} rename to ${this.wrapTable(to)}`;
   }
 
+  /**
+   * Compile a rename index command (Postgres renames indexes schema-wide)
+   */
+  compileRenameIndex(table: string, from: string, to: string): string {
+    return `alter index ${this.wrap(from)} rename to ${this.wrap(to)}`;
+  }
+
   /**
    * Compile the query to check if an index exists (Postgres catalog)
    */
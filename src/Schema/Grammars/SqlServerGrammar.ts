@@ -0,0 +1,454 @@
+import { ForeignKeyCommand, Grammar } from './Grammar';
+import { ColumnSchema, ViewSchema } from '../Builder';
+
+/**
+ * A column as handed to the grammar, built by a blueprint or read from a table
+ */
+interface CompilableColumn {
+  name: string;
+  type: string;
+  length?: number;
+  precision?: number;
+  scale?: number;
+  autoIncrement?: boolean;
+  allowed?: string[];
+  _nullable?: boolean;
+  _primary?: boolean;
+  _unique?: boolean;
+  _default?: unknown;
+  nullable?: unknown;
+  primary?: unknown;
+  unique?: unknown;
+  default?: unknown;
+}
+
+/**
+ * SQL Server Schema Grammar - extends base Schema Grammar for T-SQL DDL.
+ *
+ * Key SQL Server differences:
+ * - Identifiers are wrapped in [brackets].
+ * - No AUTO_INCREMENT — IDENTITY columns are used instead.
+ * - No UNSIGNED, ENUM or JSON types — mapped to plain / check-constrained types.
+ * - Defaults are constraints and must be dropped before their column.
+ * - Renames go through sp_rename; catalog lookups use the sys.* views.
+ */
+export class SqlServerGrammar extends Grammar {
+  /**
+   * Wrap a value in keyword identifiers (SQL Server uses brackets)
+   */
+  wrap(value: string): string {
+    if (value === '*') {
+      return value;
+    }
+
+    return `[${value.replace(/]/g, ']]')}]`;
+  }
+
+  /**
+   * Escape a string value for safe SQL interpolation (T-SQL only doubles quotes)
+   */
+  protected escapeString(value: string): string {
+    return value.replace(/'/g, "''");
+  }
+
+  /**
+   * Compile the query to determine if a table exists
+   */
+  compileTableExists(): string {
+    return "select * from sys.tables where ? = db_name() and name = ? and type = 'U'";
+  }
+
+  /**
+   * Compile the query to determine the list of columns
+   */
+  compileColumnListing(): string {
+    return 'select col.name as column_name from sys.columns as col '
+      + 'join sys.tables as obj on col.object_id = obj.object_id '
+      + 'where ? = db_name() and obj.name = ?';
+  }
+
+  /**
+   * Compile the query to get column type
+   */
+  compileColumnType(): string {
+    return 'select tp.name as data_type from sys.columns as col '
+      + 'join sys.types as tp on col.user_type_id = tp.user_type_id '
+      + 'join sys.tables as obj on col.object_id = obj.object_id '
+      + 'where ? = db_name() and obj.name = ? and col.name = ?';
+  }
+
+  /**
+   * Compile the query to check if an index exists
+   */
+  compileIndexExists(): string {
+    return 'select top 1 1 as [exists] from sys.indexes as idx '
+      + 'join sys.tables as obj on idx.object_id = obj.object_id '
+      + 'where obj.name = ? and idx.name = ?';
+  }
+
+  /**
+   * Compile the query to get all tables
+   */
+  compileGetAllTables(): string {
+    return "select name from sys.tables where type = 'U' order by name";
+  }
+
+  /**
+   * Compile the query to describe the tables of the default schema.
+   * Sizes are summed from allocated pages; comments are MS_Description properties.
+   */
+  compileTables(_schema: string): string {
+    return 'select t.name as name, schema_name(t.schema_id) as [schema], sum(u.total_pages) * 8 * 1024 as size, '
+      + 'cast(ep.value as nvarchar(max)) as comment, null as collation, null as engine '
+      + 'from sys.tables as t '
+      + 'join sys.partitions as p on p.object_id = t.object_id '
+      + 'join sys.allocation_units as u on u.container_id = p.hobt_id '
+      + 'left join sys.extended_properties as ep on ep.major_id = t.object_id '
+      + "and ep.minor_id = 0 and ep.name = 'MS_Description' "
+      + "where t.is_ms_shipped = 0 and t.name <> 'sysdiagrams' and t.schema_id = schema_id() "
+      + 'group by t.name, t.schema_id, cast(ep.value as nvarchar(max)) order by t.name';
+  }
+
+  /**
+   * Compile the query to describe the views of the default schema
+   */
+  compileViews(_schema: string): string {
+    return 'select v.name as name, schema_name(v.schema_id) as [schema], m.definition as definition '
+      + 'from sys.views as v join sys.sql_modules as m on v.object_id = m.object_id '
+      + 'where v.is_ms_shipped = 0 and v.schema_id = schema_id() order by v.name';
+  }
+
+  /**
+   * Compile the query to describe the columns of a table in the default schema
+   */
+  compileColumns(schema: string, table: string): string {
+    return 'select col.name as name, tp.name as type_name, '
+      + "tp.name + case when tp.name in ('char', 'varchar', 'binary', 'varbinary') "
+      + "then '(' + case when col.max_length = -1 then 'max' else cast(col.max_length as varchar) end + ')' "
+      + "when tp.name in ('nchar', 'nvarchar') "
+      + "then '(' + case when col.max_length = -1 then 'max' else cast(col.max_length / 2 as varchar) end + ')' "
+      + "when tp.name in ('decimal', 'numeric') "
+      + "then '(' + cast(col.precision as varchar) + ', ' + cast(col.scale as varchar) + ')' else '' end as type, "
+      + 'col.is_nullable as nullable, def.definition as [default], col.is_identity as auto_increment, '
+      + 'null as enum_values, col.collation_name as collation, cast(prop.value as nvarchar(max)) as comment '
+      + 'from sys.columns as col '
+      + 'join sys.types as tp on col.user_type_id = tp.user_type_id '
+      + 'join sys.objects as obj on col.object_id = obj.object_id '
+      + 'left join sys.default_constraints as def on col.default_object_id = def.object_id '
+      + 'left join sys.extended_properties as prop on obj.object_id = prop.major_id '
+      + "and col.column_id = prop.minor_id and prop.name = 'MS_Description' "
+      + `where obj.type in ('U', 'V') and obj.name = N${this.quoteString(this.tablePrefix + table)} `
+      + 'and obj.schema_id = schema_id() order by col.column_id';
+  }
+
+  /**
+   * Compile the query to describe the indexes of a table in the default schema
+   */
+  compileIndexes(schema: string, table: string): string {
+    return "select idx.name as name, string_agg(col.name, ',') within group (order by idxcol.key_ordinal) as columns, "
+      + 'idx.type_desc as [type], idx.is_unique as [unique], idx.is_primary_key as [primary] '
+      + 'from sys.indexes as idx '
+      + 'join sys.tables as tbl on idx.object_id = tbl.object_id '
+      + 'join sys.index_columns as idxcol on idx.object_id = idxcol.object_id and idx.index_id = idxcol.index_id '
+      + 'join sys.columns as col on idxcol.object_id = col.object_id and idxcol.column_id = col.column_id '
+      + `where tbl.name = N${this.quoteString(this.tablePrefix + table)} and tbl.schema_id = schema_id() `
+      + 'group by idx.name, idx.type_desc, idx.is_unique, idx.is_primary_key';
+  }
+
+  /**
+   * Compile the query to describe the foreign keys of a table in the default schema
+   */
+  compileForeignKeys(schema: string, table: string): string {
+    return "select fk.name as name, string_agg(lc.name, ',') within group (order by fkc.constraint_column_id) as columns, "
+      + 'fs.name as foreign_schema, ft.name as foreign_table, '
+      + "string_agg(fc.name, ',') within group (order by fkc.constraint_column_id) as foreign_columns, "
+      + 'fk.update_referential_action_desc as on_update, fk.delete_referential_action_desc as on_delete '
+      + 'from sys.foreign_keys as fk '
+      + 'join sys.foreign_key_columns as fkc on fkc.constraint_object_id = fk.object_id '
+      + 'join sys.tables as lt on lt.object_id = fk.parent_object_id '
+      + 'join sys.columns as lc on fkc.parent_object_id = lc.object_id and fkc.parent_column_id = lc.column_id '
+      + 'join sys.tables as ft on ft.object_id = fk.referenced_object_id '
+      + 'join sys.schemas as fs on ft.schema_id = fs.schema_id '
+      + 'join sys.columns as fc on fkc.referenced_object_id = fc.object_id and fkc.referenced_column_id = fc.column_id '
+      + `where lt.name = N${this.quoteString(this.tablePrefix + table)} and lt.schema_id = schema_id() `
+      + 'group by fk.name, fs.name, ft.name, fk.update_referential_action_desc, fk.delete_referential_action_desc';
+  }
+
+  /**
+   * Compile the statement recreating an introspected view (SQL Server keeps the whole statement)
+   */
+  compileViewDump(view: ViewSchema): string {
+    return view.definition.trim().replace(/;$/, '');
+  }
+
+  /**
+   * Compile the definition of an introspected column
+   */
+  protected compileDumpedColumn(column: ColumnSchema): string {
+    let sql = `${this.wrap(column.name)} ${column.type}`;
+
+    if (column.collation) {
+      sql += ` collate ${column.collation}`;
+    }
+
+    if (column.autoIncrement) {
+      sql += ' identity';
+    }
+
+    sql += column.nullable ? ' null' : ' not null';
+
+    if (column.default !== null) {
+      sql += ` default ${column.default}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile a drop table (if exists) command
+   */
+  compileDropTableIfExists(table: string): string {
+    const wrapped = this.wrapTable(table);
+    return `if object_id(N'${this.escapeString(wrapped)}', 'U') is not null drop table ${wrapped}`;
+  }
+
+  /**
+   * Compile a rename table command
+   */
+  compileRenameTable(from: string, to: string): string {
+    return `sp_rename N'${this.escapeString(this.wrapTable(from))}', N'${this.escapeString(this.tablePrefix + to)}'`;
+  }
+
+  /**
+   * Compile the command to enable foreign key constraints
+   */
+  compileEnableForeignKeyConstraints(): string {
+    return this.compileForEachTable('with check check constraint all');
+  }
+
+  /**
+   * Compile the command to disable foreign key constraints
+   */
+  compileDisableForeignKeyConstraints(): string {
+    return this.compileForEachTable('nocheck constraint all');
+  }
+
+  /**
+   * Compile an "alter table <each table> <action>" batch.
+   * Built with dynamic SQL because sp_msforeachtable's "?" placeholder
+   * would collide with parameter binding.
+   */
+  protected compileForEachTable(action: string): string {
+    return "declare @sql nvarchar(max) = N''; "
+      + "select @sql += N'alter table ' + quotename(schema_name(schema_id)) + N'.' + quotename(name) "
+      + `+ N' ${action};' from sys.tables where type = 'U'; `
+      + 'exec sp_executesql @sql;';
+  }
+
+  /**
+   * Compile an add column command
+   */
+  compileAddColumn(table: string, column: string): string {
+    return `alter table ${this.wrapTable(table)} add ${column}`;
+  }
+
+  /**
+   * Compile a drop column command.
+   * The column's default constraint is dropped first, otherwise SQL Server
+   * refuses to drop the column.
+   */
+  compileDropColumn(table: string, column: string): string {
+    return `${this.compileDropDefaultConstraint(table, column)} `
+      + `alter table ${this.wrapTable(table)} drop column ${this.wrap(column)}`;
+  }
+
+  /**
+   * Compile a batch that drops the default constraint attached to a column (if any)
+   */
+  compileDropDefaultConstraint(table: string, column: string): string {
+    const wrappedTable = this.escapeString(this.wrapTable(table));
+    const columnName = this.escapeString(column);
+
+    return "declare @sql nvarchar(max) = N''; "
+      + `select @sql += N'alter table ${wrappedTable} drop constraint ' + quotename(object_name(default_object_id)) + N';' `
+      + `from sys.columns where object_id = object_id(N'${wrappedTable}') and name = N'${columnName}' and default_object_id <> 0; `
+      + 'exec sp_executesql @sql;';
+  }
+
+  /**
+   * Compile a rename column command
+   */
+  compileRenameColumn(table: string, from: string, to: string): string {
+    const source = `${this.wrapTable(table)}.${this.wrap(from)}`;
+    return `sp_rename N'${this.escapeString(source)}', N'${this.escapeString(to)}', N'COLUMN'`;
+  }
+
+  /**
+   * Compile a rename index command
+   */
+  compileRenameIndex(table: string, from: string, to: string): string {
+    const source = `${this.wrapTable(table)}.${this.wrap(from)}`;
+    return `sp_rename N'${this.escapeString(source)}', N'${this.escapeString(to)}', N'INDEX'`;
+  }
+
+  /**
+   * Compile a modify column command
+   */
+  compileModifyColumn(table: string, column: string): string {
+    return `alter table ${this.wrapTable(table)} alter column ${column}`;
+  }
+
+  /**
+   * Compile a foreign key command.
+   * T-SQL has no RESTRICT action; NO ACTION is the equivalent.
+   */
+  compileForeign(table: string, definition: ForeignKeyCommand): string {
+    const normalise = (action?: string) => (
+      action && action.toLowerCase() === 'restrict' ? 'no action' : action
+    );
+
+    return super.compileForeign(table, {
+      ...definition,
+      onDelete: normalise(definition.onDelete),
+      onUpdate: normalise(definition.onUpdate),
+    });
+  }
+
+  /**
+   * Compile a column definition from a ColumnDefinition object (SQL Server-specific)
+   */
+  compileColumn(column: CompilableColumn): string {
+    let sql = `${this.wrap(column.name)} ${this.getType(column)}`;
+
+    const type = column.type.toLowerCase();
+    const isIdentity = type === 'increments' || type === 'bigincrements' || column.autoIncrement;
+
+    // Blueprint columns carry underscored flags; columns read from a table carry plain ones
+    const flag = (value: unknown) => (typeof value === 'boolean' ? value : undefined);
+    const nullable = column._nullable ?? flag(column.nullable);
+    const primary = column._primary ?? flag(column.primary) ?? false;
+    const unique = column._unique ?? flag(column.unique) ?? false;
+    const defaultVal = column._default !== undefined ? column._default : column.default;
+
+    if (isIdentity) {
+      sql += ' identity';
+    }
+
+    if (nullable === false || primary || isIdentity) {
+      sql += ' not null';
+    } else if (nullable) {
+      sql += ' null';
+    }
+
+    if (defaultVal !== undefined && defaultVal !== null) {
+      sql += ` default ${this.wrapDefaultValue(defaultVal)}`;
+    }
+
+    if (primary) {
+      sql += ' primary key';
+    }
+
+    if (unique) {
+      sql += ' unique';
+    }
+
+    if (type === 'enum' && Array.isArray(column.allowed)) {
+      const allowed = column.allowed.map((v) => `N'${this.escapeString(v)}'`).join(', ');
+      sql += ` check (${this.wrap(column.name)} in (${allowed}))`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Get the SQL type for a column (SQL Server-specific)
+   */
+  protected getType(column: CompilableColumn): string {
+    const type = column.type.toLowerCase();
+
+    switch (type) {
+      case 'increments':
+        return 'int';
+      case 'bigincrements':
+        return 'bigint';
+      case 'string':
+      case 'varchar':
+        return `nvarchar(${column.length || 255})`;
+      case 'char':
+        return `nchar(${column.length || 255})`;
+      case 'text':
+      case 'mediumtext':
+      case 'longtext':
+        return 'nvarchar(max)';
+      case 'integer':
+      case 'int':
+      case 'mediuminteger':
+      case 'mediumint':
+        return 'int';
+      case 'biginteger':
+      case 'bigint':
+        return 'bigint';
+      case 'tinyinteger':
+      case 'tinyint':
+        return 'tinyint';
+      case 'smallinteger':
+      case 'smallint':
+        return 'smallint';
+      case 'float':
+        return column.precision ? `float(${Math.min(column.precision, 53)})` : 'float';
+      case 'double':
+        return 'float';
+      case 'decimal':
+        return `decimal(${column.precision || 8}, ${column.scale || 2})`;
+      case 'boolean':
+        return 'bit';
+      case 'date':
+        return 'date';
+      case 'datetime':
+      case 'timestamp':
+        return 'datetime2';
+      case 'time':
+        return 'time';
+      case 'year':
+        return 'int';
+      case 'binary':
+        return 'varbinary(max)';
+      case 'uuid':
+        return 'uniqueidentifier';
+      case 'ulid':
+        return 'nchar(26)';
+      case 'enum':
+      case 'set':
+        return 'nvarchar(255)';
+      case 'json':
+      case 'jsonb':
+        return 'nvarchar(max)';
+      case 'ipaddress':
+        return 'nvarchar(45)';
+      case 'macaddress':
+        return 'nvarchar(17)';
+      case 'geometry':
+      case 'point':
+      case 'linestring':
+      case 'polygon':
+        return 'geometry';
+      default:
+        return type;
+    }
+  }
+
+  /**
+   * Wrap a default value (booleans become bit literals, strings are N'' literals)
+   */
+  protected wrapDefaultValue(value: unknown): string {
+    if (typeof value === 'boolean') {
+      return value ? '1' : '0';
+    }
+
+    if (typeof value === 'string') {
+      return `N'${this.escapeString(value)}'`;
+    }
+
+    return super.wrapDefaultValue(value);
+  }
+}
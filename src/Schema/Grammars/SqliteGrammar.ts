@@ -1,4 +1,7 @@
 import { Grammar } from './Grammar';
+import {
+  ColumnSchema, ForeignKeySchema, IndexSchema, ViewSchema,
+} from '../Builder';
 
 /**
  * SQLite Schema Grammar - extends base Schema Grammar for SQLite-specific DDL.
@@ -64,6 +67,125 @@ export class SqliteGrammar extends Grammar {
     return "select name from sqlite_master where type = 'table' and name not like 'sqlite_%'";
   }
 
+  /**
+   * Compile the query to describe the tables of the database.
+   * SQLite keeps no sizes or comments in its catalog.
+   */
+  compileTables(_schema: string): string {
+    return 'select name, null as schema, null as size, null as comment, null as collation, null as engine '
+      + "from sqlite_master where type = 'table' and name not like 'sqlite_%' order by name";
+  }
+
+  /**
+   * Compile the query to describe the views of the database
+   */
+  compileViews(_schema: string): string {
+    return "select name, null as schema, sql as definition from sqlite_master where type = 'view' order by name";
+  }
+
+  /**
+   * Compile the query to describe the columns of a table.
+   * A lone integer primary key is SQLite's rowid alias, and so auto-increments.
+   */
+  compileColumns(schema: string, table: string): string {
+    const name = this.quoteString(this.tablePrefix + table);
+
+    return 'select name, type as type_name, type, not "notnull" as nullable, dflt_value as "default", '
+      + `(pk = 1 and lower(type) = 'integer' and (select count(*) from pragma_table_info(${name}) where pk > 0) = 1) as auto_increment, `
+      + `null as enum_values, null as collation, null as comment from pragma_table_info(${name}) order by cid`;
+  }
+
+  /**
+   * Compile the query to describe the indexes of a table.
+   * A rowid primary key has no index of its own, so it is read from the table info.
+   */
+  compileIndexes(schema: string, table: string): string {
+    const name = this.quoteString(this.tablePrefix + table);
+
+    return 'select \'primary\' as name, group_concat(col) as columns, null as type, 1 as "unique", 1 as "primary" '
+      + `from (select name as col from pragma_table_info(${name}) where pk > 0 order by pk, cid) group by name `
+      + 'union select name, group_concat(col) as columns, null as type, "unique", origin = \'pk\' as "primary" '
+      + `from (select il.*, ii.name as col from pragma_index_list(${name}) il, pragma_index_info(il.name) ii `
+      + 'order by il.seq, ii.seqno) group by name, "unique", "primary"';
+  }
+
+  /**
+   * Compile the query to describe the foreign keys of a table (SQLite does not name them)
+   */
+  compileForeignKeys(schema: string, table: string): string {
+    return 'select null as name, group_concat("from") as columns, null as foreign_schema, "table" as foreign_table, '
+      + 'group_concat("to") as foreign_columns, on_update, on_delete '
+      + `from (select * from pragma_foreign_key_list(${this.quoteString(this.tablePrefix + table)}) order by id desc, seq) `
+      + 'group by id, "table", on_update, on_delete';
+  }
+
+  /**
+   * Compile the statements adding an introspected table's foreign keys.
+   * SQLite cannot add foreign keys to an existing table, so they are dumped inline instead.
+   */
+  compileForeignKeysDump(_table: string, _foreignKeys: ForeignKeySchema[]): string[] {
+    return [];
+  }
+
+  /**
+   * Compile the statement recreating an introspected view (SQLite keeps the whole statement)
+   */
+  compileViewDump(view: ViewSchema): string {
+    return view.definition.trim().replace(/;$/, '');
+  }
+
+  /**
+   * Compile the definition of an introspected column
+   */
+  protected compileDumpedColumn(column: ColumnSchema): string {
+    let sql = `${this.wrap(column.name)} ${column.type}`.trim();
+
+    if (column.autoIncrement) {
+      sql += ' primary key autoincrement';
+    }
+
+    if (!column.nullable) {
+      sql += ' not null';
+    }
+
+    if (column.default !== null) {
+      sql += ` default ${column.default}`;
+    }
+
+    return sql;
+  }
+
+  /**
+   * Compile the table constraints of an introspected table, including its foreign keys.
+   * An auto-incrementing primary key is already declared on its column.
+   */
+  protected compileDumpedConstraints(columns: ColumnSchema[], indexes: IndexSchema[], foreignKeys: ForeignKeySchema[]): string[] {
+    const constraints = columns.some((column) => column.autoIncrement)
+      ? []
+      : super.compileDumpedConstraints(columns, indexes, foreignKeys);
+
+    for (const foreignKey of foreignKeys) {
+      const references = foreignKey.foreignColumns.length > 0 ? ` (${this.columnize(foreignKey.foreignColumns)})` : '';
+
+      constraints.push(`foreign key (${this.columnize(foreignKey.columns)}) references ${this.wrap(foreignKey.foreignTable)}${references} `
+        + `on update ${foreignKey.onUpdate} on delete ${foreignKey.onDelete}`);
+    }
+
+    return constraints;
+  }
+
+  /**
+   * Compile the statement recreating an introspected index. Indexes SQLite created
+   * for unique constraints cannot be created by name, so they are renamed.
+   */
+  protected compileDumpedIndex(table: string, index: IndexSchema): string {
+    const name = index.name.startsWith('sqlite_autoindex_')
+      ? `${this.tablePrefix}${table}_${index.columns.join('_')}_unique`
+      : index.name;
+
+    return super.compileDumpedIndex(table, { ...index, name });
+  }
+
   /**
    * Compile the query to check if an index exists
    */
@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Connection } from '../Connection/Connection';
+
+/**
+ * Schema Dumper - writes the schema of a database as SQL, built from introspection
+ * rather than pg_dump or mysqldump, and loads it back into an empty database
+ */
+export class SchemaDumper {
+  protected connection: Connection;
+
+  protected migrationTable: string;
+
+  constructor(connection: Connection, migrationTable = 'migrations') {
+    this.connection = connection;
+    this.migrationTable = migrationTable;
+  }
+
+  /**
+   * Get the statements recreating the schema: types, tables and indexes, foreign keys,
+   * views, and finally the rows of the migrations table
+   */
+  async compile(): Promise<string[]> {
+    const schema = this.connection.getSchemaBuilder();
+    const grammar = this.connection.getSchemaGrammar();
+    const prefix = this.connection.getTablePrefix();
+
+    const tables = (await schema.getTables())
+      .filter((table) => table.name.startsWith(prefix))
+      .map((table) => ({ ...table, name: table.name.slice(prefix.length) }));
+
+    const described = await Promise.all(tables.map(async (table) => ({
+      table,
+      columns: await schema.getColumns(table.name),
+      indexes: await schema.getIndexes(table.name),
+      foreignKeys: await schema.getForeignKeys(table.name),
+    })));
+
+    const types = new Set<string>();
+    const creates: string[] = [];
+    const constraints: string[] = [];
+
+    described.forEach(({
+      table, columns, indexes, foreignKeys,
+    }) => {
+      columns.forEach((column) => {
+        const type = grammar.compileTypeDump(column);
+
+        if (type) {
+          types.add(type);
+        }
+      });
+
+      creates.push(...grammar.compileTableDump(table, columns, indexes, foreignKeys));
+      constraints.push(...grammar.compileForeignKeysDump(table.name, foreignKeys));
+    });
+
+    const views = (await schema.getViews()).map((view) => grammar.compileViewDump(view));
+
+    const migrations = tables.some((table) => table.name === this.migrationTable)
+      ? await this.connection.table(this.migrationTable).select('migration', 'batch').orderBy('id').get()
+      : [];
+
+    return [
+      ...types,
+      ...creates,
+      ...constraints,
+      ...views,
+      ...migrations.map((row) => grammar.compileInsertDump(this.migrationTable, {
+        migration: row.migration,
+        batch: Number(row.batch),
+      })),
+    ];
+  }
+
+  /**
+   * Dump the schema to the given file and return its path
+   */
+  async dump(filePath: string): Promise<string> {
+    const statements = await this.compile();
+    const directory = path.dirname(filePath);
+
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    const header = `-- Schema of the "${this.connection.getName()}" connection, dumped by "guruorm schema:dump".`;
+    fs.writeFileSync(filePath, `${header}\n\n${statements.map((statement) => `${statement};\n\n`).join('')}`);
+
+    return filePath;
+  }
+
+  /**
+   * Run the statements of a schema file against the connection
+   */
+  async load(filePath: string): Promise<void> {
+    for (const statement of this.parse(fs.readFileSync(filePath, 'utf8'))) {
+      await this.connection.unprepared(statement);
+    }
+  }
+
+  /**
+   * Split a schema file into statements. Statements end with a semicolon
+   * followed by a blank line; comment lines before a statement are dropped.
+   */
+  protected parse(contents: string): string[] {
+    return contents
+      .replace(/\r\n/g, '\n')
+      .split(/;\n\n/)
+      .map((statement) => statement.replace(/^(--[^\n]*\n)+/, '').trim().replace(/;$/, ''))
+      .filter((statement) => statement.length > 0 && !statement.startsWith('--'));
+  }
+}
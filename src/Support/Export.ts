@@ -0,0 +1,110 @@
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Options for streaming rows out as CSV
+ */
+export interface CsvExportOptions {
+  /**
+   * Columns to export, in order. Defaults to the keys of the first row.
+   */
+  columns?: string[];
+
+  /**
+   * Write a header line with the column names. Defaults to true.
+   */
+  headers?: boolean;
+
+  /**
+   * Field delimiter. Defaults to ",".
+   */
+  delimiter?: string;
+}
+
+/**
+ * Build a single CSV line, quoting fields that contain the delimiter, quotes or line breaks
+ */
+function csvLine(fields: string[], delimiter: string): string {
+  const escaped = fields.map((field) => (
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+  ));
+
+  return `${escaped.join(delimiter)}\n`;
+}
+
+/**
+ * Format a value for a CSV field: dates as ISO-8601, objects and arrays as JSON
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return value.toString('base64');
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+/**
+ * Stream rows into the writable as CSV and resolve with the number of rows written.
+ * The writable is ended once every row has been flushed.
+ */
+export async function exportCsv(
+  rows: AsyncIterable<unknown>,
+  writable: Writable,
+  options: CsvExportOptions = {},
+): Promise<number> {
+  const { headers = true, delimiter = ',' } = options;
+  let columns = options.columns || null;
+  let count = 0;
+
+  const lines = new Transform({
+    writableObjectMode: true,
+    transform(row: Record<string, unknown>, _encoding, callback) {
+      if (!columns) {
+        columns = Object.keys(row);
+      }
+
+      const header = count === 0 && headers ? csvLine(columns, delimiter) : '';
+      count += 1;
+      callback(null, header + csvLine(columns.map((column) => formatValue(row[column])), delimiter));
+    },
+    flush(callback) {
+      callback(null, count === 0 && headers && columns ? csvLine(columns, delimiter) : undefined);
+    },
+  });
+
+  await pipeline(Readable.from(rows), lines, writable);
+
+  return count;
+}
+
+/**
+ * Stream rows into the writable as newline-delimited JSON and resolve with
+ * the number of rows written. The writable is ended once every row has been flushed.
+ */
+export async function exportNdjson(rows: AsyncIterable<unknown>, writable: Writable): Promise<number> {
+  let count = 0;
+
+  const lines = new Transform({
+    writableObjectMode: true,
+    transform(row, _encoding, callback) {
+      count += 1;
+      callback(null, `${JSON.stringify(row)}\n`);
+    },
+  });
+
+  await pipeline(Readable.from(rows), lines, writable);
+
+  return count;
+}
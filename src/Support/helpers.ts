@@ -44,6 +44,25 @@ export function studlyCase(str: string): string {
   return camel.charAt(0).toUpperCase() + camel.slice(1);
 }
 
+/**
+ * Get the singular form of a regular English plural, e.g. a table name
+ */
+export function singular(str: string): string {
+  if (/ies$/i.test(str)) {
+    return `${str.slice(0, -3)}y`;
+  }
+
+  if (/(ss|x|z|ch|sh|tus)es$/i.test(str)) {
+    return str.slice(0, -2);
+  }
+
+  if (/[^s]s$/i.test(str)) {
+    return str.slice(0, -1);
+  }
+
+  return str;
+}
+
 /**
  * Get the value of a nested object property using "dot" notation
  */
@@ -9,15 +9,22 @@ export * from './Connection/SqliteConnection';
 export * from './Connection/SqlServerConnection';
 
 export { Builder as QueryBuilder } from './Query/Builder';
+export type { ColumnOf, SelectedRow } from './Query/Builder';
 export * from './Query/Expression';
 export * from './Query/JoinClause';
+export * from './Query/WindowClause';
 
 export { Builder as SchemaBuilder } from './Schema/Builder';
+export type {
+  TableSchema, ViewSchema, ColumnSchema, IndexSchema, ForeignKeySchema,
+} from './Schema/Builder';
 export * from './Schema/Blueprint';
+export * from './Schema/SchemaDumper';
 export { Grammar as SchemaGrammar } from './Schema/Grammars/Grammar';
 export { Grammar as MySqlSchemaGrammar } from './Schema/Grammars/MySqlGrammar';
 export { PostgresGrammar as PostgresSchemaGrammar } from './Schema/Grammars/PostgresGrammar';
 export { SqliteGrammar as SqliteSchemaGrammar } from './Schema/Grammars/SqliteGrammar';
+export { SqlServerGrammar as SqlServerSchemaGrammar } from './Schema/Grammars/SqlServerGrammar';
 
 export * from './Eloquent/Model';
 export { Builder as EloquentBuilder } from './Eloquent/Builder';
@@ -48,6 +55,10 @@ export { HasManyThrough } from './Eloquent/Relations/HasManyThrough';
 export { MorphOne } from './Eloquent/Relations/MorphOne';
 export { MorphMany } from './Eloquent/Relations/MorphMany';
 export { MorphTo } from './Eloquent/Relations/MorphTo';
+export { MorphToMany } from './Eloquent/Relations/MorphToMany';
+export { HasManyDeep } from './Eloquent/Relations/HasManyDeep';
+export { Pivot } from './Eloquent/Relations/Pivot';
+export { MorphPivot } from './Eloquent/Relations/MorphPivot';
 
 export * from './Migrations/Migration';
 export * from './Migrations/Migrator';
@@ -62,6 +73,7 @@ export { Collection } from './Support/Collection';
 export * from './Support/helpers';
 export type { QueryLog, QueryListener } from './Support/QueryLogger';
 export { QueryLogger } from './Support/QueryLogger';
+export type { CsvExportOptions } from './Support/Export';
 
 // Errors — structured exception hierarchy
 export {
@@ -145,6 +157,21 @@ const Schema = {
   hasColumn: async (table: string, column: string) => {
     return Manager.getInstance().schema().hasColumn(table, column);
   },
+  getTables: async () => {
+    return Manager.getInstance().schema().getTables();
+  },
+  getViews: async () => {
+    return Manager.getInstance().schema().getViews();
+  },
+  getColumns: async (table: string) => {
+    return Manager.getInstance().schema().getColumns(table);
+  },
+  getIndexes: async (table: string) => {
+    return Manager.getInstance().schema().getIndexes(table);
+  },
+  getForeignKeys: async (table: string) => {
+    return Manager.getInstance().schema().getForeignKeys(table);
+  },
   rename: async (from: string, to: string) => {
     return Manager.getInstance().schema().rename(from, to);
   },
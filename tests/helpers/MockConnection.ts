@@ -22,12 +22,16 @@ import { ConnectionConfig } from '../../src/Connection/ConnectionInterface';
 
 export interface MockConnection {
   select: jest.Mock;
+  cursor: jest.Mock;
   insert: jest.Mock;
   update: jest.Mock;
   delete: jest.Mock;
   statement: jest.Mock;
   affectingStatement: jest.Mock;
+  recordsHaveBeenModified: jest.Mock;
   unprepared: jest.Mock;
+  bulkLoad: jest.Mock;
+  transaction: jest.Mock;
   raw: jest.Mock;
   getQueryGrammar: () => MySqlGrammar;
   getPostProcessor: () => Processor;
@@ -73,12 +77,16 @@ export function createMockConnection(
 
   return {
     select: jest.fn().mockResolvedValue([]),
+    cursor: jest.fn(async function* cursor() {}),
     insert: jest.fn().mockResolvedValue(true),
     update: jest.fn().mockResolvedValue(0),
     delete: jest.fn().mockResolvedValue(0),
     statement: jest.fn().mockResolvedValue(true),
     affectingStatement: jest.fn().mockResolvedValue(0),
+    recordsHaveBeenModified: jest.fn(),
     unprepared: jest.fn().mockResolvedValue(true),
+    bulkLoad: jest.fn().mockResolvedValue(0),
+    transaction: jest.fn((callback: () => Promise<any>) => callback()),
     raw: jest.fn((val) => ({
       getValue: () => val,
       toString: () => String(val),
@@ -0,0 +1,121 @@
+/**
+ * Tests for DatabaseInspector — describing the database for "db:show" and "db:table".
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DatabaseInspector } from '../../../src/CLI/DatabaseInspector';
+
+function makeConnection(driver = 'pgsql'): any {
+  const schema = {
+    getTables: jest.fn().mockResolvedValue([
+      {
+        name: 'app_flights', schema: 'public', size: 16384, comment: null, collation: null, engine: null,
+      },
+      {
+        name: 'app_users', schema: 'public', size: 8192, comment: 'People', collation: null, engine: null,
+      },
+      {
+        name: 'other', schema: 'public', size: 1024, comment: null, collation: null, engine: null,
+      },
+    ]),
+    getColumns: jest.fn().mockResolvedValue([{
+      name: 'id', typeName: 'int8', type: 'bigint', nullable: false, default: null, autoIncrement: true, enumValues: null, collation: null, comment: null,
+    }]),
+    getIndexes: jest.fn().mockResolvedValue([{
+      name: 'users_pkey', columns: ['id'], type: 'btree', unique: true, primary: true,
+    }]),
+    getForeignKeys: jest.fn().mockResolvedValue([]),
+  };
+
+  const counts: Record<string, number> = { flights: 3, users: 12 };
+  const config: Record<string, any> = {
+    host: 'localhost', port: '5432', username: 'forge', database: 'app',
+  };
+
+  return {
+    getName: () => 'pgsql',
+    getDriverName: () => driver,
+    getDatabaseName: () => config.database,
+    getConfig: (option: string) => config[option],
+    getTablePrefix: () => 'app_',
+    getSchemaBuilder: () => schema,
+    table: (table: string) => ({ count: jest.fn().mockResolvedValue(counts[table]) }),
+    select: jest.fn(async (query: string) => (
+      query.includes('server_version') ? [{ version: '16.2' }] : [{ connections: '4' }]
+    )),
+  };
+}
+
+describe('CLI / DatabaseInspector', () => {
+  test('show describes the server and the tables of the connection', async () => {
+    const summary = await new DatabaseInspector(makeConnection()).show();
+
+    expect(summary).toEqual({
+      connection: 'pgsql',
+      driver: 'pgsql',
+      version: '16.2',
+      database: 'app',
+      host: 'localhost',
+      port: 5432,
+      username: 'forge',
+      openConnections: 4,
+      size: 24576,
+      tables: [
+        {
+          name: 'flights', schema: 'public', size: 16384, rows: 3, comment: null,
+        },
+        {
+          name: 'users', schema: 'public', size: 8192, rows: 12, comment: 'People',
+        },
+      ],
+    });
+  });
+
+  test('show leaves out what the driver cannot tell', async () => {
+    const connection = makeConnection('sqlite');
+    connection.select.mockRejectedValue(new Error('no such function'));
+
+    const summary = await new DatabaseInspector(connection).show();
+
+    expect(summary.version).toBeNull();
+    expect(summary.openConnections).toBeNull();
+    expect(summary.size).toBeNull();
+  });
+
+  test('formatShow lists the tables with their rows and sizes', async () => {
+    const inspector = new DatabaseInspector(makeConnection());
+    const output = inspector.formatShow(await inspector.show());
+
+    expect(output).toMatch(/^PostgreSQL 16\.2\n/);
+    expect(output).toMatch(/Open Connections \.+ 4\n/);
+    expect(output).toMatch(/Total Size \.+ 24\.00 KB\n/);
+    expect(output).toMatch(/public\.users \.+ 12 \/ 8\.00 KB\n/);
+  });
+
+  test('table describes the columns, keys and model of a table', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'guruorm-models-'));
+    fs.mkdirSync(path.join(directory, 'Admin'));
+    fs.writeFileSync(path.join(directory, 'Flight.ts'), 'class Flight extends Model {}\n');
+    fs.writeFileSync(path.join(directory, 'Admin', 'Member.ts'), "class Member extends Model {\n  protected table = 'users';\n}\n");
+
+    try {
+      const inspector = new DatabaseInspector(makeConnection(), [directory]);
+      const users = await inspector.table('users');
+
+      expect(users.rows).toBe(12);
+      expect(users.columns.map((column) => column.name)).toEqual(['id']);
+      expect(users.indexes[0].primary).toBe(true);
+      expect(users.model).toBe('Member');
+      expect((await inspector.table('flights')).model).toBe('Flight');
+      expect(inspector.formatTable(users)).toMatch(/Model \.+ Member\n/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('table fails for unknown tables', async () => {
+    await expect(new DatabaseInspector(makeConnection()).table('missing'))
+      .rejects.toThrow('Table [missing] does not exist.');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for ModelMaker — generating model classes, optionally from an existing table.
+ */
+import { ModelMaker } from '../../../src/CLI/ModelMaker';
+import { ColumnSchema, ForeignKeySchema, IndexSchema } from '../../../src/Schema/Builder';
+
+function column(name: string, typeName: string, extra: Partial<ColumnSchema> = {}): ColumnSchema {
+  return {
+    name, typeName, type: typeName, nullable: false, default: null, autoIncrement: false, enumValues: null, collation: null, comment: null, ...extra,
+  };
+}
+
+function primary(...columns: string[]): IndexSchema {
+  return {
+    name: 'primary', columns, type: null, unique: true, primary: true,
+  };
+}
+
+function foreign(columns: string[], foreignTable: string, foreignColumns = ['id']): ForeignKeySchema {
+  return {
+    name: null, columns, foreignSchema: null, foreignTable, foreignColumns, onUpdate: 'no action', onDelete: 'cascade',
+  };
+}
+
+interface TableFixture {
+  columns: ColumnSchema[];
+  indexes?: IndexSchema[];
+  foreignKeys?: ForeignKeySchema[];
+}
+
+function makeConnection(tables: Record<string, TableFixture>, prefix = ''): any {
+  const schema = {
+    getAllTables: jest.fn().mockResolvedValue(Object.keys(tables)),
+    getColumns: jest.fn(async (table: string) => tables[prefix + table]?.columns || []),
+    getIndexes: jest.fn(async (table: string) => tables[prefix + table]?.indexes || []),
+    getForeignKeys: jest.fn(async (table: string) => tables[prefix + table]?.foreignKeys || []),
+  };
+
+  return {
+    getSchemaBuilder: () => schema,
+    getTablePrefix: () => prefix,
+  };
+}
+
+describe('CLI / ModelMaker', () => {
+  const maker = new ModelMaker();
+
+  test('create generates an empty model', () => {
+    const { fileName, className, contents } = maker.create('flight_log');
+
+    expect(className).toBe('FlightLog');
+    expect(fileName).toBe('FlightLog.ts');
+    expect(contents).toBe([
+      "import { Model } from 'guruorm';",
+      '',
+      'class FlightLog extends Model {',
+      '  protected fillable: string[] = [];',
+      '}',
+      '',
+      'export default FlightLog;',
+      '',
+    ].join('\n'));
+  });
+
+  test('createFromTable infers fillable, casts and relations', async () => {
+    const connection = makeConnection({
+      users: { columns: [column('id', 'bigint', { autoIncrement: true })], indexes: [primary('id')] },
+      posts: {
+        columns: [
+          column('id', 'bigint', { autoIncrement: true }),
+          column('user_id', 'bigint'),
+          column('title', 'varchar'),
+          column('is_published', 'tinyint', { type: 'tinyint(1)' }),
+          column('meta', 'json', { nullable: true }),
+          column('published_at', 'timestamp', { nullable: true }),
+          column('created_at', 'timestamp', { nullable: true }),
+          column('updated_at', 'timestamp', { nullable: true }),
+        ],
+        indexes: [primary('id')],
+        foreignKeys: [foreign(['user_id'], 'users')],
+      },
+      comments: {
+        columns: [column('id', 'bigint', { autoIncrement: true }), column('post_id', 'bigint')],
+        indexes: [primary('id')],
+        foreignKeys: [foreign(['post_id'], 'posts')],
+      },
+    });
+
+    const { className, contents } = await maker.createFromTable('Post', connection);
+
+    expect(className).toBe('Post');
+    expect(contents).toBe([
+      "import { Model } from 'guruorm';",
+      "import Comment from './Comment';",
+      "import User from './User';",
+      '',
+      'class Post extends Model {',
+      "  protected table = 'posts';",
+      '',
+      '  protected fillable = [',
+      "    'user_id',",
+      "    'title',",
+      "    'is_published',",
+      "    'meta',",
+      "    'published_at',",
+      '  ];',
+      '',
+      '  protected casts = {',
+      "    is_published: 'boolean',",
+      "    meta: 'json',",
+      "    published_at: 'datetime',",
+      '  };',
+      '',
+      '  /**',
+      '   * Get the user that owns the post.',
+      '   */',
+      '  user() {',
+      "    return this.belongsTo(User, 'user_id');",
+      '  }',
+      '',
+      '  /**',
+      '   * Get the comments of the post.',
+      '   */',
+      '  comments() {',
+      "    return this.hasMany(Comment, 'post_id');",
+      '  }',
+      '}',
+      '',
+      'export default Post;',
+      '',
+    ].join('\n'));
+  });
+
+  test('createFromTable detects key settings, timestamps and soft deletes', async () => {
+    const connection = makeConnection({
+      documents: {
+        columns: [
+          column('uuid', 'char', { type: 'char(36)' }),
+          column('title', 'varchar'),
+          column('deleted_at', 'timestamp', { nullable: true }),
+        ],
+        indexes: [primary('uuid')],
+      },
+    });
+
+    const { contents } = await maker.createFromTable('Document', connection);
+
+    expect(contents).toContain("import { SoftDeleteModel } from 'guruorm';");
+    expect(contents).toContain('class Document extends SoftDeleteModel {');
+    expect(contents).toContain("  protected primaryKey = 'uuid';");
+    expect(contents).toContain("  protected keyType = 'string';");
+    expect(contents).toContain('  protected incrementing = false;');
+    expect(contents).toContain('  protected timestamps = false;');
+    expect(contents).toContain("    'uuid',\n    'title',\n  ];");
+  });
+
+  test('createFromTable names relations after their columns and handles self references', async () => {
+    const connection = makeConnection({
+      app_users: { columns: [column('id', 'int', { autoIncrement: true })], indexes: [primary('id')] },
+      app_categories: {
+        columns: [
+          column('id', 'int', { autoIncrement: true }),
+          column('parent_id', 'int', { nullable: true }),
+          column('author_id', 'int'),
+          column('editor_id', 'int'),
+          column('owner_code', 'varchar'),
+        ],
+        indexes: [primary('id')],
+        foreignKeys: [
+          foreign(['parent_id'], 'app_categories'),
+          foreign(['author_id'], 'app_users'),
+          foreign(['editor_id'], 'app_users'),
+          foreign(['owner_code'], 'app_users', ['code']),
+          foreign(['author_id', 'editor_id'], 'app_users', ['a', 'b']),
+        ],
+      },
+    }, 'app_');
+
+    const { contents } = await maker.createFromTable('Category', connection, 'categories');
+
+    expect(contents).toContain("  protected table = 'categories';");
+    expect(contents).toContain("  parent() {\n    return this.belongsTo(Category, 'parent_id');");
+    expect(contents).toContain("  author() {\n    return this.belongsTo(User, 'author_id');");
+    expect(contents).toContain("  editor() {\n    return this.belongsTo(User, 'editor_id');");
+    expect(contents).toContain("  user() {\n    return this.belongsTo(User, 'owner_code', 'code');");
+    expect(contents).toContain("  categories() {\n    return this.hasMany(Category, 'parent_id');");
+    expect(contents).not.toContain("import Category from './Category';");
+    expect(contents.match(/^  \w+\(\) \{$/gm)).toHaveLength(5);
+  });
+
+  test('createFromTable fails for a missing table', async () => {
+    await expect(maker.createFromTable('Ghost', makeConnection({}))).rejects.toThrow('Table [ghosts] does not exist.');
+  });
+});
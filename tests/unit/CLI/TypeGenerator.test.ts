@@ -0,0 +1,140 @@
+/**
+ * Tests for TypeGenerator — generating TypeScript interfaces from introspected columns.
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TypeGenerator } from '../../../src/CLI/TypeGenerator';
+import { ColumnSchema } from '../../../src/Schema/Builder';
+
+function column(name: string, typeName: string, extra: Partial<ColumnSchema> = {}): ColumnSchema {
+  return {
+    name, typeName, type: typeName, nullable: false, default: null, autoIncrement: false, enumValues: null, collation: null, comment: null, ...extra,
+  };
+}
+
+function makeConnection(driver: string, tables: Record<string, ColumnSchema[]>, prefix = ''): any {
+  const schema = {
+    getAllTables: jest.fn().mockResolvedValue(Object.keys(tables)),
+    getColumns: jest.fn(async (table: string) => tables[prefix + table]),
+  };
+
+  return {
+    getSchemaBuilder: () => schema,
+    getTablePrefix: () => prefix,
+    getDriverName: () => driver,
+  };
+}
+
+describe('CLI / TypeGenerator', () => {
+  test('generates row and attribute interfaces per table', async () => {
+    const connection = makeConnection('mysql', {
+      users: [
+        column('id', 'bigint', { autoIncrement: true }),
+        column('name', 'varchar'),
+        column('bio', 'text', { nullable: true }),
+        column('status', 'enum', { default: 'active', enumValues: ['active', 'banned'] }),
+        column('balance', 'decimal'),
+        column('created_at', 'timestamp', { nullable: true }),
+      ],
+    });
+
+    const contents = await new TypeGenerator(connection).generate();
+
+    expect(contents).toContain([
+      'export interface UsersTable {',
+      '  id: number;',
+      '  name: string;',
+      '  bio: string | null;',
+      "  status: 'active' | 'banned';",
+      '  balance: string;',
+      '  created_at: Date | null;',
+      '}',
+    ].join('\n'));
+
+    expect(contents).toContain([
+      'export interface UserAttributes {',
+      '  id?: number;',
+      '  name: string;',
+      '  bio?: string | null;',
+      "  status?: 'active' | 'banned';",
+      '  balance: string;',
+      '  created_at?: Date | null;',
+      '}',
+    ].join('\n'));
+  });
+
+  test('skips the migrations table, strips the prefix and sorts tables', async () => {
+    const connection = makeConnection('sqlite', {
+      app_posts: [column('id', 'integer')],
+      app_migrations: [column('id', 'integer')],
+      app_comments: [column('id', 'integer')],
+      other: [column('id', 'integer')],
+    }, 'app_');
+
+    const contents = await new TypeGenerator(connection).generate();
+
+    expect(contents.match(/export interface \w+Table/g)).toEqual([
+      'export interface CommentsTable',
+      'export interface PostsTable',
+    ]);
+  });
+
+  test('maps driver specific types', async () => {
+    const connection = makeConnection('pgsql', {
+      events: [
+        column('id', 'int8'),
+        column('active', 'bool'),
+        column('tags', '_text', { type: 'text[]' }),
+        column('payload', 'jsonb'),
+        column('location', 'point'),
+        column('first-name', 'varchar'),
+      ],
+    });
+
+    const contents = await new TypeGenerator(connection).generate();
+
+    expect(contents).toContain('  id: string;');
+    expect(contents).toContain('  active: boolean;');
+    expect(contents).toContain('  tags: string[];');
+    expect(contents).toContain('  payload: unknown;');
+    expect(contents).toContain('  location: unknown;');
+    expect(contents).toContain("  'first-name': string;");
+  });
+
+  it.each([
+    ['mysql', 'number', 'string'],
+    ['pgsql', 'string', 'string'],
+    ['sqlite', 'number', 'number'],
+    ['sqlserver', 'string', 'number'],
+  ])('maps bigint and decimal to the %s driver values', async (driver, bigint, decimal) => {
+    const decimalType = driver === 'pgsql' ? 'numeric' : 'decimal';
+    const connection = makeConnection(driver, {
+      amounts: [column('id', 'bigint'), column('total', decimalType)],
+    });
+
+    const contents = await new TypeGenerator(connection).generate();
+
+    expect(contents).toContain(`  id: ${bigint};`);
+    expect(contents).toContain(`  total: ${decimal};`);
+  });
+
+  test('check compares the file on disk with the current schema', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'guruorm-types-'));
+    const filePath = path.join(directory, 'nested', 'types.ts');
+    const tables = { posts: [column('id', 'int')] };
+    const generator = new TypeGenerator(makeConnection('mysql', tables));
+
+    try {
+      expect(await generator.check(filePath)).toBe(false);
+
+      await generator.write(filePath);
+      expect(await generator.check(filePath)).toBe(true);
+
+      tables.posts.push(column('title', 'varchar'));
+      expect(await generator.check(filePath)).toBe(false);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,6 +1,7 @@
 import { Connection } from '../../../src/Connection/Connection';
 import { Expression } from '../../../src/Query/Expression';
-import { QueryException } from '../../../src/Errors/GuruORMError';
+import { GuruORMError, QueryException } from '../../../src/Errors/GuruORMError';
+import { Grammar as MySqlGrammar } from '../../../src/Query/Grammars/MySqlGrammar';
 
 /**
  * Concrete mock subclass of abstract Connection for testing.
@@ -22,6 +23,10 @@ class MockConnection extends Connection {
     return this.selectResults;
   }
 
+  async *cursor(query: string, bindings?: any[]): AsyncGenerator<any> {
+    yield* this.selectResults;
+  }
+
   async insert(query: string, bindings?: any[]): Promise<boolean> {
     return this.insertResult;
   }
@@ -56,6 +61,11 @@ class MockConnection extends Connection {
   getDriverName(): string { return 'mock'; }
 }
 
+function deadlock(): QueryException {
+  const error = Object.assign(new Error('Deadlock found'), { errno: 1213 });
+  return new QueryException(error.message, 'UPDATE t SET x = 1', [], error, 'default', 'mysql');
+}
+
 describe('Connection / Connection (abstract base — via MockConnection)', () => {
   let conn: MockConnection;
 
@@ -180,7 +190,7 @@ describe('Connection / Connection (abstract base — via MockConnection)', () =>
       let attempt = 0;
       const result = await conn.transaction(async () => {
         attempt++;
-        if (attempt < 3) throw new Error('retry');
+        if (attempt < 3) throw deadlock();
         return 'success';
       }, 3);
       expect(result).toBe('success');
@@ -188,7 +198,128 @@ describe('Connection / Connection (abstract base — via MockConnection)', () =>
     });
   });
 
+  // ---- transaction options ----
+  describe('transaction options', () => {
+    test('does not retry errors other than deadlocks and serialization failures', async () => {
+      const callback = jest.fn().mockRejectedValue(new Error('constraint'));
+      await expect(conn.transaction(callback, { attempts: 3 })).rejects.toThrow('constraint');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(conn.transactionLevel()).toBe(0);
+    });
+
+    test('gives up after the given attempts', async () => {
+      const callback = jest.fn().mockRejectedValue(deadlock());
+      await expect(conn.transaction(callback, { attempts: 2 })).rejects.toBeInstanceOf(QueryException);
+      expect(callback).toHaveBeenCalledTimes(2);
+    });
+
+    test('calls onRetry and waits for the backoff before each retry', async () => {
+      const onRetry = jest.fn();
+      const backoff = jest.fn().mockReturnValue(0);
+      let attempt = 0;
+      await conn.transaction(async () => {
+        attempt++;
+        if (attempt < 3) throw deadlock();
+      }, { attempts: 3, onRetry, backoff });
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenLastCalledWith(expect.any(QueryException), 2);
+      expect(backoff.mock.calls).toEqual([[1], [2]]);
+    });
+
+    test('does not retry a nested transaction on its own', async () => {
+      const inner = jest.fn().mockRejectedValue(deadlock());
+      await expect(conn.transaction(async () => {
+        await conn.transaction(inner, { attempts: 3 });
+      })).rejects.toBeInstanceOf(QueryException);
+      expect(inner).toHaveBeenCalledTimes(1);
+    });
+
+    test('passes options to createTransaction', async () => {
+      const spy = jest.spyOn(conn as any, 'createTransaction');
+      await conn.transaction(async () => 'ok', { isolationLevel: 'serializable', readOnly: true });
+      expect(spy).toHaveBeenCalledWith(expect.objectContaining({ isolationLevel: 'serializable', readOnly: true }));
+    });
+
+    test('compileIsolationLevel normalizes and validates levels', () => {
+      expect((conn as any).compileIsolationLevel('Repeatable  Read')).toBe('REPEATABLE READ');
+      expect(() => (conn as any).compileIsolationLevel('serializable; drop table users')).toThrow(GuruORMError);
+    });
+  });
+
   // ---- config ----
+  // ---- transaction callbacks ----
+  describe('afterCommit / afterRollback', () => {
+    test('afterCommit runs immediately without an open transaction', async () => {
+      const cb = jest.fn();
+      await conn.afterCommit(cb);
+      expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test('afterRollback runs immediately without an open transaction', async () => {
+      const cb = jest.fn();
+      await conn.afterRollback(cb);
+      expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test('afterCommit waits for the outermost commit', async () => {
+      const cb = jest.fn();
+      await conn.beginTransaction();
+      await conn.beginTransaction();
+      await conn.afterCommit(cb);
+      await conn.commit();
+      expect(cb).not.toHaveBeenCalled();
+      await conn.commit();
+      expect(cb).toHaveBeenCalledTimes(1);
+    });
+
+    test('afterCommit callbacks are discarded when their savepoint rolls back', async () => {
+      const outer = jest.fn();
+      const inner = jest.fn();
+      await conn.transaction(async () => {
+        await conn.afterCommit(outer);
+        await conn.transaction(async () => {
+          await conn.afterCommit(inner);
+          throw new Error('inner');
+        }).catch(() => undefined);
+      });
+      expect(outer).toHaveBeenCalledTimes(1);
+      expect(inner).not.toHaveBeenCalled();
+    });
+
+    test('afterCommit callbacks are discarded on full rollback', async () => {
+      const cb = jest.fn();
+      await expect(conn.transaction(async () => {
+        await conn.afterCommit(cb);
+        throw new Error('fail');
+      })).rejects.toThrow('fail');
+      expect(cb).not.toHaveBeenCalled();
+    });
+
+    test('afterRollback runs when its level rolls back, not on commit', async () => {
+      const rolledBack = jest.fn();
+      const committed = jest.fn();
+      await conn.transaction(async () => {
+        await conn.afterRollback(committed);
+        await conn.transaction(async () => {
+          await conn.afterRollback(rolledBack);
+          throw new Error('inner');
+        }).catch(() => undefined);
+      });
+      expect(rolledBack).toHaveBeenCalledTimes(1);
+      expect(committed).not.toHaveBeenCalled();
+    });
+
+    test('a failing afterCommit callback is not retried', async () => {
+      const callback = jest.fn().mockResolvedValue('ok');
+      await expect(conn.transaction(async () => {
+        await conn.afterCommit(() => { throw new Error('hook'); });
+        return callback();
+      }, 3)).rejects.toThrow('hook');
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(conn.transactionLevel()).toBe(0);
+    });
+  });
+
   describe('getConfig', () => {
     test('returns full config when no option', () => {
       const config = conn.getConfig();
@@ -363,6 +494,120 @@ describe('Connection / Connection (abstract base — via MockConnection)', () =>
     });
   });
 
+  // ---- read / write splitting ----
+  describe('read / write splitting', () => {
+    function replicated(config: any = {}) {
+      const connection = new MockConnection({
+        host: 'primary',
+        read: { host: ['replica-1', 'replica-2'] },
+        ...config,
+      });
+      (connection as any).client = 'primary';
+      (connection as any).readClients = ['replica-1', 'replica-2'];
+      return connection;
+    }
+
+    test('expands every read host into its own config', () => {
+      const connection = new MockConnection({
+        host: 'primary',
+        username: 'app',
+        read: [{ host: ['r1', 'r2'] }, { host: 'r3', port: 5433 }],
+      });
+      const configs = (connection as any).getReadConfigs();
+      expect(configs.map((c: any) => c.host)).toEqual(['r1', 'r2', 'r3']);
+      expect(configs[2].port).toBe(5433);
+      expect(configs[0].username).toBe('app');
+      expect(configs[0].read).toBeUndefined();
+    });
+
+    test('merges the write section over the base config', () => {
+      const connection = new MockConnection({ host: 'base', username: 'app', write: { host: ['w1'], password: 'secret' } });
+      expect((connection as any).getWriteConfig()).toMatchObject({ host: 'w1', username: 'app', password: 'secret' });
+    });
+
+    test('uses the base host when no read/write sections are configured', () => {
+      const connection = new MockConnection({ host: 'base' });
+      expect((connection as any).getWriteConfig().host).toBe('base');
+      expect((connection as any).getReadConfigs()).toEqual([]);
+    });
+
+    test('round-robin strategy cycles through replicas', () => {
+      const connection = replicated({ readStrategy: 'round-robin' });
+      expect([1, 2, 3].map(() => connection.getReadClient())).toEqual(['replica-1', 'replica-2', 'replica-1']);
+    });
+
+    test('random strategy picks one of the replicas', () => {
+      const connection = replicated();
+      expect(['replica-1', 'replica-2']).toContain(connection.getReadClient());
+    });
+
+    test('reads go to the primary inside a transaction', async () => {
+      const connection = replicated();
+      await connection.transaction(async () => {
+        expect(connection.getReadClient()).toBe('primary');
+      });
+      expect(connection.getReadClient()).not.toBe('primary');
+    });
+
+    test('sticky reads go to the primary after a write', () => {
+      const connection = replicated({ sticky: true });
+
+      connection.runInRequestScope(() => {
+        connection.recordsHaveBeenModified(false);
+        expect(connection.getReadClient()).not.toBe('primary');
+        connection.recordsHaveBeenModified();
+        expect(connection.getReadClient()).toBe('primary');
+        connection.forgetRecordModificationState();
+        expect(connection.getReadClient()).not.toBe('primary');
+      });
+    });
+
+    test('writes outside of a request scope do not make later reads sticky', () => {
+      const connection = replicated({ sticky: true });
+      connection.recordsHaveBeenModified();
+
+      expect(connection.hasModifiedRecords()).toBe(false);
+      expect(connection.getReadClient()).not.toBe('primary');
+    });
+
+    test('consecutive request scopes do not share the flag', async () => {
+      const connection = replicated({ sticky: true });
+
+      await connection.runInRequestScope(async () => {
+        connection.recordsHaveBeenModified();
+        expect(connection.getReadClient()).toBe('primary');
+      });
+      await connection.runInRequestScope(async () => {
+        expect(connection.hasModifiedRecords()).toBe(false);
+        expect(connection.getReadClient()).not.toBe('primary');
+      });
+    });
+
+    test('reads ignore writes when sticky is off', () => {
+      const connection = replicated();
+      connection.recordsHaveBeenModified();
+      expect(connection.getReadClient()).not.toBe('primary');
+    });
+
+    test('request scopes track writes separately', async () => {
+      const connection = replicated({ sticky: true });
+
+      await Promise.all([
+        connection.runInRequestScope(async () => {
+          connection.recordsHaveBeenModified();
+          await Promise.resolve();
+          expect(connection.getReadClient()).toBe('primary');
+        }),
+        connection.runInRequestScope(async () => {
+          await Promise.resolve();
+          expect(connection.hasModifiedRecords()).toBe(false);
+          expect(connection.getReadClient()).not.toBe('primary');
+        }),
+      ]);
+      expect(connection.hasModifiedRecords()).toBe(false);
+    });
+  });
+
   // ---- postProcessResponse ----
   describe('postProcessResponse', () => {
     test('returns result directly when no hook', () => {
@@ -378,6 +623,59 @@ describe('Connection / Connection (abstract base — via MockConnection)', () =>
     });
   });
 
+  // ---- bulkLoad ----
+  describe('bulkLoad', () => {
+    beforeEach(() => {
+      conn.setQueryGrammar(new MySqlGrammar());
+    });
+
+    test('inserts chunked batches inside one transaction', async () => {
+      const levels: number[] = [];
+      const insert = jest.spyOn(conn, 'insert').mockImplementation(async () => {
+        levels.push(conn.transactionLevel());
+        return true;
+      });
+      const rows = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }];
+
+      const count = await conn.bulkLoad('users', rows, { batchSize: 2 });
+
+      expect(count).toBe(3);
+      expect(insert).toHaveBeenCalledTimes(2);
+      expect(insert.mock.calls[0]).toEqual(['insert into `users` (`id`, `name`) values (?, ?), (?, ?)', [1, 'a', 2, 'b']]);
+      expect(insert.mock.calls[1]).toEqual(['insert into `users` (`id`, `name`) values (?, ?)', [3, 'c']]);
+      expect(levels).toEqual([1, 1]);
+    });
+
+    test('accepts async iterables and aligns every row on the loaded columns', async () => {
+      const insert = jest.spyOn(conn, 'insert').mockResolvedValue(true);
+      async function* rows() {
+        yield { id: 1, name: 'a', ignored: true };
+        yield { name: 'b', id: 2 };
+      }
+
+      await conn.bulkLoad('users', rows(), { columns: ['id', 'name'] });
+
+      expect(insert.mock.calls[0][1]).toEqual([1, 'a', 2, 'b']);
+    });
+
+    test('loads nothing for an empty iterable', async () => {
+      const insert = jest.spyOn(conn, 'insert');
+      expect(await conn.bulkLoad('users', [])).toBe(0);
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    test('encodes rows in the COPY / LOAD DATA text format', () => {
+      const line = (conn as any).bulkLoadLine({
+        a: null,
+        b: 'tab\there\nnew \\ line',
+        c: true,
+        d: new Date('2024-05-03T10:00:00Z'),
+        e: { x: 1 },
+      });
+      expect(line).toBe('\\N\ttab\\there\\nnew \\\\ line\t1\t2024-05-03T10:00:00.000Z\t{"x":1}\n');
+    });
+  });
+
   // ---- useNullAsDefault ----
   describe('useNullAsDefault', () => {
     test('returns false by default', () => {
@@ -4,9 +4,16 @@
  */
 
 // ---- Mock mysql2/promise ----
+// mockMySqlConnection simulates the dedicated PoolConnection checked out for transactions.
+const mockMySqlConnection = {
+  execute: jest.fn().mockResolvedValue([{ affectedRows: 1 }, []]),
+  query:   jest.fn().mockResolvedValue([[], []]),
+  release: jest.fn(),
+};
 const mockPool = {
   execute: jest.fn().mockResolvedValue([[{ id: 1 }], []]),
   query: jest.fn().mockResolvedValue([[{ id: 1 }], []]),
+  getConnection: jest.fn().mockResolvedValue(mockMySqlConnection),
   end: jest.fn().mockResolvedValue(undefined),
 };
 
@@ -32,8 +39,33 @@ jest.mock('pg', () => ({
   Pool: jest.fn().mockReturnValue(mockPgPool),
 }));
 
+// ---- Mock pg-copy-streams ----
+// Each COPY stream collects what was written to it and reports the line count as rowCount.
+jest.mock('pg-copy-streams', () => {
+  const { Writable } = require('stream');
+  return {
+    from: jest.fn((sql: string) => {
+      const chunks: string[] = [];
+      const stream: any = new Writable({
+        write(chunk: Buffer, _encoding: string, callback: () => void) {
+          chunks.push(chunk.toString());
+          callback();
+        },
+        final(callback: () => void) {
+          stream.rowCount = chunks.join('').split('\n').length - 1;
+          callback();
+        },
+      });
+      stream.sql = sql;
+      stream.output = () => chunks.join('');
+      return stream;
+    }),
+  };
+});
+
 import { MySqlConnection } from '../../../src/Connection/MySqlConnection';
 import { PostgresConnection } from '../../../src/Connection/PostgresConnection';
+import { QueryException } from '../../../src/Errors/GuruORMError';
 
 const baseConfig = {
   driver: 'mysql' as any,
@@ -151,9 +183,43 @@ describe('Connection / MySqlConnection', () => {
     await expect(conn.unprepared('BAD SQL')).rejects.toThrow();
   });
 
-  test('createTransaction runs START TRANSACTION', async () => {
+  test('createTransaction checks out a connection and runs START TRANSACTION', async () => {
     await (conn as any).createTransaction();
-    expect(mockPool.query).toHaveBeenCalledWith('START TRANSACTION');
+    expect(mockPool.getConnection).toHaveBeenCalled();
+    expect(mockMySqlConnection.query).toHaveBeenCalledWith('START TRANSACTION');
+    expect(conn.getClient()).toBe(mockMySqlConnection);
+  });
+
+  test('createTransaction with existing transactions creates savepoint', async () => {
+    await conn.beginTransaction();
+    await conn.beginTransaction();
+    expect(mockPool.getConnection).toHaveBeenCalledTimes(1);
+    expect(mockMySqlConnection.query).toHaveBeenCalledWith('SAVEPOINT sp1');
+  });
+
+  test('createTransaction applies isolation level and read-only mode', async () => {
+    await (conn as any).createTransaction({ isolationLevel: 'serializable', readOnly: true });
+    expect(mockMySqlConnection.query.mock.calls.map((call) => call[0])).toEqual([
+      'SET TRANSACTION ISOLATION LEVEL SERIALIZABLE',
+      'START TRANSACTION READ ONLY',
+    ]);
+  });
+
+  test('commit releases the dedicated connection', async () => {
+    await conn.beginTransaction();
+    await conn.commit();
+    expect(mockMySqlConnection.query).toHaveBeenCalledWith('COMMIT');
+    expect(mockMySqlConnection.release).toHaveBeenCalled();
+    expect(conn.getClient()).toBe(mockPool);
+  });
+
+  test('transaction runs callback queries on the dedicated connection', async () => {
+    await conn.transaction(async () => {
+      await conn.update('UPDATE users SET active = ?', [1]);
+    });
+    expect(mockMySqlConnection.execute).toHaveBeenCalledWith('UPDATE users SET active = ?', [1]);
+    expect(mockPool.execute).not.toHaveBeenCalled();
+    expect(mockMySqlConnection.release).toHaveBeenCalled();
   });
 
   test('performCommit runs COMMIT', async () => {
@@ -161,6 +227,24 @@ describe('Connection / MySqlConnection', () => {
     expect(mockPool.query).toHaveBeenCalledWith('COMMIT');
   });
 
+  test('a failed COMMIT rolls back on the dedicated connection before releasing it', async () => {
+    const connection = {
+      execute: jest.fn(),
+      query: jest.fn(async (sql: string) => {
+        if (sql === 'COMMIT') throw new Error('Deadlock found');
+        return [[], []];
+      }),
+      release: jest.fn(),
+    };
+    mockPool.getConnection.mockResolvedValueOnce(connection);
+
+    await expect(conn.transaction(async () => 'done')).rejects.toThrow('Deadlock found');
+
+    expect(connection.query.mock.calls.map(([sql]) => sql)).toEqual(['START TRANSACTION', 'COMMIT', 'ROLLBACK']);
+    expect(connection.release).toHaveBeenCalledTimes(1);
+    expect(mockPool.query).not.toHaveBeenCalledWith('ROLLBACK');
+  });
+
   test('performRollBack level 0 runs ROLLBACK', async () => {
     await (conn as any).performRollBack(0);
     expect(mockPool.query).toHaveBeenCalledWith('ROLLBACK');
@@ -293,34 +377,470 @@ describe('Connection / PostgresConnection', () => {
   test('createTransaction with existing transactions creates savepoint', async () => {
     // Simulate an already-checked-out client (transactions > 0)
     (conn as any).transactions = 1;
-    (conn as any)._txClient = mockPgClient;
+    (conn as any).transactionState.client = mockPgClient;
     mockPgClient.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
     await (conn as any).createTransaction();
     expect(mockPgClient.query).toHaveBeenCalledWith('SAVEPOINT sp2');
   });
 
   test('performCommit runs COMMIT', async () => {
-    (conn as any)._txClient = mockPgClient;
+    (conn as any).transactionState.client = mockPgClient;
     mockPgClient.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
     await (conn as any).performCommit();
     expect(mockPgClient.query).toHaveBeenCalledWith('COMMIT');
     expect(mockPgClient.release).toHaveBeenCalled();
-    expect((conn as any)._txClient).toBeNull();
+    expect(conn.getClient()).toBe(mockPgPool);
   });
 
   test('performRollBack level 0 runs ROLLBACK', async () => {
-    (conn as any)._txClient = mockPgClient;
+    (conn as any).transactionState.client = mockPgClient;
     mockPgClient.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
     await (conn as any).performRollBack(0);
     expect(mockPgClient.query).toHaveBeenCalledWith('ROLLBACK');
     expect(mockPgClient.release).toHaveBeenCalled();
-    expect((conn as any)._txClient).toBeNull();
+    expect(conn.getClient()).toBe(mockPgPool);
   });
 
   test('performRollBack level > 0 runs ROLLBACK TO SAVEPOINT', async () => {
-    (conn as any)._txClient = mockPgClient;
+    (conn as any).transactionState.client = mockPgClient;
     mockPgClient.query.mockResolvedValueOnce({ rows: [], rowCount: 0 });
     await (conn as any).performRollBack(2);
     expect(mockPgClient.query).toHaveBeenCalledWith('ROLLBACK TO SAVEPOINT sp3');
   });
+
+  test('createTransaction applies isolation level and read-only mode', async () => {
+    await (conn as any).createTransaction({ isolationLevel: 'repeatable read', readOnly: true });
+    expect(mockPgClient.query).toHaveBeenCalledWith('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+  });
+
+  test('createTransaction releases the client when BEGIN fails', async () => {
+    mockPgClient.query.mockRejectedValueOnce(new Error('begin failed'));
+    await expect(conn.beginTransaction()).rejects.toThrow('begin failed');
+    expect(mockPgClient.release).toHaveBeenCalled();
+    expect(conn.transactionLevel()).toBe(0);
+    expect(conn.getClient()).toBe(mockPgPool);
+  });
+
+  test('concurrent transactions each run on their own client', async () => {
+    const clientA = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }), release: jest.fn() };
+    const clientB = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 1 }), release: jest.fn() };
+    mockPgPool.connect.mockResolvedValueOnce(clientA).mockResolvedValueOnce(clientB);
+
+    let releaseA!: () => void;
+    const gate = new Promise<void>((resolve) => { releaseA = resolve; });
+
+    const first = conn.transaction(async () => {
+      await gate;
+      await conn.update('UPDATE a SET x = ?', [1]);
+      return conn.transactionLevel();
+    });
+
+    const second = conn.transaction(async () => {
+      await conn.update('UPDATE b SET x = ?', [2]);
+      releaseA();
+      return conn.transactionLevel();
+    });
+
+    expect(await Promise.all([first, second])).toEqual([1, 1]);
+    expect(clientA.query).toHaveBeenCalledWith('UPDATE a SET x = $1', [1]);
+    expect(clientB.query).toHaveBeenCalledWith('UPDATE b SET x = $1', [2]);
+    expect(clientA.query).not.toHaveBeenCalledWith('UPDATE b SET x = $1', [2]);
+    expect(clientA.release).toHaveBeenCalled();
+    expect(clientB.release).toHaveBeenCalled();
+    expect(conn.transactionLevel()).toBe(0);
+  });
+
+  test('queries outside a transaction callback keep using the pool', async () => {
+    let resume!: () => void;
+    const gate = new Promise<void>((resolve) => { resume = resolve; });
+
+    const transaction = conn.transaction(async () => {
+      await conn.select('SELECT 1');
+      await gate;
+    });
+
+    await new Promise((resolve) => setImmediate(resolve));
+    await conn.select('SELECT 2');
+    resume();
+    await transaction;
+
+    expect(mockPgClient.query).toHaveBeenCalledWith('SELECT 1', []);
+    expect(mockPgClient.query).not.toHaveBeenCalledWith('SELECT 2', []);
+    expect(mockPgPool.query).toHaveBeenCalledWith('SELECT 2', []);
+  });
+
+  test('a failed COMMIT rolls back on the transaction client and surfaces the database error', async () => {
+    const client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql === 'COMMIT') {
+          throw Object.assign(new Error('could not serialize access'), { code: '40001' });
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      release: jest.fn(),
+    };
+    mockPgPool.connect.mockResolvedValueOnce(client);
+
+    await expect(conn.transaction(async () => {
+      await conn.update('UPDATE users SET a = 1');
+    })).rejects.toThrow('could not serialize access');
+
+    expect(client.query.mock.calls.map(([sql]) => sql)).toEqual(['BEGIN', 'UPDATE users SET a = 1', 'COMMIT', 'ROLLBACK']);
+    expect(client.release).toHaveBeenCalledTimes(1);
+    expect(conn.transactionLevel()).toBe(0);
+  });
+
+  test('retries a serialization failure raised at COMMIT', async () => {
+    let commits = 0;
+    mockPgClient.query.mockImplementation(async (sql: string) => {
+      if (sql === 'COMMIT' && ++commits === 1) {
+        throw Object.assign(new Error('could not serialize access due to read/write dependencies'), { code: '40001' });
+      }
+      return { rows: [], rowCount: 0 };
+    });
+    const callback = jest.fn().mockResolvedValue('done');
+
+    try {
+      await expect(conn.transaction(callback, { attempts: 3, isolationLevel: 'serializable' })).resolves.toBe('done');
+    } finally {
+      mockPgClient.query.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+    }
+
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(mockPgClient.release).toHaveBeenCalledTimes(2);
+  });
+
+  test('wraps COMMIT errors in a QueryException', async () => {
+    (conn as any).transactionState.client = mockPgClient;
+    mockPgClient.query.mockRejectedValueOnce(Object.assign(new Error('serialization failure'), { code: '40001' }));
+
+    const error = await (conn as any).performCommit().catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(QueryException);
+    expect(error.errorCode).toBe('40001');
+    expect(error.causedByConcurrencyError()).toBe(true);
+  });
+
+  test('performRollBack level 0 does nothing once the client is released', async () => {
+    await expect((conn as any).performRollBack(0)).resolves.toBeUndefined();
+    expect(mockPgClient.query).not.toHaveBeenCalled();
+  });
+});
+
+// ======== Read / write splitting ========
+describe('Connection / PostgresConnection read replicas', () => {
+  const { Pool } = jest.requireMock('pg');
+  const replica = () => ({
+    query: jest.fn().mockResolvedValue({ rows: [{ from: 'replica' }], rowCount: 0 }),
+    end:   jest.fn().mockResolvedValue(undefined),
+  });
+  let conn: PostgresConnection;
+  let replicaA: ReturnType<typeof replica>;
+  let replicaB: ReturnType<typeof replica>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    replicaA = replica();
+    replicaB = replica();
+    Pool.mockReturnValueOnce(mockPgPool).mockReturnValueOnce(replicaA).mockReturnValueOnce(replicaB);
+    conn = new PostgresConnection({
+      ...baseConfig,
+      driver: 'pgsql' as any,
+      write: { host: 'primary' },
+      read: { host: ['replica-a', 'replica-b'] },
+      readStrategy: 'round-robin',
+      sticky: true,
+    });
+  });
+
+  test('creates one pool per host', () => {
+    expect(Pool.mock.calls.map((call: any[]) => call[0].host)).toEqual(['primary', 'replica-a', 'replica-b']);
+  });
+
+  test('spreads selects across the replicas', async () => {
+    await conn.select('SELECT 1');
+    await conn.select('SELECT 2');
+    expect(replicaA.query).toHaveBeenCalledWith('SELECT 1', []);
+    expect(replicaB.query).toHaveBeenCalledWith('SELECT 2', []);
+    expect(mockPgPool.query).not.toHaveBeenCalled();
+  });
+
+  test('runs selects on the primary when the write connection is requested', async () => {
+    await conn.select('SELECT 1', [], false);
+    expect(mockPgPool.query).toHaveBeenCalledWith('SELECT 1', []);
+  });
+
+  test('sticks to the primary after a write in the same request scope', async () => {
+    mockPgPool.query.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+    await conn.runInRequestScope(async () => {
+      await conn.update('UPDATE users SET a = 1');
+      await conn.select('SELECT 1');
+    });
+    await conn.runInRequestScope(() => conn.select('SELECT 2'));
+
+    expect(mockPgPool.query).toHaveBeenCalledWith('SELECT 1', []);
+    expect(replicaA.query).toHaveBeenCalledWith('SELECT 2', []);
+  });
+
+  test('disconnect ends every pool', async () => {
+    await conn.disconnect();
+    expect(mockPgPool.end).toHaveBeenCalled();
+    expect(replicaA.end).toHaveBeenCalled();
+    expect(replicaB.end).toHaveBeenCalled();
+  });
+});
+
+// ======== Streaming cursors ========
+describe('Connection / streaming cursors', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPgPool.connect.mockResolvedValue(mockPgClient);
+  });
+
+  async function collect(rows: AsyncGenerator<any>, limit = Infinity): Promise<any[]> {
+    const results: any[] = [];
+    for await (const row of rows) {
+      results.push(row);
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+
+  describe('PostgresConnection', () => {
+    let conn: PostgresConnection;
+
+    beforeEach(() => {
+      conn = new PostgresConnection({ ...baseConfig, driver: 'pgsql' as any, cursorBatchSize: 2 });
+      const batches = [[{ id: 1 }, { id: 2 }], [{ id: 3 }]];
+      mockPgClient.query.mockImplementation(async (sql: string) => (
+        sql.startsWith('FETCH') ? { rows: batches.shift() || [] } : { rows: [], rowCount: 0 }
+      ));
+    });
+
+    afterEach(() => {
+      mockPgClient.query.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+    });
+
+    const statements = () => mockPgClient.query.mock.calls.map((call: any[]) => call[0].replace(/_\d+/, '_n'));
+
+    test('fetches batches from a server-side cursor on a dedicated client', async () => {
+      const rows = await collect(conn.cursor('SELECT * FROM users WHERE id > ?', [0]));
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(statements()).toEqual([
+        'BEGIN',
+        'DECLARE guruorm_cursor_n NO SCROLL CURSOR FOR SELECT * FROM users WHERE id > $1',
+        'FETCH 2 FROM guruorm_cursor_n',
+        'FETCH 2 FROM guruorm_cursor_n',
+        'COMMIT',
+      ]);
+      expect(mockPgClient.query.mock.calls[1][1]).toEqual([0]);
+      expect(mockPgClient.release).toHaveBeenCalledTimes(1);
+      expect(mockPgPool.query).not.toHaveBeenCalled();
+    });
+
+    test('stops fetching and releases the client when the consumer breaks early', async () => {
+      const rows = await collect(conn.cursor('SELECT * FROM users'), 1);
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect(statements().filter((sql: string) => sql.startsWith('FETCH'))).toHaveLength(1);
+      expect(statements()[statements().length - 1]).toBe('COMMIT');
+      expect(mockPgClient.release).toHaveBeenCalledTimes(1);
+    });
+
+    test('reuses the transaction client and only closes the cursor', async () => {
+      await conn.transaction(async () => {
+        await collect(conn.cursor('SELECT * FROM users'));
+        expect(mockPgClient.release).not.toHaveBeenCalled();
+      });
+
+      expect(statements()).toEqual([
+        'BEGIN',
+        'DECLARE guruorm_cursor_n NO SCROLL CURSOR FOR SELECT * FROM users',
+        'FETCH 2 FROM guruorm_cursor_n',
+        'FETCH 2 FROM guruorm_cursor_n',
+        'CLOSE guruorm_cursor_n',
+        'COMMIT',
+      ]);
+      expect(mockPgPool.connect).toHaveBeenCalledTimes(1);
+    });
+
+    test('rolls back and wraps errors raised while declaring the cursor', async () => {
+      mockPgClient.query.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('DECLARE')) throw new Error('syntax error');
+        return { rows: [] };
+      });
+
+      await expect(collect(conn.cursor('SELEC 1'))).rejects.toThrow(/syntax error/);
+      expect(statements()[statements().length - 1]).toBe('ROLLBACK');
+      expect(mockPgClient.release).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('MySqlConnection', () => {
+    const { EventEmitter } = require('events');
+    const { Readable } = require('stream');
+
+    function streamingConnection(rows: any[]) {
+      const command = new EventEmitter();
+      const core = {
+        query: jest.fn(() => command),
+        resume: jest.fn(() => command.emit('end')),
+      };
+      command.stream = jest.fn(() => {
+        const stream = Readable.from(rows);
+        stream.on('end', () => command.emit('end'));
+        return stream;
+      });
+      return { command, core, connection: { connection: core, release: jest.fn(), destroy: jest.fn() } };
+    }
+
+    let conn: MySqlConnection;
+
+    beforeEach(() => {
+      conn = new MySqlConnection({ ...baseConfig, cursorBatchSize: 50 });
+    });
+
+    test('streams rows and returns the connection to the pool', async () => {
+      const { command, core, connection } = streamingConnection([{ id: 1 }, { id: 2 }]);
+      mockPool.getConnection.mockResolvedValueOnce(connection);
+
+      const rows = await collect(conn.cursor('SELECT * FROM users WHERE id > ?', [0]));
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(core.query).toHaveBeenCalledWith('SELECT * FROM users WHERE id > ?', [0]);
+      expect(command.stream).toHaveBeenCalledWith({ highWaterMark: 50 });
+      expect(connection.release).toHaveBeenCalled();
+      expect(connection.destroy).not.toHaveBeenCalled();
+    });
+
+    test('destroys a connection left mid-result by an early break', async () => {
+      const { connection } = streamingConnection([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      mockPool.getConnection.mockResolvedValueOnce(connection);
+
+      const rows = await collect(conn.cursor('SELECT * FROM users'), 1);
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect(connection.destroy).toHaveBeenCalled();
+      expect(connection.release).not.toHaveBeenCalled();
+    });
+
+    test('drains the rest of the result inside a transaction', async () => {
+      const { core, connection } = streamingConnection([{ id: 1 }, { id: 2 }]);
+      mockPool.getConnection.mockResolvedValueOnce({ ...connection, query: jest.fn().mockResolvedValue([[], []]) });
+
+      await conn.transaction(async () => {
+        await collect(conn.cursor('SELECT * FROM users'), 1);
+      });
+
+      expect(core.resume).toHaveBeenCalled();
+      expect(connection.destroy).not.toHaveBeenCalled();
+      expect(mockPool.getConnection).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+// ======== Bulk loading ========
+describe('Connection / bulk loading', () => {
+  const rows = [
+    { id: 1, name: 'Ada', bio: 'line\nbreak' },
+    { id: 2, name: 'Linus', bio: null },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPgPool.connect.mockResolvedValue(mockPgClient);
+  });
+
+  describe('PostgresConnection', () => {
+    let conn: PostgresConnection;
+
+    beforeEach(() => {
+      conn = new PostgresConnection({ ...baseConfig, driver: 'pgsql' as any });
+      mockPgClient.query.mockImplementation((query: any) => (
+        typeof query === 'string' ? Promise.resolve({ rows: [], rowCount: 0 }) : query
+      ));
+    });
+
+    afterEach(() => {
+      mockPgClient.query.mockReset().mockResolvedValue({ rows: [], rowCount: 0 });
+    });
+
+    test('streams rows through COPY FROM STDIN on a dedicated client', async () => {
+      const count = await conn.runInRequestScope(async () => {
+        const loaded = await conn.bulkLoad('users', rows);
+        expect(conn.hasModifiedRecords()).toBe(true);
+        return loaded;
+      });
+      const stream = mockPgClient.query.mock.calls[0][0];
+
+      expect(count).toBe(2);
+      expect(stream.sql).toBe('copy "users" ("id", "name", "bio") from stdin');
+      expect(stream.output()).toBe('1\tAda\tline\\nbreak\n2\tLinus\t\\N\n');
+      expect(mockPgClient.release).toHaveBeenCalledWith(false);
+    });
+
+    test('copies on the transaction client when called inside a transaction', async () => {
+      await conn.transaction(async () => {
+        await conn.bulkLoad('users', rows);
+        expect(mockPgClient.release).not.toHaveBeenCalled();
+      });
+
+      expect(mockPgPool.connect).toHaveBeenCalledTimes(1);
+    });
+
+    test('discards the client when the rows fail midway', async () => {
+      async function* failing() {
+        yield { id: 1 };
+        throw new Error('bad source');
+      }
+
+      await expect(conn.bulkLoad('users', failing(), { batchSize: 1 })).rejects.toThrow('bad source');
+      expect(mockPgClient.release).toHaveBeenCalledWith(true);
+    });
+
+    test('does not check out a client for an empty load', async () => {
+      expect(await conn.bulkLoad('users', [])).toBe(0);
+      expect(mockPgPool.connect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('MySqlConnection', () => {
+    test('falls back to chunked inserts in a transaction', async () => {
+      const conn = new MySqlConnection(baseConfig);
+      mockMySqlConnection.execute.mockResolvedValue([{ affectedRows: 1 }, []]);
+
+      const count = await conn.bulkLoad('users', rows, { batchSize: 1 });
+
+      expect(count).toBe(2);
+      expect(mockMySqlConnection.query).toHaveBeenCalledWith('START TRANSACTION');
+      expect(mockMySqlConnection.execute).toHaveBeenCalledWith(
+        'insert into `users` (`id`, `name`, `bio`) values (?, ?, ?)', [1, 'Ada', 'line\nbreak']
+      );
+      expect(mockMySqlConnection.query).toHaveBeenCalledWith('COMMIT');
+    });
+
+    test('uses LOAD DATA LOCAL INFILE when localInfile is enabled', async () => {
+      const conn = new MySqlConnection({ ...baseConfig, localInfile: true });
+      let sent = '';
+      mockMySqlConnection.query.mockImplementationOnce(async (options: any) => {
+        for await (const chunk of options.infileStreamFactory()) {
+          sent += chunk;
+        }
+        return [{ affectedRows: 2 }, []];
+      });
+
+      const count = await conn.bulkLoad('users', [
+        { id: 1, created_at: new Date('2024-05-03T10:00:00Z'), active: true },
+      ]);
+
+      expect(count).toBe(2);
+      expect(mockMySqlConnection.query.mock.calls[0][0].sql).toBe(
+        "load data local infile 'guruorm' into table `users` character set utf8mb4 "
+        + "fields terminated by '\\t' escaped by '\\\\' lines terminated by '\\n' (`id`, `created_at`, `active`)"
+      );
+      expect(sent).toBe('1\t2024-05-03 10:00:00.000\t1\n');
+      expect(mockMySqlConnection.release).toHaveBeenCalled();
+    });
+  });
 });
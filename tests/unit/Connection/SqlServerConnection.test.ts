@@ -7,15 +7,41 @@ const mockRequest = {
   query: jest.fn().mockResolvedValue(mockResult),
 };
 
+// mockTransaction simulates the pool transaction holding a dedicated connection.
+const mockTransaction = {
+  begin: jest.fn().mockResolvedValue(undefined),
+  commit: jest.fn().mockResolvedValue(undefined),
+  rollback: jest.fn().mockResolvedValue(undefined),
+  request: jest.fn().mockReturnValue(mockRequest),
+};
+
 const mockPool = {
   connect: jest.fn().mockResolvedValue(undefined),
+  transaction: jest.fn().mockReturnValue(mockTransaction),
   request: jest.fn().mockReturnValue(mockRequest),
   close: jest.fn().mockResolvedValue(undefined),
 };
 
+// mockBulkTables collects every table handed to request.bulk()
+const mockBulkTables: any[] = [];
+
 jest.mock('tedious', () => ({
   ConnectionPool: jest.fn().mockImplementation(() => mockPool),
   Request: jest.fn(),
+  Table: jest.fn().mockImplementation((name: string) => {
+    const table = { name, create: true, columns: [] as any[], rows: [] as any[][] };
+    (table.columns as any).add = (column: string, type: any, options: any) => table.columns.push({ column, type, options });
+    (table.rows as any).add = (...values: any[]) => table.rows.push(values);
+    mockBulkTables.push(table);
+    return table;
+  }),
+  BigInt: 'BigInt',
+  Float: 'Float',
+  Bit: 'Bit',
+  DateTime2: 'DateTime2',
+  MAX: 'MAX',
+  NVarChar: (length: any) => `NVarChar(${length})`,
+  VarBinary: (length: any) => `VarBinary(${length})`,
 }));
 
 describe('SqlServerConnection', () => {
@@ -119,19 +145,69 @@ describe('SqlServerConnection', () => {
     await expect(conn.unprepared('BAD SQL')).rejects.toThrow();
   });
 
-  test('createTransaction calls unprepared with BEGIN TRANSACTION', async () => {
+  test('createTransaction begins a pool transaction', async () => {
     await (conn as any).createTransaction();
-    expect(mockRequest.query).toHaveBeenCalledWith('BEGIN TRANSACTION');
+    expect(mockPool.transaction).toHaveBeenCalled();
+    expect(mockTransaction.begin).toHaveBeenCalled();
+    expect(conn.getClient()).toBe(mockTransaction);
+  });
+
+  test('createTransaction passes the isolation level to begin', async () => {
+    await (conn as any).createTransaction({ isolationLevel: 'serializable' });
+    expect(mockTransaction.begin).toHaveBeenCalledWith(4);
+  });
+
+  test('nested transactions create savepoints on the transaction', async () => {
+    await conn.beginTransaction();
+    await conn.beginTransaction();
+    expect(mockPool.transaction).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.request).toHaveBeenCalled();
+    expect(mockRequest.query).toHaveBeenCalledWith('SAVE TRANSACTION sp1');
   });
 
-  test('performCommit calls unprepared with COMMIT', async () => {
+  test('performCommit commits the pool transaction', async () => {
+    await conn.beginTransaction();
     await (conn as any).performCommit();
-    expect(mockRequest.query).toHaveBeenCalledWith('COMMIT');
+    expect(mockTransaction.commit).toHaveBeenCalled();
+    expect(conn.getClient()).toBe(mockPool);
   });
 
-  test('performRollBack level 0 calls ROLLBACK', async () => {
+  test('performRollBack level 0 rolls back the pool transaction', async () => {
+    await conn.beginTransaction();
     await (conn as any).performRollBack(0);
-    expect(mockRequest.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(mockTransaction.rollback).toHaveBeenCalled();
+    expect(conn.getClient()).toBe(mockPool);
+  });
+
+  test('a failed commit rolls back the pool transaction and surfaces the commit error', async () => {
+    mockTransaction.commit.mockRejectedValueOnce(new Error('Transaction was deadlocked'));
+    mockTransaction.rollback.mockRejectedValueOnce(new Error('Transaction has not begun'));
+
+    await expect(conn.transaction(async () => {
+      await conn.update('UPDATE users SET active = ?', [1]);
+    })).rejects.toThrow('Transaction was deadlocked');
+
+    expect(mockTransaction.rollback).toHaveBeenCalledTimes(1);
+    expect(conn.transactionLevel()).toBe(0);
+    expect(conn.getClient()).toBe(mockPool);
+  });
+
+  test('retries a deadlock raised by the commit', async () => {
+    mockTransaction.commit.mockRejectedValueOnce(Object.assign(new Error('Transaction was deadlocked'), { number: 1205 }));
+    const callback = jest.fn().mockResolvedValue('done');
+
+    await expect(conn.transaction(callback, { attempts: 2 })).resolves.toBe('done');
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(mockTransaction.commit).toHaveBeenCalledTimes(2);
+  });
+
+  test('transaction issues callback requests through the transaction', async () => {
+    await conn.transaction(async () => {
+      await conn.update('UPDATE users SET active = ?', [1]);
+    });
+    expect(mockTransaction.request).toHaveBeenCalled();
+    expect(mockPool.request).not.toHaveBeenCalled();
+    expect(mockTransaction.commit).toHaveBeenCalled();
   });
 
   test('performRollBack level > 0 calls ROLLBACK TRANSACTION', async () => {
@@ -144,4 +220,72 @@ describe('SqlServerConnection', () => {
     const result = await conn.insert('INSERT INTO users (name) VALUES (?)', ['Test']);
     expect(result).toBe(true);
   });
+
+  describe('cursor', () => {
+    const { EventEmitter } = require('events');
+    const { Readable } = require('stream');
+
+    function streamingRequest(rows: any[]) {
+      const request: any = new EventEmitter();
+      request.input = jest.fn();
+      request.query = jest.fn();
+      request.cancel = jest.fn();
+      request.toReadableStream = jest.fn(() => {
+        const stream = Readable.from(rows);
+        stream.on('end', () => request.emit('done'));
+        return stream;
+      });
+      mockPool.request.mockReturnValueOnce(request);
+      return request;
+    }
+
+    test('streams rows from a streaming request', async () => {
+      const request = streamingRequest([{ id: 1 }, { id: 2 }]);
+
+      const rows: any[] = [];
+      for await (const row of conn.cursor('SELECT * FROM users WHERE id > ?', [0])) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(request.input).toHaveBeenCalledWith('p0', 0);
+      expect(request.query).toHaveBeenCalledWith('SELECT * FROM users WHERE id > @p0');
+      expect(request.toReadableStream).toHaveBeenCalledWith({ highWaterMark: 1000 });
+      expect(request.cancel).not.toHaveBeenCalled();
+    });
+
+    test('cancels the request when the consumer breaks early', async () => {
+      const request = streamingRequest([{ id: 1 }, { id: 2 }, { id: 3 }]);
+
+      for await (const row of conn.cursor('SELECT * FROM users')) {
+        expect(row).toEqual({ id: 1 });
+        break;
+      }
+
+      expect(request.cancel).toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkLoad', () => {
+    test('sends each batch as a bulk insert inside a transaction', async () => {
+      mockBulkTables.length = 0;
+      (mockRequest as any).bulk = jest.fn((table: any) => Promise.resolve({ rowsAffected: table.rows.length }));
+
+      const count = await conn.bulkLoad('users', [
+        { id: 1, name: 'Ada', active: true, meta: { a: 1 } },
+        { id: 2, name: null, active: false, meta: null },
+        { id: 3, name: 'Linus', active: true, meta: null },
+      ], { batchSize: 2 });
+
+      expect(count).toBe(3);
+      expect(mockTransaction.begin).toHaveBeenCalled();
+      expect(mockTransaction.commit).toHaveBeenCalled();
+      expect(mockBulkTables).toHaveLength(2);
+      expect(mockBulkTables[0].create).toBe(false);
+      expect(mockBulkTables[0].columns.map((c: any) => [c.column, c.type])).toEqual([
+        ['id', 'BigInt'], ['name', 'NVarChar(MAX)'], ['active', 'Bit'], ['meta', 'NVarChar(MAX)'],
+      ]);
+      expect([...mockBulkTables[0].rows]).toEqual([[1, 'Ada', true, '{"a":1}'], [2, null, false, null]]);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { SqliteConnection } from '../../../src/Connection/SqliteConnection';
+import { SqliteGrammar } from '../../../src/Schema/Grammars/SqliteGrammar';
 
 // Mock database objects
 const mockStmt = {
@@ -29,6 +30,10 @@ describe('SqliteConnection', () => {
     expect(conn.getDriverName()).toBe('sqlite');
   });
 
+  test('uses the SQLite schema grammar', () => {
+    expect(conn.getSchemaGrammar()).toBeInstanceOf(SqliteGrammar);
+  });
+
   test('select creates connection lazily and returns rows', async () => {
     const rows = await conn.select('SELECT * FROM users WHERE id = ?', [1]);
     expect(mockDb.prepare).toHaveBeenCalledWith('SELECT * FROM users WHERE id = ?');
@@ -120,6 +125,26 @@ describe('SqliteConnection', () => {
     expect(mockDb.exec).toHaveBeenCalledWith('BEGIN TRANSACTION');
   });
 
+  test('createTransaction creates a savepoint inside an open transaction', async () => {
+    await conn.beginTransaction();
+    await conn.beginTransaction();
+    await conn.rollback();
+
+    expect(mockDb.exec.mock.calls).toEqual([['BEGIN TRANSACTION'], ['SAVEPOINT sp1'], ['ROLLBACK TO SAVEPOINT sp1']]);
+  });
+
+  test('a chunked insert inside a transaction runs its chunks in a savepoint', async () => {
+    // Two columns per row: 16384 rows need more than the 32766 bindings of one statement
+    const rows = Array.from({ length: 16384 }, (_, id) => ({ id, name: 'user' }));
+
+    await conn.transaction(async () => {
+      await conn.query().from('users').insert(rows);
+    });
+
+    expect(mockDb.prepare).toHaveBeenCalledTimes(2);
+    expect(mockDb.exec.mock.calls).toEqual([['BEGIN TRANSACTION'], ['SAVEPOINT sp1'], ['COMMIT']]);
+  });
+
   test('performCommit executes COMMIT', async () => {
     await (conn as any).performCommit();
     expect(mockDb.exec).toHaveBeenCalledWith('COMMIT');
@@ -134,4 +159,71 @@ describe('SqliteConnection', () => {
     await (conn as any).performRollBack(2);
     expect(mockDb.exec).toHaveBeenCalledWith('ROLLBACK TO SAVEPOINT sp2');
   });
+
+  test('cursor iterates the statement lazily', async () => {
+    let closed = false;
+    const iterate = jest.fn(function* rows() {
+      try {
+        yield { id: 1 };
+        yield { id: 2 };
+        yield { id: 3 };
+      } finally {
+        closed = true;
+      }
+    });
+    mockDb.prepare.mockReturnValueOnce({ ...mockStmt, iterate });
+
+    const rows: any[] = [];
+    for await (const row of conn.cursor('SELECT * FROM users WHERE id > ?', [0])) {
+      rows.push(row);
+      if (rows.length === 2) break;
+    }
+
+    expect(iterate).toHaveBeenCalledWith(0);
+    expect(mockStmt.all).not.toHaveBeenCalled();
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(closed).toBe(true);
+  });
+
+  test('bulkLoad runs one prepared insert per row inside a transaction', async () => {
+    const rows = [{ id: 1, name: 'a' }, { id: 2 }, { id: 3, name: 'c' }];
+
+    const count = await conn.bulkLoad('users', rows, { batchSize: 2 });
+
+    expect(count).toBe(3);
+    expect(mockDb.prepare).toHaveBeenCalledTimes(1);
+    expect(mockDb.prepare).toHaveBeenCalledWith('insert into "users" ("id", "name") values (?, ?)');
+    expect(mockStmt.run.mock.calls).toEqual([[1, 'a'], [2, null], [3, 'c']]);
+    expect(mockDb.exec.mock.calls).toEqual([['BEGIN TRANSACTION'], ['COMMIT']]);
+  });
+
+  test('bulkLoad binds booleans, dates and objects as values SQLite accepts', async () => {
+    const blob = Buffer.from('raw');
+
+    await conn.bulkLoad('events', [{
+      active: true,
+      archived: false,
+      at: new Date('2024-01-02T03:04:05.000Z'),
+      meta: { tags: ['a'] },
+      data: blob,
+      note: null,
+    }]);
+
+    expect(mockStmt.run).toHaveBeenCalledWith(1, 0, '2024-01-02T03:04:05.000Z', '{"tags":["a"]}', blob, null);
+  });
+
+  test('bulkLoad uses a savepoint inside an open transaction', async () => {
+    await conn.transaction(() => conn.bulkLoad('users', [{ id: 1 }]));
+
+    expect(mockDb.exec.mock.calls).toEqual([['BEGIN TRANSACTION'], ['SAVEPOINT sp1'], ['COMMIT']]);
+  });
+
+  test('bulkLoad rolls back when a row fails', async () => {
+    mockStmt.run.mockReturnValueOnce({ changes: 1 }).mockImplementationOnce(() => {
+      throw new Error('UNIQUE constraint failed');
+    });
+
+    await expect(conn.bulkLoad('users', [{ id: 1 }, { id: 1 }])).rejects.toThrow('UNIQUE constraint failed');
+    expect(mockDb.exec).toHaveBeenLastCalledWith('ROLLBACK');
+  });
 });
@@ -425,6 +425,85 @@ describe('Eloquent / Builder — deep coverage', () => {
     });
   });
 
+  describe('cursor iteration', () => {
+    test('hydrates one model per streamed row', async () => {
+      const { b, qb } = builder();
+      qb.cursor = jest.fn().mockReturnValue(
+        (async function* () {
+          yield { id: 1, name: 'A' };
+          yield { id: 2, name: 'B' };
+        })()
+      );
+      const items: any[] = [];
+      for await (const item of b.cursor()) {
+        items.push(item);
+      }
+      expect(qb.cursor).toHaveBeenCalledTimes(1);
+      expect(qb.get).not.toHaveBeenCalled();
+      expect(items).toHaveLength(2);
+      expect(items[0]).toBeInstanceOf(Model);
+      expect(items[1].getAttribute('name')).toBe('B');
+      expect(items[1].exists).toBe(true);
+    });
+  });
+
+  describe('streams and export', () => {
+    class AccountModel extends Model {
+      protected table = 'accounts';
+      protected static hidden = ['password'];
+      protected casts: Record<string, string> = { settings: 'json', created_at: 'datetime' };
+      protected newBaseQueryBuilder() { return mockQB() as any; }
+    }
+
+    function accountBuilder() {
+      const qb = mockQB();
+      qb.cursor = jest.fn().mockReturnValue(
+        (async function* () {
+          yield { id: 1, password: 'secret', settings: '{"theme":"dark"}', created_at: '2024-05-03T10:00:00Z' };
+        })()
+      );
+      return new Builder(qb as any).setModel(new AccountModel());
+    }
+
+    test('toStream yields hydrated models', async () => {
+      const models: any[] = [];
+      for await (const model of accountBuilder().toStream()) {
+        models.push(model);
+      }
+      expect(models).toHaveLength(1);
+      expect(models[0]).toBeInstanceOf(AccountModel);
+    });
+
+    test('exportNdjson serializes models with casts and hidden attributes', async () => {
+      const { PassThrough } = require('stream');
+      const out = new PassThrough();
+      const chunks: string[] = [];
+      out.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+      await accountBuilder().exportNdjson(out);
+
+      expect(JSON.parse(chunks.join(''))).toEqual({
+        id: 1,
+        settings: { theme: 'dark' },
+        created_at: '2024-05-03T10:00:00.000Z',
+      });
+    });
+
+    test('exportCsv formats cast values and skips hidden columns', async () => {
+      const { PassThrough } = require('stream');
+      const out = new PassThrough();
+      const chunks: string[] = [];
+      out.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+      const count = await accountBuilder().exportCsv(out);
+
+      expect(count).toBe(1);
+      expect(chunks.join('')).toBe(
+        'id,settings,created_at\n1,"{""theme"":""dark""}",2024-05-03T10:00:00.000Z\n'
+      );
+    });
+  });
+
   // ---- has / doesntHave with BelongsTo relation (lines 578-606, 650-656) ----
   describe('has_internal / doesntHave with BelongsTo', () => {
     class CompanyModel extends Model {
@@ -114,6 +114,7 @@ function mockQB(overrides: Record<string, any> = {}) {
     lazy: jest.fn(),
     lazyById: jest.fn(),
     selectSub: jest.fn().mockReturnThis(),
+    groupLimit: jest.fn().mockReturnThis(),
     fromTable: 'test_models',
     _forceDelete: false,
     ...overrides,
@@ -736,4 +737,23 @@ describe('Eloquent / Builder — expanded coverage', () => {
       expect(typeof builder.create).toBe('function');
     });
   });
+
+  // ---- latestPerGroup / oldestPerGroup ----
+  describe('latestPerGroup / oldestPerGroup', () => {
+    test('latestPerGroup orders by created_at desc and limits per group', () => {
+      const { builder, qb } = createBuilder();
+      const result = builder.latestPerGroup('user_id', 3);
+      expect(result).toBe(builder);
+      expect(qb.orderBy).toHaveBeenCalledWith('created_at', 'desc');
+      expect(qb.orderBy).toHaveBeenCalledWith('id', 'desc');
+      expect(qb.groupLimit).toHaveBeenCalledWith(3, 'user_id');
+    });
+
+    test('oldestPerGroup accepts a custom order column', () => {
+      const { builder, qb } = createBuilder();
+      builder.oldestPerGroup('user_id', 1, 'published_at');
+      expect(qb.orderBy).toHaveBeenCalledWith('published_at', 'asc');
+      expect(qb.groupLimit).toHaveBeenCalledWith(1, 'user_id');
+    });
+  });
 });
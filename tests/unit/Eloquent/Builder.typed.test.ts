@@ -0,0 +1,70 @@
+import { Model } from '../../../src/Eloquent/Model';
+import { Collection } from '../../../src/Eloquent/Collection';
+import { createBuilder, createMockConnection } from '../../helpers/MockConnection';
+
+interface PostAttributes {
+  id: number;
+  title: string;
+  views: number;
+}
+
+const connection = createMockConnection();
+
+class Post extends Model<PostAttributes> {
+  protected table = 'posts';
+  protected newBaseQueryBuilder() { return createBuilder('posts', connection).builder as any; }
+}
+
+describe('Eloquent / Builder typed models', () => {
+  beforeEach(() => {
+    connection.select.mockReset().mockResolvedValue([]);
+  });
+
+  it('accepts the attributes of the model', () => {
+    const query = Post.where('views', '>', 10).orderBy('title').whereIn('id', [1, 2]);
+
+    expect(query.toSql()).toBe('select * from `posts` where `views` > ? and `id` in (?, ?) order by `title` asc');
+  });
+
+  it('rejects unknown attributes at compile time', () => {
+    // @ts-expect-error "body" is not an attribute of Post
+    Post.where('body', 'x');
+    // @ts-expect-error "body" is not an attribute of Post
+    Post.query().orderBy('body');
+    // @ts-expect-error "body" is not an attribute of Post
+    Post.query().pluck('body');
+
+    expect(true).toBe(true);
+  });
+
+  it('returns a collection of the model from get()', async () => {
+    connection.select.mockResolvedValue([{ id: 1, title: 'Hello', views: 3 }]);
+
+    const posts: Collection<Post> = await Post.query().where('views', 3).get();
+    const first: Post | null = await Post.query().first();
+
+    expect(posts[0]).toBeInstanceOf(Post);
+    expect(posts[0].getAttribute('title')).toBe('Hello');
+    expect(first).toBeInstanceOf(Post);
+  });
+
+  it('types pluck() with the attribute type', async () => {
+    connection.select.mockResolvedValue([{ views: 3 }, { views: 5 }]);
+
+    const views: number[] = await Post.query().pluck('views');
+
+    expect(views).toEqual([3, 5]);
+  });
+
+  it('checks the attributes passed to the constructor and fill()', () => {
+    const post = new Post({ title: 'Hello' });
+    post.fill({ views: 1 });
+
+    // @ts-expect-error "body" is not an attribute of Post
+    post.fill({ body: 'x' });
+    // @ts-expect-error "views" is a number
+    post.fill({ views: 'many' });
+
+    expect(post.getAttribute('title')).toBe('Hello');
+  });
+});
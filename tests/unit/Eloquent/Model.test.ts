@@ -153,6 +153,20 @@ describe('Eloquent / Model', () => {
       const orig = user.getOriginal();
       expect(orig).toHaveProperty('name', 'test');
     });
+
+    test('setRawAttributes replaces the attributes and optionally syncs the original', () => {
+      const user = new TestUser();
+      user.forceFill({ name: 'test', age: '30' });
+      user.syncOriginal();
+
+      user.setRawAttributes({ name: 'raw' });
+      expect(user.getAttributes()).toEqual({ name: 'raw' });
+      expect(user.isDirty('name')).toBe(true);
+
+      user.setRawAttributes({ name: 'synced' }, true);
+      expect(user.getOriginal()).toEqual({ name: 'synced' });
+      expect(user.isDirty()).toBe(false);
+    });
   });
 
   describe('serialization', () => {
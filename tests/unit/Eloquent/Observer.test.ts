@@ -101,4 +101,56 @@ describe('Eloquent / ObserverRegistry', () => {
       await expect(ObserverRegistry.callObservers('TestModel', 'deleting', {} as any)).resolves.not.toThrow();
     });
   });
+
+  describe('afterCommit observers', () => {
+    function modelOn(connection: any) {
+      return { getConnection: () => connection } as any;
+    }
+
+    test('defers created / updated handlers through the model connection', async () => {
+      const deferred: Array<() => unknown> = [];
+      const connection = { afterCommit: jest.fn(async (cb: () => unknown) => { deferred.push(cb); }) };
+      const created = jest.fn();
+      const updated = jest.fn();
+      ObserverRegistry.observe('TestModel', { afterCommit: true, created, updated });
+
+      const model = modelOn(connection);
+      await ObserverRegistry.callObservers('TestModel', 'created', model);
+      await ObserverRegistry.callObservers('TestModel', 'updated', model);
+
+      expect(created).not.toHaveBeenCalled();
+      expect(updated).not.toHaveBeenCalled();
+
+      for (const cb of deferred) await cb();
+      expect(created).toHaveBeenCalledWith(model);
+      expect(updated).toHaveBeenCalledWith(model);
+    });
+
+    test('never defers halting events', async () => {
+      const connection = { afterCommit: jest.fn() };
+      const creating = jest.fn().mockReturnValue(false);
+      ObserverRegistry.observe('TestModel', { afterCommit: true, creating });
+
+      const result = await ObserverRegistry.callObservers('TestModel', 'creating', modelOn(connection));
+
+      expect(result).toBe(false);
+      expect(connection.afterCommit).not.toHaveBeenCalled();
+    });
+
+    test('runs immediately when the model has no connection', async () => {
+      const created = jest.fn();
+      ObserverRegistry.observe('TestModel', { afterCommit: true, created });
+      await ObserverRegistry.callObservers('TestModel', 'created', modelOn(undefined));
+      expect(created).toHaveBeenCalled();
+    });
+
+    test('leaves observers without the flag synchronous', async () => {
+      const connection = { afterCommit: jest.fn() };
+      const created = jest.fn();
+      ObserverRegistry.observe('TestModel', { created });
+      await ObserverRegistry.callObservers('TestModel', 'created', modelOn(connection));
+      expect(created).toHaveBeenCalled();
+      expect(connection.afterCommit).not.toHaveBeenCalled();
+    });
+  });
 });
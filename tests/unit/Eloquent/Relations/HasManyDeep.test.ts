@@ -0,0 +1,231 @@
+import { Model } from '../../../../src/Eloquent/Model';
+import { HasManyDeep } from '../../../../src/Eloquent/Relations/HasManyDeep';
+import { GuruORMError } from '../../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+const connection = createMockConnection();
+
+class Comment extends Model {
+  protected table = 'comments';
+  protected newBaseQueryBuilder() { return createBuilder('comments', connection).builder as any; }
+
+  commentable() {
+    return this.morphTo();
+  }
+}
+
+class Tag extends Model {
+  protected table = 'tags';
+  protected newBaseQueryBuilder() { return createBuilder('tags', connection).builder as any; }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected newBaseQueryBuilder() { return createBuilder('posts', connection).builder as any; }
+
+  comments() {
+    return this.hasMany(Comment);
+  }
+
+  notes() {
+    return this.morphMany(Comment, 'commentable');
+  }
+
+  tags() {
+    return this.morphToMany(Tag, 'taggable');
+  }
+}
+
+class Reply extends Model {
+  protected table = 'replies';
+  protected newBaseQueryBuilder() { return createBuilder('replies', connection).builder as any; }
+}
+
+class Role extends Model {
+  protected table = 'roles';
+  protected newBaseQueryBuilder() { return createBuilder('roles', connection).builder as any; }
+}
+
+class User extends Model {
+  protected table = 'users';
+  protected newBaseQueryBuilder() { return createBuilder('users', connection).builder as any; }
+
+  static softDeletes = true;
+
+  posts() {
+    return this.hasMany(Post);
+  }
+
+  roles() {
+    return this.belongsToMany(Role);
+  }
+
+  postAuthors() {
+    return this.hasManyDeep(this.posts(), new Post().belongsTo(User));
+  }
+}
+
+class Country extends Model {
+  protected table = 'countries';
+  protected newBaseQueryBuilder() { return createBuilder('countries', connection).builder as any; }
+
+  users() {
+    return this.hasMany(User);
+  }
+
+  posts() {
+    return this.hasManyThrough(Post, User);
+  }
+
+  comments() {
+    return this.hasManyDeep(this.users(), new User().posts(), new Post().comments());
+  }
+
+  postTags() {
+    return this.hasManyDeep(this.posts(), new Post().tags());
+  }
+
+  roles() {
+    return this.hasManyDeep(this.users(), new User().roles());
+  }
+}
+
+function existing<T extends Model>(model: T): T {
+  (model as any).exists = true;
+  model.syncOriginal();
+  return model;
+}
+
+describe('Eloquent / Relations / HasManyDeep', () => {
+  beforeEach(() => {
+    connection.select.mockReset().mockResolvedValue([]);
+  });
+
+  test('joins every intermediate table back to the parent', () => {
+    const relation = existing(new Country({ id: 1 })).comments();
+
+    expect(relation).toBeInstanceOf(HasManyDeep);
+    expect(relation.getQuery().toSql()).toBe(
+      'select `comments`.* from `comments` '
+      + 'inner join `posts` on `comments`.`post_id` = `posts`.`id` '
+      + 'inner join `users` on `posts`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `users`.`country_id` = ?',
+    );
+    expect(relation.getQuery().getBindings()).toEqual([1]);
+  });
+
+  test('crosses pivot tables, morph types and through relations', () => {
+    const roles = existing(new Country({ id: 1 })).roles().getQuery();
+    const tags = existing(new Country({ id: 1 })).postTags().getQuery();
+
+    expect(roles.toSql()).toBe(
+      'select `roles`.* from `roles` '
+      + 'inner join `role_user` on `roles`.`id` = `role_user`.`role_id` '
+      + 'inner join `users` on `role_user`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `users`.`country_id` = ?',
+    );
+    expect(tags.toSql()).toBe(
+      'select `tags`.* from `tags` '
+      + 'inner join `taggables` on `tags`.`id` = `taggables`.`tag_id` '
+      + 'inner join `posts` on `taggables`.`taggable_id` = `posts`.`id` and `taggables`.`taggable_type` = ? '
+      + 'inner join `users` on `posts`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `users`.`country_id` = ?',
+    );
+    expect(tags.getBindings()).toEqual(['Post', 1]);
+  });
+
+  test('follows belongsTo and morphMany relations', () => {
+    const relation = existing(new Reply({ id: 1, post_id: 5 }))
+      .hasManyDeep(new Reply().belongsTo(Post), new Post().notes());
+
+    expect(relation.getQuery().toSql()).toBe(
+      'select `comments`.* from `comments` '
+      + 'inner join `posts` on `comments`.`commentable_id` = `posts`.`id` and `comments`.`commentable_type` = ? '
+      + 'where `posts`.`id` = ?',
+    );
+    expect(relation.getQuery().getBindings()).toEqual(['Post', 5]);
+  });
+
+  test('requires a chain of relations it can join', () => {
+    expect(() => new Country().hasManyDeep(new Country().users(), new Post().comments()))
+      .toThrow(new GuruORMError('The relations of a deep relationship must be chained: [posts] does not follow [users].'));
+    expect(() => new Country().hasManyDeep(new Comment().commentable()))
+      .toThrow(new GuruORMError('Relation [MorphTo] cannot be used in a deep relationship.'));
+  });
+
+  test('aliases a related table that is the parent table', () => {
+    const relation = existing(new User({ id: 1 })).postAuthors();
+
+    expect(relation.getQuery().toSql()).toBe(
+      'select `deep_hop_1`.* from `users` as `deep_hop_1` '
+      + 'inner join `posts` on `deep_hop_1`.`id` = `posts`.`user_id` '
+      + 'where `posts`.`user_id` = ? and `deep_hop_1`.`deleted_at` is null',
+    );
+    expect(User.query().whereHas('postAuthors').toSql()).toBe(
+      'select * from `users` where exists (select `deep_hop_1`.* from `users` as `deep_hop_1` '
+      + 'inner join `posts` on `deep_hop_1`.`id` = `posts`.`user_id` '
+      + 'where `deep_hop_1`.`deleted_at` is null and `posts`.`user_id` = `users`.`id`)',
+    );
+    expect(User.query().withCount('postAuthors').toSql()).toBe(
+      'select `users`.*, (select COUNT(*) from `users` as `deep_hop_1` '
+      + 'inner join `posts` on `deep_hop_1`.`id` = `posts`.`user_id` '
+      + 'where `posts`.`user_id` = `users`.`id`) as `post_authors_count` from `users`',
+    );
+  });
+
+  test('aliases an intermediate table the chain crosses again', () => {
+    const relation = existing(new Country({ id: 1 }))
+      .hasManyDeep(new Country().users(), new User().posts(), new Post().belongsTo(User));
+
+    expect(relation.getQuery().toSql()).toBe(
+      'select `users`.* from `users` '
+      + 'inner join `posts` on `users`.`id` = `posts`.`user_id` '
+      + 'inner join `users` as `deep_hop_0` on `posts`.`user_id` = `deep_hop_0`.`id` '
+      + 'where `deep_hop_0`.`deleted_at` is null and `deep_hop_0`.`country_id` = ? and `users`.`deleted_at` is null',
+    );
+  });
+
+  test('eager loads the related models of every parent in a single query', async () => {
+    connection.select.mockImplementation(async (sql: string) => (sql.includes('from `comments`') ? [
+      { id: 7, body: 'first', deep_through_key: 1 },
+      { id: 8, body: 'second', deep_through_key: 1 },
+      { id: 9, body: 'third', deep_through_key: 2 },
+    ] : [{ id: 1 }, { id: 2 }]));
+
+    const countries = await Country.query().with('comments').get();
+    const eager = connection.select.mock.calls.filter(([sql]: string[]) => sql.includes('from `comments`'));
+
+    expect(eager).toHaveLength(1);
+    expect(eager[0][0]).toBe(
+      'select `comments`.*, `users`.`country_id` as `deep_through_key` from `comments` '
+      + 'inner join `posts` on `comments`.`post_id` = `posts`.`id` '
+      + 'inner join `users` on `posts`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `users`.`country_id` in (?, ?)',
+    );
+    expect(countries[0].getRelations().comments.map((comment: Comment) => comment.getKey())).toEqual([7, 8]);
+    expect(countries[1].getRelations().comments.map((comment: Comment) => comment.getKey())).toEqual([9]);
+    expect(countries[0].getRelations().comments[0].attributesToArray()).toEqual({ id: 7, body: 'first' });
+  });
+
+  test('whereHas and whereDoesntHave correlate the first intermediate table', () => {
+    const has = Country.query().whereHas('comments', (query: any) => query.where('comments.approved', true));
+
+    expect(has.toSql()).toBe(
+      'select * from `countries` where exists (select `comments`.* from `comments` '
+      + 'inner join `posts` on `comments`.`post_id` = `posts`.`id` '
+      + 'inner join `users` on `posts`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `comments`.`approved` = ? and `users`.`country_id` = `countries`.`id`)',
+    );
+    expect(has.getBindings()).toEqual([true]);
+    expect(Country.query().whereDoesntHave('comments').toSql()).toContain('where not exists (select `comments`.* from `comments`');
+  });
+
+  test('withCount counts through every intermediate table', () => {
+    expect(Country.query().withCount('comments').toSql()).toBe(
+      'select `countries`.*, (select COUNT(*) from `comments` '
+      + 'inner join `posts` on `comments`.`post_id` = `posts`.`id` '
+      + 'inner join `users` on `posts`.`user_id` = `users`.`id` '
+      + 'where `users`.`deleted_at` is null and `users`.`country_id` = `countries`.`id`) as `comments_count` from `countries`',
+    );
+  });
+});
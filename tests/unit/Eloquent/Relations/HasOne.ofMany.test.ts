@@ -0,0 +1,135 @@
+import { Model } from '../../../../src/Eloquent/Model';
+import { GuruORMError } from '../../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+const connection = createMockConnection();
+
+class Order extends Model {
+  protected table = 'orders';
+  protected newBaseQueryBuilder() { return createBuilder('orders', connection).builder as any; }
+}
+
+class User extends Model {
+  protected table = 'users';
+  protected newBaseQueryBuilder() { return createBuilder('users', connection).builder as any; }
+
+  latestOrder() {
+    return this.hasOne(Order).latestOfMany();
+  }
+
+  oldestOrder() {
+    return this.hasOne(Order).oldestOfMany('created_at');
+  }
+
+  largestPaidOrder() {
+    return this.hasOne(Order).ofMany('total', 'max', (query: any) => query.where('status', 'paid'), 'largestPaidOrder');
+  }
+}
+
+function existing<T extends Model>(model: T): T {
+  (model as any).exists = true;
+  model.syncOriginal();
+  return model;
+}
+
+describe('Eloquent / Relations / HasOne one of many', () => {
+  beforeEach(() => {
+    connection.select.mockReset().mockResolvedValue([]);
+  });
+
+  test('latestOfMany joins the largest key of the parent', () => {
+    const relation = existing(new User({ id: 1 })).latestOrder();
+
+    expect(relation.isOneOfMany()).toBe(true);
+    expect(relation.getQuery().toSql()).toBe(
+      'select `orders`.* from `orders` inner join (select MAX(`orders`.`id`) as `id_aggregate`, `orders`.`user_id` as `user_id_group` '
+      + 'from `orders` where `orders`.`user_id` in (?) group by `orders`.`user_id`) as `latestOfMany` '
+      + 'on `latestOfMany`.`id_aggregate` = `orders`.`id` and `latestOfMany`.`user_id_group` = `orders`.`user_id` '
+      + 'where `user_id` = ?',
+    );
+    expect(relation.getQuery().getBindings()).toEqual([1, 1]);
+  });
+
+  test('later columns break ties, ending with the primary key', () => {
+    const sql = existing(new User({ id: 1 })).oldestOrder().getQuery().toSql();
+
+    expect(sql).toBe(
+      'select `orders`.* from `orders` inner join (select MIN(`orders`.`id`) as `id_aggregate`, `orders`.`user_id` as `user_id_group` from `orders` '
+      + 'inner join (select MIN(`orders`.`created_at`) as `created_at_aggregate`, `orders`.`user_id` as `user_id_group` '
+      + 'from `orders` where `orders`.`user_id` in (?) group by `orders`.`user_id`) as `oldestOfMany` '
+      + 'on `oldestOfMany`.`created_at_aggregate` = `orders`.`created_at` and `oldestOfMany`.`user_id_group` = `orders`.`user_id` '
+      + 'group by `orders`.`user_id`) as `oldestOfMany` '
+      + 'on `oldestOfMany`.`id_aggregate` = `orders`.`id` and `oldestOfMany`.`user_id_group` = `orders`.`user_id` '
+      + 'where `user_id` = ?',
+    );
+  });
+
+  test('ofMany applies the constraints to the aggregate subquery', () => {
+    const query = existing(new User({ id: 1 })).largestPaidOrder().getQuery();
+
+    expect(query.toSql()).toContain(
+      'select MAX(`orders`.`total`) as `total_aggregate`, `orders`.`user_id` as `user_id_group` from `orders` '
+      + 'where `orders`.`user_id` in (?) and `status` = ? group by `orders`.`user_id`',
+    );
+    expect(query.toSql()).toContain(
+      'select MAX(`orders`.`id`) as `id_aggregate`, `orders`.`user_id` as `user_id_group` from `orders` inner join (',
+    );
+    expect(query.getBindings()).toEqual([1, 'paid', 'paid', 1]);
+  });
+
+  test('rejects aggregates other than min and max', () => {
+    expect(() => existing(new User({ id: 1 })).hasOne(Order).ofMany('total', 'sum'))
+      .toThrow(new GuruORMError('Invalid aggregate [sum] used within ofMany relation. Available aggregates: MIN, MAX'));
+  });
+
+  test('returns the chosen related model', async () => {
+    connection.select.mockResolvedValue([{ id: 9, user_id: 1 }]);
+
+    const order = await existing(new User({ id: 1 })).latestOrder();
+
+    expect(order).toBeInstanceOf(Order);
+    expect(order.getKey()).toBe(9);
+    expect(connection.select.mock.calls[0][0]).toContain('inner join (select MAX(`orders`.`id`)');
+  });
+
+  test('eager loads the chosen model of every parent in a single query', async () => {
+    connection.select.mockImplementation(async (sql: string) => (sql.includes('from `orders`')
+      ? [{ id: 9, user_id: 1 }, { id: 12, user_id: 2 }]
+      : [{ id: 1 }, { id: 2 }, { id: 3 }]));
+
+    const users = await User.query().with('latestOrder').get();
+    const eager = connection.select.mock.calls.filter(([sql]: string[]) => sql.includes('from `orders`'));
+
+    expect(eager).toHaveLength(1);
+    expect(eager[0][0]).toBe(
+      'select `orders`.* from `orders` inner join (select MAX(`orders`.`id`) as `id_aggregate`, `orders`.`user_id` as `user_id_group` '
+      + 'from `orders` where `orders`.`user_id` in (?, ?, ?) group by `orders`.`user_id`) as `latestOfMany` '
+      + 'on `latestOfMany`.`id_aggregate` = `orders`.`id` and `latestOfMany`.`user_id_group` = `orders`.`user_id` '
+      + 'where `user_id` in (?, ?, ?)',
+    );
+    expect(eager[0][1]).toEqual([1, 2, 3, 1, 2, 3]);
+    expect(users.map((user: User) => user.getRelations().latestOrder?.getKey() ?? null)).toEqual([9, 12, null]);
+  });
+
+  test('whereHas checks the chosen model', () => {
+    const query = User.query().whereHas('largestPaidOrder', (order: any) => order.where('total', '>', 100));
+
+    expect(query.toSql()).toContain(
+      'select * from `users` where exists (select `orders`.* from `orders` inner join (select MAX(`orders`.`id`) as `id_aggregate`, ',
+    );
+    expect(query.toSql()).toContain(
+      'as `largestPaidOrder` on `largestPaidOrder`.`id_aggregate` = `orders`.`id` and `largestPaidOrder`.`user_id_group` = `orders`.`user_id` '
+      + 'where `total` > ? and "orders"."user_id" = "users"."id")',
+    );
+    expect(query.getBindings()).toEqual(['paid', 'paid', 100]);
+  });
+
+  test('withCount counts the chosen model only', () => {
+    expect(User.query().withCount('latestOrder').toSql()).toBe(
+      'select `users`.*, (select COUNT(*) from `orders` inner join (select MAX(`orders`.`id`) as `id_aggregate`, '
+      + '`orders`.`user_id` as `user_id_group` from `orders` group by `orders`.`user_id`) as `latestOfMany` '
+      + 'on `latestOfMany`.`id_aggregate` = `orders`.`id` and `latestOfMany`.`user_id_group` = `orders`.`user_id` '
+      + 'where "orders"."user_id" = "users"."id") as `latest_order_count` from `users`',
+    );
+  });
+});
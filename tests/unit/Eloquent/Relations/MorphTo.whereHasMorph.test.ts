@@ -0,0 +1,84 @@
+import { Model } from '../../../../src/Eloquent/Model';
+import { GuruORMError } from '../../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+const connection = createMockConnection();
+
+class Post extends Model {
+  protected table = 'posts';
+  protected newBaseQueryBuilder() { return createBuilder('posts', connection).builder as any; }
+}
+
+class Video extends Model {
+  protected table = 'videos';
+  protected newBaseQueryBuilder() { return createBuilder('videos', connection).builder as any; }
+}
+
+class Comment extends Model {
+  protected table = 'comments';
+  protected newBaseQueryBuilder() { return createBuilder('comments', connection).builder as any; }
+
+  commentable() {
+    return this.morphTo('commentable');
+  }
+
+  post() {
+    return this.belongsTo(Post);
+  }
+}
+
+describe('Eloquent / Relations / MorphTo whereHasMorph', () => {
+  beforeAll(() => {
+    Model.setMorphMap({ post: Post });
+  });
+
+  test('ORs an existence check for every morph type', () => {
+    const query = Comment.query().whereHasMorph('commentable', [Post, Video]);
+
+    expect(query.toSql()).toBe(
+      'select * from `comments` where ('
+      + '(`comments`.`commentable_type` = ? and exists (select * from `posts` where `posts`.`id` = `comments`.`commentable_id`)) '
+      + 'or (`comments`.`commentable_type` = ? and exists (select * from `videos` where `videos`.`id` = `comments`.`commentable_id`)))',
+    );
+    expect(query.getBindings()).toEqual(['post', 'Video']);
+  });
+
+  test('resolves aliases through the morph map and passes the type to the callback', () => {
+    const callback = jest.fn((query: any, type: typeof Model) => {
+      query.where('title', 'like', type === Post ? 'Guide%' : 'Clip%');
+    });
+    const query = Comment.query().where('approved', true).whereHasMorph('commentable', ['post', Video], callback);
+
+    expect(callback.mock.calls.map(([, type]) => type)).toEqual([Post, Video]);
+    expect(query.toSql()).toBe(
+      'select * from `comments` where `approved` = ? and ('
+      + '(`comments`.`commentable_type` = ? and exists (select * from `posts` where `title` like ? and `posts`.`id` = `comments`.`commentable_id`)) '
+      + 'or (`comments`.`commentable_type` = ? and exists (select * from `videos` where `title` like ? and `videos`.`id` = `comments`.`commentable_id`)))',
+    );
+    expect(query.getBindings()).toEqual([true, 'post', 'Guide%', 'Video', 'Clip%']);
+  });
+
+  test('whereDoesntHaveMorph and the or variants', () => {
+    const query = Comment.query()
+      .where('approved', true)
+      .orWhereDoesntHaveMorph('commentable', 'post', (post: any) => post.where('published', true));
+
+    expect(query.toSql()).toBe(
+      'select * from `comments` where `approved` = ? or ('
+      + '(`comments`.`commentable_type` = ? and not exists (select * from `posts` where `published` = ? and `posts`.`id` = `comments`.`commentable_id`)))',
+    );
+    expect(query.getBindings()).toEqual([true, 'post', true]);
+    expect(Comment.query().whereDoesntHaveMorph('commentable', [Video]).toSql()).toContain('and not exists (select * from `videos`');
+    expect(Comment.query().where('approved', true).orWhereHasMorph('commentable', [Video]).toSql())
+      .toContain('where `approved` = ? or ((`comments`.`commentable_type` = ? and exists (select * from `videos`');
+  });
+
+  test('rejects unknown morph types and relations that are not morph to', () => {
+    expect(() => Comment.query().whereHasMorph('commentable', ['podcast']))
+      .toThrow(new GuruORMError('No model is registered for morph type [podcast].'));
+    expect(() => Comment.query().whereHasMorph('post', [Post]))
+      .toThrow(new GuruORMError('Relation [post] on model [Comment] is not a morph to relationship.'));
+    expect(() => Comment.query().whereHas('commentable'))
+      .toThrow(new GuruORMError('Relation [commentable] is a morph to relationship; use whereHasMorph with the types to check.'));
+  });
+});
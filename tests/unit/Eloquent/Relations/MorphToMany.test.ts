@@ -0,0 +1,146 @@
+import { Model } from '../../../../src/Eloquent/Model';
+import { MorphToMany } from '../../../../src/Eloquent/Relations/MorphToMany';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+const connection = createMockConnection();
+
+class Tag extends Model {
+  protected table = 'tags';
+  protected newBaseQueryBuilder() { return createBuilder('tags', connection).builder as any; }
+
+  posts() {
+    return this.morphedByMany(Post, 'taggable');
+  }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected newBaseQueryBuilder() { return createBuilder('posts', connection).builder as any; }
+
+  tags() {
+    return this.morphToMany(Tag, 'taggable');
+  }
+}
+
+function existing<T extends Model>(model: T): T {
+  (model as any).exists = true;
+  model.syncOriginal();
+  return model;
+}
+
+describe('Eloquent / Relations / MorphToMany', () => {
+  beforeEach(() => {
+    connection.select.mockReset().mockResolvedValue([]);
+    connection.insert.mockClear();
+    connection.delete.mockClear();
+  });
+
+  afterEach(() => {
+    delete (Model as any).morphMap.post;
+  });
+
+  test('morphToMany constrains the pivot table by the parent id and type', () => {
+    const relation = existing(new Post({ id: 1 })).tags();
+
+    expect(relation).toBeInstanceOf(MorphToMany);
+    expect(relation.getQuery().toSql()).toBe(
+      'select `tags`.*, `taggables`.`taggable_id` as `pivot_taggable_id`, `taggables`.`tag_id` as `pivot_tag_id` from `tags` '
+      + 'inner join `taggables` on `taggables`.`tag_id` = `tags`.`id` '
+      + 'where `taggables`.`taggable_id` = ? and `taggables`.`taggable_type` = ?',
+    );
+    expect(relation.getQuery().getBindings()).toEqual([1, 'Post']);
+  });
+
+  test('morphedByMany constrains the pivot table by the related type', () => {
+    const relation = existing(new Tag({ id: 7 })).posts();
+
+    expect(relation.isInverse()).toBe(true);
+    expect(relation.getQuery().toSql()).toBe(
+      'select `posts`.*, `taggables`.`tag_id` as `pivot_tag_id`, `taggables`.`taggable_id` as `pivot_taggable_id` from `posts` '
+      + 'inner join `taggables` on `taggables`.`taggable_id` = `posts`.`id` '
+      + 'where `taggables`.`tag_id` = ? and `taggables`.`taggable_type` = ?',
+    );
+    expect(relation.getQuery().getBindings()).toEqual([7, 'Post']);
+  });
+
+  test('uses the morph map alias as the type', () => {
+    Model.setMorphMap({ post: Post });
+
+    expect(existing(new Post({ id: 1 })).tags().getMorphClass()).toBe('post');
+    expect(existing(new Tag({ id: 1 })).posts().getMorphClass()).toBe('post');
+  });
+
+  test('attach, detach, sync and toggle write the morph type', async () => {
+    const relation = existing(new Post({ id: 1 })).tags();
+
+    await relation.attach(3, { weight: 2 });
+    expect(connection.insert).toHaveBeenLastCalledWith(
+      'insert into `taggables` (`taggable_id`, `tag_id`, `weight`, `taggable_type`) values (?, ?, ?, ?)',
+      [1, 3, 2, 'Post'],
+    );
+
+    await relation.detach([3]);
+    expect(connection.delete).toHaveBeenLastCalledWith(
+      'delete from `taggables` where `taggable_type` = ? and `taggable_id` = ? and `tag_id` in (?)',
+      ['Post', 1, 3],
+    );
+
+    connection.select.mockResolvedValue([{ tag_id: 3 }, { tag_id: 4 }]);
+
+    expect(await relation.sync([4, 5])).toEqual({ attached: [5], detached: [3], updated: [] });
+    expect(connection.select.mock.calls[0][0]).toBe(
+      'select `tag_id` from `taggables` where `taggable_type` = ? and `taggable_id` = ?',
+    );
+    expect(connection.insert).toHaveBeenLastCalledWith(
+      'insert into `taggables` (`taggable_id`, `tag_id`, `taggable_type`) values (?, ?, ?)',
+      [1, 5, 'Post'],
+    );
+
+    expect(await relation.toggle([4, 6])).toEqual({ attached: [6], detached: [4] });
+  });
+
+  test('withPivot selects the extra pivot columns', () => {
+    const relation = existing(new Post({ id: 1 })).tags().withPivot('weight');
+    const query = new Post().tags().withPivot('weight');
+    query.addEagerConstraints([new Post({ id: 1 })]);
+
+    expect(relation.getPivotColumns()).toEqual(['weight']);
+    expect(query.getQuery().toSql()).toContain('`taggables`.`weight`');
+  });
+
+  test('eager loads the related models of each parent', async () => {
+    connection.select.mockImplementation(async (sql: string) => (sql.includes('from `tags`') ? [
+      { id: 3, name: 'news', pivot_taggable_id: 1, pivot_tag_id: 3 },
+      { id: 4, name: 'tech', pivot_taggable_id: 2, pivot_tag_id: 4 },
+    ] : [{ id: 1 }, { id: 2 }]));
+
+    const posts = await Post.query().with('tags').get();
+    const eager = connection.select.mock.calls.find(([sql]: string[]) => sql.includes('from `tags`'));
+
+    expect(eager[0]).toContain('where `taggables`.`taggable_type` = ? and `taggables`.`taggable_id` in (?, ?)');
+    expect(eager[1]).toEqual(['Post', 1, 2]);
+    expect(posts[0].getRelations().tags.map((tag: Tag) => tag.getAttribute('name'))).toEqual(['news']);
+    expect(posts[1].getRelations().tags.map((tag: Tag) => tag.getAttribute('name'))).toEqual(['tech']);
+  });
+
+  test('whereHas and whereDoesntHave check the pivot table for the morph type', () => {
+    const has = Post.query().whereHas('tags', (query: any) => query.where('tags.name', 'news'));
+    const doesntHave = Post.query().whereDoesntHave('tags');
+
+    expect(has.toSql()).toBe(
+      'select * from `posts` where exists (select * from `taggables` '
+      + 'inner join `tags` on `tags`.`id` = `taggables`.`tag_id` '
+      + 'where "taggables"."taggable_id" = "posts"."id" and `taggables`.`taggable_type` = ? and `tags`.`name` = ?)',
+    );
+    expect(has.getBindings()).toEqual(['Post', 'news']);
+    expect(doesntHave.toSql()).toContain('where not exists (select * from `taggables` where');
+    expect(doesntHave.getBindings()).toEqual(['Post']);
+  });
+
+  test('withCount counts the related models through the pivot table', () => {
+    expect(Post.query().withCount('tags').toSql()).toBe(
+      'select `posts`.*, (select COUNT(*) from `tags` inner join `taggables` on `taggables`.`tag_id` = `tags`.`id` '
+      + 'where "taggables"."taggable_id" = "posts"."id" and "taggables"."taggable_type" = \'Post\') as `tags_count` from `posts`',
+    );
+  });
+});
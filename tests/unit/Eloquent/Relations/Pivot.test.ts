@@ -0,0 +1,183 @@
+import { Model } from '../../../../src/Eloquent/Model';
+import { Events } from '../../../../src/Eloquent/Events';
+import { Pivot } from '../../../../src/Eloquent/Relations/Pivot';
+import { MorphPivot } from '../../../../src/Eloquent/Relations/MorphPivot';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+const connection = createMockConnection();
+
+class RoleUser extends Pivot {
+  protected casts = { meta: 'json', active: 'boolean' };
+  protected newBaseQueryBuilder() { return createBuilder(this.getTable(), connection).builder as any; }
+}
+
+class Taggable extends MorphPivot {
+  protected casts = { meta: 'json' };
+  protected newBaseQueryBuilder() { return createBuilder(this.getTable(), connection).builder as any; }
+}
+
+class Role extends Model {
+  protected table = 'roles';
+  protected newBaseQueryBuilder() { return createBuilder('roles', connection).builder as any; }
+}
+
+class Tag extends Model {
+  protected table = 'tags';
+  protected newBaseQueryBuilder() { return createBuilder('tags', connection).builder as any; }
+}
+
+class User extends Model {
+  protected table = 'users';
+  protected newBaseQueryBuilder() { return createBuilder('users', connection).builder as any; }
+
+  roles() {
+    return this.belongsToMany(Role, 'role_user', 'user_id', 'role_id').withPivot('meta', 'active');
+  }
+
+  memberships() {
+    return this.roles().using(RoleUser).as('membership');
+  }
+
+  tags() {
+    return this.morphToMany(Tag, 'taggable').using(Taggable).withPivot('meta');
+  }
+}
+
+function existing<T extends Model>(model: T): T {
+  (model as any).exists = true;
+  model.syncOriginal();
+  return model;
+}
+
+describe('Eloquent / Relations / Pivot', () => {
+  beforeEach(() => {
+    connection.select.mockReset().mockResolvedValue([]);
+    connection.insert.mockClear();
+    connection.update.mockReset().mockResolvedValue(1);
+    connection.delete.mockReset().mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    Events.flush('RoleUser');
+  });
+
+  test('moves the pivot columns of related models to a pivot model', async () => {
+    connection.select.mockResolvedValue([
+      { id: 3, name: 'admin', pivot_user_id: 1, pivot_role_id: 3, pivot_meta: '{"level":2}', pivot_active: 1 },
+    ]);
+
+    const roles = await existing(new User({ id: 1 })).roles().get();
+    const pivot = roles[0].getRelations().pivot;
+
+    expect(connection.select.mock.calls[0][0]).toBe(
+      'select `roles`.*, `role_user`.`user_id` as `pivot_user_id`, `role_user`.`role_id` as `pivot_role_id`, '
+      + '`role_user`.`meta` as `pivot_meta`, `role_user`.`active` as `pivot_active` from `roles` '
+      + 'inner join `role_user` on `role_user`.`role_id` = `roles`.`id` where `role_user`.`user_id` = ?',
+    );
+    expect(pivot).toBeInstanceOf(Pivot);
+    expect(pivot.toArray()).toEqual({ user_id: 1, role_id: 3, meta: '{"level":2}', active: 1 });
+    expect(roles[0].attributesToArray()).toEqual({ id: 3, name: 'admin' });
+  });
+
+  test('hydrates the custom pivot model under the accessor, applying its casts', async () => {
+    connection.select.mockResolvedValue([
+      { id: 3, pivot_user_id: 1, pivot_role_id: 3, pivot_meta: '{"level":2}', pivot_active: 1 },
+    ]);
+
+    const role = await existing(new User({ id: 1 })).memberships().first();
+    const pivot = role.getAttribute('membership');
+
+    expect(pivot).toBeInstanceOf(RoleUser);
+    expect(pivot.getAttribute('meta')).toEqual({ level: 2 });
+    expect(pivot.getAttribute('active')).toBe(true);
+    expect(pivot.getTable()).toBe('role_user');
+    expect(pivot.getPivotParent()).toBeInstanceOf(User);
+  });
+
+  test('attaches through the custom pivot model, firing its events and casting the values', async () => {
+    const creating = jest.fn();
+    const created = jest.fn();
+    RoleUser.creating(creating);
+    RoleUser.created(created);
+
+    await existing(new User({ id: 1 })).memberships().attach([3, 4], { meta: { level: 1 } });
+
+    expect(creating).toHaveBeenCalledTimes(2);
+    expect(created).toHaveBeenCalledTimes(2);
+    expect(creating.mock.calls[0][0]).toBeInstanceOf(RoleUser);
+    expect(connection.insert).toHaveBeenCalledWith(
+      'insert into `role_user` (`user_id`, `role_id`, `meta`) values (?, ?, ?)',
+      [1, 3, '{"level":1}'],
+    );
+    expect(connection.insert).toHaveBeenLastCalledWith(
+      'insert into `role_user` (`user_id`, `role_id`, `meta`) values (?, ?, ?)',
+      [1, 4, '{"level":1}'],
+    );
+  });
+
+  test('updates an existing pivot record through the custom pivot model', async () => {
+    const updating = jest.fn();
+    RoleUser.updating(updating);
+    connection.select.mockResolvedValue([{ user_id: 1, role_id: 3, meta: '{"level":1}' }]);
+
+    const relation = existing(new User({ id: 1 })).memberships();
+
+    expect(await relation.updateExistingPivot(3, { meta: { level: 2 } })).toBe(1);
+    expect(updating).toHaveBeenCalledTimes(1);
+    expect(connection.update).toHaveBeenCalledWith(
+      'update `role_user` set `meta` = ? where `user_id` = ? and `role_id` = ?',
+      ['{"level":2}', 1, 3],
+    );
+
+    expect(await relation.updateExistingPivot(3, { meta: { level: 1 } })).toBe(0);
+    expect(connection.update).toHaveBeenCalledTimes(1);
+  });
+
+  test('detaches through the custom pivot model, firing its events', async () => {
+    const deleted = jest.fn();
+    RoleUser.deleted(deleted);
+
+    expect(await existing(new User({ id: 1 })).memberships().detach([3, 4])).toBe(2);
+    expect(deleted).toHaveBeenCalledTimes(2);
+    expect(connection.delete).toHaveBeenLastCalledWith(
+      'delete from `role_user` where `user_id` = ? and `role_id` = ?',
+      [1, 4],
+    );
+  });
+
+  test('morph pivot models are limited to the morph type', async () => {
+    connection.select.mockImplementation(async (sql: string) => (sql.includes('from `tags`')
+      ? [{ id: 3, pivot_taggable_id: 1, pivot_tag_id: 3, pivot_meta: '[1]' }]
+      : [{ taggable_id: 1, tag_id: 3, taggable_type: 'User', meta: '[1]' }]));
+
+    const relation = existing(new User({ id: 1 })).tags();
+    const [tag] = await relation.get();
+
+    expect(tag.getRelations().pivot).toBeInstanceOf(Taggable);
+    expect(tag.getRelations().pivot.getAttribute('meta')).toEqual([1]);
+
+    await relation.attach(4);
+    expect(connection.insert).toHaveBeenLastCalledWith(
+      'insert into `taggables` (`taggable_id`, `tag_id`, `taggable_type`) values (?, ?, ?)',
+      [1, 4, 'User'],
+    );
+
+    await relation.updateExistingPivot(3, { meta: [2] });
+    expect(connection.update).toHaveBeenLastCalledWith(
+      'update `taggables` set `meta` = ? where `taggable_id` = ? and `tag_id` = ? and `taggable_type` = ?',
+      ['[2]', 1, 3, 'User'],
+    );
+  });
+
+  test('eager loads pivot models with their parents', async () => {
+    connection.select.mockImplementation(async (sql: string) => (sql.includes('from `roles`') ? [
+      { id: 3, pivot_user_id: 1, pivot_role_id: 3, pivot_meta: null, pivot_active: 0 },
+      { id: 4, pivot_user_id: 2, pivot_role_id: 4, pivot_meta: null, pivot_active: 1 },
+    ] : [{ id: 1 }, { id: 2 }]));
+
+    const users = await User.query().with('memberships').get();
+
+    expect(users[0].getRelations().memberships.map((role: Role) => role.getKey())).toEqual([3]);
+    expect(users[1].getRelations().memberships[0].getRelations().membership.getAttribute('active')).toBe(true);
+  });
+});
@@ -133,6 +133,45 @@ describe('Errors / QueryException', () => {
     // If it doesn't throw, redaction handled all types
     expect(e.message).toContain('SQL');
   });
+
+  describe('concurrency errors', () => {
+    const driverError = (props: Record<string, unknown>) => Object.assign(new Error('driver'), props);
+
+    it.each([
+      ['mysql', { errno: 1213, code: 'ER_LOCK_DEADLOCK' }],
+      ['mysql', { errno: 1205, code: 'ER_LOCK_WAIT_TIMEOUT' }],
+      ['pgsql', { code: '40001' }],
+      ['pgsql', { code: '40P01' }],
+      ['sqlserver', { number: 1205 }],
+      ['sqlserver', { originalError: { number: 1205 } }],
+      ['sqlite', { code: 'SQLITE_BUSY' }],
+    ])('classifies %s %p as a concurrency error', (driver, props) => {
+      const e = new QueryException('err', 'SQL', [], driverError(props), 'default', driver);
+      expect(e.causedByConcurrencyError()).toBe(true);
+    });
+
+    it('does not classify other errors', () => {
+      const e = new QueryException('err', 'SQL', [], driverError({ code: '23505' }), 'default', 'pgsql');
+      expect(e.causedByConcurrencyError()).toBe(false);
+      expect(new QueryException('err', 'SQL', []).causedByConcurrencyError()).toBe(false);
+    });
+
+    it('checks codes per driver', () => {
+      const e = new QueryException('err', 'SQL', [], driverError({ number: 1213 }), 'default', 'sqlserver');
+      expect(e.causedByConcurrencyError()).toBe(false);
+    });
+
+    it('does not match the codes of another driver or an unknown one', () => {
+      expect(new QueryException('err', 'SQL', [], driverError({ errno: 1213 }), 'default', 'sqlite').causedByConcurrencyError()).toBe(false);
+      expect(new QueryException('err', 'SQL', [], driverError({ errno: 1205 })).causedByConcurrencyError()).toBe(false);
+    });
+
+    it('exposes the driver error code in toJSON', () => {
+      const e = new QueryException('err', 'SQL', [], driverError({ code: '40001' }), 'default', 'pgsql');
+      expect(e.errorCode).toBe('40001');
+      expect(e.toJSON().code).toBe('40001');
+    });
+  });
 });
 
 // ─── ModelNotFoundException ──────────────────────────────────────────
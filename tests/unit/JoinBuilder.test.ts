@@ -15,6 +15,8 @@ class MockConnection extends Connection {
   async select(query: string, bindings: any[] = []): Promise<any[]> {
     return [];
   }
+
+  async *cursor(query: string, bindings: any[] = []): AsyncGenerator<any> {}
   
   async insert(query: string, bindings: any[] = []): Promise<boolean> {
     return true;
@@ -253,6 +253,46 @@ describe('Migrations / Migrator', () => {
     expect(await (migrator as any).getBatchForMigration('missing')).toBeNull();
   });
 
+  // ---- schema dumps ----
+  test('run loads the schema dump into a database without a migrations table', async () => {
+    migrator.setPaths([]);
+    migrator.setSchemaPath('/database/schema/default-schema.sql');
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readFileSync.mockReturnValue('-- Schema\n\ncreate table "users" ("id" integer);\n\ninsert into "migrations" ("migration", "batch") values (\'001_init\', 1);\n\n' as any);
+    schema.hasTable.mockResolvedValue(false);
+    conn.unprepared = jest.fn().mockResolvedValue(true);
+
+    await migrator.run();
+
+    expect(conn.unprepared.mock.calls).toEqual([
+      ['create table "users" ("id" integer)'],
+      ['insert into "migrations" ("migration", "batch") values (\'001_init\', 1)'],
+    ]);
+  });
+
+  test('run skips the schema dump once the database is migrated', async () => {
+    migrator.setPaths([]);
+    migrator.setSchemaPath('/database/schema/default-schema.sql');
+    mockFs.existsSync.mockReturnValue(true);
+    schema.hasTable.mockResolvedValue(true);
+    conn.unprepared = jest.fn();
+
+    await migrator.run();
+
+    expect(conn.unprepared).not.toHaveBeenCalled();
+  });
+
+  test('pruneMigrations deletes the files of migrations that have run', async () => {
+    migrator.setPaths(['/migrations']);
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readdirSync.mockReturnValue(['001_init.ts', '002_posts.ts'] as any);
+    tableQB.get.mockResolvedValue([{ migration: '001_init', batch: 1 }]);
+
+    expect(await migrator.pruneMigrations()).toEqual(['001_init']);
+    expect(mockFs.unlinkSync).toHaveBeenCalledTimes(1);
+    expect(mockFs.unlinkSync).toHaveBeenCalledWith(expect.stringContaining('001_init.ts'));
+  });
+
   // ---- error handling ----
   test('runMigration catches errors', async () => {
     migrator.setPaths(['/migrations']);
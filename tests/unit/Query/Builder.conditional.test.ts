@@ -229,16 +229,85 @@ describe('Query / Builder — conditional & utility', () => {
   // ── cursor ───────────────────────────────────────────
 
   describe('cursor', () => {
-    it('yields each row from results', async () => {
+    it('yields each row streamed by the connection', async () => {
       const { builder, connection } = createBuilder('users');
-      connection.select.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      connection.cursor.mockImplementation(async function* rows() {
+        yield { id: 1 };
+        yield { id: 2 };
+      });
 
       const rows = [];
-      for await (const row of builder.cursor()) {
+      for await (const row of builder.where('active', 1).cursor()) {
         rows.push(row);
       }
 
       expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(connection.cursor).toHaveBeenCalledWith('select * from `users` where `active` = ?', [1], true);
+      expect(connection.select).not.toHaveBeenCalled();
+    });
+
+    it('streams from the write connection when useWritePdo is set', async () => {
+      const { builder, connection } = createBuilder('users');
+
+      for await (const row of builder.useWritePdo().cursor()) {
+        expect(row).toBeUndefined();
+      }
+
+      expect(connection.cursor.mock.calls[0][2]).toBe(false);
+    });
+
+    it('strips the row number column of per-group limits', async () => {
+      const { builder, connection } = createBuilder('posts');
+      connection.cursor.mockImplementation(async function* rows() {
+        yield { id: 1, guruorm_row: 1 };
+      });
+
+      const rows = [];
+      for await (const row of builder.groupLimit(1, 'user_id').cursor()) {
+        rows.push(row);
+      }
+
+      expect(rows).toEqual([{ id: 1 }]);
+    });
+  });
+
+  // ── streams / export ─────────────────────────────────
+
+  describe('toStream and export', () => {
+    function streamingBuilder() {
+      const { builder, connection } = createBuilder('users');
+      connection.cursor.mockImplementation(async function* rows() {
+        yield { id: 1, name: 'Ada' };
+        yield { id: 2, name: 'Linus' };
+      });
+      return builder;
+    }
+
+    it('returns an object-mode Readable of rows', async () => {
+      const stream = streamingBuilder().toStream();
+      const rows = [];
+      for await (const row of stream) {
+        rows.push(row);
+      }
+
+      expect(stream.readableObjectMode).toBe(true);
+      expect(rows).toEqual([{ id: 1, name: 'Ada' }, { id: 2, name: 'Linus' }]);
+    });
+
+    it('exports CSV and NDJSON into a writable', async () => {
+      const { PassThrough } = require('stream');
+      const csv = new PassThrough();
+      const ndjson = new PassThrough();
+      const chunks: string[] = [];
+      csv.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+      ndjson.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+      expect(await streamingBuilder().exportCsv(csv)).toBe(2);
+      expect(chunks.join('')).toBe('id,name\n1,Ada\n2,Linus\n');
+
+      chunks.length = 0;
+      expect(await streamingBuilder().exportNdjson(ndjson)).toBe(2);
+      expect(chunks.join('')).toBe('{"id":1,"name":"Ada"}\n{"id":2,"name":"Linus"}\n');
     });
   });
 
@@ -0,0 +1,198 @@
+import { describe, it, expect } from '@jest/globals';
+import { PostgresGrammar } from '../../../src/Query/Grammars/PostgresGrammar';
+import { SqlServerGrammar } from '../../../src/Query/Grammars/SqlServerGrammar';
+import { SqliteGrammar } from '../../../src/Query/Grammars/SqliteGrammar';
+import { createBuilder, createMockConnection } from '../../helpers/MockConnection';
+
+function builderFor(grammar: any, table = 'users') {
+  const connection = createMockConnection({ getQueryGrammar: () => grammar });
+  return createBuilder(table, connection);
+}
+
+describe('Query / Builder — common table expressions', () => {
+
+  // ── withExpression ───────────────────────────────────
+
+  describe('withExpression', () => {
+    it('prefixes the select with a with clause', () => {
+      const { builder } = createBuilder('active_users');
+      builder.withExpression('active_users', (q: any) => {
+        q.from('users').where('active', 1);
+      });
+
+      expect(builder.toSql()).toBe(
+        'with `active_users` as (select * from `users` where `active` = ?) select * from `active_users`'
+      );
+      expect(builder.getBindings()).toEqual([1]);
+    });
+
+    it('accepts a Builder instance, column list and raw SQL', () => {
+      const { builder } = createBuilder('totals');
+      const { builder: sub } = createBuilder('orders');
+      sub.select('user_id').where('total', '>', 100);
+
+      builder
+        .withExpression('big', sub, ['id'])
+        .withExpression('totals', 'select 1 as n')
+        .where('n', 2);
+
+      expect(builder.toSql()).toBe(
+        'with `big` (`id`) as (select `user_id` from `orders` where `total` > ?), `totals` as (select 1 as n) '
+        + 'select * from `totals` where `n` = ?'
+      );
+      expect(builder.getBindings()).toEqual([100, 2]);
+    });
+
+    it('puts expression bindings before every other binding', () => {
+      const { builder } = createBuilder('users');
+      builder
+        .selectRaw('? as flag', ['x'])
+        .withExpression('recent', (q: any) => q.from('posts').where('id', '>', 10))
+        .where('id', 5);
+
+      expect(builder.getBindings()).toEqual([10, 'x', 5]);
+    });
+
+    it('compiles the with clause once for unions', () => {
+      const { builder } = createBuilder('tree');
+      const { builder: other } = createBuilder('tree');
+      builder.withExpression('tree', (q: any) => q.from('categories')).union(other.where('id', 1));
+
+      expect(builder.toSql()).toBe(
+        'with `tree` as (select * from `categories`) select * from `tree` union select * from `tree` where `id` = ?'
+      );
+    });
+
+    it('keeps expressions when cloned', () => {
+      const { builder } = createBuilder('x');
+      builder.withExpression('x', (q: any) => q.from('users').where('id', 1));
+
+      const clone = builder.clone();
+      expect(clone.toSql()).toBe(builder.toSql());
+      expect(clone.getBindings()).toEqual([1]);
+    });
+  });
+
+  // ── withRecursiveExpression ──────────────────────────
+
+  describe('withRecursiveExpression', () => {
+    it('adds the recursive keyword', () => {
+      const { builder } = createBuilder('tree');
+      builder.withRecursiveExpression('tree', (q: any) => {
+        q.from('categories').whereNull('parent_id').unionAll((r: any) => {
+          r.from('categories').select('categories.*').join('tree', 'tree.id', '=', 'categories.parent_id');
+        });
+      });
+
+      expect(builder.toSql()).toBe(
+        'with recursive `tree` as (select * from `categories` where `parent_id` is null union all '
+        + 'select `categories`.* from `categories` inner join `tree` on `tree`.`id` = `categories`.`parent_id`) '
+        + 'select * from `tree`'
+      );
+    });
+
+    it('omits the recursive keyword on SQL Server', () => {
+      const { builder } = builderFor(new SqlServerGrammar(), 'tree');
+      builder.withRecursiveExpression('tree', 'select 1 as [n]', ['n']);
+
+      expect(builder.toSql()).toBe('with [tree] ([n]) as (select 1 as [n]) select * from [tree]');
+    });
+  });
+
+  // ── statement prefixes ───────────────────────────────
+
+  describe('update / delete / insertUsing', () => {
+    it('prefixes updates and orders the bindings', () => {
+      const { builder, connection } = createBuilder('users');
+      builder
+        .withExpression('banned', (q: any) => q.from('bans').select('user_id').where('active', 1))
+        .whereIn('id', (q: any) => q.from('banned').select('user_id'))
+        .update({ status: 'banned' });
+
+      const [sql, bindings] = connection.update.mock.calls[0];
+      expect(sql).toBe(
+        'with `banned` as (select `user_id` from `bans` where `active` = ?) '
+        + 'update `users` set `status` = ? where `id` in (select `user_id` from `banned`)'
+      );
+      expect(bindings).toEqual([1, 'banned']);
+    });
+
+    it('prefixes deletes', () => {
+      const { builder, connection } = createBuilder('users');
+      builder.withExpression('old', (q: any) => q.from('users').where('age', '>', 90)).where('id', 3).delete();
+
+      const [sql, bindings] = connection.delete.mock.calls[0];
+      expect(sql).toBe('with `old` as (select * from `users` where `age` > ?) delete from `users` where `id` = ?');
+      expect(bindings).toEqual([90, 3]);
+    });
+
+    it('places the with clause after the column list for MySQL insertUsing', () => {
+      const { builder, connection } = createBuilder('archive');
+      builder
+        .withExpression('stale', (q: any) => q.from('posts').where('year', 2000))
+        .insertUsing(['id'], (q: any) => q.from('stale').select('id').where('id', '>', 5));
+
+      const [sql, bindings] = connection.insert.mock.calls[0];
+      expect(sql).toBe(
+        'insert into `archive` (`id`) with `stale` as (select * from `posts` where `year` = ?) select `id` from `stale` where `id` > ?'
+      );
+      expect(bindings).toEqual([2000, 5]);
+    });
+
+    it('prefixes insertUsing on other grammars', () => {
+      const { builder, connection } = builderFor(new SqliteGrammar(), 'archive');
+      builder
+        .withExpression('stale', (q: any) => q.from('posts'))
+        .insertUsing(['id'], (q: any) => q.from('stale').select('id'));
+
+      expect(connection.insert.mock.calls[0][0]).toBe(
+        'with "stale" as (select * from "posts") insert into "archive" ("id") select "id" from "stale"'
+      );
+    });
+
+    it('keeps the SQLite rowid emulation inside the prefixed statement', () => {
+      const { builder, connection } = builderFor(new SqliteGrammar());
+      builder
+        .withExpression('old', (q: any) => q.from('users').where('age', '>', 90))
+        .orderBy('id')
+        .limit(1)
+        .delete();
+
+      expect(connection.delete.mock.calls[0][0]).toBe(
+        'with "old" as (select * from "users" where "age" > ?) delete from "users" where "rowid" in '
+        + '(select "users"."rowid" from "users" order by "id" asc limit 1)'
+      );
+    });
+  });
+
+  // ── PostgreSQL numbering ─────────────────────────────
+
+  describe('PostgreSQL parameter numbering', () => {
+    it('numbers expression parameters before the statement', () => {
+      const grammar = new PostgresGrammar();
+      const { builder } = builderFor(grammar, 'b');
+      builder
+        .withExpression('a', builderFor(grammar, 'users').builder.where('id', 1))
+        .withExpression('b', builderFor(grammar, 'posts').builder.where('id', 2).where('x', 3))
+        .where('y', 4);
+
+      expect(builder.toSql()).toBe(
+        'with "a" as (select * from "users" where "id" = $1), "b" as (select * from "posts" where "id" = $2 and "x" = $3) '
+        + 'select * from "b" where "y" = $4'
+      );
+    });
+
+    it('numbers update parameters after the expressions', () => {
+      const grammar = new PostgresGrammar();
+      const { builder, connection } = builderFor(grammar);
+      builder
+        .withExpression('a', builderFor(grammar, 'bans').builder.where('active', true))
+        .where('id', 9)
+        .update({ name: 'x' });
+
+      expect(connection.update.mock.calls[0][0]).toBe(
+        'with "a" as (select * from "bans" where "active" = $1) update "users" set "name" = $2 where "id" = $3'
+      );
+    });
+  });
+});
@@ -1,5 +1,22 @@
 import { describe, it, expect } from '@jest/globals';
-import { createBuilder } from '../../helpers/MockConnection';
+import { createBuilder, createMockConnection } from '../../helpers/MockConnection';
+import { Grammar as MySqlGrammar } from '../../../src/Query/Grammars/MySqlGrammar';
+import { PostgresGrammar } from '../../../src/Query/Grammars/PostgresGrammar';
+import { SqliteGrammar } from '../../../src/Query/Grammars/SqliteGrammar';
+import { SqlServerGrammar } from '../../../src/Query/Grammars/SqlServerGrammar';
+
+class LimitedGrammar extends MySqlGrammar {
+  constructor(protected maxBindings: number) {
+    super();
+  }
+}
+
+function limitedBuilder(maxBindings: number) {
+  const grammar = new LimitedGrammar(maxBindings);
+  return createBuilder('users', createMockConnection({ getQueryGrammar: () => grammar as any }));
+}
+
+const rows = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1, name: `user${i + 1}` }));
 
 describe('Query / Builder — insert', () => {
 
@@ -116,5 +133,94 @@ describe('Query / Builder — insert', () => {
 
       expect(connection.select).toHaveBeenCalled();
     });
+
+    it('runs RETURNING inserts on the write connection and records the write', async () => {
+      const { builder, connection } = createBuilder('users');
+      await builder.returning('id').insert({ name: 'Alice' });
+
+      expect(connection.select.mock.calls[0][2]).toBe(false);
+      expect(connection.recordsHaveBeenModified).toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkLoad', () => {
+    it('hands the rows to the connection with the builder table', async () => {
+      const { builder, connection } = createBuilder('users');
+      connection.bulkLoad.mockResolvedValue(2);
+      const rows = [{ name: 'Alice' }, { name: 'Bob' }];
+
+      expect(await builder.bulkLoad(rows, { batchSize: 500 })).toBe(2);
+      expect(connection.bulkLoad).toHaveBeenCalledWith('users', rows, { batchSize: 500 });
+    });
+  });
+
+  describe('chunking by the bindings limit', () => {
+    it('splits inserts into statements that fit the limit, inside one transaction', async () => {
+      const { builder, connection } = limitedBuilder(4);
+
+      expect(await builder.insert(rows(5))).toBe(true);
+
+      expect(connection.transaction).toHaveBeenCalledTimes(1);
+      expect(connection.insert.mock.calls.map(([, bindings]: any[]) => bindings)).toEqual([
+        [1, 'user1', 2, 'user2'],
+        [3, 'user3', 4, 'user4'],
+        [5, 'user5'],
+      ]);
+    });
+
+    it('runs a single statement without a transaction when the rows fit', async () => {
+      const { builder, connection } = limitedBuilder(10);
+      await builder.insert(rows(5));
+
+      expect(connection.insert).toHaveBeenCalledTimes(1);
+      expect(connection.transaction).not.toHaveBeenCalled();
+    });
+
+    it('combines returning() results of every chunk', async () => {
+      const { builder, connection } = limitedBuilder(2);
+      connection.select.mockResolvedValueOnce([{ id: 1 }]).mockResolvedValueOnce([{ id: 2 }]);
+
+      expect(await builder.returning('id').insert(rows(2))).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(connection.select).toHaveBeenCalledTimes(2);
+    });
+
+    it('sums the affected rows of insertOrIgnore and upsert chunks', async () => {
+      const { builder, connection } = limitedBuilder(4);
+      connection.affectingStatement.mockResolvedValueOnce(2).mockResolvedValueOnce(1);
+      expect(await builder.insertOrIgnore(rows(3))).toBe(3);
+
+      connection.affectingStatement.mockResolvedValueOnce(2).mockResolvedValueOnce(2);
+      expect(await builder.upsert(rows(4), ['id'], ['name'])).toBe(4);
+      expect(connection.transaction).toHaveBeenCalledTimes(2);
+    });
+
+    it('reserves room for the literal values of onConflict().merge()', async () => {
+      const { builder, connection } = limitedBuilder(5);
+      connection.affectingStatement.mockResolvedValue(2);
+
+      const count = await builder.onConflict('id').merge({ name: 'dup' }).insert(rows(3));
+
+      expect(count).toBe(4);
+      expect(connection.affectingStatement.mock.calls.map(([, bindings]: any[]) => bindings)).toEqual([
+        [1, 'user1', 2, 'user2', 'dup'],
+        [3, 'user3', 'dup'],
+      ]);
+    });
+
+    it('defines the limit of every grammar', () => {
+      expect(new MySqlGrammar().getMaxBindings()).toBe(65535);
+      expect(new PostgresGrammar().getMaxBindings()).toBe(65535);
+      expect(new SqliteGrammar().getMaxBindings()).toBe(32766);
+      expect(new SqlServerGrammar().getMaxBindings()).toBe(2100);
+    });
+
+    it('also caps SQL Server inserts at 1000 rows per statement', async () => {
+      const grammar = new SqlServerGrammar();
+      const { builder, connection } = createBuilder('users', createMockConnection({ getQueryGrammar: () => grammar as any }));
+
+      await builder.insert(Array.from({ length: 1500 }, (_, i) => ({ id: i })));
+
+      expect(connection.insert.mock.calls.map(([, bindings]: any[]) => bindings.length)).toEqual([1000, 500]);
+    });
   });
 });
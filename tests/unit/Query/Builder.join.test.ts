@@ -1,5 +1,14 @@
 import { describe, it, expect } from '@jest/globals';
-import { createBuilder } from '../../helpers/MockConnection';
+import { PostgresGrammar } from '../../../src/Query/Grammars/PostgresGrammar';
+import { SqlServerGrammar } from '../../../src/Query/Grammars/SqlServerGrammar';
+import { SqliteGrammar } from '../../../src/Query/Grammars/SqliteGrammar';
+import { GuruORMError } from '../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../helpers/MockConnection';
+
+function builderFor(grammar: any, table = 'posts') {
+  const connection = createMockConnection({ getQueryGrammar: () => grammar });
+  return createBuilder(table, connection);
+}
 
 describe('Query / Builder — joins', () => {
 
@@ -84,6 +93,21 @@ describe('Query / Builder — joins', () => {
       const sql = builder.toSql();
       expect(sql).toContain('latest_orders');
     });
+
+    it('joins a subquery on a closure', () => {
+      const { builder } = createBuilder('users');
+      builder.joinSub(
+        (q: any) => q.from('orders').where('paid', true),
+        'paid_orders',
+        (join: any) => join.on('users.id', '=', 'paid_orders.user_id').on('users.team_id', '=', 'paid_orders.team_id'),
+      );
+
+      expect(builder.toSql()).toBe(
+        'select * from `users` inner join (select * from `orders` where `paid` = ?) as `paid_orders` '
+        + 'on `users`.`id` = `paid_orders`.`user_id` and `users`.`team_id` = `paid_orders`.`team_id`',
+      );
+      expect(builder.getBindings()).toEqual([true]);
+    });
   });
 
   describe('leftJoinSub', () => {
@@ -113,4 +137,62 @@ describe('Query / Builder — joins', () => {
       expect(sql).toContain('left join `profiles`');
     });
   });
+
+  describe('lateral joins', () => {
+    const latestComments = (q: any) => q
+      .from('comments')
+      .whereColumn('comments.post_id', 'posts.id')
+      .where('approved', 1)
+      .orderBy('created_at', 'desc')
+      .limit(3);
+
+    it('compiles JOIN LATERAL ... ON true', () => {
+      const { builder } = createBuilder('posts');
+      builder.where('posts.active', 1).joinLateral(latestComments, 'latest');
+
+      expect(builder.toSql()).toBe(
+        'select * from `posts` inner join lateral (select * from `comments` where `comments`.`post_id` = `posts`.`id` '
+        + 'and `approved` = ? order by `created_at` desc limit 3) as `latest` on true where `posts`.`active` = ?'
+      );
+      expect(builder.getBindings()).toEqual([1, 1]);
+    });
+
+    it('compiles LEFT JOIN LATERAL', () => {
+      const { builder } = createBuilder('posts');
+      builder.leftJoinLateral(latestComments, 'latest');
+
+      expect(builder.toSql()).toContain('left join lateral (');
+    });
+
+    it('continues PostgreSQL parameter numbering', () => {
+      const grammar = new PostgresGrammar();
+      const { builder } = builderFor(grammar);
+      const { builder: comments } = builderFor(grammar, 'comments');
+      comments.whereColumn('comments.post_id', 'posts.id').where('approved', true);
+
+      builder.select('posts.id').joinLateral(comments, 'c').where('posts.active', true);
+
+      expect(builder.toSql()).toBe(
+        'select "posts"."id" from "posts" inner join lateral (select * from "comments" where "comments"."post_id" = "posts"."id" '
+        + 'and "approved" = $1) as "c" on true where "posts"."active" = $2'
+      );
+    });
+
+    it('compiles CROSS APPLY and OUTER APPLY on SQL Server', () => {
+      const { builder } = builderFor(new SqlServerGrammar());
+      builder.joinLateral(latestComments, 'latest').leftJoinLateral((q: any) => q.from('tags'), 'tags');
+
+      expect(builder.toSql()).toBe(
+        'select * from [posts] cross apply (select top 3 * from [comments] where [comments].[post_id] = [posts].[id] '
+        + 'and [approved] = ? order by [created_at] desc) as [latest] outer apply (select * from [tags]) as [tags]'
+      );
+    });
+
+    it('throws on SQLite', () => {
+      const { builder } = builderFor(new SqliteGrammar());
+      builder.joinLateral(latestComments, 'latest');
+
+      expect(() => builder.toSql()).toThrow(GuruORMError);
+    });
+  });
 });
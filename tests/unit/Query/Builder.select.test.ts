@@ -106,10 +106,30 @@ describe('Query / Builder — select', () => {
       expect(connection.select).toHaveBeenCalledWith(
         expect.stringContaining('select'),
         expect.any(Array),
+        true,
       );
       expect(rows).toEqual([{ id: 1, name: 'Alice' }]);
     });
 
+    it('reads from the write connection after useWritePdo()', async () => {
+      const { builder, connection } = createBuilder('users');
+      await builder.useWritePdo().get();
+      expect(connection.select.mock.calls[0][2]).toBe(false);
+    });
+
+    it('reads locking selects from the write connection', async () => {
+      const { builder, connection } = createBuilder('users');
+      await builder.where('id', 1).lockForUpdate().get();
+      await createBuilder('users', connection).builder.sharedLock().get();
+      expect(connection.select.mock.calls.map((call: any[]) => call[2])).toEqual([false, false]);
+    });
+
+    it('keeps useWritePdo() on clones', async () => {
+      const { builder, connection } = createBuilder('users');
+      await builder.useWritePdo().clone().get();
+      expect(connection.select.mock.calls[0][2]).toBe(false);
+    });
+
     it('accepts column list', async () => {
       const { builder, connection } = createBuilder('users');
       connection.select.mockResolvedValue([{ id: 1 }]);
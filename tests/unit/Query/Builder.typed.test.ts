@@ -0,0 +1,91 @@
+import { Builder } from '../../../src/Query/Builder';
+import { createMockConnection } from '../../helpers/MockConnection';
+
+interface UserRow {
+  id: number;
+  email: string;
+  votes: number;
+  created_at: Date;
+}
+
+function typedBuilder() {
+  const connection = createMockConnection();
+  const builder = new Builder<UserRow>(connection as any).from('users');
+  return { builder, connection };
+}
+
+describe('Query / Builder typed rows', () => {
+  it('accepts the columns of the row type', () => {
+    const { builder } = typedBuilder();
+
+    builder
+      .where('votes', '>', 100)
+      .orWhere({ email: 'a@b.c' })
+      .whereIn('id', [1, 2])
+      .whereNotNull('created_at')
+      .orderBy('created_at', 'desc');
+
+    expect(builder.toSql()).toBe(
+      'select * from `users` where `votes` > ? or `email` = ? and `id` in (?, ?) and `created_at` is not null order by `created_at` desc'
+    );
+  });
+
+  it('rejects unknown columns at compile time', () => {
+    const { builder } = typedBuilder();
+
+    // @ts-expect-error "name" is not a column of UserRow
+    builder.where('name', 'Taylor');
+    // @ts-expect-error "name" is not a column of UserRow
+    builder.orderBy('name');
+    // @ts-expect-error "name" is not a column of UserRow
+    builder.pluck('name');
+
+    expect(builder.toSql()).toContain('`name`');
+  });
+
+  it('types get() and first() with the row type', async () => {
+    const { builder, connection } = typedBuilder();
+    connection.select.mockResolvedValue([{ id: 1, email: 'a@b.c', votes: 3, created_at: new Date() }]);
+
+    const rows: UserRow[] = await builder.get();
+    const row: UserRow | null = await builder.first();
+
+    expect(rows[0].email).toBe('a@b.c');
+    expect(row?.votes).toBe(3);
+  });
+
+  it('narrows the row type to the selected columns', async () => {
+    const { builder, connection } = typedBuilder();
+    connection.select.mockResolvedValue([{ id: 1, email: 'a@b.c' }]);
+
+    const rows = await builder.select('id', 'email').get();
+    const narrowed: { id: number; email: string }[] = rows;
+
+    // @ts-expect-error votes was not selected
+    expect(rows[0].votes).toBeUndefined();
+    expect(narrowed).toEqual([{ id: 1, email: 'a@b.c' }]);
+    expect(connection.select.mock.calls[0][0]).toBe('select `id`, `email` from `users`');
+  });
+
+  it('types pluck() and value() with the column type', async () => {
+    const { builder, connection } = typedBuilder();
+    connection.select
+      .mockResolvedValueOnce([{ votes: 1 }, { votes: 2 }])
+      .mockResolvedValueOnce([{ email: 'a@b.c' }]);
+
+    const votes: number[] = await builder.pluck('votes');
+    const email: string | null = await builder.value('email');
+
+    expect(votes).toEqual([1, 2]);
+    expect(email).toBe('a@b.c');
+  });
+
+  it('keeps untyped builders loose', async () => {
+    const connection = createMockConnection();
+    const builder = new Builder(connection as any).from('users');
+
+    builder.where('anything', 1).orderBy('whatever').select('name as n', 'id');
+
+    expect(builder.toSql()).toBe('select `name` as `n`, `id` from `users` where `anything` = ? order by `whatever` asc');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from '@jest/globals';
+import { PostgresGrammar } from '../../../src/Query/Grammars/PostgresGrammar';
+import { SqlServerGrammar } from '../../../src/Query/Grammars/SqlServerGrammar';
+import { GuruORMError } from '../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../helpers/MockConnection';
+
+function builderFor(grammar: any, table = 'posts') {
+  const connection = createMockConnection({ getQueryGrammar: () => grammar });
+  return createBuilder(table, connection);
+}
+
+describe('Query / Builder — window functions', () => {
+
+  // ── selectWindow ─────────────────────────────────────
+
+  describe('selectWindow', () => {
+    it('compiles a window function next to all columns', () => {
+      const { builder } = createBuilder('orders');
+      builder.selectWindow('sum', 'amount', (over) => {
+        over.partitionBy('user_id').orderBy('created_at').rows('unbounded preceding', 'current row');
+      }, 'running_total');
+
+      expect(builder.toSql()).toBe(
+        'select *, sum(`amount`) over (partition by `user_id` order by `created_at` asc '
+        + 'rows between unbounded preceding and current row) as `running_total` from `orders`'
+      );
+    });
+
+    it('keeps explicitly selected columns', () => {
+      const { builder } = createBuilder('posts');
+      builder.select('id', 'user_id').selectRowNumber((over) => over.partitionBy('user_id').orderByDesc('id'), 'rn');
+
+      expect(builder.toSql()).toBe(
+        'select `id`, `user_id`, row_number() over (partition by `user_id` order by `id` desc) as `rn` from `posts`'
+      );
+    });
+
+    it('compiles rank, dense_rank, lag and lead helpers', () => {
+      const { builder } = createBuilder('scores');
+      builder
+        .select('id')
+        .selectRank((over) => over.orderByDesc('points'))
+        .selectDenseRank((over) => over.orderByDesc('points'))
+        .selectLag('points', (over) => over.orderBy('id'), 'previous')
+        .selectLead('points', (over) => over.orderBy('id'), 'next', 2);
+
+      expect(builder.toSql()).toBe(
+        'select `id`, rank() over (order by `points` desc) as `rank`, '
+        + 'dense_rank() over (order by `points` desc) as `dense_rank`, '
+        + 'lag(`points`, 1) over (order by `id` asc) as `previous`, '
+        + 'lead(`points`, 2) over (order by `id` asc) as `next` from `scores`'
+      );
+    });
+
+    it('rejects unsafe function names and offsets', () => {
+      const { builder } = createBuilder('posts');
+      expect(() => builder.selectWindow('sum); drop', 'x', 'w', 'y')).toThrow(GuruORMError);
+      expect(() => builder.selectLag('x', 'w', 'y', -1)).toThrow(GuruORMError);
+    });
+  });
+
+  // ── named windows ────────────────────────────────────
+
+  describe('named windows', () => {
+    it('compiles a WINDOW clause before the order by', () => {
+      const { builder } = createBuilder('posts');
+      builder
+        .selectRowNumber('w', 'rn')
+        .selectWindow('avg', 'score', 'w', 'avg_score')
+        .window('w', (window) => window.partitionBy('user_id').orderBy('id'))
+        .where('active', 1)
+        .orderBy('id');
+
+      expect(builder.toSql()).toBe(
+        'select *, row_number() over `w` as `rn`, avg(`score`) over `w` as `avg_score` from `posts` '
+        + 'where `active` = ? window `w` as (partition by `user_id` order by `id` asc) order by `id` asc'
+      );
+    });
+
+    it('extends a named window', () => {
+      const { builder } = builderFor(new PostgresGrammar());
+      builder
+        .selectWindow('sum', 'amount', (over) => { over.base = 'w'; over.rows(-1, 0); }, 'pair')
+        .window('w', (window) => window.partitionBy('user_id').orderBy('id'));
+
+      expect(builder.toSql()).toBe(
+        'select *, sum("amount") over ("w" rows between 1 preceding and current row) as "pair" from "posts" '
+        + 'window "w" as (partition by "user_id" order by "id" asc)'
+      );
+    });
+
+    it('inlines named windows on SQL Server', () => {
+      const { builder } = builderFor(new SqlServerGrammar());
+      builder
+        .selectRowNumber('w', 'rn')
+        .selectWindow('sum', 'amount', (over) => { over.base = 'w'; over.rows('unbounded preceding'); }, 'total')
+        .window('w', (window) => window.partitionBy('user_id').orderBy('id'));
+
+      expect(builder.toSql()).toBe(
+        'select *, row_number() over (partition by [user_id] order by [id] asc) as [rn], '
+        + 'sum([amount]) over (partition by [user_id] order by [id] asc rows unbounded preceding) as [total] from [posts]'
+      );
+    });
+
+    it('throws for an undefined window on SQL Server', () => {
+      const { builder } = builderFor(new SqlServerGrammar());
+      builder.selectRowNumber('missing');
+      expect(() => builder.toSql()).toThrow(GuruORMError);
+    });
+  });
+
+  // ── groupLimit ───────────────────────────────────────
+
+  describe('groupLimit', () => {
+    it('limits the rows of each group with row_number()', () => {
+      const { builder } = createBuilder('posts');
+      builder.where('published', 1).orderBy('created_at', 'desc').groupLimit(3, 'user_id');
+
+      expect(builder.toSql()).toBe(
+        'select * from (select *, row_number() over (partition by `user_id` order by `created_at` desc) as `guruorm_row` '
+        + 'from `posts` where `published` = ?) as `guruorm_table` where `guruorm_row` <= 3 order by `guruorm_row`'
+      );
+      expect(builder.getBindings()).toEqual([1]);
+    });
+
+    it('applies the offset per group', () => {
+      const { builder } = builderFor(new SqlServerGrammar());
+      builder.orderBy('id').offset(2).limit(5).groupLimit(2, 'user_id');
+
+      expect(builder.toSql()).toBe(
+        'select * from (select *, row_number() over (partition by [user_id] order by [id] asc) as [guruorm_row] '
+        + 'from [posts]) as [guruorm_table] where [guruorm_row] > 2 and [guruorm_row] <= 4 order by [guruorm_row]'
+      );
+    });
+
+    it('leaves the query untouched afterwards and strips the row number from results', async () => {
+      const { builder, connection } = createBuilder('posts');
+      connection.select.mockResolvedValue([{ id: 1, guruorm_row: 1 }]);
+      builder.orderBy('id').limit(10).groupLimit(1, 'user_id');
+
+      const rows = await builder.get();
+
+      expect(rows).toEqual([{ id: 1 }]);
+      expect((builder as any).orders).toHaveLength(1);
+      expect((builder as any).limitValue).toBe(10);
+    });
+  });
+});
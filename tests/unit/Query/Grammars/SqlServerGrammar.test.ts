@@ -0,0 +1,216 @@
+import { describe, it, expect } from '@jest/globals';
+import { SqlServerGrammar } from '../../../../src/Query/Grammars/SqlServerGrammar';
+import { Expression } from '../../../../src/Query/Expression';
+import { GuruORMError } from '../../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+function sqlServerBuilder(table = 'users') {
+  const grammar = new SqlServerGrammar();
+  const connection = createMockConnection({
+    getQueryGrammar: () => grammar as any,
+    getDriverName: () => 'sqlserver',
+  });
+  return createBuilder(table, connection);
+}
+
+describe('Query / Grammars / SqlServerGrammar', () => {
+
+  // ── wrap ─────────────────────────────────────────────
+
+  describe('wrap', () => {
+    it('uses brackets', () => {
+      const g = new SqlServerGrammar();
+      expect(g.wrap('users.name')).toBe('[users].[name]');
+    });
+
+    it('escapes closing brackets', () => {
+      const g = new SqlServerGrammar();
+      expect(g.wrap('odd]name')).toBe('[odd]]name]');
+    });
+
+    it('wraps aliases', () => {
+      const g = new SqlServerGrammar();
+      expect(g.wrap('name as n')).toBe('[name] as [n]');
+    });
+  });
+
+  // ── limit / offset ───────────────────────────────────
+
+  describe('limit and offset', () => {
+    it('uses TOP for a plain limit', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.limit(10).toSql()).toBe('select top 10 * from [users]');
+    });
+
+    it('places TOP after DISTINCT', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.select('name').distinct().limit(5).toSql()).toBe('select distinct top 5 [name] from [users]');
+    });
+
+    it('uses OFFSET / FETCH NEXT when paging', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.orderBy('id').forPage(3, 10).toSql()).toBe(
+        'select * from [users] order by [id] asc offset 20 rows fetch next 10 rows only'
+      );
+    });
+
+    it('adds an ORDER BY fallback for OFFSET without orders', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.offset(5).toSql()).toBe('select * from [users] order by (select 0) offset 5 rows');
+    });
+
+    it('uses NEWID() for random ordering', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.inRandomOrder().toSql()).toBe('select * from [users] order by NEWID()');
+    });
+  });
+
+  // ── locks ────────────────────────────────────────────
+
+  describe('locks', () => {
+    it('compiles lockForUpdate as a table hint', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.where('id', 1).lockForUpdate().toSql()).toBe(
+        'select * from [users] with (updlock, rowlock) where [id] = ?'
+      );
+    });
+
+    it('compiles sharedLock as a table hint', () => {
+      const { builder } = sqlServerBuilder();
+      expect(builder.sharedLock().toSql()).toBe('select * from [users] with (rowlock, holdlock)');
+    });
+  });
+
+  // ── wheres ───────────────────────────────────────────
+
+  describe('wheres', () => {
+    it('casts for whereDate and whereTime', () => {
+      const { builder } = sqlServerBuilder();
+      builder.whereDate('created_at', '2024-01-01').whereTime('created_at', '>', '10:00');
+      expect(builder.toSql()).toBe(
+        'select * from [users] where cast([created_at] as date) = ? and cast([created_at] as time) > ?'
+      );
+    });
+
+    it('uses openjson for JSON clauses', () => {
+      const { builder } = sqlServerBuilder();
+      builder.whereJsonContains('options->languages', 'en').whereJsonLength('tags', '>', 1);
+      expect(builder.toSql()).toBe(
+        `select * from [users] where ? in (select [value] from openjson([options], '$."languages"')) and (select count(*) from openjson([tags])) > ?`
+      );
+    });
+
+    it('uses CONTAINS for full text', () => {
+      const { builder } = sqlServerBuilder();
+      builder.whereFullText(['title', 'body'], 'hello');
+      expect(builder.toSql()).toBe('select * from [users] where contains(([title], [body]), ?)');
+    });
+  });
+
+  // ── inserts ──────────────────────────────────────────
+
+  describe('inserts', () => {
+    it('compiles insertGetId with OUTPUT INSERTED', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.insertGetId({ name: 'A' });
+      expect(connection.select.mock.calls[0][0]).toBe(
+        'insert into [users] ([name]) output inserted.[id] values (?)'
+      );
+    });
+
+    it('compiles returning() as OUTPUT before VALUES', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.returning(['id', 'name']).insert([{ name: 'A' }, { name: 'B' }]);
+      const [sql, bindings] = connection.select.mock.calls[0];
+      expect(sql).toBe(
+        'insert into [users] ([name]) output inserted.[id], inserted.[name] values (?), (?)'
+      );
+      expect(bindings).toEqual(['A', 'B']);
+    });
+
+    it('supports returning all columns', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.returning('*').insert({ name: 'A' });
+      expect(connection.select.mock.calls[0][0]).toContain('output inserted.*');
+    });
+
+    it('rejects insertOrIgnore', async () => {
+      const { builder } = sqlServerBuilder();
+      await expect(builder.insertOrIgnore({ name: 'A' })).rejects.toThrow(GuruORMError);
+    });
+  });
+
+  // ── upserts ──────────────────────────────────────────
+
+  describe('upsert', () => {
+    it('compiles a MERGE statement', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.upsert([{ email: 'a@b.c', name: 'A' }, { email: 'd@e.f', name: 'D' }], ['email']);
+      const [sql, bindings] = connection.affectingStatement.mock.calls[0];
+      expect(sql).toBe(
+        'merge [users] using (values (?, ?), (?, ?)) [guruorm_source] ([email], [name]) '
+        + 'on [guruorm_source].[email] = [users].[email] '
+        + 'when matched then update set [name] = [guruorm_source].[name] '
+        + 'when not matched then insert ([email], [name]) values ([guruorm_source].[email], [guruorm_source].[name]);'
+      );
+      expect(bindings).toEqual(['a@b.c', 'A', 'd@e.f', 'D']);
+    });
+
+    it('compiles onConflict().ignore() as MERGE without update', () => {
+      const g = new SqlServerGrammar();
+      const { builder } = sqlServerBuilder();
+      const sql = g.compileInsertOnConflict(builder, [{ email: 'a@b.c' }], ['email'], 'ignore', null);
+      expect(sql).not.toContain('when matched');
+      expect(sql).toContain('when not matched then insert');
+    });
+
+    it('compiles onConflict().merge() with literal values', () => {
+      const g = new SqlServerGrammar();
+      const { builder } = sqlServerBuilder();
+      const sql = g.compileInsertOnConflict(
+        builder, [{ email: 'a@b.c' }], ['email'], 'merge', { hits: new Expression('[hits] + 1'), name: 'X' }
+      );
+      expect(sql).toContain('when matched then update set [hits] = [hits] + 1, [name] = ?');
+    });
+
+    it('requires an explicit conflict target', () => {
+      const g = new SqlServerGrammar();
+      const { builder } = sqlServerBuilder();
+      expect(() => g.compileInsertOnConflict(builder, [{ email: 'a' }], true, 'ignore', null)).toThrow(GuruORMError);
+    });
+  });
+
+  // ── update / delete ──────────────────────────────────
+
+  describe('update and delete', () => {
+    it('compiles UPDATE TOP', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.where('active', 0).limit(100).update({ active: 1 });
+      expect(connection.update.mock.calls[0][0]).toBe('update top (100) [users] set [active] = ? where [active] = ?');
+    });
+
+    it('compiles UPDATE ... FROM ... JOIN', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.join('posts', 'posts.user_id', '=', 'users.id').where('posts.id', 3).update({ votes: 1 });
+      const [sql, bindings] = connection.update.mock.calls[0];
+      expect(sql).toBe(
+        'update [users] set [votes] = ? from [users] inner join [posts] on [posts].[user_id] = [users].[id] where [posts].[id] = ?'
+      );
+      expect(bindings).toEqual([1, 3]);
+    });
+
+    it('compiles DELETE TOP', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.where('votes', '<', 1).limit(10).delete();
+      expect(connection.delete.mock.calls[0][0]).toBe('delete top (10) from [users] where [votes] < ?');
+    });
+
+    it('compiles DELETE ... FROM ... JOIN', () => {
+      const { builder, connection } = sqlServerBuilder();
+      builder.join('posts', 'posts.user_id', '=', 'users.id').delete();
+      expect(connection.delete.mock.calls[0][0]).toBe(
+        'delete [users] from [users] inner join [posts] on [posts].[user_id] = [users].[id]'
+      );
+    });
+  });
+});
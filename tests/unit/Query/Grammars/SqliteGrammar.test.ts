@@ -0,0 +1,201 @@
+import { describe, it, expect } from '@jest/globals';
+import { SqliteGrammar } from '../../../../src/Query/Grammars/SqliteGrammar';
+import { GuruORMError } from '../../../../src/Errors/GuruORMError';
+import { createBuilder, createMockConnection } from '../../../helpers/MockConnection';
+
+function sqliteBuilder(table = 'users') {
+  const grammar = new SqliteGrammar();
+  const connection = createMockConnection({
+    getQueryGrammar: () => grammar as any,
+    getDriverName: () => 'sqlite',
+  });
+  return createBuilder(table, connection);
+}
+
+describe('Query / Grammars / SqliteGrammar', () => {
+
+  // ── wrap ─────────────────────────────────────────────
+
+  describe('wrap', () => {
+    it('uses double quotes', () => {
+      const g = new SqliteGrammar();
+      expect(g.wrap('users.name')).toBe('"users"."name"');
+    });
+  });
+
+  // ── date based wheres ────────────────────────────────
+
+  describe('date based wheres', () => {
+    it('compiles whereDate with strftime', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereDate('created_at', '2024-05-03');
+      expect(builder.toSql()).toBe(
+        `select * from "users" where strftime('%Y-%m-%d', "created_at") = cast(? as text)`
+      );
+    });
+
+    it('compiles whereTime with strftime', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereTime('created_at', '>', '10:00:00');
+      expect(builder.toSql()).toContain(`strftime('%H:%M:%S', "created_at") > cast(? as text)`);
+    });
+
+    it('compiles whereDay / whereMonth / whereYear as integer comparisons', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereDay('created_at', 3).whereMonth('created_at', 5).whereYear('created_at', 2024);
+      const sql = builder.toSql();
+      expect(sql).toContain(`cast(strftime('%d', "created_at") as integer) = cast(? as integer)`);
+      expect(sql).toContain(`cast(strftime('%m', "created_at") as integer) = cast(? as integer)`);
+      expect(sql).toContain(`cast(strftime('%Y', "created_at") as integer) = cast(? as integer)`);
+      expect(builder.getBindings()).toEqual([3, 5, 2024]);
+    });
+  });
+
+  // ── JSON wheres ──────────────────────────────────────
+
+  describe('JSON wheres', () => {
+    it('compiles whereJsonContains with json_each', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereJsonContains('options->languages', 'en');
+      expect(builder.toSql()).toBe(
+        `select * from "users" where exists (select 1 from json_each("options", '$."languages"') where "json_each"."value" is ?)`
+      );
+    });
+
+    it('compiles whereJsonDoesntContain', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereJsonDoesntContain('tags', 'x');
+      expect(builder.toSql()).toContain('where not exists (select 1 from json_each("tags")');
+    });
+
+    it('compiles whereJsonLength with json_array_length', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereJsonLength('meta->tags', '>', 1);
+      expect(builder.toSql()).toBe(
+        `select * from "users" where json_array_length("meta", '$."tags"') > ?`
+      );
+    });
+  });
+
+  // ── unsupported / no-op clauses ──────────────────────
+
+  describe('locks and full text', () => {
+    it('ignores lockForUpdate and sharedLock', () => {
+      const { builder } = sqliteBuilder();
+      expect(builder.where('id', 1).lockForUpdate().toSql()).toBe('select * from "users" where "id" = ?');
+      expect(sqliteBuilder().builder.sharedLock().toSql()).toBe('select * from "users"');
+    });
+
+    it('throws for whereFullText', () => {
+      const { builder } = sqliteBuilder();
+      builder.whereFullText('body', 'hello');
+      expect(() => builder.toSql()).toThrow(GuruORMError);
+    });
+  });
+
+  // ── limit / offset / unions ──────────────────────────
+
+  describe('limit and offset', () => {
+    it('adds limit -1 when only an offset is given', () => {
+      const { builder } = sqliteBuilder();
+      expect(builder.offset(10).toSql()).toBe('select * from "users" limit -1 offset 10');
+    });
+
+    it('keeps normal limit/offset', () => {
+      const { builder } = sqliteBuilder();
+      expect(builder.limit(5).offset(10).toSql()).toBe('select * from "users" limit 5 offset 10');
+    });
+
+    it('applies outer order/limit to the whole union and wraps ordered members', () => {
+      const { builder } = sqliteBuilder();
+      const other = sqliteBuilder('admins').builder.select('name').orderBy('id', 'desc').limit(1);
+      builder.select('name').union(other).orderBy('name').limit(3);
+      expect(builder.toSql()).toBe(
+        'select "name" from "users" union select * from (select "name" from "admins" order by "id" desc limit 1) order by "name" asc limit 3'
+      );
+    });
+  });
+
+  // ── inserts ──────────────────────────────────────────
+
+  describe('inserts', () => {
+    it('compiles insertOrIgnore for every row', () => {
+      const { builder, connection } = sqliteBuilder();
+      builder.insertOrIgnore([{ name: 'a' }, { name: 'b' }]);
+      const [sql, bindings] = connection.affectingStatement.mock.calls[0];
+      expect(sql).toBe('insert or ignore into "users" ("name") values (?), (?)');
+      expect(bindings).toEqual(['a', 'b']);
+    });
+
+    it('compiles insertGetId with returning', () => {
+      const g = new SqliteGrammar();
+      const { builder } = sqliteBuilder();
+      expect(g.compileInsertGetId(builder, { name: 'a' })).toBe(
+        'insert into "users" ("name") values (?) returning "id"'
+      );
+    });
+
+    it('compiles upsert with on conflict do update', () => {
+      const { builder, connection } = sqliteBuilder();
+      builder.upsert([{ email: 'a@b.c', name: 'A' }], ['email']);
+      const [sql] = connection.affectingStatement.mock.calls[0];
+      expect(sql).toBe(
+        'insert into "users" ("email", "name") values (?, ?) on conflict ("email") do update set "name" = excluded."name"'
+      );
+    });
+
+    it('compiles upsert with nothing to update as do nothing', () => {
+      const g = new SqliteGrammar();
+      const { builder } = sqliteBuilder();
+      expect(g.compileUpsert(builder, [{ email: 'a@b.c' }], ['email'])).toContain(
+        'on conflict ("email") do nothing'
+      );
+    });
+
+    it('places returning after the conflict clause', () => {
+      const g = new SqliteGrammar();
+      const { builder } = sqliteBuilder();
+      builder.returning(['id']);
+      expect(g.compileUpsert(builder, [{ email: 'a@b.c', name: 'A' }], ['email'])).toMatch(
+        /do update set "name" = excluded\."name" returning "id"$/
+      );
+    });
+  });
+
+  // ── update / delete emulation ────────────────────────
+
+  describe('update and delete', () => {
+    it('compiles a plain delete unchanged', () => {
+      const { builder, connection } = sqliteBuilder();
+      builder.where('id', 1).delete();
+      expect(connection.delete.mock.calls[0][0]).toBe('delete from "users" where "id" = ?');
+    });
+
+    it('emulates delete with order and limit through rowid', () => {
+      const { builder, connection } = sqliteBuilder();
+      builder.where('votes', '<', 5).orderBy('id').limit(2).delete();
+      expect(connection.delete.mock.calls[0][0]).toBe(
+        'delete from "users" where "rowid" in (select "users"."rowid" from "users" where "votes" < ? order by "id" asc limit 2)'
+      );
+    });
+
+    it('emulates update with joins through rowid', () => {
+      const { builder, connection } = sqliteBuilder();
+      builder
+        .join('posts', 'posts.user_id', '=', 'users.id')
+        .where('posts.id', 9)
+        .update({ 'users.votes': 1 });
+      const [sql, bindings] = connection.update.mock.calls[0];
+      expect(sql).toBe(
+        'update "users" set "votes" = ? where "rowid" in (select "users"."rowid" from "users" inner join "posts" on "posts"."user_id" = "users"."id" where "posts"."id" = ?)'
+      );
+      expect(bindings).toEqual([1, 9]);
+    });
+
+    it('compiles truncate as delete', () => {
+      const g = new SqliteGrammar();
+      const { builder } = sqliteBuilder();
+      expect(g.compileTruncate(builder)).toBe('delete from "users"');
+    });
+  });
+});
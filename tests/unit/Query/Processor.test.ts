@@ -35,4 +35,95 @@ describe('Query / Processor', () => {
       expect(processor.processColumnListing([])).toEqual([]);
     });
   });
+
+  describe('processTables', () => {
+    test('normalizes table rows', () => {
+      expect(processor.processTables([
+        { name: 'users', schema: 'app', size: '32768', comment: '', collation: 'utf8mb4_unicode_ci', engine: 'InnoDB' },
+        { name: 'posts', schema: null, size: null, comment: null, collation: null, engine: null },
+      ])).toEqual([
+        { name: 'users', schema: 'app', size: 32768, comment: null, collation: 'utf8mb4_unicode_ci', engine: 'InnoDB' },
+        { name: 'posts', schema: null, size: null, comment: null, collation: null, engine: null },
+      ]);
+    });
+  });
+
+  describe('processViews', () => {
+    test('normalizes view rows', () => {
+      expect(processor.processViews([{ name: 'active_users', definition: 'select * from users' }])).toEqual([
+        { name: 'active_users', schema: null, definition: 'select * from users' },
+      ]);
+    });
+  });
+
+  describe('processColumns', () => {
+    test('normalizes column rows', () => {
+      const columns = processor.processColumns([
+        { name: 'id', type_name: 'BIGINT', type: 'bigint unsigned', nullable: 0, default: null, auto_increment: 1, enum_values: null },
+        { name: 'bio', type_name: 'varchar', type: 'varchar(255)', nullable: 1, default: undefined, auto_increment: 0, enum_values: null, collation: 'utf8mb4_unicode_ci', comment: 'About me' },
+      ]);
+
+      expect(columns).toEqual([
+        { name: 'id', typeName: 'bigint', type: 'bigint unsigned', nullable: false, default: null, autoIncrement: true, enumValues: null, collation: null, comment: null },
+        { name: 'bio', typeName: 'varchar', type: 'varchar(255)', nullable: true, default: null, autoIncrement: false, enumValues: null, collation: 'utf8mb4_unicode_ci', comment: 'About me' },
+      ]);
+    });
+
+    test('reads enum values from a MySQL enum type', () => {
+      const [column] = processor.processColumns([
+        { name: 'status', type_name: 'enum', type: "ENUM('Draft','it''s live')", nullable: 0, default: 'draft', auto_increment: 0, enum_values: null },
+      ]);
+
+      expect(column.enumValues).toEqual(['Draft', "it's live"]);
+    });
+
+    test('reads enum values from a JSON list', () => {
+      const [column] = processor.processColumns([
+        { name: 'mood', type_name: 'mood', type: 'mood', nullable: false, default: null, auto_increment: false, enum_values: '["happy","sad"]' },
+      ]);
+
+      expect(column.enumValues).toEqual(['happy', 'sad']);
+    });
+  });
+
+  describe('processIndexes', () => {
+    test('normalizes index rows', () => {
+      expect(processor.processIndexes([
+        { name: 'PRIMARY', columns: 'id', type: 'BTREE', unique: 1, primary: 1 },
+        { name: 'posts_user_id_title_index', columns: 'user_id,title', type: null, unique: 0, primary: 0 },
+      ])).toEqual([
+        { name: 'primary', columns: ['id'], type: 'btree', unique: true, primary: true },
+        { name: 'posts_user_id_title_index', columns: ['user_id', 'title'], type: null, unique: false, primary: false },
+      ]);
+    });
+
+    test('drops the synthetic primary index when the real one is reported too', () => {
+      const indexes = processor.processIndexes([
+        { name: 'primary', columns: 'code', type: null, unique: 1, primary: 1 },
+        { name: 'sqlite_autoindex_countries_1', columns: 'code', type: null, unique: 1, primary: 1 },
+      ]);
+
+      expect(indexes.map((index) => index.name)).toEqual(['sqlite_autoindex_countries_1']);
+    });
+  });
+
+  describe('processForeignKeys', () => {
+    test('normalizes foreign key rows and referential actions', () => {
+      expect(processor.processForeignKeys([
+        {
+          name: 'posts_user_id_foreign', columns: 'user_id', foreign_schema: 'app', foreign_table: 'users', foreign_columns: 'id', on_update: 'NO_ACTION', on_delete: 'c',
+        },
+        {
+          columns: 'a,b', foreign_table: 'pairs', foreign_columns: 'x,y', on_update: 'SET NULL', on_delete: 'restrict',
+        },
+      ])).toEqual([
+        {
+          name: 'posts_user_id_foreign', columns: ['user_id'], foreignSchema: 'app', foreignTable: 'users', foreignColumns: ['id'], onUpdate: 'no action', onDelete: 'cascade',
+        },
+        {
+          name: null, columns: ['a', 'b'], foreignSchema: null, foreignTable: 'pairs', foreignColumns: ['x', 'y'], onUpdate: 'set null', onDelete: 'restrict',
+        },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,37 @@
+import { describe, it, expect } from '@jest/globals';
+import { WindowClause } from '../../../src/Query/WindowClause';
+import { GuruORMError } from '../../../src/Errors/GuruORMError';
+
+describe('Query / WindowClause', () => {
+  it('collects partitions and orders', () => {
+    const window = new WindowClause().partitionBy('user_id', 'type').orderBy('created_at').orderByDesc('id');
+    expect(window.partitions).toEqual(['user_id', 'type']);
+    expect(window.orders).toEqual([
+      { column: 'created_at', direction: 'asc' },
+      { column: 'id', direction: 'desc' },
+    ]);
+  });
+
+  it('keeps a base window name', () => {
+    expect(new WindowClause('w').base).toBe('w');
+  });
+
+  it('normalizes frame bounds', () => {
+    const window = new WindowClause().rows('UNBOUNDED  preceding', 'current row');
+    expect(window.frame).toEqual({ unit: 'rows', start: 'unbounded preceding', end: 'current row' });
+  });
+
+  it('converts numeric frame offsets', () => {
+    expect(new WindowClause().range(-2, 1).frame).toEqual({ unit: 'range', start: '2 preceding', end: '1 following' });
+    expect(new WindowClause().groups(0).frame).toEqual({ unit: 'groups', start: 'current row', end: null });
+  });
+
+  it('rejects invalid frame bounds', () => {
+    expect(() => new WindowClause().rows('1; drop table users')).toThrow(GuruORMError);
+    expect(() => new WindowClause().rows(1.5)).toThrow(GuruORMError);
+  });
+
+  it('rejects invalid order directions', () => {
+    expect(() => new WindowClause().orderBy('id', 'sideways' as any)).toThrow(GuruORMError);
+  });
+});
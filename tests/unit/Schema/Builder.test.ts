@@ -0,0 +1,62 @@
+import { Builder as SchemaBuilder } from '../../../src/Schema/Builder';
+import { PostgresGrammar } from '../../../src/Schema/Grammars/PostgresGrammar';
+import { Processor } from '../../../src/Query/Processors/Processor';
+
+describe('Schema / Builder introspection', () => {
+  let connection: any;
+  let schema: SchemaBuilder;
+
+  beforeEach(() => {
+    connection = {
+      select: jest.fn().mockResolvedValue([]),
+      getSchemaGrammar: () => new PostgresGrammar(),
+      getPostProcessor: () => new Processor(),
+      getSchemaName: () => 'app',
+    };
+    schema = new SchemaBuilder(connection);
+  });
+
+  test('getTables queries the connection schema', async () => {
+    connection.select.mockResolvedValue([
+      { name: 'users', schema: 'app', size: '8192', comment: null },
+    ]);
+
+    expect(await schema.getTables()).toEqual([
+      { name: 'users', schema: 'app', size: 8192, comment: null, collation: null, engine: null },
+    ]);
+    expect(connection.select.mock.calls[0][0]).toContain("n.nspname = 'app'");
+  });
+
+  test('getViews queries the connection schema', async () => {
+    connection.select.mockResolvedValue([{ name: 'active_users', schema: 'app', definition: ' SELECT 1;' }]);
+
+    expect(await schema.getViews()).toEqual([{ name: 'active_users', schema: 'app', definition: ' SELECT 1;' }]);
+    expect(connection.select.mock.calls[0][0]).toContain("schemaname = 'app'");
+  });
+
+  test('getColumns describes the columns of a table', async () => {
+    connection.select.mockResolvedValue([{
+      name: 'email', type_name: 'varchar', type: 'character varying(255)', nullable: false, default: null, auto_increment: false, enum_values: null, collation: 'C', comment: 'Login',
+    }]);
+
+    expect(await schema.getColumns('users')).toEqual([{
+      name: 'email', typeName: 'varchar', type: 'character varying(255)', nullable: false, default: null, autoIncrement: false, enumValues: null, collation: 'C', comment: 'Login',
+    }]);
+    expect(connection.select.mock.calls[0][0]).toContain("c.relname = 'users'");
+  });
+
+  test('getIndexes and getForeignKeys describe the keys of a table', async () => {
+    connection.select
+      .mockResolvedValueOnce([{ name: 'users_pkey', columns: 'id', type: 'btree', unique: true, primary: true }])
+      .mockResolvedValueOnce([{
+        name: 'posts_user_id_foreign', columns: 'user_id', foreign_schema: 'app', foreign_table: 'users', foreign_columns: 'id', on_update: 'a', on_delete: 'c',
+      }]);
+
+    expect(await schema.getIndexes('users')).toEqual([
+      { name: 'users_pkey', columns: ['id'], type: 'btree', unique: true, primary: true },
+    ]);
+    expect(await schema.getForeignKeys('posts')).toEqual([{
+      name: 'posts_user_id_foreign', columns: ['user_id'], foreignSchema: 'app', foreignTable: 'users', foreignColumns: ['id'], onUpdate: 'no action', onDelete: 'cascade',
+    }]);
+  });
+});
@@ -51,6 +51,40 @@ describe('Schema / Grammars / PostgresGrammar', () => {
     expect(sql).toContain('pg_indexes');
   });
 
+  test('compileColumns reads pg_attribute with enum labels', () => {
+    const sql = grammar.compileColumns('public', "user's");
+    expect(sql).toContain('pg_attribute');
+    expect(sql).toContain('pg_enum');
+    expect(sql).toContain("c.relname = 'user''s'");
+    expect(sql).toContain("n.nspname = 'public'");
+  });
+
+  test('compileIndexes and compileForeignKeys read the pg catalog', () => {
+    const indexes = grammar.compileIndexes('public', 'posts');
+    expect(indexes).toContain('from pg_index i');
+    expect(indexes).toContain("tc.relname = 'posts' and tn.nspname = 'public'");
+
+    const foreignKeys = grammar.compileForeignKeys('public', 'posts');
+    expect(foreignKeys).toContain("c.contype = 'f'");
+    expect(foreignKeys).toContain('c.confupdtype as on_update, c.confdeltype as on_delete');
+  });
+
+  test('compileTables and compileViews filter by schema', () => {
+    const tables = grammar.compileTables('public');
+    expect(tables).toContain('pg_total_relation_size(c.oid) as size');
+    expect(tables).toContain("c.relkind in ('r', 'p') and n.nspname = 'public'");
+
+    expect(grammar.compileViews('public')).toBe(
+      "select viewname as name, schemaname as schema, definition from pg_views where schemaname = 'public' order by viewname"
+    );
+  });
+
+  test('compileColumns selects collations and comments', () => {
+    const sql = grammar.compileColumns('public', 'users');
+    expect(sql).toContain('as collation');
+    expect(sql).toContain('col_description(c.oid, a.attnum) as comment');
+  });
+
   // ---- getType mapping ----
   describe('getType', () => {
     const getType = (type: string, extra?: any) => {
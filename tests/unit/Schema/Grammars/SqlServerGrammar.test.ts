@@ -0,0 +1,169 @@
+import { SqlServerGrammar } from '../../../../src/Schema/Grammars/SqlServerGrammar';
+
+describe('Schema / Grammars / SqlServerGrammar', () => {
+  let grammar: SqlServerGrammar;
+
+  beforeEach(() => {
+    grammar = new SqlServerGrammar();
+  });
+
+  // ---- SQL compilation methods ----
+  test('wrap uses brackets', () => {
+    expect(grammar.wrap('users')).toBe('[users]');
+    expect(grammar.wrap('odd]name')).toBe('[odd]]name]');
+  });
+
+  test('compileTableExists returns sys.tables query', () => {
+    const sql = grammar.compileTableExists();
+    expect(sql).toContain('sys.tables');
+    expect(sql).toContain('db_name()');
+  });
+
+  test('compileColumnListing returns sys.columns query', () => {
+    expect(grammar.compileColumnListing()).toContain('sys.columns');
+  });
+
+  test('compileColumnType joins sys.types', () => {
+    expect(grammar.compileColumnType()).toContain('sys.types');
+  });
+
+  test('compileIndexExists returns sys.indexes query', () => {
+    expect(grammar.compileIndexExists()).toContain('sys.indexes');
+  });
+
+  test('compileDropTableIfExists checks object_id', () => {
+    expect(grammar.compileDropTableIfExists('users')).toBe(
+      "if object_id(N'[users]', 'U') is not null drop table [users]"
+    );
+  });
+
+  test('compileRenameTable uses sp_rename', () => {
+    expect(grammar.compileRenameTable('old_table', 'new_table')).toBe("sp_rename N'[old_table]', N'new_table'");
+  });
+
+  test('compileRenameColumn uses sp_rename with COLUMN', () => {
+    expect(grammar.compileRenameColumn('users', 'name', 'full_name')).toBe(
+      "sp_rename N'[users].[name]', N'full_name', N'COLUMN'"
+    );
+  });
+
+  test('compileRenameIndex uses sp_rename with INDEX', () => {
+    expect(grammar.compileRenameIndex('users', 'a_idx', 'b_idx')).toBe(
+      "sp_rename N'[users].[a_idx]', N'b_idx', N'INDEX'"
+    );
+  });
+
+  test('compileAddColumn omits the COLUMN keyword', () => {
+    expect(grammar.compileAddColumn('users', '[age] int')).toBe('alter table [users] add [age] int');
+  });
+
+  test('compileModifyColumn uses alter column', () => {
+    expect(grammar.compileModifyColumn('users', '[age] bigint')).toBe('alter table [users] alter column [age] bigint');
+  });
+
+  test('compileDropColumn drops the default constraint first', () => {
+    const sql = grammar.compileDropColumn('users', 'status');
+    expect(sql).toContain('default_object_id');
+    expect(sql.indexOf('default_object_id')).toBeLessThan(sql.indexOf('drop column'));
+    expect(sql).toMatch(/alter table \[users\] drop column \[status\]$/);
+  });
+
+  test('foreign key constraint toggles avoid the ? placeholder', () => {
+    expect(grammar.compileEnableForeignKeyConstraints()).toContain('with check check constraint all');
+    expect(grammar.compileDisableForeignKeyConstraints()).toContain('nocheck constraint all');
+    expect(grammar.compileDisableForeignKeyConstraints()).not.toContain('?');
+  });
+
+  test('compileForeign maps restrict to no action', () => {
+    const sql = grammar.compileForeign('posts', {
+      columns: ['user_id'], references: ['id'], on: 'users', onDelete: 'restrict', onUpdate: 'cascade',
+    });
+    expect(sql).toBe(
+      'ALTER TABLE [posts] ADD FOREIGN KEY ([user_id]) REFERENCES [users] ([id]) ON DELETE NO ACTION ON UPDATE CASCADE'
+    );
+  });
+
+  test('compileColumns reads sys.columns for the table', () => {
+    const sql = grammar.compileColumns('dbo', "user's");
+    expect(sql).toContain('from sys.columns as col');
+    expect(sql).toContain("obj.name = N'user''s'");
+    expect(sql).toContain('col.is_identity as auto_increment');
+  });
+
+  test('compileIndexes and compileForeignKeys read the sys views', () => {
+    const indexes = grammar.compileIndexes('dbo', 'posts');
+    expect(indexes).toContain('from sys.indexes as idx');
+    expect(indexes).toContain("tbl.name = N'posts'");
+
+    const foreignKeys = grammar.compileForeignKeys('dbo', 'posts');
+    expect(foreignKeys).toContain('from sys.foreign_keys as fk');
+    expect(foreignKeys).toContain("lt.name = N'posts'");
+  });
+
+  test('compileTables and compileViews read the default schema', () => {
+    const tables = grammar.compileTables('app');
+    expect(tables).toContain('sum(u.total_pages) * 8 * 1024 as size');
+    expect(tables).toContain('t.schema_id = schema_id()');
+
+    const views = grammar.compileViews('app');
+    expect(views).toContain('join sys.sql_modules as m on v.object_id = m.object_id');
+    expect(views).toContain('v.schema_id = schema_id()');
+  });
+
+  test('compileColumns selects collations and MS_Description comments', () => {
+    const sql = grammar.compileColumns('app', 'users');
+    expect(sql).toContain('col.collation_name as collation');
+    expect(sql).toContain("prop.name = 'MS_Description'");
+  });
+
+  // ---- getType mapping ----
+  describe('getType', () => {
+    const getType = (type: string, extra?: any) => {
+      return (grammar as any).getType({ type, ...extra });
+    };
+
+    test('increments → int', () => expect(getType('increments')).toBe('int'));
+    test('bigincrements → bigint', () => expect(getType('bigincrements')).toBe('bigint'));
+    test('string → nvarchar(255)', () => expect(getType('string')).toBe('nvarchar(255)'));
+    test('string with length → nvarchar(100)', () => expect(getType('string', { length: 100 })).toBe('nvarchar(100)'));
+    test('text → nvarchar(max)', () => expect(getType('text')).toBe('nvarchar(max)'));
+    test('tinyinteger → tinyint', () => expect(getType('tinyinteger')).toBe('tinyint'));
+    test('double → float', () => expect(getType('double')).toBe('float'));
+    test('decimal → decimal(8, 2)', () => expect(getType('decimal')).toBe('decimal(8, 2)'));
+    test('boolean → bit', () => expect(getType('boolean')).toBe('bit'));
+    test('timestamp → datetime2', () => expect(getType('timestamp')).toBe('datetime2'));
+    test('binary → varbinary(max)', () => expect(getType('binary')).toBe('varbinary(max)'));
+    test('uuid → uniqueidentifier', () => expect(getType('uuid')).toBe('uniqueidentifier'));
+    test('json → nvarchar(max)', () => expect(getType('json')).toBe('nvarchar(max)'));
+    test('unknown type passes through', () => expect(getType('customtype')).toBe('customtype'));
+  });
+
+  // ---- compileColumn ----
+  describe('compileColumn', () => {
+    test('increments is an identity primary key', () => {
+      const sql = grammar.compileColumn({ name: 'id', type: 'increments', _primary: true });
+      expect(sql).toBe('[id] int identity not null primary key');
+    });
+
+    test('nullable column', () => {
+      expect(grammar.compileColumn({ name: 'email', type: 'string', _nullable: true })).toBe('[email] nvarchar(255) null');
+    });
+
+    test('boolean default becomes a bit literal', () => {
+      expect(grammar.compileColumn({ name: 'active', type: 'boolean', _default: true })).toBe('[active] bit default 1');
+    });
+
+    test('string default becomes a unicode literal', () => {
+      expect(grammar.compileColumn({ name: 'status', type: 'string', _default: "it's" })).toContain("default N'it''s'");
+    });
+
+    test('enum adds a check constraint', () => {
+      const sql = grammar.compileColumn({ name: 'role', type: 'enum', allowed: ['admin', 'user'] });
+      expect(sql).toBe("[role] nvarchar(255) check ([role] in (N'admin', N'user'))");
+    });
+
+    test('unique constraint', () => {
+      expect(grammar.compileColumn({ name: 'email', type: 'string', _unique: true })).toContain('unique');
+    });
+  });
+});
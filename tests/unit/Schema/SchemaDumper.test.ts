@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SchemaDumper } from '../../../src/Schema/SchemaDumper';
+import { PostgresGrammar } from '../../../src/Schema/Grammars/PostgresGrammar';
+import { SqliteGrammar } from '../../../src/Schema/Grammars/SqliteGrammar';
+
+const column = (name: string, type: string, attributes: Record<string, any> = {}) => ({
+  name,
+  typeName: type,
+  type,
+  nullable: false,
+  default: null,
+  autoIncrement: false,
+  enumValues: null,
+  collation: null,
+  comment: null,
+  ...attributes,
+});
+
+const primary = (table: string) => ({
+  name: `${table}_pkey`, columns: ['id'], type: 'btree', unique: true, primary: true,
+});
+
+const tables: Record<string, any> = {
+  users: {
+    columns: [
+      column('id', 'bigint', { autoIncrement: true }),
+      column('email', 'varchar', { comment: 'Login' }),
+      column('role', 'user_role', { default: "'member'::user_role", enumValues: ['admin', 'member'] }),
+    ],
+    indexes: [
+      primary('users'),
+      {
+        name: 'users_email_unique', columns: ['email'], type: 'btree', unique: true, primary: false,
+      },
+    ],
+    foreignKeys: [],
+  },
+  posts: {
+    columns: [column('id', 'bigint', { autoIncrement: true }), column('user_id', 'bigint', { nullable: true })],
+    indexes: [primary('posts')],
+    foreignKeys: [{
+      name: 'posts_user_id_foreign',
+      columns: ['user_id'],
+      foreignSchema: 'public',
+      foreignTable: 'users',
+      foreignColumns: ['id'],
+      onUpdate: 'no action',
+      onDelete: 'cascade',
+    }],
+  },
+  migrations: {
+    columns: [column('id', 'integer', { autoIncrement: true }), column('migration', 'varchar'), column('batch', 'integer')],
+    indexes: [primary('migrations')],
+    foreignKeys: [],
+  },
+};
+
+function mockConnection(grammar: any) {
+  const query: any = {
+    select: jest.fn().mockReturnThis(),
+    orderBy: jest.fn().mockReturnThis(),
+    get: jest.fn().mockResolvedValue([{ migration: '2024_01_01_000000_create_users_table', batch: '1' }]),
+  };
+
+  return {
+    getName: () => 'pgsql',
+    getTablePrefix: () => '',
+    getSchemaGrammar: () => grammar,
+    getSchemaBuilder: () => ({
+      getTables: async () => Object.keys(tables).map((name) => ({
+        name, schema: 'public', size: 8192, comment: name === 'users' ? 'People' : null, collation: null, engine: null,
+      })),
+      getViews: async () => [{ name: 'active_users', schema: 'public', definition: ' SELECT id FROM users;' }],
+      getColumns: async (table: string) => tables[table].columns,
+      getIndexes: async (table: string) => tables[table].indexes,
+      getForeignKeys: async (table: string) => tables[table].foreignKeys,
+    }),
+    table: jest.fn().mockReturnValue(query),
+    unprepared: jest.fn().mockResolvedValue(true),
+  } as any;
+}
+
+describe('Schema / SchemaDumper', () => {
+  test('compile recreates types, tables, foreign keys, views and migration rows in order', async () => {
+    const statements = await new SchemaDumper(mockConnection(new PostgresGrammar())).compile();
+
+    expect(statements).toEqual([
+      'create type "user_role" as enum (\'admin\', \'member\')',
+      'create table "users" ("id" bigint generated by default as identity not null, "email" varchar not null, "role" user_role not null default \'member\'::user_role, primary key ("id"))',
+      'create unique index "users_email_unique" on "users" ("email")',
+      'comment on table "users" is \'People\'',
+      'comment on column "users"."email" is \'Login\'',
+      'create table "posts" ("id" bigint generated by default as identity not null, "user_id" bigint null, primary key ("id"))',
+      'create table "migrations" ("id" integer generated by default as identity not null, "migration" varchar not null, "batch" integer not null, primary key ("id"))',
+      'ALTER TABLE "posts" ADD FOREIGN KEY ("user_id") REFERENCES "users" ("id") ON DELETE CASCADE ON UPDATE NO ACTION',
+      'create view "active_users" as SELECT id FROM users',
+      'insert into "migrations" ("migration", "batch") values (\'2024_01_01_000000_create_users_table\', 1)',
+    ]);
+  });
+
+  test('sqlite dumps declare foreign keys inside the table', async () => {
+    const statements = await new SchemaDumper(mockConnection(new SqliteGrammar())).compile();
+
+    expect(statements).toContain(
+      'create table "posts" ("id" bigint primary key autoincrement not null, "user_id" bigint, foreign key ("user_id") references "users" ("id") on update no action on delete cascade)',
+    );
+    expect(statements.some((statement) => statement.startsWith('ALTER TABLE'))).toBe(false);
+  });
+
+  test('dump writes a file that load runs statement by statement', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'guruorm-schema-'));
+    const filePath = path.join(directory, 'schema', 'pgsql-schema.sql');
+    const connection = mockConnection(new PostgresGrammar());
+    const dumper = new SchemaDumper(connection);
+
+    try {
+      await dumper.dump(filePath);
+
+      expect(fs.readFileSync(filePath, 'utf8')).toMatch(/^-- Schema of the "pgsql" connection/);
+
+      await dumper.load(filePath);
+
+      expect(connection.unprepared.mock.calls.map(([sql]: string[]) => sql)).toEqual(await dumper.compile());
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import { Writable } from 'stream';
+import { exportCsv, exportNdjson } from '../../../src/Support/Export';
+
+function sink(): { stream: Writable; output: () => string } {
+  const chunks: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(chunk.toString());
+      callback();
+    },
+  });
+  return { stream, output: () => chunks.join('') };
+}
+
+async function* rows(...items: Record<string, any>[]) {
+  yield* items;
+}
+
+describe('Support / Export', () => {
+  describe('exportCsv', () => {
+    test('writes a header line and one line per row', async () => {
+      const { stream, output } = sink();
+      const count = await exportCsv(rows({ id: 1, name: 'Ada' }, { id: 2, name: 'Linus' }), stream);
+
+      expect(count).toBe(2);
+      expect(output()).toBe('id,name\n1,Ada\n2,Linus\n');
+    });
+
+    test('quotes fields containing delimiters, quotes and line breaks', async () => {
+      const { stream, output } = sink();
+      await exportCsv(rows({ note: 'a,b' }, { note: 'say "hi"' }, { note: 'two\nlines' }), stream, { headers: false });
+
+      expect(output()).toBe('"a,b"\n"say ""hi"""\n"two\nlines"\n');
+    });
+
+    test('formats dates, objects and empty values', async () => {
+      const { stream, output } = sink();
+      await exportCsv(rows({
+        at: new Date('2024-05-03T10:00:00Z'),
+        meta: { tags: ['a'] },
+        missing: null,
+      }), stream, { headers: false });
+
+      expect(output()).toBe('2024-05-03T10:00:00.000Z,"{""tags"":[""a""]}",\n');
+    });
+
+    test('uses the given columns and delimiter', async () => {
+      const { stream, output } = sink();
+      await exportCsv(rows({ id: 1, name: 'Ada', email: 'a@b.c' }), stream, { columns: ['email', 'id'], delimiter: ';' });
+
+      expect(output()).toBe('email;id\na@b.c;1\n');
+    });
+
+    test('writes only the header for an empty result with known columns', async () => {
+      const { stream, output } = sink();
+      const count = await exportCsv(rows(), stream, { columns: ['id'] });
+
+      expect(count).toBe(0);
+      expect(output()).toBe('id\n');
+    });
+
+    test('stops reading rows when the writable fails', async () => {
+      let closed = false;
+      async function* source() {
+        try {
+          yield { id: 1 };
+          yield { id: 2 };
+        } finally {
+          closed = true;
+        }
+      }
+      const stream = new Writable({
+        write(_chunk, _encoding, callback) {
+          callback(new Error('disk full'));
+        },
+      });
+
+      await expect(exportCsv(source(), stream)).rejects.toThrow('disk full');
+      expect(closed).toBe(true);
+    });
+  });
+
+  describe('exportNdjson', () => {
+    test('writes one JSON document per line', async () => {
+      const { stream, output } = sink();
+      const count = await exportNdjson(rows({ id: 1, at: new Date('2024-05-03T10:00:00Z') }, { id: 2, at: null }), stream);
+
+      expect(count).toBe(2);
+      expect(output()).toBe('{"id":1,"at":"2024-05-03T10:00:00.000Z"}\n{"id":2,"at":null}\n');
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   snakeCase,
   camelCase,
   studlyCase,
+  singular,
   dataGet,
   dataSet,
   value,
@@ -86,6 +87,20 @@ describe('Support / helpers', () => {
     });
   });
 
+  describe('singular', () => {
+    test('singularizes common plural endings', () => {
+      expect(singular('users')).toBe('user');
+      expect(singular('categories')).toBe('category');
+      expect(singular('boxes')).toBe('box');
+      expect(singular('statuses')).toBe('status');
+    });
+
+    test('leaves singular words alone', () => {
+      expect(singular('address')).toBe('address');
+      expect(singular('data')).toBe('data');
+    });
+  });
+
   describe('dataGet', () => {
     test('gets nested value with dot notation', () => {
       const obj = { a: { b: { c: 42 } } };